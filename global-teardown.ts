@@ -1,10 +1,12 @@
-import { clearRunState } from "./src/utils/dataStore";
+import { clearRunState, exportRunState } from "./src/utils/dataStore";
 import { deleteFactoryForTest, factoryExistsForTest } from "./src/cli/utils/factoryTestUtils";
 
 async function globalTeardown() {
   // Clear run state at the end of the run (unless PILOT_KEEP_RUNSTATE=true)
   if (process.env.PILOT_KEEP_RUNSTATE === "true") {
     console.log("[PILOT] Keeping existing runState (PILOT_KEEP_RUNSTATE=true)");
+    // Export runState.json so the kept state can be read by hand or attached to ADO results
+    await exportRunState();
   } else {
     // Clear run state at the end of the run (optional - it's also cleared at start)
     await clearRunState();
@@ -6,6 +6,7 @@ module.exports = {
     '<rootDir>/src/testdata/__tests__',
     '<rootDir>/src/utils/__tests__',
     '<rootDir>/src/integrations/salesforce/__tests__',
+    '<rootDir>/src/integrations/azureDevops/__tests__',
   ],
   testMatch: ['**/*.test.ts'],
   maxWorkers: 1, // Run tests serially to avoid memory issues
@@ -28,6 +29,7 @@ module.exports = {
     'src/testdata/**/*.ts',
     'src/utils/**/*.ts',
     'src/integrations/salesforce/**/*.ts',
+    'src/integrations/azureDevops/**/*.ts',
     '!src/**/*.d.ts',
     '!src/**/__tests__/**',
   ],
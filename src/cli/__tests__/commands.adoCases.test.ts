@@ -0,0 +1,158 @@
+/**
+ * Tests for suite:add --from-ado against a local HTTP stub of the Azure DevOps Test Plans API.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, jest } from "@jest/globals";
+import http from "http";
+import type { AddressInfo } from "net";
+import { readFileSync } from "fs";
+import path from "path";
+import { mocked, setupBeforeEach, teardownAfterEach, teardownAfterAll } from "./testUtils";
+
+// Mock dependencies
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+  checkbox: jest.fn(),
+}));
+jest.mock("../utils/fileOps");
+jest.mock("../utils/validation");
+jest.mock("../utils/templates");
+jest.mock("../../utils/featureConfig");
+jest.mock("../utils/dataStoreUpdater");
+jest.mock("fast-glob", () => ({
+  __esModule: true,
+  default: jest.fn<(pattern: string, options?: any) => Promise<string[]>>(),
+}));
+
+// Import mocked modules
+import * as prompts from "@inquirer/prompts";
+import * as fileOps from "../utils/fileOps";
+import * as templates from "../utils/templates";
+import * as featureConfig from "../../utils/featureConfig";
+import glob from "fast-glob";
+import { addSpec } from "../commands/spec";
+import { paths } from "../utils/paths";
+
+const STEPS_FIELD = "Microsoft.VSTS.TCM.Steps";
+
+const STEPS_XML =
+  '<steps id="0" last="4">' +
+  '<step id="2" type="ActionStep"><parameterizedString isformatted="true">&lt;DIV&gt;&lt;P&gt;Open the invoice list&lt;/P&gt;&lt;/DIV&gt;</parameterizedString><parameterizedString isformatted="true">&lt;P&gt;Invoices are shown&lt;/P&gt;&lt;P&gt;Newest first&lt;/P&gt;</parameterizedString><description/></step>' +
+  '<step id="3" type="ActionStep"><parameterizedString isformatted="true">&lt;P&gt;Click &amp;quot;Export&amp;quot; &amp;amp; save&lt;/P&gt;</parameterizedString><parameterizedString isformatted="true"/><description/></step>' +
+  "</steps>";
+
+describe("CLI Commands - Suite From ADO Tests", () => {
+  let server: http.Server;
+  let requests: string[];
+  let routes: Record<string, { status: number; body: unknown }>;
+  const originalEnv = { ...process.env };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url ?? "");
+      const route = routes[(req.url ?? "").split("?")[0]];
+      res.writeHead(route ? route.status : 404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(route ? route.body : { message: "Not found" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    teardownAfterAll();
+  });
+
+  beforeEach(async () => {
+    await setupBeforeEach();
+    const { port } = server.address() as AddressInfo;
+    process.env.ADO_ORG_URL = `http://127.0.0.1:${port}/org`;
+    process.env.ADO_PROJECT = "Pilot";
+    process.env.ADO_TOKEN = "stub-token";
+    requests = [];
+    routes = {
+      "/org/Pilot/_apis/testplan/Plans/42/Suites/501/TestCase": {
+        status: 200,
+        body: {
+          count: 2,
+          value: [
+            { workItem: { id: 9001, name: "Export invoices", workItemFields: [{ [STEPS_FIELD]: STEPS_XML }] } },
+            { workItem: { id: 9002, name: 'Empty "draft" case', workItemFields: [] } },
+          ],
+        },
+      },
+    };
+
+    mocked(templates.loadTemplate).mockImplementation(async (templateName: string) =>
+      readFileSync(path.join(__dirname, "../templates", templateName), "utf-8")
+    );
+    mocked(featureConfig.getAvailableFeatureKeys).mockReturnValue(["billing"]);
+    mocked(fileOps.readJsonSafe).mockImplementation(async (filePath: string) =>
+      filePath === paths.featureConfig() ? { billing: { tag: "@billing", planId: 42, suites: {} } } : {}
+    );
+    mocked(glob).mockResolvedValue([]);
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await teardownAfterEach();
+  });
+
+  function writtenSpec(): { fileName: string; content: string } {
+    const call = mocked(fileOps.writeFileSafe).mock.calls.find(([filePath]) => filePath.endsWith(".spec.ts"));
+    return { fileName: path.basename(call![0]), content: call![1] };
+  }
+
+  it("should generate one test per case and one step per ADO step", async () => {
+    await addSpec("billing", { suiteName: "invoices", suiteId: 501, fromAdo: true });
+
+    const { fileName, content } = writtenSpec();
+    expect(fileName).toBe("BILL-101-invoices.spec.ts");
+    expect(content).toContain('test.describe.serial("BILL-101 - Invoices @billing", () => {');
+    expect(content).toContain("// ADO Suite IDs: 501");
+    expect(content).toContain(
+      '  test("[9001] Export invoices", async ({ page }) => {\n' +
+        '    await test.step("Open the invoice list", async () => {\n' +
+        "      // Expected: Invoices are shown\n" +
+        "      // Newest first\n" +
+        "    });\n\n" +
+        '    await test.step("Click \\"Export\\" & save", async () => {\n' +
+        "      // Your code here...\n" +
+        "    });\n" +
+        "  });"
+    );
+    expect(content).toContain('  test("[9002] Empty \\"draft\\" case", async ({ page }) => {');
+    expect(content).not.toContain("flow");
+    expect(requests).toEqual([`/org/Pilot/_apis/testplan/Plans/42/Suites/501/TestCase?witFields=${STEPS_FIELD}&api-version=7.0`]);
+  });
+
+  it("should create the feature with case stubs when it does not exist", async () => {
+    mocked(fileOps.readJsonSafe).mockResolvedValue({});
+    mocked(prompts.confirm).mockResolvedValue(true);
+
+    await addSpec("invoicing", { suiteName: "invoices", suiteId: 501, planId: 42, fromAdo: true });
+
+    const configCall = mocked(fileOps.writeJsonSafe).mock.calls.find(([filePath]) => filePath === paths.featureConfig());
+    expect(configCall?.[1]).toEqual({ invoicing: { tag: "@invoicing", planId: 42, suites: { "501": "Invoices" } } });
+    const { fileName, content } = writtenSpec();
+    expect(fileName).toBe("INVO-101-invoices.spec.ts");
+    expect(content).toContain('test("[9001] Export invoices", async ({ invoicingPage }) => {');
+  });
+
+  it("should fall back to the default template when the suite has no test cases", async () => {
+    routes["/org/Pilot/_apis/testplan/Plans/42/Suites/501/TestCase"].body = { value: [] };
+
+    await addSpec("billing", { suiteName: "invoices", suiteId: 501, fromAdo: true });
+
+    expect(templates.loadTemplate).toHaveBeenCalledWith("spec.ts");
+    expect(templates.loadTemplate).not.toHaveBeenCalledWith("spec-cases.ts");
+  });
+
+  it("should report a suite missing from the plan", async () => {
+    await expect(addSpec("billing", { suiteName: "refunds", suiteId: 777, fromAdo: true })).rejects.toThrow(
+      "Suite 777 not found in test plan 42"
+    );
+    expect(fileOps.writeFileSafe).not.toHaveBeenCalled();
+  });
+});
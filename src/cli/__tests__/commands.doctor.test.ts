@@ -0,0 +1,235 @@
+/**
+ * Tests for CLI doctor command (project structure consistency audit).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import path from "path";
+
+// Mock dependencies before imports
+const fileOpsMock = {
+  readFileSafe: jest.fn<(filePath: string) => Promise<string | null>>(),
+  readJsonSafe: jest.fn<(filePath: string) => Promise<unknown>>(),
+  writeFileSafe: jest.fn<(filePath: string, content: string, overwrite?: boolean) => Promise<void>>(),
+  fileExists: jest.fn<(filePath: string) => boolean>(),
+  dirExists: jest.fn<(dirPath: string) => boolean>(),
+  isDryRun: jest.fn(),
+};
+
+const globMock = jest.fn<(pattern: string, options?: any) => Promise<string[]>>();
+
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+}));
+jest.mock("../utils/fileOps", () => fileOpsMock);
+jest.mock("fast-glob", () => ({
+  glob: globMock,
+  default: globMock,
+}));
+jest.mock("../../testdata/system", () => ({
+  system: { salesforce: { users: { admin: "system.salesforce.users.admin", sales: "system.salesforce.users.sales" } } },
+}));
+
+// Import after mocks are set up
+import { runDoctor, auditProject } from "../commands/doctor";
+import { REPO_ROOT } from "../utils/paths";
+
+const FIXTURES = `import { test as base } from "@playwright/test";
+import { BillingPage } from "../../src/pages/billing/BillingPage";
+
+type Fixtures = {
+  billingPage: BillingPage;
+};
+
+export const test = base.extend<Fixtures>({
+  billingPage: async ({ page }, use) => {
+    await use(new BillingPage(page));
+  },
+});
+`;
+
+const SPEC = `import { test } from "../fixtures/test-fixtures";
+
+// ---
+// ADO Suite IDs: 100
+// ---
+
+test.describe.serial("BILL-101 - Invoices @billing", () => {});
+`;
+
+describe("CLI Commands - Doctor Tests", () => {
+  let files: Record<string, string>;
+  let globResults: Record<string, string[]>;
+  let consoleOutput: string[];
+  let originalConsoleLog: typeof console.log;
+
+  function repoFile(relativePath: string): string {
+    return path.join(REPO_ROOT, relativePath);
+  }
+
+  beforeEach(() => {
+    consoleOutput = [];
+    originalConsoleLog = console.log;
+    console.log = jest.fn((...args: unknown[]) => {
+      consoleOutput.push(args.join(" "));
+    });
+
+    files = {
+      [repoFile("tests/fixtures/test-fixtures.ts")]: FIXTURES,
+      [repoFile("tests/billing/BILL-101-invoices.spec.ts")]: SPEC,
+      [repoFile("src/testdata/factories/index.ts")]: "export * from './user.factory';\n",
+      [repoFile("src/testdata/factories/user.factory.ts")]: "export function createUser() {}\n",
+      [repoFile("src/testdata/models/index.ts")]: "export * from './user';\n\nimport type { User } from './user';\n\nexport interface ModelMap {\n  User: User;\n}",
+      [repoFile("src/testdata/models/user.ts")]: "export interface User {\n  id: string;\n}\n",
+    };
+    globResults = {
+      "*.spec.ts": ["BILL-101-invoices.spec.ts"],
+      "tests/*": ["tests/billing", "tests/fixtures", "tests/tools"],
+      "tests/*/**/*.spec.ts": ["tests/billing/BILL-101-invoices.spec.ts", "tests/tools/TOOLS-001.spec.ts"],
+      "src/pages/*/*Page.ts": ["src/pages/billing/BillingPage.ts"],
+      "src/testdata/factories/*.factory.ts": ["src/testdata/factories/user.factory.ts"],
+      "src/testdata/models/*.ts": ["src/testdata/models/index.ts", "src/testdata/models/user.ts"],
+    };
+
+    fileOpsMock.readFileSafe.mockReset().mockImplementation(async (filePath) => files[filePath] ?? null);
+    fileOpsMock.readJsonSafe.mockReset().mockResolvedValue({
+      billing: { tag: "@billing", planId: 10, suites: { "100": "Invoices" } },
+    });
+    fileOpsMock.writeFileSafe.mockReset().mockResolvedValue(undefined);
+    fileOpsMock.fileExists.mockReset().mockImplementation((filePath) => filePath in files);
+    fileOpsMock.dirExists.mockReset().mockReturnValue(true);
+    globMock.mockReset().mockImplementation(async (pattern) => globResults[pattern] ?? []);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+  });
+
+  it("should report a consistent project", async () => {
+    expect(await auditProject()).toEqual([]);
+    expect(await runDoctor()).toBe(true);
+    expect(consoleOutput).toContain("PROJECT STRUCTURE CONSISTENT");
+  });
+
+  it("should report suites without specs and spec suite IDs not in config", async () => {
+    fileOpsMock.readJsonSafe.mockResolvedValue({
+      billing: { tag: "@billing", planId: 10, suites: { "200": "Refunds" } },
+    });
+
+    const messages = (await auditProject()).map((finding) => finding.message);
+
+    expect(messages).toContain('Feature "billing": suite 200 "Refunds" has no spec in tests/billing');
+    expect(messages).toContain('Spec "tests/billing/BILL-101-invoices.spec.ts": suite ID 100 is not in featureConfig.json');
+  });
+
+  it("should report missing test folders, orphan folders and unknown tags", async () => {
+    fileOpsMock.readJsonSafe.mockResolvedValue({
+      payments: { tag: "@payments", planId: 11, suites: { "300": "Cards" } },
+    });
+    fileOpsMock.dirExists.mockReturnValue(false);
+
+    const findings = await auditProject();
+    const messages = findings.map((finding) => finding.message);
+
+    expect(findings).toContainEqual({ type: "error", message: 'Feature "payments": test folder tests/payments not found' });
+    expect(messages).toContain('Test folder "tests/billing": no matching feature in featureConfig.json');
+    expect(messages).toContain('Spec "tests/billing/BILL-101-invoices.spec.ts": tag @billing is not in featureConfig.json');
+    // Framework folders are not features
+    expect(messages.some((message) => message.includes("tests/tools") || message.includes("tests/fixtures"))).toBe(false);
+  });
+
+  it("should report page files with no fixture and wire them with --fix", async () => {
+    globResults["src/pages/*/*Page.ts"].push("src/pages/billing/InvoiceListPage.ts");
+
+    const findings = await auditProject();
+    const pageFinding = findings.find((finding) => finding.message.includes("InvoiceListPage"));
+
+    expect(pageFinding?.type).toBe("error");
+    expect(pageFinding?.fix).toBeDefined();
+
+    const consistent = await runDoctor({ fix: true });
+
+    expect(consistent).toBe(false); // re-audit reads the mocked, unchanged fixtures file
+    const fixturesWrite = fileOpsMock.writeFileSafe.mock.calls.find(([filePath]) => filePath === repoFile("tests/fixtures/test-fixtures.ts"));
+    expect(fixturesWrite?.[1]).toContain('import { InvoiceListPage } from "../../src/pages/billing/InvoiceListPage";');
+    expect(fixturesWrite?.[1]).toContain("invoiceListPage: InvoiceListPage;");
+    expect(fixturesWrite?.[1]).toContain("invoiceListPage: async ({ page }, use) => {");
+  });
+
+  it("should report orphaned fixtures", async () => {
+    globResults["src/pages/*/*Page.ts"] = [];
+
+    const findings = await auditProject();
+
+    expect(findings).toContainEqual(
+      expect.objectContaining({
+        type: "warning",
+        message: 'Fixture "billingPage": page file BillingPage.ts not found (orphaned fixture)',
+      })
+    );
+  });
+
+  it("should report barrel mismatches and models without factories", async () => {
+    files[repoFile("src/testdata/factories/index.ts")] = "export * from './user.factory';\nexport * from './order.factory';\n";
+    globResults["src/testdata/factories/*.factory.ts"].push("src/testdata/factories/invoice.factory.ts");
+    globResults["src/testdata/models/*.ts"].push("src/testdata/models/invoice.ts");
+    files[repoFile("src/testdata/models/invoice.ts")] = "export interface Invoice {\n  id: string;\n}\n";
+
+    const messages = (await auditProject()).map((finding) => finding.message);
+
+    expect(messages).toContain('Factory "invoice": not exported from factories/index.ts');
+    expect(messages).toContain('Factory export "order": factory file not found (stale export)');
+    expect(messages).toContain('Model "Invoice": not exported from models/index.ts');
+    expect(messages).toContain('Model "invoice": no factory (run "pilot factory:add invoice")');
+  });
+
+  it("should apply barrel repairs with --fix", async () => {
+    files[repoFile("src/testdata/factories/index.ts")] = "export * from './user.factory';\nexport * from './order.factory';\n";
+
+    await runDoctor({ fix: true });
+
+    expect(fileOpsMock.writeFileSafe).toHaveBeenCalledWith(
+      repoFile("src/testdata/factories/index.ts"),
+      "export * from './user.factory';\n",
+      true
+    );
+    expect(consoleOutput).toContain('Repaired: removed stale "order" export from factories/index.ts');
+  });
+
+  it("should report system keys an environment overlay has no value for", async () => {
+    globResults["src/testdata/dataStore.*.json"] = ["src/testdata/dataStore.qa.json", "src/testdata/dataStore.staging.json"];
+    const stores: Record<string, unknown> = {
+      [repoFile("src/testdata/dataStore.json")]: { "system.salesforce.users.sales": { username: "sales" } },
+      [repoFile("src/testdata/dataStore.qa.json")]: {
+        "system.salesforce.users.admin": { username: "admin@qa" },
+        "system.salesforce.users.sales": { username: "sales@qa" },
+      },
+      [repoFile("src/testdata/dataStore.staging.json")]: {},
+    };
+    fileOpsMock.readJsonSafe.mockImplementation(async (filePath) =>
+      filePath in stores ? stores[filePath] : { billing: { tag: "@billing", planId: 10, suites: { "100": "Invoices" } } }
+    );
+
+    expect(await auditProject()).toEqual([
+      {
+        type: "error",
+        message: 'System key "system.salesforce.users.admin": no value in staging (not in dataStore.json or dataStore.staging.json)',
+      },
+      {
+        type: "warning",
+        message: 'System key "system.salesforce.users.sales": staging falls back to dataStore.json (overridden in qa)',
+      },
+    ]);
+  });
+
+  it("should return false when errors are found", async () => {
+    fileOpsMock.readFileSafe.mockImplementation(async (filePath) =>
+      filePath.endsWith("test-fixtures.ts") ? null : files[filePath] ?? null
+    );
+
+    expect(await runDoctor()).toBe(false);
+    expect(consoleOutput).toContain("ERROR test-fixtures.ts not found");
+    expect(consoleOutput).toContain("PROJECT STRUCTURE INCONSISTENT");
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for --dry-run: in-memory file changes and unified diff output.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { tmpdir } from "os";
+import {
+  startDryRun,
+  endDryRun,
+  isDryRun,
+  readFileSafe,
+  writeFileSafe,
+  writeJsonSafe,
+  deleteFileSafe,
+  deleteDirSafe,
+  deleteEmptyDirSafe,
+  fileExists,
+  dirExists,
+} from "../utils/fileOps";
+import { createUnifiedDiff, colorizeDiff } from "../utils/diff";
+
+describe("CLI Commands - Dry Run Tests", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(tmpdir(), "pilot-dryrun-"));
+  });
+
+  afterEach(async () => {
+    if (isDryRun()) await endDryRun();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => { });
+  });
+
+  describe("fileOps in dry-run mode", () => {
+    it("should keep writes in memory and report them", async () => {
+      const existingPath = path.join(testDir, "fixtures.ts");
+      const newPath = path.join(testDir, "pages", "LoginPage.ts");
+      await fs.writeFile(existingPath, "line 1\nline 2\n");
+
+      startDryRun();
+      await writeFileSafe(existingPath, "line 1\nline 2 changed\n", true);
+      await writeFileSafe(newPath, "export class LoginPage {}\n");
+      await writeJsonSafe(path.join(testDir, "config.json"), { a: 1 });
+
+      // Later steps see pending content
+      expect(await readFileSafe(existingPath)).toBe("line 1\nline 2 changed\n");
+      expect(fileExists(newPath)).toBe(true);
+      expect(dirExists(path.join(testDir, "pages"))).toBe(true);
+      await expect(writeFileSafe(newPath, "again")).rejects.toThrow("File already exists");
+
+      const changes = await endDryRun();
+
+      expect(changes.map((change) => path.basename(change.filePath))).toEqual(["config.json", "fixtures.ts", "LoginPage.ts"]);
+      expect(changes[1]).toEqual({ filePath: existingPath, before: "line 1\nline 2\n", after: "line 1\nline 2 changed\n" });
+      expect(await fs.readFile(existingPath, "utf-8")).toBe("line 1\nline 2\n");
+      expect(fileExists(newPath)).toBe(false);
+      expect(isDryRun()).toBe(false);
+    });
+
+    it("should record deletes without removing files", async () => {
+      const featureDir = path.join(testDir, "tests", "billing");
+      await fs.mkdir(featureDir, { recursive: true });
+      await fs.writeFile(path.join(featureDir, "invoices.spec.ts"), "spec\n");
+      const pagePath = path.join(testDir, "BillingPage.ts");
+      await fs.writeFile(pagePath, "page\n");
+
+      startDryRun();
+      await deleteFileSafe(pagePath);
+      await deleteDirSafe(featureDir);
+
+      expect(fileExists(pagePath)).toBe(false);
+      expect(dirExists(featureDir)).toBe(false);
+      expect(await readFileSafe(path.join(featureDir, "invoices.spec.ts"))).toBeNull();
+
+      const changes = await endDryRun();
+
+      expect(changes).toEqual([
+        { filePath: pagePath, before: "page\n", after: null },
+        { filePath: path.join(featureDir, "invoices.spec.ts"), before: "spec\n", after: null },
+      ]);
+      expect(await fs.readFile(pagePath, "utf-8")).toBe("page\n");
+    });
+
+    it("should treat a directory as empty once its files are pending deletion", async () => {
+      const pageDir = path.join(testDir, "pages", "billing");
+      await fs.mkdir(pageDir, { recursive: true });
+      await fs.writeFile(path.join(pageDir, "BillingPage.ts"), "page\n");
+
+      startDryRun();
+      expect(await deleteEmptyDirSafe(pageDir)).toBe(false);
+      await deleteFileSafe(path.join(pageDir, "BillingPage.ts"));
+      expect(await deleteEmptyDirSafe(pageDir)).toBe(true);
+      expect(dirExists(pageDir)).toBe(false);
+      await endDryRun();
+
+      expect(dirExists(pageDir)).toBe(true);
+    });
+
+    it("should drop files that are created and removed in the same run", async () => {
+      const gitkeepPath = path.join(testDir, "tests", "new-feature", ".gitkeep");
+
+      startDryRun();
+      await writeFileSafe(gitkeepPath, "", true);
+      await deleteFileSafe(gitkeepPath);
+
+      expect(await endDryRun()).toEqual([]);
+    });
+  });
+
+  describe("createUnifiedDiff", () => {
+    it("should render hunks with context around changed lines", () => {
+      const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j", "k", "l"].join("\n") + "\n";
+      const after = ["a", "B", "c", "d", "e", "f", "g", "h", "i", "j", "k", "l", "m"].join("\n") + "\n";
+
+      const diff = createUnifiedDiff(path.join(testDir, "file.ts"), before, after);
+      const lines = diff.split("\n");
+
+      expect(lines[0]).toMatch(/^--- a\/.*file\.ts$/);
+      expect(lines[1]).toMatch(/^\+\+\+ b\/.*file\.ts$/);
+      expect(lines.slice(2)).toEqual([
+        "@@ -1,5 +1,5 @@",
+        " a",
+        "-b",
+        "+B",
+        " c",
+        " d",
+        " e",
+        "@@ -10,3 +10,4 @@",
+        " j",
+        " k",
+        " l",
+        "+m",
+      ]);
+    });
+
+    it("should use /dev/null for created and deleted files", () => {
+      const created = createUnifiedDiff(path.join(testDir, "new.ts"), null, "one\ntwo\n").split("\n");
+      const deleted = createUnifiedDiff(path.join(testDir, "old.ts"), "one\n", null).split("\n");
+
+      expect(created[0]).toBe("--- /dev/null");
+      expect(created.slice(2)).toEqual(["@@ -0,0 +1,2 @@", "+one", "+two"]);
+      expect(deleted[1]).toBe("+++ /dev/null");
+      expect(deleted.slice(2)).toEqual(["@@ -1,1 +0,0 @@", "-one"]);
+    });
+
+    it("should color added and removed lines", () => {
+      const colored = colorizeDiff("@@ -1,1 +1,1 @@\n-old\n+new\n same");
+
+      expect(colored).toContain("\x1b[31m-old\x1b[0m");
+      expect(colored).toContain("\x1b[32m+new\x1b[0m");
+      expect(colored).toContain("\x1b[36m@@ -1,1 +1,1 @@\x1b[0m");
+      expect(colored.split("\n")[3]).toBe(" same");
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for feature:import against a local HTTP stub of the Azure DevOps Test Plans API.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, jest } from "@jest/globals";
+import http from "http";
+import type { AddressInfo } from "net";
+import { mocked, setupBeforeEach, teardownAfterEach, teardownAfterAll } from "./testUtils";
+
+// Mock dependencies
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+  checkbox: jest.fn(),
+}));
+jest.mock("../utils/fileOps");
+jest.mock("../utils/validation");
+jest.mock("../utils/templates");
+jest.mock("../../utils/featureConfig");
+jest.mock("fast-glob", () => ({
+  __esModule: true,
+  default: jest.fn<(pattern: string, options?: any) => Promise<string[]>>(),
+}));
+
+// Import mocked modules
+import * as prompts from "@inquirer/prompts";
+import * as fileOps from "../utils/fileOps";
+import { setNonInteractive } from "../utils/interactive";
+import { importFeature } from "../commands/feature";
+import { paths } from "../utils/paths";
+
+interface StubRequest {
+  url: string;
+  authorization: string | undefined;
+}
+
+describe("CLI Commands - Feature Import Tests", () => {
+  let server: http.Server;
+  let requests: StubRequest[];
+  let routes: Record<string, { status: number; body: unknown }>;
+  const originalEnv = { ...process.env };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url ?? "", authorization: req.headers.authorization });
+      const route = routes[(req.url ?? "").split("?")[0]];
+      res.writeHead(route ? route.status : 404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(route ? route.body : { message: "Not found" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    teardownAfterAll();
+  });
+
+  beforeEach(async () => {
+    await setupBeforeEach();
+    const { port } = server.address() as AddressInfo;
+    process.env.ADO_ORG_URL = `http://127.0.0.1:${port}/org/`;
+    process.env.ADO_PROJECT = "Pilot";
+    process.env.ADO_TOKEN = "stub-token";
+    requests = [];
+    routes = {
+      "/org/Pilot/_apis/testplan/Plans/42": {
+        status: 200,
+        body: { id: 42, name: "Billing Regression", rootSuite: { id: 500, name: "Billing Regression" } },
+      },
+      "/org/Pilot/_apis/testplan/Plans/42/suites": {
+        status: 200,
+        body: {
+          count: 5,
+          value: [
+            { id: 500, name: "Billing Regression" },
+            { id: 501, name: "invoices", parentSuite: { id: 500 } },
+            { id: 502, name: "Refunds", parentSuite: { id: 500 } },
+            { id: 503, name: "Smoke", parentSuite: { id: 501 } },
+            { id: 504, name: "Smoke", parentSuite: { id: 502 } },
+          ],
+        },
+      },
+    };
+    mocked(fileOps.readJsonSafe).mockResolvedValue({});
+    mocked(fileOps.dirExists).mockReturnValue(false);
+  });
+
+  afterEach(async () => {
+    setNonInteractive(false);
+    process.env = { ...originalEnv };
+    await teardownAfterEach();
+  });
+
+  function writtenConfig(): Record<string, { tag: string; planId: number; suites: Record<string, string> }> {
+    const call = mocked(fileOps.writeJsonSafe).mock.calls.find(([filePath]) => filePath === paths.featureConfig());
+    return call?.[1] as Record<string, { tag: string; planId: number; suites: Record<string, string> }>;
+  }
+
+  it("should create the feature and suite map from the plan's suite tree", async () => {
+    await importFeature("billing", 42);
+
+    expect(writtenConfig()).toEqual({
+      billing: {
+        tag: "@billing",
+        planId: 42,
+        suites: {
+          "501": "Invoices",
+          "502": "Refunds",
+          "503": "Smoke",
+          "504": "Refunds Smoke",
+        },
+      },
+    });
+    expect(requests.map((request) => request.url)).toEqual([
+      "/org/Pilot/_apis/testplan/Plans/42?api-version=7.0",
+      "/org/Pilot/_apis/testplan/Plans/42/suites?api-version=7.0",
+    ]);
+    expect(requests[0].authorization).toBe(`Basic ${Buffer.from(":stub-token").toString("base64")}`);
+  });
+
+  it("should create a stub spec per suite through addFeatureWithSuites", async () => {
+    await importFeature("billing", 42);
+
+    const specFiles = mocked(fileOps.writeFileSafe)
+      .mock.calls.map(([filePath]) => filePath)
+      .filter((filePath) => filePath.endsWith(".spec.ts"));
+    expect(specFiles.map((filePath) => filePath.split(/[\\/]/).pop())).toEqual([
+      "BILL-101-invoices.spec.ts",
+      "BILL-102-refunds.spec.ts",
+      "BILL-103-smoke.spec.ts",
+      "BILL-104-refunds-smoke.spec.ts",
+    ]);
+  });
+
+  it("should default the feature name to the plan name in non-interactive mode", async () => {
+    setNonInteractive(true);
+
+    await importFeature(undefined, 42);
+
+    expect(Object.keys(writtenConfig())).toEqual(["billing-regression"]);
+  });
+
+  it("should use the root suite when the plan has no child suites", async () => {
+    routes["/org/Pilot/_apis/testplan/Plans/42/suites"].body = { value: [{ id: 500, name: "Billing Regression" }] };
+
+    await importFeature("billing", 42);
+
+    expect(writtenConfig().billing.suites).toEqual({ "500": "Billing Regression" });
+  });
+
+  it("should prompt for the plan ID when it is not provided", async () => {
+    mocked(prompts.input).mockResolvedValueOnce("42");
+
+    await importFeature("billing");
+
+    expect(writtenConfig().billing.planId).toBe(42);
+  });
+
+  it("should report a missing plan", async () => {
+    await expect(importFeature("billing", 7)).rejects.toThrow('Test plan 7 not found in project "Pilot"');
+    expect(fileOps.writeJsonSafe).not.toHaveBeenCalled();
+  });
+
+  it("should report rejected credentials", async () => {
+    routes["/org/Pilot/_apis/testplan/Plans/42"] = { status: 401, body: {} };
+
+    await expect(importFeature("billing", 42)).rejects.toThrow("Azure DevOps rejected the request (401)");
+  });
+
+  it("should require the ADO environment variables", async () => {
+    delete process.env.ADO_TOKEN;
+
+    await expect(importFeature("billing", 42)).rejects.toThrow(
+      "Azure DevOps environment variables (ADO_ORG_URL, ADO_PROJECT, ADO_TOKEN) are required."
+    );
+  });
+});
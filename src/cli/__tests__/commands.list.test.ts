@@ -0,0 +1,189 @@
+/**
+ * Tests for CLI list command (inventory tables and JSON output).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import path from "path";
+
+// Mock dependencies before imports
+const fileOpsMock = {
+  readFileSafe: jest.fn<(filePath: string) => Promise<string | null>>(),
+  readJsonSafe: jest.fn<(filePath: string) => Promise<unknown>>(),
+  fileExists: jest.fn<(filePath: string) => boolean>(),
+  dirExists: jest.fn<(dirPath: string) => boolean>(),
+  isDryRun: jest.fn(),
+};
+
+const globMock = jest.fn<(pattern: string, options?: any) => Promise<string[]>>();
+
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+}));
+jest.mock("../utils/fileOps", () => fileOpsMock);
+jest.mock("fast-glob", () => ({
+  glob: globMock,
+  default: globMock,
+}));
+jest.mock("../../utils/featureConfig", () => ({
+  FEATURE_CONFIG: {
+    billing: { tag: "@billing", planId: 10, suites: { "100": "Invoices", "101": "Credit Notes" } },
+  },
+}));
+jest.mock("../../testdata/system", () => ({
+  system: { salesforce: { users: { admin: "system.salesforce.users.admin", sales: "system.salesforce.users.sales" } } },
+}));
+
+// Import after mocks are set up
+import { listInventory, collectInventory } from "../commands/list";
+import { REPO_ROOT } from "../utils/paths";
+
+const SPEC = `import { test } from "../fixtures/test-fixtures";
+
+// ---
+// ADO Suite IDs: 100
+// ---
+
+test.describe.serial("BILL-101 - Invoices @billing", () => {
+  test("[10001] Invoices flow", async () => {
+    await test.step("Navigate", async () => {});
+  });
+  test.skip("[10002] Skipped flow", async () => {});
+  // test("[10003] Commented out", async () => {});
+});
+`;
+
+describe("CLI Commands - List Tests", () => {
+  let files: Record<string, string>;
+  let globResults: Record<string, string[]>;
+  let consoleOutput: string[];
+  let originalConsoleLog: typeof console.log;
+
+  function repoFile(relativePath: string): string {
+    return path.join(REPO_ROOT, relativePath);
+  }
+
+  beforeEach(() => {
+    consoleOutput = [];
+    originalConsoleLog = console.log;
+    console.log = jest.fn((...args: unknown[]) => {
+      consoleOutput.push(args.join(" "));
+    });
+
+    files = {
+      [repoFile("tests/billing/BILL-101-invoices.spec.ts")]: SPEC,
+      [repoFile("tests/fixtures/test-fixtures.ts")]: "type Fixtures = {\n  invoiceListPage: InvoiceListPage;\n};\n",
+      [repoFile("src/testdata/factories/index.ts")]: "export * from './invoice.factory';\n",
+      [repoFile("src/testdata/factories/invoice.factory.ts")]: "export function createInvoice() {}\n",
+      [repoFile("src/testdata/builders/invoice.builder.ts")]: "",
+      [repoFile("src/testdata/models/index.ts")]: "export interface ModelMap {\n  Invoice: Invoice;\n}\n",
+      [repoFile("src/testdata/models/invoice.ts")]: "export interface Invoice {\n  id: string;\n}\n",
+      [repoFile("src/testdata/models/order.ts")]: "export interface Order {\n  id: string;\n}\n",
+    };
+    globResults = {
+      "*.spec.ts": ["BILL-101-invoices.spec.ts"],
+      "src/pages/*/*Page.ts": ["src/pages/billing/InvoiceListPage.ts", "src/pages/billing/RefundPage.ts"],
+      "src/testdata/factories/*.factory.ts": ["src/testdata/factories/invoice.factory.ts"],
+      "src/testdata/models/*.ts": ["src/testdata/models/index.ts", "src/testdata/models/invoice.ts", "src/testdata/models/order.ts"],
+    };
+
+    fileOpsMock.readFileSafe.mockReset().mockImplementation(async (filePath) => files[filePath] ?? null);
+    fileOpsMock.readJsonSafe.mockReset().mockResolvedValue({ "system.salesforce.users.admin": { username: "admin" } });
+    fileOpsMock.fileExists.mockReset().mockImplementation((filePath) => filePath in files);
+    globMock.mockReset().mockImplementation(async (pattern) => globResults[pattern] ?? []);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+  });
+
+  it("should collect features and suites with spec paths and test counts", async () => {
+    const inventory = await collectInventory();
+
+    expect(inventory.features).toEqual([
+      {
+        key: "billing",
+        tag: "@billing",
+        planId: 10,
+        testDir: "tests/billing",
+        pageDir: "src/pages/billing",
+        suites: 2,
+        tests: 2,
+      },
+    ]);
+    expect(inventory.suites).toEqual([
+      {
+        feature: "billing",
+        suiteId: 100,
+        name: "Invoices",
+        tag: "@billing",
+        planId: 10,
+        specs: ["tests/billing/BILL-101-invoices.spec.ts"],
+        tests: 2,
+      },
+      { feature: "billing", suiteId: 101, name: "Credit Notes", tag: "@billing", planId: 10, specs: [], tests: 0 },
+    ]);
+  });
+
+  it("should collect pages, factories, models and system keys", async () => {
+    const inventory = await collectInventory();
+
+    expect(inventory.pages).toEqual([
+      { feature: "billing", className: "InvoiceListPage", fixture: "invoiceListPage", path: "src/pages/billing/InvoiceListPage.ts" },
+      { feature: "billing", className: "RefundPage", fixture: null, path: "src/pages/billing/RefundPage.ts" },
+    ]);
+    expect(inventory.factories).toEqual([
+      {
+        key: "invoice",
+        function: "createInvoice",
+        path: "src/testdata/factories/invoice.factory.ts",
+        builder: "src/testdata/builders/invoice.builder.ts",
+        exported: true,
+      },
+    ]);
+    expect(inventory.models).toEqual([
+      { name: "Invoice", key: "invoice", path: "src/testdata/models/invoice.ts", inModelMap: true, hasFactory: true },
+      { name: "Order", key: "order", path: "src/testdata/models/order.ts", inModelMap: false, hasFactory: false },
+    ]);
+    expect(inventory.system).toEqual([
+      { key: "system.salesforce.users.admin", hasValue: true, sources: {} },
+      { key: "system.salesforce.users.sales", hasValue: false, sources: {} },
+    ]);
+  });
+
+  it("should print a table for one entity kind", async () => {
+    await listInventory("suites");
+
+    expect(consoleOutput[0]).toBe("SUITES (2)");
+    expect(consoleOutput[1]).toMatch(/^Feature\s+Suite ID\s+Suite\s+Tag\s+Plan ID\s+Tests\s+Spec$/);
+    expect(consoleOutput[3]).toMatch(/^billing\s+100\s+Invoices\s+@billing\s+10\s+2\s+tests\/billing\/BILL-101-invoices\.spec\.ts$/);
+    expect(consoleOutput[4]).toMatch(/^billing\s+101\s+Credit Notes\s+@billing\s+10\s+0\s+-$/);
+    expect(consoleOutput.some((line) => line.startsWith("PAGES"))).toBe(false);
+  });
+
+  it("should print JSON for one entity kind or the whole inventory", async () => {
+    await listInventory("system", { json: true });
+    expect(JSON.parse(consoleOutput[0])).toEqual([
+      { key: "system.salesforce.users.admin", hasValue: true, sources: {} },
+      { key: "system.salesforce.users.sales", hasValue: false, sources: {} },
+    ]);
+
+    consoleOutput = [];
+    await listInventory(undefined, { json: true });
+    expect(Object.keys(JSON.parse(consoleOutput[0]))).toEqual(["features", "suites", "pages", "factories", "models", "system"]);
+  });
+
+  it("should never print system values", async () => {
+    await listInventory("system", { json: true });
+    await listInventory("system");
+
+    expect(consoleOutput.join("\n")).not.toContain("username");
+  });
+
+  it("should reject unknown entity kinds", async () => {
+    await expect(listInventory("widgets")).rejects.toThrow(
+      'Unknown list type "widgets". Expected one of: features, suites, pages, factories, models, system'
+    );
+  });
+});
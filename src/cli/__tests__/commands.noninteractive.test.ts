@@ -0,0 +1,243 @@
+/**
+ * Tests for non-interactive mode (--yes / --non-interactive / --defaults).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll, jest } from "@jest/globals";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Command } from "commander";
+import { mocked, setupBeforeEach, teardownAfterEach, teardownAfterAll, testDir } from "./testUtils";
+
+// Mock dependencies
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+  checkbox: jest.fn(),
+}));
+jest.mock("../utils/fileOps");
+jest.mock("../utils/validation");
+jest.mock("../utils/templates");
+jest.mock("../../utils/featureConfig");
+jest.mock("fast-glob", () => ({
+  __esModule: true,
+  default: jest.fn<(pattern: string, options?: any) => Promise<string[]>>(),
+  glob: jest.fn(async (_pattern: string, _options?: any) => [] as string[]),
+}));
+
+// Import mocked modules
+import * as prompts from "@inquirer/prompts";
+import * as fileOps from "../utils/fileOps";
+import * as validation from "../utils/validation";
+import * as featureConfig from "../../utils/featureConfig";
+
+import { addFeature, deleteFeature, parseSuiteOptions } from "../commands/feature";
+import { addSpec } from "../commands/spec";
+import { addSystemEntry } from "../commands/system";
+import { setNonInteractive, isNonInteractive, input, confirm, loadDefaultsFile, applyCommandDefaults } from "../utils/interactive";
+
+describe("CLI Commands - Non-Interactive Mode Tests", () => {
+  beforeEach(async () => {
+    await setupBeforeEach();
+    setNonInteractive(true);
+  });
+
+  afterEach(async () => {
+    setNonInteractive(false);
+    await teardownAfterEach();
+  });
+
+  afterAll(() => {
+    teardownAfterAll();
+  });
+
+  describe("prompt wrappers", () => {
+    it("should fail with the flag name instead of prompting", async () => {
+      await expect(input({ message: "Enter Azure DevOps Plan ID (number):", flag: "--plan-id <planId>" })).rejects.toThrow(
+        'No value for "Enter Azure DevOps Plan ID (number)" in non-interactive mode. Pass --plan-id <planId>.'
+      );
+      expect(prompts.input).not.toHaveBeenCalled();
+    });
+
+    it("should fail as interactive only when no flag answers the prompt", async () => {
+      await expect(input({ message: "Enter model name:", flag: null })).rejects.toThrow(
+        'No value for "Enter model name" in non-interactive mode. This prompt is interactive only; run the command without --yes.'
+      );
+      expect(prompts.input).not.toHaveBeenCalled();
+    });
+
+    it("should answer confirm prompts with their default", async () => {
+      await expect(confirm({ message: "Reuse model?", default: true })).resolves.toBe(true);
+      await expect(confirm({ message: "Use existing factory?", default: false })).resolves.toBe(false);
+      expect(prompts.confirm).not.toHaveBeenCalled();
+    });
+
+    it("should prompt normally when non-interactive mode is off", async () => {
+      setNonInteractive(false);
+      mocked(prompts.input).mockResolvedValueOnce("typed");
+
+      await expect(input({ message: "Enter feature name:", flag: "the FeatureName argument" })).resolves.toBe("typed");
+      expect(isNonInteractive()).toBe(false);
+      expect(prompts.input).toHaveBeenCalledWith({ message: "Enter feature name:" });
+    });
+  });
+
+  describe("feature:add", () => {
+    it("should create a feature from flags without prompting", async () => {
+      mocked(fileOps.readJsonSafe).mockResolvedValue({});
+      mocked(fileOps.dirExists).mockReturnValue(false);
+
+      await addFeature("Scripted Feature", 321, parseSuiteOptions(["4001=user login", "4002=User Logout"]));
+
+      expect(prompts.input).not.toHaveBeenCalled();
+      expect(prompts.confirm).not.toHaveBeenCalled();
+      expect(fileOps.writeJsonSafe).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          "scripted-feature": {
+            tag: "@scripted-feature",
+            planId: 321,
+            suites: { "4001": "User Login", "4002": "User Logout" },
+          },
+        }),
+        true
+      );
+    });
+
+    it("should fail naming --plan-id when plan ID is missing", async () => {
+      mocked(fileOps.readJsonSafe).mockResolvedValue({});
+
+      await expect(addFeature("No Plan", undefined, { "5001": "Suite" })).rejects.toThrow("--plan-id <planId>");
+      expect(fileOps.writeJsonSafe).not.toHaveBeenCalled();
+    });
+
+    it("should fail naming --suite when suites are missing", async () => {
+      mocked(fileOps.readJsonSafe).mockResolvedValue({});
+
+      await expect(addFeature("No Suites", 77)).rejects.toThrow('--suite "<suiteId>=<suite name>"');
+      expect(fileOps.writeJsonSafe).not.toHaveBeenCalled();
+    });
+
+    it("should reject a --suite ID used by another feature", async () => {
+      mocked(fileOps.readJsonSafe).mockResolvedValue({
+        existing: { tag: "@existing", planId: 10, suites: { "1": "One" } },
+      });
+
+      await expect(addFeature("Clash", 11, { "1": "Other" })).rejects.toThrow('Suite ID 1 is already used by feature "existing"');
+    });
+  });
+
+  describe("parseSuiteOptions", () => {
+    it("should parse and normalize suite mappings", () => {
+      expect(parseSuiteOptions(["100=create schedule", "101 = Edit Schedule"])).toEqual({
+        "100": "Create Schedule",
+        "101": "Edit Schedule",
+      });
+    });
+
+    it("should reject malformed and duplicate values", () => {
+      expect(() => parseSuiteOptions(["Login"])).toThrow("Invalid --suite value");
+      expect(() => parseSuiteOptions(["abc=Login"])).toThrow("Invalid --suite value");
+      expect(() => parseSuiteOptions(["1=Login", "1=Logout"])).toThrow("Suite ID 1 is passed more than once");
+      expect(() => parseSuiteOptions(["1=Login", "2=login"])).toThrow('Suite name "Login" is passed more than once');
+    });
+  });
+
+  describe("suite:add", () => {
+    it("should use --suite and --suite-id values", async () => {
+      mocked(featureConfig.getAvailableFeatureKeys).mockReturnValue(["billing"]);
+      mocked(fileOps.readJsonSafe).mockResolvedValue({
+        billing: { tag: "@billing", planId: 5, suites: { "50": "Invoices" } },
+      });
+      const globModule = jest.requireMock("fast-glob") as { default: jest.Mock<(pattern: string, options?: any) => Promise<string[]>> };
+      globModule.default.mockResolvedValue([]);
+
+      await addSpec("billing", { suiteName: "refunds", suiteId: 51 });
+
+      expect(prompts.input).not.toHaveBeenCalled();
+      expect(fileOps.writeJsonSafe).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          billing: expect.objectContaining({ suites: { "50": "Invoices", "51": "Refunds" } }),
+        }),
+        true
+      );
+    });
+
+    it("should fail naming --suite-id when a duplicate ID is passed", async () => {
+      mocked(featureConfig.getAvailableFeatureKeys).mockReturnValue(["billing"]);
+      mocked(fileOps.readJsonSafe).mockResolvedValue({
+        billing: { tag: "@billing", planId: 5, suites: { "50": "Invoices" } },
+      });
+
+      await expect(addSpec("billing", { suiteName: "Refunds", suiteId: 50 })).rejects.toThrow("--suite-id <suiteId>");
+    });
+  });
+
+  describe("feature:delete", () => {
+    it("should skip typed confirmation", async () => {
+      mocked(featureConfig.getAvailableFeatureKeys).mockReturnValue(["old-feature"]);
+      mocked(fileOps.readJsonSafe).mockResolvedValue({
+        "old-feature": { tag: "@old-feature", planId: 1, suites: {} },
+      });
+      mocked(validation.findMatchingPages).mockResolvedValue([]);
+      const globModule = jest.requireMock("fast-glob") as { default: jest.Mock<(pattern: string, options?: any) => Promise<string[]>> };
+      globModule.default.mockResolvedValue([]);
+
+      await deleteFeature("old-feature");
+
+      expect(prompts.input).not.toHaveBeenCalled();
+      expect(fileOps.writeJsonSafe).toHaveBeenCalledWith(expect.any(String), {}, true);
+    });
+
+    it("should fail naming the argument when no feature is given", async () => {
+      mocked(featureConfig.getAvailableFeatureKeys).mockReturnValue(["a", "b"]);
+
+      await expect(deleteFeature(undefined)).rejects.toThrow("Pass the FeatureName argument");
+      expect(prompts.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("system:add", () => {
+    it("should fail naming --value when no value is passed", async () => {
+      await expect(addSystemEntry("brand.new.key")).rejects.toThrow("--value <value>");
+    });
+  });
+
+  describe("defaults file", () => {
+    function buildCommand(): Command {
+      return new Command("feature:add")
+        .option("-p, --plan-id <planId>")
+        .option("--suite <suiteId=name>")
+        .exitOverride();
+    }
+
+    it("should fill options that were not passed on the command line", async () => {
+      const command = buildCommand();
+      command.parse(["--plan-id", "9"], { from: "user" });
+
+      applyCommandDefaults(command, {
+        planId: 1,
+        "feature:add": { suite: ["1=Login"] },
+        "page:add": { planId: 2 },
+      });
+
+      expect(command.opts()).toEqual({ planId: "9", suite: ["1=Login"] });
+    });
+
+    it("should load a JSON defaults file", async () => {
+      const defaultsPath = path.join(testDir, "pilot-defaults.json");
+      await fs.writeFile(defaultsPath, JSON.stringify({ "feature:add": { planId: 12 } }));
+
+      expect(loadDefaultsFile(defaultsPath)).toEqual({ "feature:add": { planId: 12 } });
+    });
+
+    it("should reject missing or invalid defaults files", async () => {
+      const invalidPath = path.join(testDir, "invalid.json");
+      await fs.writeFile(invalidPath, "[1, 2]");
+
+      expect(() => loadDefaultsFile(path.join(testDir, "missing.json"))).toThrow("Defaults file not found");
+      expect(() => loadDefaultsFile(invalidPath)).toThrow("must contain a JSON object");
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Tests for page:rename, feature:rename, suite:rename and factory:rename commands.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import path from "path";
+
+// Mock dependencies before imports; files live in an in-memory map keyed by absolute path
+let files: Record<string, string>;
+
+const fileOpsMock = {
+  readFileSafe: jest.fn(async (filePath: string) => files[filePath] ?? null),
+  writeFileSafe: jest.fn(async (filePath: string, content: string, overwrite: boolean = false) => {
+    if (filePath in files && !overwrite) throw new Error(`File already exists: ${filePath}`);
+    files[filePath] = content;
+  }),
+  moveFileSafe: jest.fn(async (fromPath: string, toPath: string) => {
+    files[toPath] = files[fromPath];
+    delete files[fromPath];
+  }),
+  readJsonSafe: jest.fn(async (filePath: string) => (filePath in files ? JSON.parse(files[filePath]) : null)),
+  writeJsonSafe: jest.fn(async (filePath: string, data: unknown) => {
+    files[filePath] = JSON.stringify(data, null, 2);
+  }),
+  fileExists: jest.fn((filePath: string) => filePath in files),
+  dirExists: jest.fn((dirPath: string) => Object.keys(files).some((filePath) => filePath.startsWith(dirPath + path.sep))),
+  deleteFileSafe: jest.fn(async (_filePath: string) => undefined),
+  deleteDirSafe: jest.fn(async (_dirPath: string) => undefined),
+  deleteEmptyDirSafe: jest.fn(async (_dirPath: string) => true),
+  isDryRun: jest.fn(() => false),
+};
+
+const globMock = jest.fn(async (pattern: string | string[], options?: { cwd?: string }) => {
+  const cwd = options?.cwd ?? REPO_ROOT;
+  const relative = Object.keys(files)
+    .filter((filePath) => filePath.startsWith(cwd + path.sep))
+    .map((filePath) => path.relative(cwd, filePath).split(path.sep).join("/"));
+  const patterns = Array.isArray(pattern) ? pattern : [pattern];
+  return relative.filter((file) =>
+    patterns.some((p) => {
+      const regex = p.replace(/\./g, "\\.").replace(/\*\*\//g, "\0").replace(/\*/g, "[^/]*").replace(/\0/g, "(.*/)?");
+      return new RegExp(`^${regex}$`).test(file) && !file.startsWith("src/cli/");
+    })
+  );
+});
+
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+}));
+jest.mock("../utils/fileOps", () => fileOpsMock);
+jest.mock("fast-glob", () => ({
+  __esModule: true,
+  glob: globMock,
+  default: globMock,
+}));
+
+// Import after mocks are set up
+import { renamePage } from "../commands/page";
+import { renameFeature } from "../commands/feature";
+import { renameSpec } from "../commands/spec";
+import { renameFactory } from "../commands/factory";
+import { REPO_ROOT } from "../utils/paths";
+
+const FIXTURES = `import { test as base } from "@playwright/test";
+import { InvoiceListPage } from "../../src/pages/billing/InvoiceListPage";
+
+type Fixtures = {
+  invoiceListPage: InvoiceListPage;
+};
+
+export const test = base.extend<Fixtures>({
+  invoiceListPage: async ({ page }, use) => {
+    await use(new InvoiceListPage(page));
+  },
+});
+`;
+
+const PAGE = `export class InvoiceListPage {
+  async navigateToInvoiceList() {}
+}
+`;
+
+const SPEC = `import * as factories from "../../src/testdata/factories";
+import type * as models from "../../src/testdata/models";
+
+// ---
+// Tests for Credit Notes
+// Feature: billing
+// Tag: @billing
+// ADO Suite IDs: 101
+// ---
+
+test.describe.serial("BILL-101 - Credit Notes @billing", () => {
+  test("[10001] Credit Notes flow", async ({ invoiceListPage }) => {
+    const invoice: models.Invoice = factories.createInvoice();
+    await invoiceListPage.navigateToInvoiceList();
+  });
+});
+`;
+
+// Binary content: fileOps moves it, the rename must never read or rewrite it as text
+const PNG = "\x89PNG\r\n\x1a\n\x00\x00\x00\rIHDR\xff";
+
+function repoFile(relativePath: string): string {
+  return path.join(REPO_ROOT, relativePath);
+}
+
+describe("CLI Commands - Rename Tests", () => {
+  let originalConsoleLog: typeof console.log;
+
+  beforeEach(() => {
+    originalConsoleLog = console.log;
+    console.log = jest.fn();
+
+    files = {
+      [repoFile("src/testdata/featureConfig.json")]: JSON.stringify({
+        billing: { tag: "@billing", planId: 10, suites: { "100": "Invoices", "101": "Credit Notes" } },
+        payments: { tag: "@payments", planId: 11, suites: { "200": "Cards" } },
+      }),
+      [repoFile("tests/fixtures/test-fixtures.ts")]: FIXTURES,
+      [repoFile("tests/billing/BILL-101-credit-notes.spec.ts")]: SPEC,
+      [repoFile("tests/billing/BILL-101-credit-notes.spec.ts-snapshots/list-chromium.png")]: PNG,
+      [repoFile("src/pages/billing/InvoiceListPage.ts")]: PAGE,
+      [repoFile("src/testdata/factories/index.ts")]: "export * from './invoice.factory';\n",
+      [repoFile("src/testdata/factories/invoice.factory.ts")]:
+        'import { buildInvoice } from "../../testdata/builders/invoice.builder";\n\nexport function createInvoice(overrides?: Partial<models.Invoice>) {\n  return buildInvoice(overrides);\n}\n',
+      [repoFile("src/testdata/builders/invoice.builder.ts")]:
+        'interface InvoiceModel {}\nfunction getTools() {\n  return createTools("invoice");\n}\nconst invoiceBuilder = build<InvoiceModel>({});\n',
+      [repoFile("src/testdata/models/index.ts")]:
+        "export * from './invoice';\n\nimport type { Invoice } from './invoice';\n\nexport interface ModelMap {\n  Invoice: Invoice;\n}\n",
+      [repoFile("src/testdata/models/invoice.ts")]: "export interface Invoice {\n  id: string;\n}\n",
+    };
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+  });
+
+  describe("page:rename", () => {
+    it("should rename the page file, class, fixture and navigate method everywhere", async () => {
+      await renamePage("invoice-list", "invoice-table");
+
+      expect(files[repoFile("src/pages/billing/InvoiceListPage.ts")]).toBeUndefined();
+      expect(files[repoFile("src/pages/billing/InvoiceTablePage.ts")]).toBe(
+        "export class InvoiceTablePage {\n  async navigateToInvoiceTable() {}\n}\n"
+      );
+      const fixtures = files[repoFile("tests/fixtures/test-fixtures.ts")];
+      expect(fixtures).toContain('import { InvoiceTablePage } from "../../src/pages/billing/InvoiceTablePage";');
+      expect(fixtures).toContain("invoiceTablePage: InvoiceTablePage;");
+      expect(fixtures).toContain("await use(new InvoiceTablePage(page));");
+      const spec = files[repoFile("tests/billing/BILL-101-credit-notes.spec.ts")];
+      expect(spec).toContain("async ({ invoiceTablePage })");
+      expect(spec).toContain("await invoiceTablePage.navigateToInvoiceTable();");
+    });
+
+    it("should move the page to another feature folder with --feature", async () => {
+      await renamePage("InvoiceList", "invoice-list", { feature: "payments" });
+
+      expect(files[repoFile("src/pages/payments/InvoiceListPage.ts")]).toBe(PAGE);
+      expect(files[repoFile("tests/fixtures/test-fixtures.ts")]).toContain(
+        'import { InvoiceListPage } from "../../src/pages/payments/InvoiceListPage";'
+      );
+      expect(fileOpsMock.deleteEmptyDirSafe).toHaveBeenCalledWith(repoFile("src/pages/billing"));
+    });
+
+    it("should refuse to overwrite an existing page", async () => {
+      files[repoFile("src/pages/billing/InvoiceTablePage.ts")] = "export class InvoiceTablePage {}\n";
+
+      await expect(renamePage("invoice-list", "invoice-table")).rejects.toThrow('Page "InvoiceTablePage" already exists');
+      expect(files[repoFile("src/pages/billing/InvoiceListPage.ts")]).toBe(PAGE);
+    });
+  });
+
+  describe("feature:rename", () => {
+    it("should rename the config key and tag, move folders and update tags and imports", async () => {
+      await renameFeature("billing", "invoicing");
+
+      const config = JSON.parse(files[repoFile("src/testdata/featureConfig.json")]);
+      expect(Object.keys(config)).toEqual(["invoicing", "payments"]);
+      expect(config.invoicing).toEqual({ tag: "@invoicing", planId: 10, suites: { "100": "Invoices", "101": "Credit Notes" } });
+
+      const spec = files[repoFile("tests/invoicing/BILL-101-credit-notes.spec.ts")];
+      expect(spec).toContain("// Feature: invoicing");
+      expect(spec).toContain("// Tag: @invoicing");
+      expect(spec).toContain('"BILL-101 - Credit Notes @invoicing"');
+      expect(files[repoFile("tests/billing/BILL-101-credit-notes.spec.ts")]).toBeUndefined();
+      expect(files[repoFile("src/pages/invoicing/InvoiceListPage.ts")]).toBe(PAGE);
+      expect(files[repoFile("tests/fixtures/test-fixtures.ts")]).toContain('"../../src/pages/invoicing/InvoiceListPage"');
+      expect(fileOpsMock.deleteDirSafe).toHaveBeenCalledWith(repoFile("tests/billing"));
+    });
+
+    it("should move binary files such as screenshot baselines without rewriting them", async () => {
+      await renameFeature("billing", "invoicing");
+
+      expect(fileOpsMock.moveFileSafe).toHaveBeenCalledWith(
+        repoFile("tests/billing/BILL-101-credit-notes.spec.ts-snapshots/list-chromium.png"),
+        repoFile("tests/invoicing/BILL-101-credit-notes.spec.ts-snapshots/list-chromium.png")
+      );
+      expect(files[repoFile("tests/invoicing/BILL-101-credit-notes.spec.ts-snapshots/list-chromium.png")]).toBe(PNG);
+      expect(fileOpsMock.writeFileSafe).not.toHaveBeenCalledWith(expect.stringMatching(/\.png$/), expect.anything(), expect.anything());
+    });
+
+    it("should refuse to rename onto an existing feature", async () => {
+      await expect(renameFeature("billing", "payments")).rejects.toThrow("Feature already exists: payments");
+    });
+  });
+
+  describe("suite:rename", () => {
+    it("should rename the suite in config, the spec file name and the suite name in the spec", async () => {
+      await renameSpec("billing", "credit notes", "refund notes");
+
+      const config = JSON.parse(files[repoFile("src/testdata/featureConfig.json")]);
+      expect(config.billing.suites).toEqual({ "100": "Invoices", "101": "Refund Notes" });
+
+      const spec = files[repoFile("tests/billing/BILL-101-refund-notes.spec.ts")];
+      expect(spec).toContain("// Tests for Refund Notes");
+      expect(spec).toContain('"BILL-101 - Refund Notes @billing"');
+      expect(files[repoFile("tests/billing/BILL-101-credit-notes.spec.ts")]).toBeUndefined();
+    });
+
+    it("should leave identifiers that contain the suite name alone", async () => {
+      files[repoFile("tests/billing/BILL-100-invoices.spec.ts")] = `// ---
+// Tests for Invoices
+// ---
+
+test.describe.serial("BILL-100 - Invoices @billing", () => {
+  test("[10000] Invoices flow", async ({ invoicesPage }) => {
+    const invoice: models.Invoices = factories.createInvoices();
+    await invoicesPage.navigateToInvoices();
+    await toInvoicesPilot(invoice);
+  });
+});
+`;
+
+      await renameSpec("billing", "invoices", "bills");
+
+      const spec = files[repoFile("tests/billing/BILL-100-bills.spec.ts")];
+      expect(spec).toContain("// Tests for Bills");
+      expect(spec).toContain('test.describe.serial("BILL-100 - Bills @billing"');
+      expect(spec).toContain("models.Invoices = factories.createInvoices()");
+      expect(spec).toContain("invoicesPage.navigateToInvoices()");
+      expect(spec).toContain("toInvoicesPilot(invoice)");
+    });
+
+    it("should refuse a name already used by another suite in the feature", async () => {
+      await expect(renameSpec("billing", "credit notes", "invoices")).rejects.toThrow(
+        'Suite "Invoices" already exists in feature "billing"'
+      );
+    });
+  });
+
+  describe("factory:rename", () => {
+    it("should rename factory, builder and model files, barrels and usages", async () => {
+      await renameFactory("invoice", "bill");
+
+      expect(files[repoFile("src/testdata/factories/invoice.factory.ts")]).toBeUndefined();
+      expect(files[repoFile("src/testdata/factories/bill.factory.ts")]).toBe(
+        'import { buildBill } from "../../testdata/builders/bill.builder";\n\nexport function createBill(overrides?: Partial<models.Bill>) {\n  return buildBill(overrides);\n}\n'
+      );
+      expect(files[repoFile("src/testdata/builders/bill.builder.ts")]).toBe(
+        'interface BillModel {}\nfunction getTools() {\n  return createTools("bill");\n}\nconst billBuilder = build<BillModel>({});\n'
+      );
+      expect(files[repoFile("src/testdata/models/bill.ts")]).toBe("export interface Bill {\n  id: string;\n}\n");
+      expect(files[repoFile("src/testdata/factories/index.ts")]).toBe("export * from './bill.factory';\n");
+      expect(files[repoFile("src/testdata/models/index.ts")]).toBe(
+        "export * from './bill';\n\nimport type { Bill } from './bill';\n\nexport interface ModelMap {\n  Bill: Bill;\n}\n"
+      );
+      expect(files[repoFile("tests/billing/BILL-101-credit-notes.spec.ts")]).toContain(
+        "const invoice: models.Bill = factories.createBill();"
+      );
+    });
+
+    it("should throw for an unknown factory", async () => {
+      await expect(renameFactory("order", "purchase")).rejects.toThrow("Factory not found: order");
+    });
+  });
+});
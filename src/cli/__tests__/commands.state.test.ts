@@ -0,0 +1,175 @@
+/**
+ * Tests for CLI state commands: state:inspect (run state tree and JSON output) and
+ * state:add / state:delete (run-state schema declarations).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import path from "path";
+
+const readRunStateMock = jest.fn<() => Promise<Record<string, unknown>>>();
+
+// Files live in an in-memory map keyed by absolute path
+let files: Record<string, string> = {};
+
+const fileOpsMock = {
+  readFileSafe: jest.fn(async (filePath: string) => files[filePath] ?? null),
+  writeFileSafe: jest.fn(async (filePath: string, content: string, overwrite: boolean = false) => {
+    if (filePath in files && !overwrite) throw new Error(`File already exists: ${filePath}`);
+    files[filePath] = content;
+  }),
+  isDryRun: jest.fn(() => false),
+};
+
+const globMock = jest.fn(async (_pattern: string, options?: { cwd?: string }) =>
+  Object.keys(files).map((filePath) => path.relative(options?.cwd ?? REPO_ROOT, filePath).split(path.sep).join("/"))
+);
+
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+}));
+jest.mock("../utils/fileOps", () => fileOpsMock);
+jest.mock("fast-glob", () => ({
+  __esModule: true,
+  glob: globMock,
+  default: globMock,
+}));
+jest.mock("../../utils/dataStore", () => ({
+  readRunState: readRunStateMock,
+}));
+
+// Import after mocks are set up
+import { inspectRunState, buildStateTree, addStateKey, deleteStateKey, parseStateSchema } from "../commands/state";
+import { paths, REPO_ROOT } from "../utils/paths";
+
+const RUN_STATE = {
+  "test.user": { id: "legacy" },
+  "test.tests.3f9a1c.user": { id: "u_1", email: "jane@example.com" },
+  "test.tests.7c41d0.user": { id: "u_2", notes: "x".repeat(200) },
+  "test.workers.0.account": "acct-0",
+  "shared.invoiceId": "INV-1042",
+};
+
+describe("CLI Commands - State Inspect Tests", () => {
+  let consoleOutput: string[];
+
+  beforeEach(() => {
+    consoleOutput = [];
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      consoleOutput.push(args.join(" "));
+    });
+    readRunStateMock.mockResolvedValue(RUN_STATE);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("prints the run state as a tree of dotted keys", async () => {
+    await inspectRunState();
+
+    expect(consoleOutput[0]).toBe("RUN STATE (5 keys)");
+    expect(consoleOutput.slice(1, 9)).toEqual([
+      "├─ shared",
+      '│  └─ invoiceId: "INV-1042"',
+      "└─ test",
+      "   ├─ tests",
+      "   │  ├─ 3f9a1c",
+      '   │  │  └─ user: {"id":"u_1","email":"jane@example.com"}',
+      "   │  └─ 7c41d0",
+      expect.stringMatching(/^   │     └─ user: \{"id":"u_2","notes":"x+…$/),
+    ]);
+    expect(consoleOutput.slice(9)).toEqual([
+      '   ├─ user: {"id":"legacy"}',
+      "   └─ workers",
+      "      └─ 0",
+      '         └─ account: "acct-0"',
+    ]);
+  });
+
+  it("filters by prefix and prints nested JSON", async () => {
+    await inspectRunState("test.tests", { json: true });
+
+    expect(JSON.parse(consoleOutput.join("\n"))).toEqual({
+      test: {
+        tests: {
+          "3f9a1c": { user: { id: "u_1", email: "jane@example.com" } },
+          "7c41d0": { user: { id: "u_2", notes: "x".repeat(200) } },
+        },
+      },
+    });
+  });
+
+  it("reports an empty prefix", async () => {
+    await inspectRunState("test.workers.9");
+
+    expect(consoleOutput).toEqual(["RUN STATE (0 keys)", "  (no keys under test.workers.9)"]);
+  });
+
+  it("keeps a value that also has child keys", () => {
+    const tree = buildStateTree([["test.user", 1], ["test.user.id", 2]]);
+
+    expect(tree.children.test.children.user).toEqual({ value: 1, children: { id: { value: 2, children: {} } } });
+  });
+});
+
+const SCHEMA = `import type * as models from "./models";
+
+export interface RunStateSchema {
+  // "test.user": models.User;
+  "test.admin": models.User;
+}
+
+export type StrictRunStateKeys = false;
+`;
+
+const MODELS_INDEX = `export interface ModelMap {
+  User: User;
+  Invoice: Invoice;
+}
+`;
+
+describe("CLI Commands - State Schema Tests", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    files = {
+      [paths.runStateSchema()]: SCHEMA,
+      [paths.modelsIndex()]: MODELS_INDEX,
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("declares a key with its model and adds the test. prefix", async () => {
+    await addStateKey("billing.invoice", "Invoice");
+
+    expect(parseStateSchema(files[paths.runStateSchema()])).toEqual([
+      { key: "test.admin", type: "models.User" },
+      { key: "test.billing.invoice", type: "models.Invoice" },
+    ]);
+    expect(files[paths.runStateSchema()]).toContain('  "test.billing.invoice": models.Invoice;\n}\n\nexport type StrictRunStateKeys');
+  });
+
+  it("rejects a duplicate key and an unknown model", async () => {
+    await expect(addStateKey("test.admin", "User")).rejects.toThrow('Run-state key "test.admin" is already declared');
+    await expect(addStateKey("test.customer", "Customer")).rejects.toThrow('Unknown model "Customer". Expected one of: User, Invoice');
+    expect(files[paths.runStateSchema()]).toBe(SCHEMA);
+  });
+
+  it("refuses to delete a key that tests still use", async () => {
+    files[path.join(REPO_ROOT, "tests/billing/BILL-101-invoices.spec.ts")] = 'const admin = await get("test.admin");\n';
+
+    await expect(deleteStateKey("test.admin")).rejects.toThrow('Run-state key "test.admin" is in use and cannot be deleted.');
+    expect(files[paths.runStateSchema()]).toBe(SCHEMA);
+  });
+
+  it("removes an unused key from the schema", async () => {
+    await deleteStateKey("admin");
+
+    expect(parseStateSchema(files[paths.runStateSchema()])).toEqual([]);
+    expect(files[paths.runStateSchema()]).toContain('  // "test.user": models.User;\n}');
+  });
+});
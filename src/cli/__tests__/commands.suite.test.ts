@@ -17,6 +17,7 @@ const fileOpsMock = {
   dirExists: jest.fn(),
   readJsonSafe: jest.fn(),
   writeJsonSafe: jest.fn(),
+  isDryRun: jest.fn(),
 };
 
 const validationMock = {
@@ -0,0 +1,83 @@
+/**
+ * Tests for system:add against an existing registry and environment overlays.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import path from "path";
+
+// Mock dependencies before imports; files live in an in-memory map keyed by absolute path
+let files: Record<string, string>;
+
+const fileOpsMock = {
+  readFileSafe: jest.fn(async (filePath: string) => files[filePath] ?? null),
+  writeFileSafe: jest.fn(async (filePath: string, content: string, overwrite: boolean = false) => {
+    if (filePath in files && !overwrite) throw new Error(`File already exists: ${filePath}`);
+    files[filePath] = content;
+  }),
+  readJsonSafe: jest.fn(async (filePath: string) => (filePath in files ? JSON.parse(files[filePath]) : null)),
+  fileExists: jest.fn((filePath: string) => filePath in files),
+};
+
+const globMock = jest.fn(async (_pattern: string, options?: { cwd?: string }) =>
+  Object.keys(files)
+    .filter((filePath) => /dataStore\.[^.]+\.json$/.test(filePath))
+    .map((filePath) => path.relative(options?.cwd ?? REPO_ROOT, filePath).split(path.sep).join("/"))
+);
+
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+}));
+jest.mock("../utils/fileOps", () => fileOpsMock);
+jest.mock("fast-glob", () => ({
+  __esModule: true,
+  glob: globMock,
+  default: globMock,
+}));
+
+// Import after mocks are set up
+import { addSystemEntry } from "../commands/system";
+import { paths, REPO_ROOT } from "../utils/paths";
+
+const REGISTRY = `export const system = {} as const;
+
+export type SystemKey = string;
+`;
+
+describe("CLI Commands - System Tests", () => {
+  let originalConsoleLog: typeof console.log;
+
+  beforeEach(() => {
+    originalConsoleLog = console.log;
+    console.log = jest.fn();
+
+    files = {
+      [paths.systemRegistry()]: REGISTRY,
+      [paths.dataStore()]: JSON.stringify({ "system.billing.currency": "EUR" }),
+      [paths.dataStoreOverlay("qa")]: JSON.stringify({ "system.billing.currency": "USD" }),
+    };
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+  });
+
+  describe("system:add", () => {
+    it("should update an existing registry and write the base value and environment overlays", async () => {
+      await addSystemEntry("billing.admin", "admin@example.com", { qa: "admin@qa.example.com", uat: "admin@uat.example.com" });
+
+      expect(files[paths.systemRegistry()]).toContain('// TODO: Add "system.billing.admin" to system registry manually:');
+      expect(JSON.parse(files[paths.dataStore()])).toEqual({
+        "system.billing.currency": "EUR",
+        "system.billing.admin": "admin@example.com",
+      });
+      expect(JSON.parse(files[paths.dataStoreOverlay("qa")])).toEqual({
+        "system.billing.currency": "USD",
+        "system.billing.admin": "admin@qa.example.com",
+      });
+      expect(JSON.parse(files[paths.dataStoreOverlay("uat")])).toEqual({ "system.billing.admin": "admin@uat.example.com" });
+    });
+  });
+});
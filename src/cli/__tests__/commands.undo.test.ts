@@ -0,0 +1,165 @@
+/**
+ * Tests for journaled transactions and the undo command.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import * as fs from "fs/promises";
+import { existsSync } from "fs";
+import * as path from "path";
+import { tmpdir } from "os";
+
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+}));
+
+import { writeFileSafe, writeJsonSafe, deleteFileSafe, deleteDirSafe, moveFileSafe } from "../utils/fileOps";
+import { withTransaction, setJournalDir, resetJournalDir, readLatestJournalEntry } from "../utils/journal";
+import { setNonInteractive } from "../utils/interactive";
+import { undoLastOperation } from "../commands/undo";
+
+describe("CLI Commands - Transaction and Undo Tests", () => {
+  let testDir: string;
+  let journalDir: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(tmpdir(), "pilot-journal-"));
+    journalDir = path.join(testDir, ".pilot", "journal");
+    configPath = path.join(testDir, "featureConfig.json");
+    await fs.writeFile(configPath, "{}\n");
+    setJournalDir(journalDir);
+    setNonInteractive(true);
+    jest.spyOn(console, "log").mockImplementation(() => { });
+  });
+
+  afterEach(async () => {
+    resetJournalDir();
+    setNonInteractive(false);
+    jest.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => { });
+  });
+
+  describe("withTransaction", () => {
+    it("should restore every touched file when a step throws", async () => {
+      const specDir = path.join(testDir, "tests", "billing");
+      const pagePath = path.join(testDir, "OldPage.ts");
+      await fs.writeFile(pagePath, "page\n");
+
+      await expect(
+        withTransaction("feature:add", async () => {
+          await writeJsonSafe(configPath, { billing: { tag: "@billing" } }, true);
+          await writeFileSafe(path.join(specDir, "invoices.spec.ts"), "spec\n");
+          await deleteFileSafe(pagePath);
+          throw new Error("fixture wiring failed");
+        })
+      ).rejects.toThrow("fixture wiring failed");
+
+      expect(await fs.readFile(configPath, "utf-8")).toBe("{}\n");
+      expect(await fs.readFile(pagePath, "utf-8")).toBe("page\n");
+      expect(existsSync(path.join(testDir, "tests"))).toBe(false);
+      expect(await readLatestJournalEntry()).toBeNull();
+    });
+
+    it("should restore a deleted directory when a step throws", async () => {
+      const featureDir = path.join(testDir, "tests", "billing");
+      await fs.mkdir(featureDir, { recursive: true });
+      await fs.writeFile(path.join(featureDir, "invoices.spec.ts"), "spec\n");
+
+      await expect(
+        withTransaction("feature:delete", async () => {
+          await deleteDirSafe(featureDir);
+          throw new Error("config write failed");
+        })
+      ).rejects.toThrow("config write failed");
+
+      expect(await fs.readFile(path.join(featureDir, "invoices.spec.ts"), "utf-8")).toBe("spec\n");
+    });
+
+    it("should journal committed operations with before and after content", async () => {
+      await withTransaction("page:add", async () => {
+        await writeFileSafe(configPath, "{ \"a\": 1 }\n", true);
+        await withTransaction("nested", async () => {
+          await writeFileSafe(path.join(testDir, "LoginPage.ts"), "page\n");
+        });
+      });
+
+      const latest = await readLatestJournalEntry();
+
+      expect(latest?.entry.operation).toBe("page:add");
+      expect(latest?.entry.files).toEqual([
+        { path: expect.stringMatching(/featureConfig\.json$/), before: "{}\n", after: "{ \"a\": 1 }\n" },
+        { path: expect.stringMatching(/LoginPage\.ts$/), before: null, after: "page\n" },
+      ]);
+    });
+
+    it("should not journal operations that change nothing", async () => {
+      await withTransaction("suite:add", async () => {
+        await writeFileSafe(configPath, "{}\n", true);
+      });
+
+      expect(await readLatestJournalEntry()).toBeNull();
+    });
+  });
+
+  describe("undo", () => {
+    it("should revert the most recent operation only", async () => {
+      const pagePath = path.join(testDir, "pages", "LoginPage.ts");
+      await withTransaction("feature:add", async () => {
+        await writeFileSafe(configPath, "{ \"first\": true }\n", true);
+      });
+      await withTransaction("page:add", async () => {
+        await writeFileSafe(pagePath, "page\n");
+        await writeFileSafe(configPath, "{ \"second\": true }\n", true);
+      });
+
+      await undoLastOperation();
+
+      expect(existsSync(path.join(testDir, "pages"))).toBe(false);
+      expect(await fs.readFile(configPath, "utf-8")).toBe("{ \"first\": true }\n");
+      expect((await readLatestJournalEntry())?.entry.operation).toBe("feature:add");
+
+      await undoLastOperation();
+
+      expect(await fs.readFile(configPath, "utf-8")).toBe("{}\n");
+      await expect(undoLastOperation()).rejects.toThrow("Nothing to undo");
+    });
+
+    it("should move binary files byte-for-byte and restore them on undo", async () => {
+      // A PNG header: not valid UTF-8 and contains NUL bytes
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0xff, 0xfe]);
+      const oldPath = path.join(testDir, "tests", "billing", "invoices.spec.ts-snapshots", "list-chromium.png");
+      const newPath = path.join(testDir, "tests", "invoicing", "invoices.spec.ts-snapshots", "list-chromium.png");
+      await fs.mkdir(path.dirname(oldPath), { recursive: true });
+      await fs.writeFile(oldPath, png);
+
+      await withTransaction("feature:rename", async () => {
+        await moveFileSafe(oldPath, newPath);
+        await deleteDirSafe(path.join(testDir, "tests", "billing"));
+      });
+
+      expect(await fs.readFile(newPath)).toEqual(png);
+      expect(existsSync(oldPath)).toBe(false);
+
+      await undoLastOperation();
+
+      expect(await fs.readFile(oldPath)).toEqual(png);
+      expect(existsSync(path.join(testDir, "tests", "invoicing"))).toBe(false);
+    });
+
+    it("should refuse when files were edited after the operation unless forced", async () => {
+      await withTransaction("feature:add", async () => {
+        await writeFileSafe(configPath, "{ \"added\": true }\n", true);
+      });
+      await fs.writeFile(configPath, "{ \"edited\": true }\n");
+
+      await expect(undoLastOperation()).rejects.toThrow("Pass --force");
+      expect(await fs.readFile(configPath, "utf-8")).toBe("{ \"edited\": true }\n");
+
+      await undoLastOperation({ force: true });
+
+      expect(await fs.readFile(configPath, "utf-8")).toBe("{}\n");
+    });
+  });
+});
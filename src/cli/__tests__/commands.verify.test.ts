@@ -0,0 +1,171 @@
+/**
+ * Tests for ado:verify against a local HTTP stub of the Azure DevOps test points and Test Plans APIs.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, jest } from "@jest/globals";
+import http from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+
+// Mock dependencies before imports; files live in an in-memory map keyed by absolute path
+let files: Record<string, string>;
+
+const fileOpsMock = {
+  readFileSafe: jest.fn(async (filePath: string) => files[filePath] ?? null),
+  readJsonSafe: jest.fn(async (filePath: string) => (filePath in files ? JSON.parse(files[filePath]) : null)),
+  fileExists: jest.fn((filePath: string) => filePath in files),
+  dirExists: jest.fn((_dirPath: string) => true),
+  isDryRun: jest.fn(() => false),
+};
+
+const globMock = jest.fn(async (_pattern: string, options?: { cwd?: string }) =>
+  Object.keys(files)
+    .filter((filePath) => filePath.endsWith(".spec.ts") && path.dirname(filePath) === options?.cwd)
+    .map((filePath) => path.basename(filePath))
+);
+
+jest.mock("@inquirer/prompts", () => ({
+  input: jest.fn(),
+  confirm: jest.fn(),
+  select: jest.fn(),
+}));
+jest.mock("../utils/fileOps", () => fileOpsMock);
+jest.mock("fast-glob", () => ({
+  __esModule: true,
+  glob: globMock,
+  default: globMock,
+}));
+
+// Import after mocks are set up
+import { runAdoVerify } from "../commands/verify";
+import { REPO_ROOT } from "../utils/paths";
+
+const STEPS_FIELD = "Microsoft.VSTS.TCM.Steps";
+
+function stepsXml(count: number): string {
+  const steps = Array.from(
+    { length: count },
+    (_, index) => `<step id="${index + 2}" type="ActionStep"><parameterizedString>Step ${index + 1}</parameterizedString></step>`
+  );
+  return `<steps>${steps.join("")}</steps>`;
+}
+
+const SPEC = `import { test } from "../fixtures/test-fixtures";
+
+// ---
+// ADO Suite IDs: 501
+// ---
+
+test.describe.serial("BILL-101 - Invoices @billing", () => {
+  test("[9001] Export invoices", async ({ page }) => {
+    await test.step("Open the invoice list", async () => {
+      await test.step("Nested step", async () => {});
+    });
+
+    await test.step("Export", async () => {});
+  });
+
+  test("[9002] Void an invoice", async ({ page }) => {
+    await test.step("Void", async () => {});
+  });
+
+  test("[9005] Refund an invoice", async ({ page }) => {});
+  // test("[9006] Commented out", async () => {});
+});
+`;
+
+describe("CLI Commands - ADO Verify Tests", () => {
+  let server: http.Server;
+  let routes: Record<string, unknown>;
+  let consoleOutput: string[];
+  let originalConsoleLog: typeof console.log;
+  const originalEnv = { ...process.env };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const route = routes[(req.url ?? "").split("?")[0]];
+      res.writeHead(route ? 200 : 404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(route ?? { message: "Not found" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    consoleOutput = [];
+    originalConsoleLog = console.log;
+    console.log = jest.fn((...args: unknown[]) => {
+      consoleOutput.push(args.join(" "));
+    });
+
+    const { port } = server.address() as AddressInfo;
+    process.env.ADO_ORG_URL = `http://127.0.0.1:${port}/org`;
+    process.env.ADO_PROJECT = "Pilot";
+    process.env.ADO_TOKEN = "stub-token";
+
+    files = {
+      [path.join(REPO_ROOT, "src/testdata/featureConfig.json")]: JSON.stringify({
+        billing: { tag: "@billing", planId: 42, suites: { "501": "Invoices" } },
+      }),
+      [path.join(REPO_ROOT, "tests/billing/BILL-101-invoices.spec.ts")]: SPEC,
+    };
+    routes = {
+      "/org/Pilot/_apis/test/Plans/42/Suites/501/points": {
+        value: [
+          { id: 1, testCase: { id: "9001", name: "Export invoices" } },
+          { id: 2, testCase: { id: "9002", name: "Void invoice" } },
+          { id: 3, testCase: { id: "9003", name: "Print invoice" } },
+        ],
+      },
+      "/org/Pilot/_apis/testplan/Plans/42/Suites/501/TestCase": {
+        value: [
+          { workItem: { id: 9001, name: "Export invoices", workItemFields: [{ [STEPS_FIELD]: stepsXml(2) }] } },
+          { workItem: { id: 9002, name: "Void invoice", workItemFields: [{ [STEPS_FIELD]: stepsXml(3) }] } },
+          { workItem: { id: 9003, name: "Print invoice", workItemFields: [] } },
+        ],
+      },
+    };
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    process.env = { ...originalEnv };
+  });
+
+  it("should report missing, extra, renamed and step-count-mismatched cases", async () => {
+    const inSync = await runAdoVerify();
+
+    expect(inSync).toBe(false);
+    const output = consoleOutput.join("\n");
+    expect(output).toContain(
+      'ERROR missing  billing: [9005] "Refund an invoice" (tests/billing/BILL-101-invoices.spec.ts) not found in suite 501'
+    );
+    expect(output).toContain(
+      'WARN  renamed  billing: [9002] "Void an invoice" (tests/billing/BILL-101-invoices.spec.ts) is titled "Void invoice" in ADO'
+    );
+    expect(output).toContain(
+      'WARN  steps    billing: [9002] "Void an invoice" (tests/billing/BILL-101-invoices.spec.ts) has 1 step(s); ADO has 3'
+    );
+    expect(output).toContain('WARN  extra    billing: [9003] "Print invoice" in suite 501 has no test in tests/billing');
+    expect(output).not.toContain("[9001]");
+    expect(output).not.toContain("[9006]");
+    expect(consoleOutput).toContain("Cases:      3");
+    expect(consoleOutput[consoleOutput.length - 1]).toBe("SPECS OUT OF SYNC WITH AZURE DEVOPS");
+  });
+
+  it("should pass with only warnings unless strict", async () => {
+    files[path.join(REPO_ROOT, "tests/billing/BILL-101-invoices.spec.ts")] = SPEC.replace(/\n {2}test\("\[9005\][^\n]*\n/, "\n");
+
+    expect(await runAdoVerify()).toBe(true);
+    expect(consoleOutput[consoleOutput.length - 1]).toBe("SPECS IN SYNC WITH AZURE DEVOPS");
+
+    expect(await runAdoVerify({ strict: true })).toBe(false);
+  });
+
+  it("should reject an unknown feature", async () => {
+    await expect(runAdoVerify({ feature: "payments" })).rejects.toThrow("Feature not found: payments");
+  });
+});
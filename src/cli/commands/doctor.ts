@@ -0,0 +1,433 @@
+// Doctor command - audits the user's project structure for consistency.
+// Doctor cross-checks config, tests, pages, fixtures, barrels and system values per environment. Only safe repairs are applied.
+import { readJsonSafe, readFileSafe, fileExists, dirExists } from "../utils/fileOps";
+import { paths, REPO_ROOT } from "../utils/paths";
+import { toPascalCase } from "../utils/normalize";
+import { withTransaction } from "../utils/journal";
+import { wirePageFixture, unwirePageFixture } from "./page";
+import { addFactoryExport, removeFactoryExport, addModelToIndex, removeModelFromIndex } from "./factory";
+import { listEnvironments } from "./system";
+import { findEnvironmentGaps } from "../../utils/canonicalLayers";
+import { system } from "../../testdata/system";
+import { glob } from "fast-glob";
+import path from "path";
+
+// Folders under tests/ that belong to the framework, not to a feature
+const RESERVED_TEST_DIRS = ["fixtures", "tools", "integration"];
+
+interface FeatureConfig {
+  [key: string]: {
+    tag: string;
+    planId: number;
+    suites: Record<string, string>;
+  };
+}
+
+/**
+ * A single doctor finding. Findings with a fix can be repaired by `doctor --fix`.
+ */
+export interface DoctorFinding {
+  type: "error" | "warning";
+  message: string;
+  fix?: {
+    description: string;
+    apply: () => Promise<void>;
+  };
+}
+
+/**
+ * Doctor options.
+ */
+export interface DoctorOptions {
+  fix?: boolean;
+}
+
+/**
+ * Runs the consistency audit, optionally applying safe repairs.
+ * Returns true when no errors remain.
+ */
+export async function runDoctor(options: DoctorOptions = {}): Promise<boolean> {
+  const LINE = "─".repeat(70);
+
+  console.log("PILOT DOCTOR");
+  console.log(LINE);
+  console.log("Project structure audit");
+  console.log();
+
+  let findings = await auditProject();
+  printFindings(findings);
+
+  if (options.fix) {
+    const fixable = findings.filter((finding) => finding.fix);
+    console.log();
+    console.log("REPAIRS");
+    console.log("─".repeat(7));
+    if (fixable.length === 0) {
+      console.log("No safe repairs available");
+    } else {
+      await withTransaction("doctor --fix", async () => {
+        for (const finding of fixable) {
+          await finding.fix!.apply();
+          console.log(`Repaired: ${finding.fix!.description}`);
+        }
+      });
+      findings = await auditProject();
+    }
+  }
+
+  const errors = findings.filter((finding) => finding.type === "error");
+  const warnings = findings.filter((finding) => finding.type === "warning");
+  const fixableCount = findings.filter((finding) => finding.fix).length;
+
+  console.log();
+  console.log(LINE);
+  console.log();
+  console.log(`Errors:     ${errors.length}`);
+  console.log(`Warnings:   ${warnings.length}`);
+  if (fixableCount > 0 && !options.fix) {
+    console.log(`Fixable:    ${fixableCount} (run "pilot doctor --fix" to repair)`);
+  }
+  console.log();
+  console.log(errors.length === 0 ? "PROJECT STRUCTURE CONSISTENT" : "PROJECT STRUCTURE INCONSISTENT");
+  return errors.length === 0;
+}
+
+/**
+ * Runs every structure check and returns the findings.
+ */
+export async function auditProject(): Promise<DoctorFinding[]> {
+  const findings: DoctorFinding[] = [];
+  await checkFeatureFolders(findings);
+  await checkSpecTags(findings);
+  await checkPageWiring(findings);
+  await checkFactoryBarrel(findings);
+  await checkModelBarrel(findings);
+  await checkSystemEnvironments(findings);
+  return findings;
+}
+
+/**
+ * Prints findings grouped by severity.
+ */
+function printFindings(findings: DoctorFinding[]): void {
+  console.log("FINDINGS");
+  console.log("─".repeat(8));
+  if (findings.length === 0) {
+    console.log("No inconsistencies found");
+    return;
+  }
+
+  const ordered = [
+    ...findings.filter((finding) => finding.type === "error"),
+    ...findings.filter((finding) => finding.type === "warning"),
+  ];
+  for (const finding of ordered) {
+    const label = finding.type === "error" ? "ERROR" : "WARN ";
+    const suffix = finding.fix ? " (fixable)" : "";
+    console.log(`${label} ${finding.message}${suffix}`);
+  }
+}
+
+/**
+ * Reads the suite IDs listed in a spec's "// ADO Suite IDs:" header.
+ */
+export function getSpecSuiteIds(content: string): string[] {
+  const match = content.match(/^\/\/ ADO Suite IDs:\s*(.+)$/m);
+  if (!match) return [];
+  return match[1].split(/[,\s]+/).filter((id) => /^\d+$/.test(id));
+}
+
+/**
+ * Reads the tags used in a spec's describe titles.
+ */
+function getSpecTags(content: string): string[] {
+  const tags = new Set<string>();
+  for (const match of content.matchAll(/test\.describe(?:\.\w+)*\(\s*["'`]([^"'`]*)["'`]/g)) {
+    for (const tag of match[1].match(/@[\w-]+/g) ?? []) {
+      tags.add(tag);
+    }
+  }
+  return Array.from(tags);
+}
+
+/**
+ * Checks featureConfig.json features against tests/<featureKey> folders and their specs.
+ */
+async function checkFeatureFolders(findings: DoctorFinding[]): Promise<void> {
+  const config = await readJsonSafe<FeatureConfig>(paths.featureConfig());
+  if (!config) {
+    findings.push({ type: "error", message: "featureConfig.json not found or invalid" });
+    return;
+  }
+
+  for (const [featureKey, feature] of Object.entries(config)) {
+    const testDir = paths.testDir(featureKey);
+    if (!dirExists(testDir)) {
+      findings.push({
+        type: "error",
+        message: `Feature "${featureKey}": test folder tests/${featureKey} not found`,
+      });
+      continue;
+    }
+
+    const specFiles = await glob("*.spec.ts", { cwd: testDir });
+    const specs: Array<{ file: string; suiteIds: string[] }> = [];
+    for (const specFile of specFiles) {
+      const content = (await readFileSafe(path.join(testDir, specFile))) ?? "";
+      specs.push({ file: specFile, suiteIds: getSpecSuiteIds(content) });
+    }
+
+    for (const [suiteId, suiteName] of Object.entries(feature.suites ?? {})) {
+      const suiteFileName = suiteName.toLowerCase().replace(/\s+/g, "-");
+      const hasSpec = specs.some(
+        (spec) => spec.suiteIds.includes(suiteId) || spec.file.toLowerCase().includes(suiteFileName)
+      );
+      if (!hasSpec) {
+        findings.push({
+          type: "warning",
+          message: `Feature "${featureKey}": suite ${suiteId} "${suiteName}" has no spec in tests/${featureKey}`,
+        });
+      }
+    }
+
+    for (const spec of specs) {
+      for (const suiteId of spec.suiteIds) {
+        if (!(suiteId in (feature.suites ?? {}))) {
+          findings.push({
+            type: "warning",
+            message: `Spec "tests/${featureKey}/${spec.file}": suite ID ${suiteId} is not in featureConfig.json`,
+          });
+        }
+      }
+    }
+  }
+
+  const testDirs = await glob("tests/*", { cwd: REPO_ROOT, onlyDirectories: true });
+  for (const dir of testDirs) {
+    const dirName = path.basename(dir);
+    if (!RESERVED_TEST_DIRS.includes(dirName) && !config[dirName]) {
+      findings.push({
+        type: "warning",
+        message: `Test folder "tests/${dirName}": no matching feature in featureConfig.json`,
+      });
+    }
+  }
+}
+
+/**
+ * Checks that spec tags in feature folders are declared in featureConfig.json.
+ */
+async function checkSpecTags(findings: DoctorFinding[]): Promise<void> {
+  const config = await readJsonSafe<FeatureConfig>(paths.featureConfig());
+  if (!config) return;
+
+  const knownTags = new Set(Object.values(config).map((feature) => feature.tag));
+  const specFiles = await glob("tests/*/**/*.spec.ts", { cwd: REPO_ROOT });
+
+  for (const specFile of specFiles) {
+    if (RESERVED_TEST_DIRS.includes(specFile.split("/")[1])) continue;
+
+    const content = await readFileSafe(path.join(REPO_ROOT, specFile));
+    if (!content) continue;
+
+    for (const tag of getSpecTags(content)) {
+      if (!knownTags.has(tag)) {
+        findings.push({
+          type: "warning",
+          message: `Spec "${specFile}": tag ${tag} is not in featureConfig.json`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Checks page objects against fixture wiring in test-fixtures.ts.
+ */
+async function checkPageWiring(findings: DoctorFinding[]): Promise<void> {
+  const fixturesContent = await readFileSafe(paths.fixtures());
+  if (!fixturesContent) {
+    findings.push({ type: "error", message: "test-fixtures.ts not found" });
+    return;
+  }
+
+  const pageFiles = await glob("src/pages/*/*Page.ts", { cwd: REPO_ROOT });
+
+  for (const pageFile of pageFiles) {
+    const parts = pageFile.split("/");
+    const featureKey = parts[2];
+    const PageClass = path.basename(pageFile, ".ts");
+    const PageName = PageClass.replace(/Page$/, "");
+    const fixtureName = PageName.charAt(0).toLowerCase() + PageName.slice(1) + "Page";
+
+    const missing: string[] = [];
+    if (!fixturesContent.includes(`import { ${PageClass} }`)) missing.push("import");
+    if (!fixturesContent.includes(`${fixtureName}: ${PageClass};`)) missing.push("type entry");
+    if (!fixturesContent.includes(`${fixtureName}: async`)) missing.push("extend entry");
+
+    if (missing.length > 0) {
+      findings.push({
+        type: "error",
+        message: `Page "${pageFile}": fixture "${fixtureName}" not wired in test-fixtures.ts (missing ${missing.join(", ")})`,
+        fix: {
+          description: `wired fixture "${fixtureName}" for ${pageFile}`,
+          apply: () => wirePageFixture(PageName, fixtureName, featureKey),
+        },
+      });
+    }
+  }
+
+  for (const match of fixturesContent.matchAll(/^\s+(\w+Page):\s+(\w+Page);/gm)) {
+    const fixtureName = match[1];
+    const PageClass = match[2];
+    if (!pageFiles.some((pageFile) => path.basename(pageFile) === `${PageClass}.ts`)) {
+      findings.push({
+        type: "warning",
+        message: `Fixture "${fixtureName}": page file ${PageClass}.ts not found (orphaned fixture)`,
+        fix: {
+          description: `removed orphaned fixture "${fixtureName}"`,
+          apply: () => unwirePageFixture(PageClass.replace(/Page$/, ""), fixtureName),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Checks factory files against the factories barrel.
+ */
+async function checkFactoryBarrel(findings: DoctorFinding[]): Promise<void> {
+  const indexContent = await readFileSafe(paths.factoriesIndex());
+  if (indexContent === null) {
+    findings.push({ type: "error", message: "factories/index.ts not found" });
+    return;
+  }
+
+  const factoryKeys = (await glob("src/testdata/factories/*.factory.ts", { cwd: REPO_ROOT })).map((file) =>
+    path.basename(file, ".factory.ts")
+  );
+  const exportedKeys = Array.from(indexContent.matchAll(/export \* from ['"]\.\/([\w-]+)\.factory['"];/g)).map(
+    (match) => match[1]
+  );
+
+  for (const factoryKey of factoryKeys) {
+    if (!exportedKeys.includes(factoryKey)) {
+      findings.push({
+        type: "error",
+        message: `Factory "${factoryKey}": not exported from factories/index.ts`,
+        fix: {
+          description: `added "${factoryKey}" export to factories/index.ts`,
+          apply: () => addFactoryExport(factoryKey),
+        },
+      });
+    }
+  }
+
+  for (const exportedKey of exportedKeys) {
+    if (!factoryKeys.includes(exportedKey)) {
+      findings.push({
+        type: "warning",
+        message: `Factory export "${exportedKey}": factory file not found (stale export)`,
+        fix: {
+          description: `removed stale "${exportedKey}" export from factories/index.ts`,
+          apply: () => removeFactoryExport(exportedKey),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Checks model files against the models barrel and their factories.
+ */
+async function checkModelBarrel(findings: DoctorFinding[]): Promise<void> {
+  const indexContent = await readFileSafe(paths.modelsIndex());
+  if (indexContent === null) {
+    findings.push({ type: "error", message: "models/index.ts not found" });
+    return;
+  }
+
+  const modelKeys = (await glob("src/testdata/models/*.ts", { cwd: REPO_ROOT }))
+    .map((file) => path.basename(file, ".ts"))
+    .filter((modelKey) => modelKey !== "index");
+  const exportedKeys = Array.from(indexContent.matchAll(/export \* from ['"]\.\/([\w-]+)['"];/g)).map(
+    (match) => match[1]
+  );
+
+  for (const modelKey of modelKeys) {
+    if (!exportedKeys.includes(modelKey)) {
+      const modelContent = (await readFileSafe(paths.model(modelKey))) ?? "";
+      const ModelName = modelContent.match(/export (?:interface|type) (\w+)/)?.[1] ?? toPascalCase(modelKey);
+      findings.push({
+        type: "error",
+        message: `Model "${ModelName}": not exported from models/index.ts`,
+        fix: {
+          description: `added "${ModelName}" to models/index.ts`,
+          apply: () => addModelToIndex(modelKey, ModelName),
+        },
+      });
+    }
+
+    if (!fileExists(paths.factory(modelKey))) {
+      findings.push({
+        type: "warning",
+        message: `Model "${modelKey}": no factory (run "pilot factory:add ${modelKey}")`,
+      });
+    }
+  }
+
+  for (const exportedKey of exportedKeys) {
+    if (!modelKeys.includes(exportedKey)) {
+      const importMatch = indexContent.match(new RegExp(`import type \\{ (\\w+) \\} from ['"]\\./${exportedKey}['"];`));
+      const ModelName = importMatch?.[1] ?? toPascalCase(exportedKey);
+      findings.push({
+        type: "warning",
+        message: `Model export "${exportedKey}": model file not found (stale export)`,
+        fix: {
+          description: `removed stale "${ModelName}" from models/index.ts`,
+          apply: () => removeModelFromIndex(exportedKey, ModelName),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Checks that every system key has a value in every environment overlay (dataStore.<env>.json).
+ */
+async function checkSystemEnvironments(findings: DoctorFinding[]): Promise<void> {
+  const envs = await listEnvironments();
+  if (envs.length === 0) {
+    return;
+  }
+
+  const base = (await readJsonSafe<Record<string, unknown>>(paths.dataStore())) ?? {};
+  const overlays: Record<string, Record<string, unknown>> = {};
+  for (const env of envs) {
+    overlays[env] = (await readJsonSafe<Record<string, unknown>>(paths.dataStoreOverlay(env))) ?? {};
+  }
+
+  const registryKeys: string[] = [];
+  const walk = (node: unknown): void => {
+    if (typeof node === "string") {
+      registryKeys.push(node);
+    } else if (node && typeof node === "object") {
+      Object.values(node).forEach(walk);
+    }
+  };
+  walk(system);
+
+  for (const gap of findEnvironmentGaps(base, overlays, registryKeys)) {
+    if (gap.kind === "missing") {
+      findings.push({
+        type: "error",
+        message: `System key "${gap.key}": no value in ${gap.env} (not in dataStore.json or dataStore.${gap.env}.json)`,
+      });
+    } else {
+      findings.push({
+        type: "warning",
+        message: `System key "${gap.key}": ${gap.env} falls back to dataStore.json (overridden in ${gap.overriddenIn.join(", ")})`,
+      });
+    }
+  }
+}
@@ -1,9 +1,17 @@
 // Command handlers for factory operations.
-import { readFileSafe, writeFileSafe, fileExists, deleteFileSafe } from "../utils/fileOps";
+import { readFileSafe, writeFileSafe, fileExists, deleteFileSafe, moveFileSafe } from "../utils/fileOps";
 import { paths, REPO_ROOT } from "../utils/paths";
 import { normalizeAndPrint, normalizeToKey, toPascalCase } from "../utils/normalize";
 import { getFactoryReferencedFiles } from "../utils/validation";
-import { input, select, confirm } from "@inquirer/prompts";
+import { input, select, confirm, confirmDeletion } from "../utils/interactive";
+import { withTransaction } from "../utils/journal";
+import {
+  updateProjectReferences,
+  applyReplacements,
+  identifierReplacement,
+  literalReplacement,
+  type Replacement,
+} from "../utils/references";
 import path from "path";
 
 /**
@@ -33,6 +41,13 @@ function modelExists(modelKey: string): boolean {
  * Adds a new factory.
  */
 export async function addFactory(factoryName?: string): Promise<void> {
+  await withTransaction("factory:add", () => performAddFactory(factoryName));
+}
+
+/**
+ * Runs the factory:add steps; called inside a transaction.
+ */
+async function performAddFactory(factoryName?: string): Promise<void> {
   const indexPath = paths.factoriesIndex();
   const indexContent = await readFileSafe(indexPath);
 
@@ -45,6 +60,7 @@ export async function addFactory(factoryName?: string): Promise<void> {
     if (!finalFactoryName || !finalFactoryName.trim()) {
       finalFactoryName = await input({
         message: "Enter factory name (or press Enter to exit):",
+        flag: "a new ModelName argument",
       });
       if (!finalFactoryName.trim()) {
         throw new Error("Factory creation cancelled.");
@@ -98,6 +114,8 @@ export async function addFactory(factoryName?: string): Promise<void> {
       while (true) {
         const newModelName = await input({
           message: "Enter model name:",
+          // Only reached after declining to reuse the model, which --yes never does
+          flag: null,
         });
         if (!newModelName.trim()) {
           console.log("⚠️  Model name is required. Please enter a name.");
@@ -218,7 +236,7 @@ async function createModelFile(modelKey: string, ModelName: string): Promise<voi
 /**
  * Adds a model to models/index.ts (export, import, and ModelMap entry).
  */
-async function addModelToIndex(modelKey: string, ModelName: string): Promise<void> {
+export async function addModelToIndex(modelKey: string, ModelName: string): Promise<void> {
   const indexPath = paths.modelsIndex();
   let content = await readFileSafe(indexPath);
   if (!content) {
@@ -417,7 +435,7 @@ async function createFactoryFile(modelKey: string, ModelName: string): Promise<v
 /**
  * Adds a factory export to the barrel file.
  */
-async function addFactoryExport(modelKey: string): Promise<void> {
+export async function addFactoryExport(modelKey: string): Promise<void> {
   const indexPath = paths.factoriesIndex();
   let content = await readFileSafe(indexPath);
   if (!content) {
@@ -448,6 +466,13 @@ async function addFactoryExport(modelKey: string): Promise<void> {
  * Deletes a factory.
  */
 export async function deleteFactory(factoryName?: string): Promise<void> {
+  await withTransaction("factory:delete", () => performDeleteFactory(factoryName));
+}
+
+/**
+ * Runs the factory:delete steps; called inside a transaction.
+ */
+async function performDeleteFactory(factoryName?: string): Promise<void> {
   // Find all available factories
   const glob = (await import("fast-glob")).default;
   const factoryFiles = await glob("src/testdata/factories/*.factory.ts", { cwd: REPO_ROOT }).catch(() => []);
@@ -484,6 +509,7 @@ export async function deleteFactory(factoryName?: string): Promise<void> {
     }));
     selectedModelKey = await select({
       message: "Select which factory to delete:",
+      flag: "the FactoryName argument",
       choices: factoryOptions,
     });
   }
@@ -506,13 +532,7 @@ export async function deleteFactory(factoryName?: string): Promise<void> {
   }
 
   // Confirm deletion
-  const confirmation = await input({
-    message: `Type "delete factory ${modelKey}" to confirm deletion:`,
-  });
-
-  if (confirmation !== `delete factory ${modelKey}`) {
-    throw new Error("Deletion cancelled: confirmation text did not match");
-  }
+  await confirmDeletion(`delete factory ${modelKey}`);
 
   // Delete file
   await deleteFileSafe(factoryPath);
@@ -540,10 +560,112 @@ export async function deleteFactory(factoryName?: string): Promise<void> {
   console.log(`✓ Removed export from ${paths.factoriesIndex()}`);
 }
 
+/**
+ * Renames a factory together with its builder and model: file names, function and type names,
+ * barrel exports, the ModelMap entry and every usage across tests/ and src/.
+ */
+export async function renameFactory(factoryName?: string, newName?: string): Promise<void> {
+  await withTransaction("factory:rename", () => performRenameFactory(factoryName, newName));
+}
+
+/**
+ * Runs the factory:rename steps; called inside a transaction.
+ */
+async function performRenameFactory(factoryName?: string, newName?: string): Promise<void> {
+  const glob = (await import("fast-glob")).default;
+  const factoryFiles = await glob("src/testdata/factories/*.factory.ts", { cwd: REPO_ROOT }).catch(() => []);
+  const availableKeys = factoryFiles.map((factoryFile) => path.basename(factoryFile, ".factory.ts")).sort();
+
+  if (availableKeys.length === 0) {
+    throw new Error("No factories found to rename");
+  }
+
+  let oldKey: string;
+  if (factoryName && factoryName.trim()) {
+    oldKey = normalizeAndPrint(factoryName, "factory name");
+    if (!availableKeys.includes(oldKey)) {
+      throw new Error(`Factory not found: ${oldKey}`);
+    }
+  } else {
+    oldKey = await select({
+      message: "Select which factory to rename:",
+      flag: "the FactoryName argument",
+      choices: availableKeys.map((key) => ({ value: key, name: toPascalCase(key) })),
+    });
+  }
+
+  let newNameInput = newName;
+  if (!newNameInput || !newNameInput.trim()) {
+    newNameInput = await input({ message: "Enter new factory name:", flag: "the NewName argument" });
+  }
+  const newKey = normalizeAndPrint(newNameInput, "factory name");
+  const NewName = toPascalCase(newNameInput);
+
+  // The model name comes from the factory itself so custom casing (e.g. "APIKey") is kept
+  const factoryContent = (await readFileSafe(paths.factory(oldKey))) ?? "";
+  const OldName = factoryContent.match(/export function create(\w+)\(/)?.[1] ?? toPascalCase(oldKey);
+
+  if (newKey === oldKey && NewName === OldName) {
+    throw new Error(`Factory "${OldName}" already has that name`);
+  }
+  if (newKey !== oldKey) {
+    for (const target of [paths.factory(newKey), paths.builder(newKey), paths.model(newKey)]) {
+      if (fileExists(target)) {
+        throw new Error(`File already exists: ${target}`);
+      }
+    }
+  }
+
+  // Project-wide: function names, model type references and module specifiers
+  const changed = await updateProjectReferences([
+    identifierReplacement(`create${OldName}`, `create${NewName}`),
+    identifierReplacement(`build${OldName}`, `build${NewName}`),
+    identifierReplacement(`build${OldName}s`, `build${NewName}s`),
+    identifierReplacement(`${OldName}Model`, `${NewName}Model`),
+    identifierReplacement(`models.${OldName}`, `models.${NewName}`),
+    identifierReplacement(`${oldKey}Traits`, `${newKey}Traits`),
+    literalReplacement(`import type { ${OldName} }`, `import type { ${NewName} }`),
+    literalReplacement(`  ${OldName}: ${OldName};`, `  ${NewName}: ${NewName};`),
+    literalReplacement(`./${oldKey}.factory'`, `./${newKey}.factory'`),
+    literalReplacement(`./${oldKey}.factory"`, `./${newKey}.factory"`),
+    literalReplacement(`/${oldKey}.builder'`, `/${newKey}.builder'`),
+    literalReplacement(`/${oldKey}.builder"`, `/${newKey}.builder"`),
+    literalReplacement(`'./${oldKey}'`, `'./${newKey}'`),
+    literalReplacement(`"./${oldKey}"`, `"./${newKey}"`),
+  ]);
+
+  // Own files: the model name and key appear in comments, locals and the tools prefix too
+  const ownReplacements: Replacement[] = [
+    identifierReplacement(OldName, NewName),
+    identifierReplacement(`${oldKey}Builder`, `${newKey}Builder`),
+    identifierReplacement(oldKey, newKey),
+  ];
+  const moved: string[] = [];
+  for (const [oldPath, newPath] of [
+    [paths.factory(oldKey), paths.factory(newKey)],
+    [paths.builder(oldKey), paths.builder(newKey)],
+    [paths.model(oldKey), paths.model(newKey)],
+  ]) {
+    const content = await readFileSafe(oldPath);
+    if (content === null) continue;
+    await writeFileSafe(oldPath, applyReplacements(content, ownReplacements), true);
+    if (newPath !== oldPath) {
+      await moveFileSafe(oldPath, newPath);
+      moved.push(path.relative(REPO_ROOT, newPath).replace(/\\/g, "/"));
+    }
+  }
+
+  console.log(`✓ Renamed factory: ${OldName} → ${NewName}`);
+  for (const file of moved) {
+    console.log(`✓ Moved: ${file}`);
+  }
+  console.log(`✓ Updated references in ${changed.length} file(s)`);
+}
+
 /**
  * Removes a factory export from the barrel file.
  */
-async function removeFactoryExport(modelKey: string): Promise<void> {
+export async function removeFactoryExport(modelKey: string): Promise<void> {
   const indexPath = paths.factoriesIndex();
   let content = await readFileSafe(indexPath);
   if (!content) {
@@ -560,7 +682,7 @@ async function removeFactoryExport(modelKey: string): Promise<void> {
 /**
  * Removes a model from models/index.ts (both export and ModelMap entry).
  */
-async function removeModelFromIndex(modelKey: string, ModelName: string): Promise<void> {
+export async function removeModelFromIndex(modelKey: string, ModelName: string): Promise<void> {
   const indexPath = paths.modelsIndex();
   let content = await readFileSafe(indexPath);
   if (!content) {
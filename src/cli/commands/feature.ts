@@ -1,12 +1,17 @@
 // Command handlers for feature operations.
-import { readJsonSafe, writeJsonSafe, fileExists, dirExists, writeFileSafe } from "../utils/fileOps";
+import { readJsonSafe, writeJsonSafe, fileExists, dirExists, writeFileSafe, deleteFileSafe, deleteDirSafe, deleteEmptyDirSafe, moveFileSafe } from "../utils/fileOps";
 import { paths, REPO_ROOT } from "../utils/paths";
-import { normalizeAndPrint, toPascalCase, toCamelCase, normalizeSuiteName } from "../utils/normalize";
+import { normalizeAndPrint, normalizeToKey, toPascalCase, toCamelCase, normalizeSuiteName } from "../utils/normalize";
 import { loadTemplate, renderTemplate } from "../utils/templates";
 import { findMatchingPages } from "../utils/validation";
 import { addFeatureToDataStoreMap, removeFeatureFromDataStoreMap } from "../utils/dataStoreUpdater";
-import { input, confirm, select } from "@inquirer/prompts";
+import { input, confirm, select, confirmDeletion } from "../utils/interactive";
+import { withTransaction } from "../utils/journal";
+import { updateProjectReferences, escapeRegExp, literalReplacement } from "../utils/references";
 import { addPage } from "./page";
+import { readAdoConfig } from "../../integrations/azureDevops";
+import { getTestPlanSuiteTree, type TestPlanSuiteTree, type TestPlanCase } from "../../integrations/azureDevops/testPlans";
+import { renderTestCaseSpec } from "../utils/testCaseStubs";
 import path from "path";
 
 interface FeatureConfig {
@@ -19,11 +24,25 @@ interface FeatureConfig {
 
 /**
  * Adds a new feature with pre-provided suite mapping (used when creating feature from spec flow).
+ * Suites with ADO test cases (keyed by suite ID) get one test stub per case instead of the example test.
  */
 export async function addFeatureWithSuites(
   featureKey: string,
   suiteMapping: Record<string, string>,
-  planId?: number
+  planId?: number,
+  testCases?: Record<string, TestPlanCase[]>
+): Promise<void> {
+  await withTransaction("feature:add", () => performAddFeatureWithSuites(featureKey, suiteMapping, planId, testCases));
+}
+
+/**
+ * Runs the feature:add steps; called inside a transaction.
+ */
+async function performAddFeatureWithSuites(
+  featureKey: string,
+  suiteMapping: Record<string, string>,
+  planId?: number,
+  testCases?: Record<string, TestPlanCase[]>
 ): Promise<void> {
   // Check if feature already exists
   const config = await readJsonSafe<FeatureConfig>(paths.featureConfig());
@@ -42,6 +61,7 @@ export async function addFeatureWithSuites(
     if (finalPlanId === undefined) {
       const planIdInput = await input({
         message: "Enter Azure DevOps Plan ID (number):",
+        flag: "--plan-id <planId>",
       });
       finalPlanId = parseInt(planIdInput, 10);
       if (isNaN(finalPlanId)) {
@@ -98,6 +118,8 @@ export async function addFeatureWithSuites(
       while (!pageNameInput.trim()) {
         pageNameInput = await input({
           message: "Enter page name (required):",
+          // Only reached after declining the existing page, which --yes never does
+          flag: null,
         });
         if (!pageNameInput.trim()) {
           console.log("⚠️  Page name is required. Please enter a name.");
@@ -134,7 +156,7 @@ export async function addFeatureWithSuites(
   await writeFileSafe(gitkeepPath, "", true);
   // Remove .gitkeep immediately after creating directory
   try {
-    await import("fs").then((fs) => fs.promises.unlink(gitkeepPath));
+    await deleteFileSafe(gitkeepPath);
   } catch {
     // Ignore if already deleted
   }
@@ -167,7 +189,23 @@ export async function addFeatureWithSuites(
     const fileNameBase = normalizeAndPrint(suiteName, "suite name");
 
     let specContent = "";
-    if (isLoginPage) {
+    const suiteCases = testCases?.[suiteId.toString()] ?? [];
+    if (suiteCases.length > 0) {
+      // ADO test cases: one test per case, one step per ADO step
+      specContent = renderTestCaseSpec(
+        await loadTemplate("spec-cases.ts"),
+        {
+          featureKey,
+          tag: `@${featureKey}`,
+          planId: finalPlanId.toString(),
+          suites: suiteId.toString(),
+          specId,
+          description: suiteName.replace(/-/g, " "),
+        },
+        suiteCases,
+        pageFixture
+      );
+    } else if (isLoginPage) {
       // Login page: completely custom template with two test cases
       specContent = `import { test, expect } from "../fixtures/test-fixtures";
 import * as factories from "../../src/testdata/factories";
@@ -296,18 +334,128 @@ test.describe.serial("${specId} - ${suiteName.replace(/-/g, " ")} @${featureKey}
   }
 }
 
+/**
+ * Imports a feature from an Azure DevOps test plan: the plan's suites become the
+ * feature's suite mapping, then the feature is created through addFeatureWithSuites.
+ */
+export async function importFeature(featureName: string | undefined, planId?: number): Promise<void> {
+  await withTransaction("feature:import", () => performImportFeature(featureName, planId));
+}
+
+/**
+ * Runs the feature:import steps; called inside a transaction.
+ */
+async function performImportFeature(featureName: string | undefined, planId?: number): Promise<void> {
+  let finalPlanId = planId;
+  while (finalPlanId === undefined || isNaN(finalPlanId)) {
+    const planIdInput = await input({
+      message: "Enter Azure DevOps Plan ID to import (number):",
+      flag: "--plan-id <planId>",
+    });
+    finalPlanId = parseInt(planIdInput, 10);
+    if (isNaN(finalPlanId)) {
+      console.log("⚠️  Plan ID must be a number.");
+    }
+  }
+
+  const tree = await getTestPlanSuiteTree(readAdoConfig(), finalPlanId);
+  const suiteMapping = buildSuiteMappingFromPlan(tree);
+  console.log(`✓ Read test plan ${tree.planId} "${tree.planName}" (${Object.keys(suiteMapping).length} suite(s))`);
+
+  let featureNameInput = featureName;
+  if (!featureNameInput || !featureNameInput.trim()) {
+    featureNameInput = await input({
+      message: "Enter feature name:",
+      flag: "the FeatureName argument",
+      default: normalizeToKey(tree.planName) ?? undefined,
+    });
+  }
+  const featureKey = normalizeAndPrint(featureNameInput, "feature name");
+
+  await addFeatureWithSuites(featureKey, suiteMapping, finalPlanId);
+}
+
+/**
+ * Maps a plan's suites to Suite ID -> normalized Suite Name. The root suite is only
+ * used when the plan has no other suites. Names that repeat in different branches
+ * are prefixed with their parent suite name.
+ */
+function buildSuiteMappingFromPlan(tree: TestPlanSuiteTree): Record<string, string> {
+  const childSuites = tree.suites.filter((suite) => suite.id !== tree.rootSuiteId);
+  const suites = childSuites.length > 0 ? childSuites : [{ id: tree.rootSuiteId, name: tree.planName, parentSuiteId: null }];
+  const suiteNames = new Map(tree.suites.map((suite) => [suite.id, suite.name]));
+
+  const suiteMapping: Record<string, string> = {};
+  const usedNames = new Set<string>();
+  for (const suite of suites) {
+    let name = normalizeSuiteName(suite.name);
+    if (usedNames.has(name.toLowerCase()) && suite.parentSuiteId !== null && suite.parentSuiteId !== tree.rootSuiteId) {
+      name = normalizeSuiteName(`${suiteNames.get(suite.parentSuiteId) ?? ""} ${suite.name}`);
+    }
+    if (usedNames.has(name.toLowerCase())) {
+      name = `${name} ${suite.id}`;
+    }
+    usedNames.add(name.toLowerCase());
+    suiteMapping[suite.id.toString()] = name;
+  }
+  return suiteMapping;
+}
+
+/**
+ * Parses --suite "<id>=<name>" values into a suite mapping (Suite ID -> normalized Suite Name).
+ */
+export function parseSuiteOptions(values: string[]): Record<string, string> {
+  const suiteMapping: Record<string, string> = {};
+  for (const value of values) {
+    const separatorIndex = value.indexOf("=");
+    const idPart = separatorIndex >= 0 ? value.slice(0, separatorIndex).trim() : "";
+    const namePart = separatorIndex >= 0 ? value.slice(separatorIndex + 1).trim() : "";
+    const suiteId = parseInt(idPart, 10);
+    if (isNaN(suiteId) || String(suiteId) !== idPart || !namePart) {
+      throw new Error(`Invalid --suite value "${value}". Expected "<suiteId>=<suite name>", e.g. --suite "1001=User Login".`);
+    }
+
+    const normalizedSuiteName = normalizeSuiteName(namePart);
+    if (suiteId.toString() in suiteMapping) {
+      throw new Error(`Suite ID ${suiteId} is passed more than once.`);
+    }
+    const duplicateName = Object.values(suiteMapping).find(
+      (name) => name.toLowerCase() === normalizedSuiteName.toLowerCase()
+    );
+    if (duplicateName) {
+      throw new Error(`Suite name "${normalizedSuiteName}" is passed more than once (case-insensitive match with "${duplicateName}").`);
+    }
+    suiteMapping[suiteId.toString()] = normalizedSuiteName;
+  }
+  return suiteMapping;
+}
+
 /**
  * Adds a new feature.
+ * When suites are provided (from --suite flags), the suite prompts are skipped.
  */
 export async function addFeature(
   featureName: string | undefined,
-  planId?: number
+  planId?: number,
+  suites?: Record<string, string>
+): Promise<void> {
+  await withTransaction("feature:add", () => performAddFeature(featureName, planId, suites));
+}
+
+/**
+ * Runs the feature:add steps; called inside a transaction.
+ */
+async function performAddFeature(
+  featureName: string | undefined,
+  planId?: number,
+  suites?: Record<string, string>
 ): Promise<void> {
   // Prompt for feature name if not provided
   let finalFeatureName = featureName;
   if (!finalFeatureName || !finalFeatureName.trim()) {
     finalFeatureName = await input({
       message: "Enter feature name:",
+      flag: "the FeatureName argument",
     });
     if (!finalFeatureName.trim()) {
       throw new Error("Feature name is required");
@@ -333,6 +481,7 @@ export async function addFeature(
     if (finalPlanId === undefined) {
       const planIdInput = await input({
         message: "Enter Azure DevOps Plan ID (number):",
+        flag: "--plan-id <planId>",
       });
       finalPlanId = parseInt(planIdInput, 10);
       if (isNaN(finalPlanId)) {
@@ -358,15 +507,31 @@ export async function addFeature(
 
   // Prompt for suite names first, then IDs (more intuitive - names are meaningful)
   const suiteMapping: Record<string, string> = {};
-  
-  // Interactive mode: prompt for names first
-  console.log("\n💡 Enter suite names first (what you named your test suites), then their ADO IDs.\n");
-  
-  while (true) {
+
+  if (suites && Object.keys(suites).length > 0) {
+    // Suites provided via flags: validate against other features instead of re-prompting
+    for (const [suiteIdKey, suiteName] of Object.entries(suites)) {
+      const existingFeature = config
+        ? Object.entries(config).find(([key, feature]) => key !== featureKey && suiteIdKey in feature.suites)
+        : undefined;
+      if (existingFeature) {
+        throw new Error(
+          `Suite ID ${suiteIdKey} is already used by feature "${existingFeature[0]}" (suite: "${existingFeature[1].suites[suiteIdKey]}"). Pass a different --suite value.`
+        );
+      }
+      suiteMapping[suiteIdKey] = suiteName;
+      console.log(`✓ Added suite: ${suiteIdKey} - "${suiteName}"`);
+    }
+  } else {
+    // Interactive mode: prompt for names first
+    console.log("\n💡 Enter suite names first (what you named your test suites), then their ADO IDs.\n");
+
+    while (true) {
       const suiteName = await input({
         message: Object.keys(suiteMapping).length === 0
           ? "Enter suite name:"
           : "Enter suite name (or press Enter to finish):",
+        flag: '--suite "<suiteId>=<suite name>"',
       });
       
       if (!suiteName.trim()) {
@@ -400,6 +565,7 @@ export async function addFeature(
       while (suiteId === null || isNaN(suiteId)) {
         const idInput = await input({
           message: `Enter Azure DevOps Suite ID for "${normalizedSuiteName}":`,
+          flag: '--suite "<suiteId>=<suite name>"',
         });
         suiteId = parseInt(idInput.trim(), 10);
         if (isNaN(suiteId)) {
@@ -426,7 +592,8 @@ export async function addFeature(
       suiteMapping[suiteId.toString()] = normalizedSuiteName; // Store normalized name
       console.log(`✓ Added suite: ${suiteId} - "${normalizedSuiteName}"\n`);
     }
-  
+  }
+
   const finalSuites = Object.keys(suiteMapping).map((id) => parseInt(id, 10));
 
   // Check for matching pages
@@ -444,6 +611,8 @@ export async function addFeature(
       while (!pageNameInput.trim()) {
         pageNameInput = await input({
           message: "Enter page name (required):",
+          // Only reached after declining the existing page, which --yes never does
+          flag: null,
         });
         if (!pageNameInput.trim()) {
           console.log("⚠️  Page name is required. Please enter a name.");
@@ -480,7 +649,7 @@ export async function addFeature(
   await writeFileSafe(gitkeepPath, "", true);
   // Remove .gitkeep immediately after creating directory
   try {
-    await import("fs").then((fs) => fs.promises.unlink(gitkeepPath));
+    await deleteFileSafe(gitkeepPath);
   } catch {
     // Ignore if already deleted
   }
@@ -646,6 +815,13 @@ test.describe.serial("${specId} - ${suiteName.replace(/-/g, " ")} @${featureKey}
  * Deletes a feature.
  */
 export async function deleteFeature(featureName: string | undefined): Promise<void> {
+  await withTransaction("feature:delete", () => performDeleteFeature(featureName));
+}
+
+/**
+ * Runs the feature:delete steps; called inside a transaction.
+ */
+async function performDeleteFeature(featureName: string | undefined): Promise<void> {
   // Get all available features
   const { getAvailableFeatureKeys } = await import("../../utils/featureConfig");
   const availableFeatures = getAvailableFeatureKeys();
@@ -668,18 +844,13 @@ export async function deleteFeature(featureName: string | undefined): Promise<vo
     }));
     featureKey = await select({
       message: "Select which feature to delete:",
+      flag: "the FeatureName argument",
       choices: featureOptions,
     });
   }
 
   // Confirm deletion
-  const confirmation = await input({
-    message: `Type "delete ${featureKey}" to confirm deletion:`,
-  });
-
-  if (confirmation !== `delete ${featureKey}`) {
-    throw new Error("Deletion cancelled: confirmation text did not match");
-  }
+  await confirmDeletion(`delete ${featureKey}`);
 
   // Find and handle pages for this feature
   // Find all pages in the feature's directory (not just matching by name)
@@ -753,10 +924,7 @@ export async function deleteFeature(featureName: string | undefined): Promise<vo
   // Delete empty directory after processing all pages
   if (dirExists(pageDir)) {
     try {
-      const fs = await import("fs");
-      const dirContents = await fs.promises.readdir(pageDir);
-      if (dirContents.length === 0) {
-        await fs.promises.rmdir(pageDir);
+      if (await deleteEmptyDirSafe(pageDir)) {
         console.log(`✓ Removed empty directory: ${pageDir}`);
       }
     } catch {
@@ -777,7 +945,7 @@ export async function deleteFeature(featureName: string | undefined): Promise<vo
   // Delete test directory
   const testDir = paths.testDir(featureKey);
   if (dirExists(testDir)) {
-    await import("fs").then((fs) => fs.promises.rm(testDir, { recursive: true, force: true }));
+    await deleteDirSafe(testDir);
   }
 
   console.log(`✓ Deleted feature: ${featureKey}`);
@@ -785,3 +953,93 @@ export async function deleteFeature(featureName: string | undefined): Promise<vo
   console.log(`✓ Removed from DataStoreMap`);
   console.log(`✓ Deleted test directory: ${testDir}`);
 }
+
+/**
+ * Renames a feature: featureConfig.json key and tag, tests/ and src/pages/ folders,
+ * spec tags and headers, page import paths and the DataStoreMap key.
+ */
+export async function renameFeature(featureName: string | undefined, newName: string | undefined): Promise<void> {
+  await withTransaction("feature:rename", () => performRenameFeature(featureName, newName));
+}
+
+/**
+ * Runs the feature:rename steps; called inside a transaction.
+ */
+async function performRenameFeature(featureName: string | undefined, newName: string | undefined): Promise<void> {
+  const config = await readJsonSafe<FeatureConfig>(paths.featureConfig());
+  const availableFeatures = config ? Object.keys(config) : [];
+  if (!config || availableFeatures.length === 0) {
+    throw new Error("No features found to rename");
+  }
+
+  let oldKey: string;
+  if (featureName && featureName.trim()) {
+    oldKey = normalizeAndPrint(featureName, "feature name");
+    if (!config[oldKey]) {
+      throw new Error(`Feature not found: ${oldKey}`);
+    }
+  } else {
+    oldKey = await select({
+      message: "Select which feature to rename:",
+      flag: "the FeatureName argument",
+      choices: availableFeatures.map((key) => ({ value: key, name: key })),
+    });
+  }
+
+  let newNameInput = newName;
+  if (!newNameInput || !newNameInput.trim()) {
+    newNameInput = await input({ message: "Enter new feature name:", flag: "the NewName argument" });
+  }
+  const newKey = normalizeAndPrint(newNameInput, "feature name");
+
+  if (newKey === oldKey) {
+    throw new Error(`Feature "${oldKey}" already has that name`);
+  }
+  if (config[newKey]) {
+    throw new Error(`Feature already exists: ${newKey}`);
+  }
+  const newTestDir = paths.testDir(newKey);
+  if (dirExists(newTestDir)) {
+    throw new Error(`Test directory already exists: ${newTestDir}`);
+  }
+  if (dirExists(paths.pageDir(newKey))) {
+    throw new Error(`Page directory already exists: ${paths.pageDir(newKey)}`);
+  }
+
+  // Rename the config key in place so the file keeps its order
+  const oldTag = config[oldKey].tag;
+  const newTag = `@${newKey}`;
+  const renamedConfig: FeatureConfig = {};
+  for (const [key, feature] of Object.entries(config)) {
+    renamedConfig[key === oldKey ? newKey : key] = key === oldKey ? { ...feature, tag: newTag } : feature;
+  }
+  await writeJsonSafe(paths.featureConfig(), renamedConfig, true);
+
+  const changed = await updateProjectReferences([
+    { pattern: new RegExp(`${escapeRegExp(oldTag)}(?![\\w-])`, "g"), replacement: newTag },
+    { pattern: new RegExp(`^// Feature: ${escapeRegExp(oldKey)}$`, "gm"), replacement: `// Feature: ${newKey}` },
+    literalReplacement(`/pages/${oldKey}/`, `/pages/${newKey}/`),
+    literalReplacement(`"${oldKey}.user"`, `"${newKey}.user"`),
+  ]);
+
+  // Move test and page folders after the content updates so moved files keep them
+  const glob = (await import("fast-glob")).default;
+  let movedCount = 0;
+  for (const [oldDir, newDir] of [
+    [paths.testDir(oldKey), newTestDir],
+    [paths.pageDir(oldKey), paths.pageDir(newKey)],
+  ]) {
+    if (!dirExists(oldDir)) continue;
+    const files = await glob("**/*", { cwd: oldDir, dot: true });
+    for (const file of files.sort()) {
+      await moveFileSafe(path.join(oldDir, file), path.join(newDir, file));
+      movedCount++;
+    }
+    await deleteDirSafe(oldDir);
+  }
+
+  console.log(`✓ Renamed feature: ${oldKey} → ${newKey}`);
+  console.log(`✓ Updated featureConfig.json (tag ${newTag})`);
+  console.log(`✓ Moved ${movedCount} file(s) to tests/${newKey} and src/pages/${newKey}`);
+  console.log(`✓ Updated references in ${changed.length} file(s)`);
+}
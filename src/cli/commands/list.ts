@@ -0,0 +1,343 @@
+// List command - inventory of the features, suites, pages, factories, models and system keys the CLI manages.
+import { readFileSafe, readJsonSafe, fileExists } from "../utils/fileOps";
+import { paths, REPO_ROOT } from "../utils/paths";
+import { FEATURE_CONFIG } from "../../utils/featureConfig";
+import { system } from "../../testdata/system";
+import { getSpecSuiteIds } from "./doctor";
+import { listEnvironments } from "./system";
+import { BASE_LAYER, overlayFileName } from "../../utils/canonicalLayers";
+import { glob } from "fast-glob";
+import path from "path";
+
+/**
+ * Entity kinds accepted by `pilot list [entity]`.
+ */
+export const LIST_ENTITIES = ["features", "suites", "pages", "factories", "models", "system"] as const;
+
+export type ListEntity = (typeof LIST_ENTITIES)[number];
+
+/** A feature from featureConfig.json with its folders and totals. */
+export interface FeatureListItem {
+  key: string;
+  tag: string;
+  planId: number;
+  testDir: string;
+  pageDir: string;
+  suites: number;
+  tests: number;
+}
+
+/** A suite with its spec file(s) and test count. */
+export interface SuiteListItem {
+  feature: string;
+  suiteId: number;
+  name: string;
+  tag: string;
+  planId: number;
+  specs: string[];
+  tests: number;
+}
+
+/** A page object and the fixture it is wired to (null when unwired). */
+export interface PageListItem {
+  feature: string;
+  className: string;
+  fixture: string | null;
+  path: string;
+}
+
+/** A data factory and whether the barrel exports it. */
+export interface FactoryListItem {
+  key: string;
+  function: string;
+  path: string;
+  builder: string | null;
+  exported: boolean;
+}
+
+/** A model and whether it is in ModelMap and has a factory. */
+export interface ModelListItem {
+  name: string;
+  key: string;
+  path: string;
+  inModelMap: boolean;
+  hasFactory: boolean;
+}
+
+/** A system.* registry key, whether dataStore.json has a value for it, and where each environment's value comes from. */
+export interface SystemListItem {
+  key: string;
+  hasValue: boolean;
+  /** Environment -> file its value is loaded from ("-" when it has none). Empty without overlays. */
+  sources: Record<string, string>;
+}
+
+/**
+ * Everything `pilot list` reports, keyed by entity kind.
+ */
+export interface Inventory {
+  features: FeatureListItem[];
+  suites: SuiteListItem[];
+  pages: PageListItem[];
+  factories: FactoryListItem[];
+  models: ModelListItem[];
+  system: SystemListItem[];
+}
+
+/**
+ * List options.
+ */
+export interface ListOptions {
+  json?: boolean;
+}
+
+/**
+ * Prints the inventory for one entity kind (or all of them) as tables or JSON.
+ */
+export async function listInventory(entity?: string, options: ListOptions = {}): Promise<void> {
+  if (entity && !LIST_ENTITIES.includes(entity as ListEntity)) {
+    throw new Error(`Unknown list type "${entity}". Expected one of: ${LIST_ENTITIES.join(", ")}`);
+  }
+
+  const inventory = await collectInventory();
+  const selected = entity ? [entity as ListEntity] : [...LIST_ENTITIES];
+
+  if (options.json) {
+    const output = entity ? inventory[entity as ListEntity] : inventory;
+    console.log(JSON.stringify(output, null, 2));
+    return;
+  }
+
+  selected.forEach((kind, index) => {
+    if (index > 0) console.log();
+    printSection(kind, inventory);
+  });
+}
+
+/**
+ * Builds the inventory from featureConfig.json, the project folders and the barrels.
+ */
+export async function collectInventory(): Promise<Inventory> {
+  const suites = await collectSuites();
+  return {
+    features: collectFeatures(suites),
+    suites,
+    pages: await collectPages(),
+    factories: await collectFactories(),
+    models: await collectModels(),
+    system: await collectSystemKeys(),
+  };
+}
+
+function toRepoPath(filePath: string): string {
+  return path.relative(REPO_ROOT, filePath).split(path.sep).join("/");
+}
+
+/**
+ * Counts test() calls in a spec, ignoring test.step/test.describe and commented-out tests.
+ */
+function countTests(content: string): number {
+  return (content.match(/^\s*test(?:\.(?:only|skip|fixme|fail|slow))?\(\s*["'`]/gm) ?? []).length;
+}
+
+async function collectSuites(): Promise<SuiteListItem[]> {
+  const items: SuiteListItem[] = [];
+
+  for (const [featureKey, feature] of Object.entries(FEATURE_CONFIG)) {
+    const testDir = paths.testDir(featureKey);
+    const specFiles = await glob("*.spec.ts", { cwd: testDir }).catch(() => [] as string[]);
+    const specs: Array<{ file: string; suiteIds: string[]; tests: number }> = [];
+    for (const specFile of specFiles.sort()) {
+      const content = (await readFileSafe(path.join(testDir, specFile))) ?? "";
+      specs.push({ file: specFile, suiteIds: getSpecSuiteIds(content), tests: countTests(content) });
+    }
+
+    for (const [suiteId, suiteName] of Object.entries(feature.suites ?? {})) {
+      // Same matching as doctor: suite ID header first, then the kebab-case suite name in the file name
+      const suiteFileName = suiteName.toLowerCase().replace(/\s+/g, "-");
+      const matching = specs.filter(
+        (spec) => spec.suiteIds.includes(suiteId) || spec.file.toLowerCase().includes(suiteFileName)
+      );
+      items.push({
+        feature: featureKey,
+        suiteId: parseInt(suiteId, 10),
+        name: suiteName,
+        tag: feature.tag,
+        planId: feature.planId,
+        specs: matching.map((spec) => `tests/${featureKey}/${spec.file}`),
+        tests: matching.reduce((total, spec) => total + spec.tests, 0),
+      });
+    }
+  }
+
+  return items;
+}
+
+function collectFeatures(suites: SuiteListItem[]): FeatureListItem[] {
+  return Object.entries(FEATURE_CONFIG).map(([featureKey, feature]) => {
+    const featureSuites = suites.filter((suite) => suite.feature === featureKey);
+    return {
+      key: featureKey,
+      tag: feature.tag,
+      planId: feature.planId,
+      testDir: toRepoPath(paths.testDir(featureKey)),
+      pageDir: toRepoPath(paths.pageDir(featureKey)),
+      suites: featureSuites.length,
+      tests: featureSuites.reduce((total, suite) => total + suite.tests, 0),
+    };
+  });
+}
+
+async function collectPages(): Promise<PageListItem[]> {
+  const fixturesContent = (await readFileSafe(paths.fixtures())) ?? "";
+  const pageFiles = await glob("src/pages/*/*Page.ts", { cwd: REPO_ROOT });
+
+  return pageFiles.sort().map((pageFile) => {
+    const [, , featureKey, fileName] = pageFile.split("/");
+    const className = fileName.replace(/\.ts$/, "");
+    const fixtureMatch = fixturesContent.match(new RegExp(`(\\w+): ${className};`));
+    return { feature: featureKey, className, fixture: fixtureMatch ? fixtureMatch[1] : null, path: pageFile };
+  });
+}
+
+async function collectFactories(): Promise<FactoryListItem[]> {
+  const indexContent = (await readFileSafe(paths.factoriesIndex())) ?? "";
+  const factoryFiles = await glob("src/testdata/factories/*.factory.ts", { cwd: REPO_ROOT });
+
+  const items: FactoryListItem[] = [];
+  for (const factoryFile of factoryFiles.sort()) {
+    const modelKey = path.basename(factoryFile, ".factory.ts");
+    const content = (await readFileSafe(path.join(REPO_ROOT, factoryFile))) ?? "";
+    const functionName = content.match(/export function (create\w+)\(/)?.[1] ?? "";
+    const builderPath = paths.builder(modelKey);
+    items.push({
+      key: modelKey,
+      function: functionName,
+      path: factoryFile,
+      builder: fileExists(builderPath) ? toRepoPath(builderPath) : null,
+      exported: new RegExp(`from ['"]\\./${modelKey}\\.factory['"]`).test(indexContent),
+    });
+  }
+  return items;
+}
+
+async function collectModels(): Promise<ModelListItem[]> {
+  const indexContent = (await readFileSafe(paths.modelsIndex())) ?? "";
+  const modelFiles = await glob("src/testdata/models/*.ts", { cwd: REPO_ROOT });
+
+  const items: ModelListItem[] = [];
+  for (const modelFile of modelFiles.sort()) {
+    const modelKey = path.basename(modelFile, ".ts");
+    if (modelKey === "index") continue;
+    const content = (await readFileSafe(path.join(REPO_ROOT, modelFile))) ?? "";
+    const name = content.match(/export interface (\w+)/)?.[1] ?? "";
+    items.push({
+      name,
+      key: modelKey,
+      path: modelFile,
+      inModelMap: name !== "" && indexContent.includes(`${name}: ${name};`),
+      hasFactory: fileExists(paths.factory(modelKey)),
+    });
+  }
+  return items;
+}
+
+async function collectSystemKeys(): Promise<SystemListItem[]> {
+  const store = (await readJsonSafe<Record<string, unknown>>(paths.dataStore())) ?? {};
+  const keys: string[] = [];
+  const walk = (node: unknown): void => {
+    if (typeof node === "string") {
+      keys.push(node);
+    } else if (node && typeof node === "object") {
+      Object.values(node).forEach(walk);
+    }
+  };
+  walk(system);
+
+  const overlays: Record<string, Record<string, unknown>> = {};
+  for (const env of await listEnvironments()) {
+    overlays[env] = (await readJsonSafe<Record<string, unknown>>(paths.dataStoreOverlay(env))) ?? {};
+  }
+  const sourceOf = (key: string, env: string): string =>
+    overlays[env][key] !== undefined ? overlayFileName(env) : store[key] !== undefined ? BASE_LAYER : "-";
+
+  // Values are never printed; they may be credentials
+  return keys.sort().map((key) => ({
+    key,
+    hasValue: store[key] !== undefined,
+    sources: Object.fromEntries(Object.keys(overlays).map((env) => [env, sourceOf(key, env)])),
+  }));
+}
+
+/**
+ * Prints rows as a left-aligned table with a header rule.
+ */
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  const format = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  console.log(format(headers));
+  console.log(widths.map((width) => "─".repeat(width)).join("  "));
+  rows.forEach((row) => console.log(format(row)));
+}
+
+function yesNo(value: boolean): string {
+  return value ? "yes" : "no";
+}
+
+function printSection(kind: ListEntity, inventory: Inventory): void {
+  console.log(`${kind.toUpperCase()} (${inventory[kind].length})`);
+  if (inventory[kind].length === 0) {
+    console.log("  (none)");
+    return;
+  }
+
+  switch (kind) {
+    case "features":
+      printTable(
+        ["Feature", "Tag", "Plan ID", "Suites", "Tests", "Tests Folder", "Pages Folder"],
+        inventory.features.map((f) => [f.key, f.tag, String(f.planId), String(f.suites), String(f.tests), f.testDir, f.pageDir])
+      );
+      break;
+    case "suites":
+      printTable(
+        ["Feature", "Suite ID", "Suite", "Tag", "Plan ID", "Tests", "Spec"],
+        inventory.suites.map((s) => [
+          s.feature,
+          String(s.suiteId),
+          s.name,
+          s.tag,
+          String(s.planId),
+          String(s.tests),
+          s.specs.length > 0 ? s.specs.join(", ") : "-",
+        ])
+      );
+      break;
+    case "pages":
+      printTable(
+        ["Feature", "Page", "Fixture", "Path"],
+        inventory.pages.map((p) => [p.feature, p.className, p.fixture ?? "-", p.path])
+      );
+      break;
+    case "factories":
+      printTable(
+        ["Factory", "Function", "Exported", "Path", "Builder"],
+        inventory.factories.map((f) => [f.key, f.function || "-", yesNo(f.exported), f.path, f.builder ?? "-"])
+      );
+      break;
+    case "models":
+      printTable(
+        ["Model", "Key", "In ModelMap", "Factory", "Path"],
+        inventory.models.map((m) => [m.name || "-", m.key, yesNo(m.inModelMap), yesNo(m.hasFactory), m.path])
+      );
+      break;
+    case "system": {
+      // One column per environment overlay, naming the file its value comes from
+      const envs = Object.keys(inventory.system[0].sources);
+      printTable(
+        ["Key", "Value Set", ...envs],
+        inventory.system.map((s) => [s.key, yesNo(s.hasValue), ...envs.map((env) => s.sources[env])])
+      );
+      break;
+    }
+  }
+}
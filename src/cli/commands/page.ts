@@ -1,10 +1,12 @@
 // Command handlers for page operations.
-import { readFileSafe, writeFileSafe, fileExists, deleteFileSafe } from "../utils/fileOps";
+import { readFileSafe, writeFileSafe, fileExists, deleteFileSafe, deleteEmptyDirSafe, moveFileSafe } from "../utils/fileOps";
 import { paths } from "../utils/paths";
 import { normalizeAndPrint, normalizeToKey, toPascalCase, toCamelCase } from "../utils/normalize";
 import { loadTemplate, renderTemplate } from "../utils/templates";
 import { isPageReferenced } from "../utils/validation";
-import { input, confirm, select } from "@inquirer/prompts";
+import { input, select, confirmDeletion } from "../utils/interactive";
+import { withTransaction } from "../utils/journal";
+import { updateProjectReferences, identifierReplacement, literalReplacement } from "../utils/references";
 import path from "path";
 
 // ANSI color codes
@@ -19,6 +21,13 @@ function warning(message: string): string {
  * Adds a new page object.
  */
 export async function addPage(pageName: string | undefined, featureKey?: string): Promise<void> {
+  await withTransaction("page:add", () => performAddPage(pageName, featureKey));
+}
+
+/**
+ * Runs the page:add steps; called inside a transaction.
+ */
+async function performAddPage(pageName: string | undefined, featureKey?: string): Promise<void> {
   // Prompt for page name with duplicate checking
   let finalPageName: string | null = null;
   let normalizedPageName: string | null = null;
@@ -37,6 +46,7 @@ export async function addPage(pageName: string | undefined, featureKey?: string)
     if (!pageNameInput || !pageNameInput.trim()) {
       pageNameInput = await input({
         message: finalPageName ? "Enter a different page name:" : "Enter page name:",
+        flag: "a different PageName argument",
       });
     }
 
@@ -138,7 +148,7 @@ export async function addPage(pageName: string | undefined, featureKey?: string)
 /**
  * Wires a page into the test fixtures file.
  */
-async function wirePageFixture(PageName: string, fixtureName: string, featureKey: string): Promise<void> {
+export async function wirePageFixture(PageName: string, fixtureName: string, featureKey: string): Promise<void> {
   const fixturesPath = paths.fixtures();
   let content = await readFileSafe(fixturesPath);
   if (!content) {
@@ -243,6 +253,13 @@ async function wirePageFixture(PageName: string, fixtureName: string, featureKey
  * Deletes a page object.
  */
 export async function deletePage(pageName: string | undefined): Promise<void> {
+  await withTransaction("page:delete", () => performDeletePage(pageName));
+}
+
+/**
+ * Runs the page:delete steps; called inside a transaction.
+ */
+async function performDeletePage(pageName: string | undefined): Promise<void> {
   // Find all available pages
   const { REPO_ROOT } = await import("../utils/paths");
   const glob = (await import("fast-glob")).default;
@@ -290,6 +307,7 @@ export async function deletePage(pageName: string | undefined): Promise<void> {
   } else {
     const selectedValue = await select({
       message: "Select which page to delete:",
+      flag: "the PageName argument",
       choices: availablePages.map((p) => ({ value: p.value, name: p.name })),
     });
     selectedPage = availablePages.find((p) => p.value === selectedValue)!;
@@ -310,13 +328,7 @@ export async function deletePage(pageName: string | undefined): Promise<void> {
   }
 
   // Confirm deletion
-  const confirmation = await input({
-    message: `Type "delete page ${normalizedPageName}" to confirm deletion:`,
-  });
-
-  if (confirmation !== `delete page ${normalizedPageName}`) {
-    throw new Error("Deletion cancelled: confirmation text did not match");
-  }
+  await confirmDeletion(`delete page ${normalizedPageName}`);
 
   // Delete file
   await deleteFileSafe(pagePath);
@@ -324,10 +336,7 @@ export async function deletePage(pageName: string | undefined): Promise<void> {
   // Delete empty directory if it exists
   const pageDir = path.dirname(pagePath);
   try {
-    const fs = await import("fs");
-    const dirContents = await fs.promises.readdir(pageDir);
-    if (dirContents.length === 0) {
-      await fs.promises.rmdir(pageDir);
+    if (await deleteEmptyDirSafe(pageDir)) {
       console.log(`✓ Removed empty directory: ${pageDir}`);
     }
   } catch {
@@ -341,6 +350,118 @@ export async function deletePage(pageName: string | undefined): Promise<void> {
   console.log(`✓ Removed fixture: ${fixtureName}`);
 }
 
+/**
+ * Page rename options.
+ */
+export interface RenamePageOptions {
+  feature?: string;
+}
+
+/**
+ * Renames a page object (and optionally moves it to another feature folder).
+ * Updates the file name, class name, fixture key, navigateTo method and every import site.
+ */
+export async function renamePage(
+  pageName: string | undefined,
+  newName: string | undefined,
+  options: RenamePageOptions = {}
+): Promise<void> {
+  await withTransaction("page:rename", () => performRenamePage(pageName, newName, options));
+}
+
+/**
+ * Runs the page:rename steps; called inside a transaction.
+ */
+async function performRenamePage(
+  pageName: string | undefined,
+  newName: string | undefined,
+  options: RenamePageOptions
+): Promise<void> {
+  const { REPO_ROOT } = await import("../utils/paths");
+  const glob = (await import("fast-glob")).default;
+  const pageFiles = await glob("src/pages/*/*Page.ts", { cwd: REPO_ROOT });
+
+  const availablePages = pageFiles.sort().map((pageFile) => {
+    const [, , featureKey, fileName] = pageFile.split("/");
+    const PageName = fileName.replace(/Page\.ts$/, "");
+    return { value: `${featureKey}/${PageName}`, name: `${PageName} (${featureKey})`, PageName, featureKey };
+  });
+
+  if (availablePages.length === 0) {
+    throw new Error("No pages found to rename");
+  }
+
+  // Select page; match on the name with dashes dropped so "invoice-list" finds InvoiceListPage
+  let selectedPage: typeof availablePages[0];
+  if (pageName && pageName.trim()) {
+    const normalizedInput = normalizeAndPrint(pageName, "page name").replace(/-page$/, "").replace(/-/g, "");
+    const found = availablePages.find((p) => p.PageName.toLowerCase() === normalizedInput);
+    if (!found) {
+      throw new Error(`Page not found: ${pageName}`);
+    }
+    selectedPage = found;
+  } else {
+    const selectedValue = await select({
+      message: "Select which page to rename:",
+      flag: "the PageName argument",
+      choices: availablePages.map((p) => ({ value: p.value, name: p.name })),
+    });
+    selectedPage = availablePages.find((p) => p.value === selectedValue)!;
+  }
+
+  let newNameInput = newName;
+  if (!newNameInput || !newNameInput.trim()) {
+    newNameInput = await input({ message: "Enter new page name:", flag: "the NewName argument" });
+  }
+  let normalized = normalizeAndPrint(newNameInput, "page name");
+  if (normalized.toLowerCase().endsWith("-page")) {
+    normalized = normalized.slice(0, -5);
+  }
+  if (!normalized) {
+    throw new Error("New page name is required");
+  }
+
+  const OldName = selectedPage.PageName;
+  const oldFeatureKey = selectedPage.featureKey;
+  const NewName = toPascalCase(normalized);
+  const newFeatureKey = options.feature ? normalizeAndPrint(options.feature, "feature key") : oldFeatureKey;
+  const oldPath = paths.pages(oldFeatureKey, OldName);
+  const newPath = paths.pages(newFeatureKey, NewName);
+
+  if (OldName === NewName && oldFeatureKey === newFeatureKey) {
+    throw new Error(`Page "${OldName}Page" already has that name`);
+  }
+  if (OldName !== NewName && fileExists(newPath)) {
+    throw new Error(`Page "${NewName}Page" already exists at src/pages/${newFeatureKey}/${NewName}Page.ts`);
+  }
+
+  // Fixture keys come from the fixtures file so hand-edited names are preserved
+  const fixturesContent = (await readFileSafe(paths.fixtures())) ?? "";
+  const fixtureMatch = fixturesContent.match(new RegExp(`(\\w+): ${OldName}Page;`));
+  const oldFixtureName = fixtureMatch ? fixtureMatch[1] : OldName.charAt(0).toLowerCase() + OldName.slice(1) + "Page";
+  const newFixtureName = toCamelCase(normalized) + "Page";
+  if (newFixtureName !== oldFixtureName && new RegExp(`\\b${newFixtureName}:`).test(fixturesContent)) {
+    throw new Error(`Page fixture "${newFixtureName}" already exists in test fixtures`);
+  }
+
+  const changed = await updateProjectReferences([
+    identifierReplacement(`${OldName}Page`, `${NewName}Page`),
+    identifierReplacement(oldFixtureName, newFixtureName),
+    identifierReplacement(`navigateTo${OldName}`, `navigateTo${NewName}`),
+    literalReplacement(`/pages/${oldFeatureKey}/${NewName}Page"`, `/pages/${newFeatureKey}/${NewName}Page"`),
+    literalReplacement(`/pages/${oldFeatureKey}/${NewName}Page'`, `/pages/${newFeatureKey}/${NewName}Page'`),
+  ]);
+
+  await moveFileSafe(oldPath, newPath);
+  if (newFeatureKey !== oldFeatureKey && (await deleteEmptyDirSafe(path.dirname(oldPath)))) {
+    console.log(`✓ Removed empty directory: src/pages/${oldFeatureKey}`);
+  }
+
+  console.log(`✓ Renamed page: src/pages/${oldFeatureKey}/${OldName}Page.ts → src/pages/${newFeatureKey}/${NewName}Page.ts`);
+  console.log(`✓ Renamed fixture: ${oldFixtureName} → ${newFixtureName}`);
+  console.log(`✓ Updated references in ${changed.length} file(s)`);
+}
+
 /**
  * Unwires a page from the test fixtures file.
  */
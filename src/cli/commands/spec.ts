@@ -1,13 +1,18 @@
 // Command handlers for spec operations.
-import { readJsonSafe, writeFileSafe, fileExists, deleteFileSafe } from "../utils/fileOps";
+import { readJsonSafe, readFileSafe, writeFileSafe, fileExists, deleteFileSafe, moveFileSafe } from "../utils/fileOps";
 import { paths, REPO_ROOT } from "../utils/paths";
 import { normalizeAndPrint, toPascalCase, toCamelCase, normalizeSuiteName } from "../utils/normalize";
 import { loadTemplate, renderTemplate } from "../utils/templates";
-import { input, select, confirm } from "@inquirer/prompts";
+import { input, select, confirm, confirmDeletion } from "../utils/interactive";
+import { withTransaction } from "../utils/journal";
+import { escapeRegExp } from "../utils/references";
 import path from "path";
 import { getSuiteIds, getSuiteName, getSuiteNames, hasSuiteId, getAvailableFeatureKeys } from "../../utils/featureConfig";
 import { writeJsonSafe } from "../utils/fileOps";
 import { addFeatureWithSuites } from "./feature";
+import { renderTestCaseSpec } from "../utils/testCaseStubs";
+import { readAdoConfig } from "../../integrations/azureDevops";
+import { getSuiteTestCases, type TestPlanCase } from "../../integrations/azureDevops/testPlans";
 
 // ANSI color codes
 const RESET = "\x1b[0m";
@@ -30,10 +35,27 @@ interface FeatureConfig {
   };
 }
 
+/**
+ * Values for suite:add that would otherwise be prompted for.
+ */
+export interface AddSpecOptions {
+  suiteName?: string;
+  suiteId?: number;
+  planId?: number;
+  fromAdo?: boolean;
+}
+
 /**
  * Adds a new spec file to an existing feature.
  */
-export async function addSpec(featureKey?: string): Promise<void> {
+export async function addSpec(featureKey?: string, options: AddSpecOptions = {}): Promise<void> {
+  await withTransaction("suite:add", () => performAddSpec(featureKey, options));
+}
+
+/**
+ * Runs the suite:add steps; called inside a transaction.
+ */
+async function performAddSpec(featureKey: string | undefined, options: AddSpecOptions): Promise<void> {
   // Get all available features
   const availableFeatures = getAvailableFeatureKeys();
 
@@ -54,6 +76,7 @@ export async function addSpec(featureKey?: string): Promise<void> {
     }));
     normalizedFeatureKey = await select({
       message: "Select which feature:",
+      flag: "--feature <featureKey>",
       choices: featureOptions,
     });
   }
@@ -67,11 +90,14 @@ export async function addSpec(featureKey?: string): Promise<void> {
   const earlyConfig = await readJsonSafe<FeatureConfig>(paths.featureConfig());
   const existingFeature = earlyConfig && earlyConfig[normalizedFeatureKey] ? earlyConfig[normalizedFeatureKey] : null;
 
-  // Prompt for suite name with duplicate checking
+  // Prompt for suite name with duplicate checking (a provided name is tried first)
+  let providedSuiteName = options.suiteName;
   while (!suiteName) {
-    const suiteNameInput = await input({
+    const suiteNameInput = providedSuiteName ?? await input({
       message: "Enter suite name:",
+      flag: "--suite <suiteName>",
     });
+    providedSuiteName = undefined;
 
     if (!suiteNameInput.trim()) {
       console.log(warning("Suite name is required. Please enter a name."));
@@ -107,11 +133,14 @@ export async function addSpec(featureKey?: string): Promise<void> {
     suiteName = normalizedName;
   }
 
-  // Prompt for suite ID with duplicate checking
+  // Prompt for suite ID with duplicate checking (a provided ID is tried first)
+  let providedSuiteId = options.suiteId !== undefined ? options.suiteId.toString() : undefined;
   while (suiteId === null || isNaN(suiteId)) {
-    const idInput = await input({
+    const idInput = providedSuiteId ?? await input({
       message: `Enter Azure DevOps Suite ID for "${suiteName}":`,
+      flag: "--suite-id <suiteId>",
     });
+    providedSuiteId = undefined;
     const parsedId = parseInt(idInput.trim(), 10);
 
     if (isNaN(parsedId)) {
@@ -134,6 +163,30 @@ export async function addSpec(featureKey?: string): Promise<void> {
     suiteId = parsedId;
   }
 
+  // With --from-ado, the suite's test cases become the spec's tests
+  let testCases: TestPlanCase[] = [];
+  let planId = options.planId;
+  if (options.fromAdo) {
+    planId = existingFeature ? existingFeature.planId : planId;
+    while (planId === undefined || isNaN(planId)) {
+      const planIdInput = await input({
+        message: "Enter Azure DevOps Plan ID (number):",
+        flag: "--plan-id <planId>",
+      });
+      planId = parseInt(planIdInput, 10);
+      if (isNaN(planId)) {
+        console.log(warning("Plan ID must be a number. Please enter a valid number."));
+      }
+    }
+
+    testCases = await getSuiteTestCases(readAdoConfig(), planId, suiteId);
+    if (testCases.length === 0) {
+      console.log(warning(`Suite ${suiteId} has no test cases in Azure DevOps. Using the default spec template.`));
+    } else {
+      console.log(`✓ Found ${testCases.length} test case(s) in suite ${suiteId}`);
+    }
+  }
+
   // Check if feature exists (duplicate validation already done above via re-prompting)
   const config = await readJsonSafe<FeatureConfig>(paths.featureConfig());
 
@@ -161,7 +214,12 @@ export async function addSpec(featureKey?: string): Promise<void> {
       const suiteMapping: Record<string, string> = {
         [suiteId.toString()]: suiteName, // Already normalized above
       };
-      await addFeatureWithSuites(normalizedFeatureKey, suiteMapping);
+      await addFeatureWithSuites(
+        normalizedFeatureKey,
+        suiteMapping,
+        planId,
+        testCases.length > 0 ? { [suiteId.toString()]: testCases } : undefined
+      );
       // Feature is now created with the spec file, we're done
       return;
     } else {
@@ -214,7 +272,23 @@ export async function addSpec(featureKey?: string): Promise<void> {
   const isLoginPage = pageFixture.toLowerCase().includes("login") || normalizedFeatureKey.toLowerCase().includes("login");
   let specContent = "";
 
-  if (isLoginPage) {
+  if (testCases.length > 0) {
+    // ADO test cases: one test per case, one step per ADO step
+    const casesTemplate = await loadTemplate("spec-cases.ts");
+    specContent = renderTestCaseSpec(
+      casesTemplate,
+      {
+        featureKey: normalizedFeatureKey,
+        tag: feature.tag,
+        planId: feature.planId.toString(),
+        suites: selectedSuiteId.toString(),
+        specId,
+        description: suiteNameForFile.replace(/-/g, " "),
+      },
+      testCases,
+      pageFixture
+    );
+  } else if (isLoginPage) {
     // Login page: completely custom template with two test cases
     specContent = `import { test, expect } from "../fixtures/test-fixtures";
 import * as factories from "../../src/testdata/factories";
@@ -336,7 +410,14 @@ test.describe.serial("${specId} - ${suiteNameForFile.replace(/-/g, " ")} ${featu
 /**
  * Deletes a spec file and removes its suite from feature config.
  */
-export async function deleteSpec(featureKey?: string, suiteName?: string): Promise<void> {
+export async function deleteSpec(featureKey?: string, suiteName?: string, specFile?: string): Promise<void> {
+  await withTransaction("suite:delete", () => performDeleteSpec(featureKey, suiteName, specFile));
+}
+
+/**
+ * Runs the suite:delete steps; called inside a transaction.
+ */
+async function performDeleteSpec(featureKey?: string, suiteName?: string, specFile?: string): Promise<void> {
   // Get all available features
   const availableFeatures = getAvailableFeatureKeys();
 
@@ -358,6 +439,7 @@ export async function deleteSpec(featureKey?: string, suiteName?: string): Promi
     }));
     normalizedFeatureKey = await select({
       message: "Select which feature:",
+      flag: "--feature <featureKey>",
       choices: featureOptions,
     });
   }
@@ -409,6 +491,7 @@ export async function deleteSpec(featureKey?: string, suiteName?: string): Promi
       });
       selectedSuiteId = await select({
         message: "Select which suite/spec to delete:",
+        flag: "--suite <suiteName>",
         choices: suiteOptions,
       });
       selectedSuiteName = getSuiteName(feature.suites, selectedSuiteId) || "";
@@ -437,6 +520,11 @@ export async function deleteSpec(featureKey?: string, suiteName?: string): Promi
   let specsToDelete: string[];
   if (matchingSpecs.length === 1) {
     specsToDelete = matchingSpecs;
+  } else if (specFile) {
+    if (!matchingSpecs.includes(specFile)) {
+      throw new Error(`Spec "${specFile}" does not match suite "${selectedSuiteName}". Matching specs: ${matchingSpecs.join(", ")}`);
+    }
+    specsToDelete = [specFile];
   } else {
     // Multiple specs match - ask user
     const specOptions = matchingSpecs.map((spec) => ({
@@ -450,6 +538,7 @@ export async function deleteSpec(featureKey?: string, suiteName?: string): Promi
 
     const selected = await select({
       message: `Multiple specs found for suite "${selectedSuiteName}". Which to delete?`,
+      flag: "--spec <fileName>",
       choices: specOptions,
     });
 
@@ -465,13 +554,7 @@ export async function deleteSpec(featureKey?: string, suiteName?: string): Promi
     ? `delete ${selectedSuiteName}`
     : `delete ${specsToDelete.length} specs`;
 
-  const confirmation = await input({
-    message: `Type "${confirmationText}" to confirm deletion:`,
-  });
-
-  if (confirmation !== confirmationText) {
-    throw new Error("Deletion cancelled: confirmation text did not match");
-  }
+  await confirmDeletion(confirmationText);
 
   // Delete spec files
   for (const specFile of specsToDelete) {
@@ -496,6 +579,133 @@ export async function deleteSpec(featureKey?: string, suiteName?: string): Promi
   console.log(`✓ Removed suite "${selectedSuiteName}" (ID ${selectedSuiteId}) from feature config`);
 }
 
+/**
+ * Renames a suite: its name in featureConfig.json, its spec file name and the "// Tests for" header and test.describe title in the spec.
+ */
+export async function renameSpec(featureKey?: string, suiteName?: string, newName?: string): Promise<void> {
+  await withTransaction("suite:rename", () => performRenameSpec(featureKey, suiteName, newName));
+}
+
+/**
+ * Renames the suite in the spec's "// Tests for" header and test.describe title. The rest of the spec is left alone,
+ * so identifiers that happen to contain the suite name (factories.createUser(), navigateToUser()) keep working.
+ */
+function renameSuiteInSpec(content: string, oldSuiteName: string, newSuiteName: string): string {
+  const suiteName = new RegExp(`(?<!\\w)${escapeRegExp(oldSuiteName)}(?!\\w)`, "g");
+  return content
+    .replace(/^(\/\/ Tests for )(.*)$/gm, (_line, prefix: string, title: string) => prefix + title.replace(suiteName, () => newSuiteName))
+    .replace(
+      /^(test\.describe(?:\.\w+)*\((["'`]))(.*?)(\2)/gm,
+      (_match, prefix: string, _quote: string, title: string, suffix: string) => prefix + title.replace(suiteName, () => newSuiteName) + suffix
+    );
+}
+
+/**
+ * Runs the suite:rename steps; called inside a transaction.
+ */
+async function performRenameSpec(featureKey?: string, suiteName?: string, newName?: string): Promise<void> {
+  const config = await readJsonSafe<FeatureConfig>(paths.featureConfig());
+  const availableFeatures = config ? Object.keys(config) : [];
+  if (!config || availableFeatures.length === 0) {
+    throw new Error("No features found");
+  }
+
+  let normalizedFeatureKey: string;
+  if (featureKey && featureKey.trim()) {
+    normalizedFeatureKey = normalizeAndPrint(featureKey, "feature key");
+    if (!config[normalizedFeatureKey]) {
+      throw new Error(`Feature not found: ${normalizedFeatureKey}`);
+    }
+  } else {
+    normalizedFeatureKey = await select({
+      message: "Select which feature:",
+      flag: "--feature <featureKey>",
+      choices: availableFeatures.map((key) => ({ value: key, name: key })),
+    });
+  }
+
+  const feature = config[normalizedFeatureKey];
+  const suiteIds = getSuiteIds(feature.suites);
+  if (suiteIds.length === 0) {
+    throw new Error(`Feature "${normalizedFeatureKey}" has no suites to rename`);
+  }
+
+  let selectedSuiteId: number;
+  if (suiteName) {
+    const normalizedSuiteName = normalizeSuiteName(suiteName);
+    const matchingId = suiteIds.find((id) => {
+      const name = getSuiteName(feature.suites, id);
+      return name && name.toLowerCase() === normalizedSuiteName.toLowerCase();
+    });
+    if (!matchingId) {
+      throw new Error(`Suite "${suiteName}" not found in feature "${normalizedFeatureKey}"`);
+    }
+    selectedSuiteId = matchingId;
+  } else if (suiteIds.length === 1) {
+    selectedSuiteId = suiteIds[0];
+  } else {
+    selectedSuiteId = await select({
+      message: "Select which suite to rename:",
+      flag: "--suite <suiteName>",
+      choices: suiteIds.map((id) => {
+        const name = getSuiteName(feature.suites, id);
+        return { value: id, name: name ? `${id} - ${name}` : id.toString() };
+      }),
+    });
+  }
+  const oldSuiteName = getSuiteName(feature.suites, selectedSuiteId) || "";
+
+  let newNameInput = newName;
+  if (!newNameInput || !newNameInput.trim()) {
+    newNameInput = await input({ message: "Enter new suite name:", flag: "--to <newName>" });
+  }
+  const newSuiteName = normalizeSuiteName(newNameInput);
+  if (!newSuiteName) {
+    throw new Error("New suite name is required");
+  }
+  if (newSuiteName === oldSuiteName) {
+    throw new Error(`Suite "${oldSuiteName}" already has that name`);
+  }
+  const duplicate = getSuiteNames(feature.suites).find(
+    (name) => name !== oldSuiteName && name.toLowerCase() === newSuiteName.toLowerCase()
+  );
+  if (duplicate) {
+    throw new Error(`Suite "${duplicate}" already exists in feature "${normalizedFeatureKey}"`);
+  }
+
+  // Spec files are matched the same way suite:delete matches them: by the kebab-case suite name
+  const featureTestDir = paths.testDir(normalizedFeatureKey);
+  const glob = (await import("fast-glob")).default;
+  const allSpecs = await glob("*.spec.ts", { cwd: featureTestDir }).catch(() => []);
+  const oldKebab = normalizeAndPrint(oldSuiteName, "suite name");
+  const newKebab = normalizeAndPrint(newSuiteName, "suite name");
+  const matchingSpecs = allSpecs.filter((specFile) => specFile.replace(/\.spec\.ts$/, "").toLowerCase().includes(oldKebab));
+
+  for (const specFile of matchingSpecs.sort()) {
+    const specPath = path.join(featureTestDir, specFile);
+    const newSpecFile = specFile.replace(oldKebab, newKebab);
+    const newSpecPath = path.join(featureTestDir, newSpecFile);
+    if (fileExists(newSpecPath)) {
+      throw new Error(`Spec file already exists: ${newSpecPath}`);
+    }
+
+    const content = await readFileSafe(specPath);
+    if (content !== null) {
+      await writeFileSafe(specPath, renameSuiteInSpec(content, oldSuiteName, newSuiteName), true);
+    }
+    await moveFileSafe(specPath, newSpecPath);
+    console.log(`✓ Renamed spec: tests/${normalizedFeatureKey}/${specFile} → tests/${normalizedFeatureKey}/${newSpecFile}`);
+  }
+
+  if (matchingSpecs.length === 0) {
+    console.log(warning(`No spec file found for suite "${oldSuiteName}" in feature "${normalizedFeatureKey}"; only the config was updated.`));
+  }
+
+  feature.suites[selectedSuiteId.toString()] = newSuiteName;
+  await writeJsonSafe(paths.featureConfig(), config, true);
+  console.log(`✓ Renamed suite ${selectedSuiteId}: "${oldSuiteName}" → "${newSuiteName}"`);
+}
+
 /**
  * Finds a page fixture that matches the feature key.
  */
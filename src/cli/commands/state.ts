@@ -0,0 +1,265 @@
+// State commands - show run state as a tree of its dotted keys, and declare test.* keys in the run-state schema.
+import { readFileSafe, writeFileSafe } from "../utils/fileOps";
+import { paths, REPO_ROOT } from "../utils/paths";
+import { input, select } from "../utils/interactive";
+import { withTransaction } from "../utils/journal";
+import { readRunState } from "../../utils/dataStore";
+import { glob } from "fast-glob";
+import path from "path";
+
+/**
+ * A node of the run state tree: a value at a key, child keys, or both.
+ */
+export interface StateTreeNode {
+  value?: unknown;
+  children: Record<string, StateTreeNode>;
+}
+
+/**
+ * State inspect options.
+ */
+export interface StateInspectOptions {
+  json?: boolean;
+}
+
+// Values longer than this are cut in the tree view; --json prints them in full
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * Prints the run state keys under `prefix` (default: all) as a tree, or as nested JSON.
+ */
+export async function inspectRunState(prefix?: string, options: StateInspectOptions = {}): Promise<void> {
+  const store = await readRunState();
+  const keys = Object.keys(store)
+    .filter((key) => !prefix || key === prefix || key.startsWith(`${prefix}.`))
+    .sort();
+
+  if (options.json) {
+    console.log(JSON.stringify(toJson(buildStateTree(keys.map((key) => [key, store[key]]))), null, 2));
+    return;
+  }
+
+  console.log(`RUN STATE (${keys.length} ${keys.length === 1 ? "key" : "keys"})`);
+  if (keys.length === 0) {
+    console.log(prefix ? `  (no keys under ${prefix})` : "  (empty)");
+    return;
+  }
+  printTree(buildStateTree(keys.map((key) => [key, store[key]])), "");
+}
+
+/**
+ * Builds a tree from dotted keys: test.tests.<testId>.user becomes test > tests > <testId> > user.
+ */
+export function buildStateTree(entries: Array<[string, unknown]>): StateTreeNode {
+  const root: StateTreeNode = { children: {} };
+  for (const [key, value] of entries) {
+    let node = root;
+    for (const segment of key.split(".")) {
+      node = node.children[segment] ??= { children: {} };
+    }
+    node.value = value;
+  }
+  return root;
+}
+
+function toJson(node: StateTreeNode): unknown {
+  const children = Object.entries(node.children);
+  if (children.length === 0) {
+    return node.value;
+  }
+  const result: Record<string, unknown> = Object.fromEntries(children.map(([segment, child]) => [segment, toJson(child)]));
+  // A key that has both a value and child keys keeps its value under "$value"
+  if (node.value !== undefined) {
+    result.$value = node.value;
+  }
+  return result;
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+function printTree(node: StateTreeNode, indent: string): void {
+  const entries = Object.entries(node.children);
+  entries.forEach(([segment, child], index) => {
+    const last = index === entries.length - 1;
+    const label = child.value !== undefined ? `${segment}: ${formatValue(child.value)}` : segment;
+    console.log(`${indent}${last ? "└─ " : "├─ "}${label}`);
+    printTree(child, `${indent}${last ? "   " : "│  "}`);
+  });
+}
+
+const SCHEMA_INTERFACE = "export interface RunStateSchema {";
+
+/**
+ * Normalizes a run-state key to `test.<path>`; the `test.` prefix is optional.
+ */
+function normalizeStateKey(name: string): string | null {
+  const trimmed = name.trim();
+  const key = trimmed.startsWith("test.") ? trimmed : `test.${trimmed}`;
+  return /^test(\.[A-Za-z0-9_-]+)+$/.test(key) ? key : null;
+}
+
+/**
+ * Lists the keys declared in the run-state schema with their model types.
+ */
+export function parseStateSchema(content: string): Array<{ key: string; type: string }> {
+  const start = content.indexOf(SCHEMA_INTERFACE);
+  if (start < 0) {
+    return [];
+  }
+  const body = content.slice(start + SCHEMA_INTERFACE.length, content.indexOf("\n}", start));
+  return Array.from(body.matchAll(/^\s*"(test\.[^"]+)":\s*([^;]+);/gm), (match) => ({ key: match[1], type: match[2].trim() }));
+}
+
+/**
+ * Model names from the ModelMap in src/testdata/models/index.ts.
+ */
+async function readModelNames(): Promise<string[]> {
+  const content = (await readFileSafe(paths.modelsIndex())) ?? "";
+  const modelMap = content.match(/export interface ModelMap \{([\s\S]*?)\}/)?.[1] ?? "";
+  return Array.from(modelMap.matchAll(/^\s*(\w+):/gm), (match) => match[1]);
+}
+
+async function readStateSchema(): Promise<string> {
+  const content = await readFileSafe(paths.runStateSchema());
+  if (!content || !content.includes(SCHEMA_INTERFACE)) {
+    throw new Error(`Run-state schema not found: ${path.relative(REPO_ROOT, paths.runStateSchema())} must declare "${SCHEMA_INTERFACE}"`);
+  }
+  return content;
+}
+
+/**
+ * Declares a test.* key in the run-state schema, typed with a model from ModelMap.
+ */
+export async function addStateKey(name?: string, modelName?: string): Promise<void> {
+  await withTransaction("state:add", () => performAddStateKey(name, modelName));
+}
+
+/**
+ * Runs the state:add steps; called inside a transaction.
+ */
+async function performAddStateKey(name?: string, modelName?: string): Promise<void> {
+  const content = await readStateSchema();
+  const declared = parseStateSchema(content);
+
+  let finalName = name;
+  let key: string;
+  while (true) {
+    if (!finalName || !finalName.trim()) {
+      finalName = await input({
+        message: "Enter run-state key (e.g. test.user, or press Enter to exit):",
+        flag: "a new StateKey argument",
+      });
+      if (!finalName.trim()) {
+        throw new Error("Run-state key declaration cancelled.");
+      }
+    }
+
+    const normalized = normalizeStateKey(finalName);
+    if (!normalized) {
+      console.log("⚠️  Invalid run-state key. Use a dot-path of letters, digits, _ and - (e.g. test.billing.invoice).");
+      finalName = "";
+      continue;
+    }
+    if (declared.some((entry) => entry.key === normalized)) {
+      throw new Error(`Run-state key "${normalized}" is already declared in ${path.relative(REPO_ROOT, paths.runStateSchema())}.`);
+    }
+    key = normalized;
+    break;
+  }
+
+  const models = await readModelNames();
+  if (models.length === 0) {
+    throw new Error("No models found in src/testdata/models. Create one with factory:add first.");
+  }
+  const model = modelName ?? await select({
+    message: `Model stored under "${key}":`,
+    flag: "--model <Model>",
+    choices: models.map((m) => ({ value: m, name: m })),
+  });
+  if (!models.includes(model)) {
+    throw new Error(`Unknown model "${model}". Expected one of: ${models.join(", ")}`);
+  }
+
+  const start = content.indexOf(SCHEMA_INTERFACE);
+  const end = content.indexOf("\n}", start);
+  const updated = `${content.slice(0, end)}\n  "${key}": models.${model};${content.slice(end)}`;
+  await writeFileSafe(paths.runStateSchema(), updated, true);
+
+  console.log(`✓ Run-state key "${key}" declared as models.${model}`);
+  console.log(`  Schema: ${path.relative(REPO_ROOT, paths.runStateSchema())}`);
+}
+
+/**
+ * Removes a test.* key from the run-state schema. Keys still used in tests/ or src/ are kept.
+ */
+export async function deleteStateKey(name?: string): Promise<void> {
+  await withTransaction("state:delete", () => performDeleteStateKey(name));
+}
+
+/**
+ * Runs the state:delete steps; called inside a transaction.
+ */
+async function performDeleteStateKey(name?: string): Promise<void> {
+  const content = await readStateSchema();
+  const declared = parseStateSchema(content);
+
+  let finalName = name;
+  let key: string;
+  while (true) {
+    if (!finalName || !finalName.trim()) {
+      finalName = await input({
+        message: "Enter run-state key to delete (or press Enter to exit):",
+        flag: "an existing StateKey argument",
+      });
+      if (!finalName.trim()) {
+        throw new Error("Run-state key deletion cancelled.");
+      }
+    }
+
+    const normalized = normalizeStateKey(finalName);
+    if (!normalized || !declared.some((entry) => entry.key === normalized)) {
+      console.log(`⚠️  Run-state key "${normalized ?? finalName}" is not declared.`);
+      finalName = "";
+      continue;
+    }
+    key = normalized;
+    break;
+  }
+
+  const usageFiles = await scanForStateKeyUsage(key);
+  if (usageFiles.length > 0) {
+    console.log(`\n⚠️  Cannot delete "${key}" - it is being used in:`);
+    for (const file of usageFiles) {
+      console.log(`  - ${file}`);
+    }
+    console.log("\nRemove references before deleting.");
+    throw new Error(`Run-state key "${key}" is in use and cannot be deleted.`);
+  }
+
+  const linePattern = new RegExp(`\\n[ \\t]*"${key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}":[^;]*;`);
+  await writeFileSafe(paths.runStateSchema(), content.replace(linePattern, ""), true);
+  console.log(`✓ Run-state key "${key}" removed from ${path.relative(REPO_ROOT, paths.runStateSchema())}`);
+}
+
+/**
+ * Finds the files that use a run-state key as a string literal, other than the schema itself.
+ */
+async function scanForStateKeyUsage(key: string): Promise<string[]> {
+  const files = await glob("{src,tests}/**/*.{ts,js,tsx,jsx}", {
+    cwd: REPO_ROOT,
+    ignore: ["node_modules/**", "dist/**", "test-results/**"],
+  });
+  const schemaFile = path.relative(REPO_ROOT, paths.runStateSchema()).split(path.sep).join("/");
+  const usageFiles: string[] = [];
+  for (const file of files) {
+    if (file === schemaFile) continue;
+    const fileContent = await readFileSafe(path.join(REPO_ROOT, file));
+    if (fileContent && (fileContent.includes(`"${key}"`) || fileContent.includes(`'${key}'`) || fileContent.includes(`\`${key}\``))) {
+      usageFiles.push(file);
+    }
+  }
+  return usageFiles;
+}
@@ -1,8 +1,10 @@
 // CLI commands for managing canonical system entries.
-import { readFileSafe, writeFileSafe, fileExists } from "../utils/fileOps";
+import { readFileSafe, readJsonSafe, writeFileSafe, fileExists } from "../utils/fileOps";
 import { paths, REPO_ROOT } from "../utils/paths";
-import { input, confirm } from "@inquirer/prompts";
-import { updateSystemRegistry, readCanonicalStore } from "../../utils/dataStore";
+import { input, confirm } from "../utils/interactive";
+import { withTransaction } from "../utils/journal";
+import { readCanonicalStore } from "../../utils/dataStore";
+import { isValidEnvName, overlayEnv } from "../../utils/canonicalLayers";
 import { system } from "../../testdata/system";
 import { glob } from "fast-glob";
 import path from "path";
@@ -101,9 +103,59 @@ async function scanForSystemKeyUsage(key: string, registryPath: string[]): Promi
 }
 
 /**
- * Adds a system entry to the registry and dataStore.json.
+ * Parses repeatable --env <env>=<value> options into a map of environment to raw value.
  */
-export async function addSystemEntry(name?: string): Promise<void> {
+export function parseEnvValueOptions(values: string[]): Record<string, string> {
+  const envValues: Record<string, string> = {};
+  for (const value of values) {
+    const separatorIndex = value.indexOf("=");
+    const env = separatorIndex >= 0 ? value.slice(0, separatorIndex).trim() : "";
+    if (!env || !isValidEnvName(env)) {
+      throw new Error(`Invalid --env value "${value}". Expected "<env>=<value>", e.g. --env "qa=admin@qa.example.com".`);
+    }
+    if (env in envValues) {
+      throw new Error(`Environment "${env}" is passed more than once.`);
+    }
+    envValues[env] = value.slice(separatorIndex + 1);
+  }
+  return envValues;
+}
+
+/**
+ * Lists the environments that have a dataStore.<env>.json overlay.
+ */
+export async function listEnvironments(): Promise<string[]> {
+  const files = await glob("src/testdata/dataStore.*.json", { cwd: REPO_ROOT });
+  return files
+    .map((file) => overlayEnv(path.basename(file)))
+    .filter((env): env is string => env !== null)
+    .sort();
+}
+
+/**
+ * Parses a prompted or --value/--env value: JSON when it parses, the raw string otherwise.
+ */
+function parseSystemValue(valueInput: string): unknown {
+  try {
+    return JSON.parse(valueInput);
+  } catch {
+    return valueInput;
+  }
+}
+
+/**
+ * Adds a system entry to the registry, dataStore.json and the environment overlays.
+ * When a value is provided (from --value), the value prompt is skipped; --env values skip
+ * the prompt for their environment and create its overlay if needed.
+ */
+export async function addSystemEntry(name?: string, providedValue?: string, envValues: Record<string, string> = {}): Promise<void> {
+  await withTransaction("system:add", () => performAddSystemEntry(name, providedValue, envValues));
+}
+
+/**
+ * Runs the system:add steps; called inside a transaction.
+ */
+async function performAddSystemEntry(name?: string, providedValue?: string, envValues: Record<string, string> = {}): Promise<void> {
   console.log("System entries are canonical, repo-backed data (non-secrets only).");
   console.log("Suggested format: lowercase dot-path (e.g., 'salesforce.users.admin')\n");
   
@@ -114,6 +166,7 @@ export async function addSystemEntry(name?: string): Promise<void> {
     if (!finalName || !finalName.trim()) {
       finalName = await input({
         message: "Enter system key path (or press Enter to exit):",
+        flag: "a new SystemKey argument",
       });
       if (!finalName.trim()) {
         throw new Error("System entry creation cancelled.");
@@ -146,28 +199,70 @@ export async function addSystemEntry(name?: string): Promise<void> {
   }
   
   const fullKey = `system.${dotPath}`;
+  const envs = [...new Set([...(await listEnvironments()), ...Object.keys(envValues)])].sort();
   
-  // Prompt for value
-  const valueInput = await input({
-    message: `Enter value for "${fullKey}" (JSON object or string):`,
+  // Prompt for value; with environments, the base value may be left empty when each has its own
+  const valueInput = providedValue ?? await input({
+    message: envs.length > 0
+      ? `Enter base value for "${fullKey}" (JSON object or string, Enter to set per environment only):`
+      : `Enter value for "${fullKey}" (JSON object or string):`,
+    flag: "--value <value>",
+    default: envs.length > 0 ? "" : undefined,
   });
   
-  let value: unknown;
-  try {
-    value = JSON.parse(valueInput);
-  } catch {
-    value = valueInput;
+  // Prompt for per-environment values; Enter keeps the base value for that environment
+  const overlayValues: Record<string, unknown> = {};
+  for (const env of envs) {
+    const envInput = envValues[env] ?? await input({
+      message: `Value for "${fullKey}" in ${env} (Enter to use the base value):`,
+      flag: `--env ${env}=<value>`,
+      default: "",
+    });
+    if (envInput !== "") {
+      overlayValues[env] = parseSystemValue(envInput);
+    }
+  }
+  
+  const missingEnvs = envs.filter((env) => !(env in overlayValues));
+  if (valueInput === "" && missingEnvs.length > 0) {
+    throw new Error(`"${fullKey}" has no base value and no value for: ${missingEnvs.join(", ")}. Pass --value or --env <env>=<value>.`);
   }
   
   // Update system.ts registry (simplified - manual edit recommended for complex structures)
   await updateSystemRegistryFile(dotPath, fullKey);
   
-  // Update dataStore.json
-  await updateSystemRegistry(fullKey as any, value);
+  // Update dataStore.json and the overlays
+  if (valueInput !== "") {
+    await writeSystemValue(fullKey, parseSystemValue(valueInput));
+  }
+  for (const [env, value] of Object.entries(overlayValues)) {
+    await writeSystemValue(fullKey, value, env);
+  }
   
   console.log(`✓ System entry "${fullKey}" created`);
   console.log(`  Registry: src/testdata/system.ts`);
-  console.log(`  Data: src/testdata/dataStore.json`);
+  if (valueInput !== "") {
+    console.log(`  Data: src/testdata/dataStore.json`);
+  }
+  for (const env of Object.keys(overlayValues)) {
+    console.log(`  Data (${env}): src/testdata/dataStore.${env}.json`);
+  }
+}
+
+/**
+ * Writes a system value to dataStore.json, or to dataStore.<env>.json when an environment is given
+ * (undefined removes it). Goes through fileOps so the change is journaled and honors --dry-run.
+ */
+async function writeSystemValue(fullKey: string, value: unknown | undefined, env?: string): Promise<void> {
+  const filePath = env ? paths.dataStoreOverlay(env) : paths.dataStore();
+  const store = (await readJsonSafe<Record<string, unknown>>(filePath)) ?? {};
+  if (value === undefined) {
+    if (!(fullKey in store)) return;
+    delete store[fullKey];
+  } else {
+    store[fullKey] = value;
+  }
+  await writeFileSafe(filePath, JSON.stringify(store, null, 2), true);
 }
 
 /**
@@ -207,7 +302,7 @@ export type SystemKey = Leaves<typeof system>;
     content = content.substring(0, insertPoint) + comment + content.substring(insertPoint);
   }
   
-  await writeFileSafe(systemPath, content);
+  await writeFileSafe(systemPath, content, true);
   console.log(`⚠️  Manual update needed: Edit src/testdata/system.ts to add "${fullKey}" to the registry structure.`);
 }
 
@@ -215,6 +310,13 @@ export type SystemKey = Leaves<typeof system>;
  * Deletes a system entry from registry and dataStore.json.
  */
 export async function deleteSystemEntry(name?: string): Promise<void> {
+  await withTransaction("system:delete", () => performDeleteSystemEntry(name));
+}
+
+/**
+ * Runs the system:delete steps; called inside a transaction.
+ */
+async function performDeleteSystemEntry(name?: string): Promise<void> {
   let finalName = name;
   let dotPath: string;
   
@@ -222,6 +324,7 @@ export async function deleteSystemEntry(name?: string): Promise<void> {
     if (!finalName || !finalName.trim()) {
       finalName = await input({
         message: "Enter system key path to delete (or press Enter to exit):",
+        flag: "an existing SystemKey argument",
       });
       if (!finalName.trim()) {
         throw new Error("System entry deletion cancelled.");
@@ -261,10 +364,14 @@ export async function deleteSystemEntry(name?: string): Promise<void> {
   
   const fullKey = `system.${dotPath}`;
   
-  // Remove from dataStore.json
-  await updateSystemRegistry(fullKey as any, undefined);
+  // Remove from dataStore.json and every overlay
+  await writeSystemValue(fullKey, undefined);
+  const envs = await listEnvironments();
+  for (const env of envs) {
+    await writeSystemValue(fullKey, undefined, env);
+  }
   
   // Note: Manual cleanup needed for system.ts (AST parsing would be needed for robust deletion)
-  console.log(`✓ System entry "${fullKey}" removed from dataStore.json`);
+  console.log(`✓ System entry "${fullKey}" removed from dataStore.json${envs.length > 0 ? ` and ${envs.map((env) => `dataStore.${env}.json`).join(", ")}` : ""}`);
   console.log(`⚠️  Manual cleanup needed: Edit src/testdata/system.ts to remove "${fullKey}" from the registry structure.`);
 }
@@ -0,0 +1,45 @@
+// Undo command - reverts the most recent committed CLI operation from the journal.
+import { readLatestJournalEntry, findChangedSinceCommit, revertJournalEntry } from "../utils/journal";
+import { confirm } from "../utils/interactive";
+
+/**
+ * Undo options.
+ */
+export interface UndoOptions {
+  force?: boolean;
+}
+
+/**
+ * Reverts the most recent committed CLI operation.
+ * Refuses when a touched file was edited afterwards, unless force is set.
+ */
+export async function undoLastOperation(options: UndoOptions = {}): Promise<void> {
+  const latest = await readLatestJournalEntry();
+  if (!latest) {
+    throw new Error("Nothing to undo: the journal has no committed operations.");
+  }
+
+  const { entry, journalFile } = latest;
+  const changed = await findChangedSinceCommit(entry);
+  if (changed.length > 0 && !options.force) {
+    throw new Error(
+      `Files changed after "${entry.operation}" (${entry.committedAt}): ${changed.join(", ")}. ` +
+        `Pass --force to overwrite them.`
+    );
+  }
+
+  console.log(`Last operation: ${entry.operation} (${entry.committedAt})`);
+  for (const file of entry.files) {
+    const action = file.before === null ? "delete" : file.after === null ? "restore" : "revert";
+    console.log(`  ${action} ${file.path}`);
+  }
+
+  const proceed = await confirm({ message: `Undo "${entry.operation}"?`, default: true });
+  if (!proceed) {
+    console.log("Undo cancelled.");
+    return;
+  }
+
+  await revertJournalEntry(entry, journalFile);
+  console.log(`✓ Reverted ${entry.operation} (${entry.files.length} file(s))`);
+}
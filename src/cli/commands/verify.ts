@@ -0,0 +1,264 @@
+// ADO verify command - detects drift between the case IDs in Playwright specs and the ADO test suites.
+// Runs before a test run so the sync does not fail after the run has finished.
+import { readJsonSafe, readFileSafe } from "../utils/fileOps";
+import { paths } from "../utils/paths";
+import { readAdoConfig, getTestPoints, type AdoConfig } from "../../integrations/azureDevops";
+import { getSuiteTestCases } from "../../integrations/azureDevops/testPlans";
+import { createAdoClient } from "../../integrations/azureDevops/client";
+import { getSpecSuiteIds } from "./doctor";
+import { glob } from "fast-glob";
+import path from "path";
+
+interface FeatureConfig {
+  [key: string]: {
+    tag: string;
+    planId: number;
+    suites: Record<string, string>;
+  };
+}
+
+/**
+ * A single drift finding. Missing cases are errors because the sync rejects them;
+ * the rest are warnings unless `--strict` is set.
+ */
+export interface AdoVerifyFinding {
+  type: "error" | "warning";
+  kind: "missing" | "extra" | "renamed" | "steps";
+  feature: string;
+  suiteId: number;
+  caseId: string;
+  message: string;
+}
+
+/**
+ * ado:verify options.
+ */
+export interface AdoVerifyOptions {
+  feature?: string;
+  strict?: boolean;
+}
+
+/**
+ * A test in a spec file with the case ID from its title.
+ */
+interface SpecCase {
+  file: string;
+  suiteIds: string[];
+  caseId: string;
+  title: string;
+  steps: number;
+}
+
+interface AdoSuiteCases {
+  suiteId: number;
+  names: Map<string, string>;
+  steps: Map<string, number>;
+}
+
+/**
+ * Compares spec case IDs with every configured plan and suite and prints the drift.
+ * Returns true when the specs can be synced (no errors, and no warnings with `strict`).
+ */
+export async function runAdoVerify(options: AdoVerifyOptions = {}): Promise<boolean> {
+  const LINE = "─".repeat(70);
+
+  const config = (await readJsonSafe<FeatureConfig>(paths.featureConfig())) ?? {};
+  if (options.feature && !config[options.feature]) {
+    throw new Error(`Feature not found: ${options.feature}`);
+  }
+  const featureKeys = options.feature ? [options.feature] : Object.keys(config);
+
+  console.log("PILOT ADO VERIFY");
+  console.log(LINE);
+  console.log("Spec case IDs compared with Azure DevOps test suites");
+  console.log();
+
+  const adoConfig = readAdoConfig();
+  const findings: AdoVerifyFinding[] = [];
+  let checkedCases = 0;
+  for (const featureKey of featureKeys) {
+    const specCases = await collectSpecCases(featureKey);
+    checkedCases += specCases.length;
+    const suites: AdoSuiteCases[] = [];
+    for (const suiteId of Object.keys(config[featureKey].suites ?? {}).map((id) => parseInt(id, 10))) {
+      suites.push(await getAdoSuiteCases(adoConfig, config[featureKey].planId, suiteId));
+    }
+    findings.push(...compareFeature(featureKey, specCases, suites));
+  }
+
+  printFindings(findings);
+
+  const errors = findings.filter((finding) => finding.type === "error");
+  const warnings = findings.filter((finding) => finding.type === "warning");
+
+  console.log();
+  console.log(LINE);
+  console.log();
+  console.log(`Cases:      ${checkedCases}`);
+  console.log(`Errors:     ${errors.length}`);
+  console.log(`Warnings:   ${warnings.length}`);
+  console.log();
+
+  const inSync = errors.length === 0 && (!options.strict || warnings.length === 0);
+  console.log(inSync ? "SPECS IN SYNC WITH AZURE DEVOPS" : "SPECS OUT OF SYNC WITH AZURE DEVOPS");
+  return inSync;
+}
+
+/**
+ * Reads the test points (suite membership and titles) and step counts for one suite.
+ */
+async function getAdoSuiteCases(
+  adoConfig: AdoConfig,
+  planId: number,
+  suiteId: number
+): Promise<AdoSuiteCases> {
+  const points = await getTestPoints(createAdoClient(adoConfig), planId, suiteId);
+  const testCases = await getSuiteTestCases(adoConfig, planId, suiteId);
+
+  const names = new Map<string, string>();
+  for (const point of points) {
+    names.set(String(point.testCase.id), point.testCase.name);
+  }
+  const steps = new Map<string, number>();
+  for (const testCase of testCases) {
+    steps.set(String(testCase.id), testCase.steps.length);
+  }
+  return { suiteId, names, steps };
+}
+
+/**
+ * Reads every test with a [caseId] title from a feature's spec files.
+ */
+async function collectSpecCases(featureKey: string): Promise<SpecCase[]> {
+  const testDir = paths.testDir(featureKey);
+  const specFiles = await glob("*.spec.ts", { cwd: testDir }).catch(() => [] as string[]);
+
+  const cases: SpecCase[] = [];
+  for (const specFile of specFiles.sort()) {
+    const content = (await readFileSafe(path.join(testDir, specFile))) ?? "";
+    const suiteIds = getSpecSuiteIds(content);
+    for (const test of parseSpecTests(content)) {
+      const match = test.title.match(/^\[(\d+)\]\s*(.*)$/);
+      if (!match) continue;
+      cases.push({
+        file: `tests/${featureKey}/${specFile}`,
+        suiteIds,
+        caseId: match[1],
+        title: match[2],
+        steps: test.steps,
+      });
+    }
+  }
+  return cases;
+}
+
+/**
+ * Finds test() calls with their titles and the number of top-level test.step() calls in each.
+ * A test's body runs until the next test() call; nested steps are indented deeper and not counted,
+ * matching the top-level steps the sync maps to ADO steps.
+ */
+function parseSpecTests(content: string): Array<{ title: string; steps: number }> {
+  const testRegex = /^\s*test(?:\.(?:only|skip|fixme|fail|slow))?\(\s*(["'`])((?:\\.|(?!\1).)*)\1/gm;
+  const matches = Array.from(content.matchAll(testRegex));
+
+  return matches.map((match, index) => {
+    const end = index + 1 < matches.length ? matches[index + 1].index : content.length;
+    const body = content.slice(match.index! + match[0].length, end);
+    const stepIndents = Array.from(body.matchAll(/^([ \t]*)(?:await\s+)?test\.step\(/gm), (step) => step[1].length);
+    const topLevel = stepIndents.length > 0 ? Math.min(...stepIndents) : 0;
+    return {
+      title: match[2].replace(/\\(.)/g, "$1"),
+      steps: stepIndents.filter((indent) => indent === topLevel).length,
+    };
+  });
+}
+
+/**
+ * Compares a feature's spec cases with its ADO suites. A spec's "// ADO Suite IDs:" header
+ * scopes its cases to those suites; specs without the header are matched against every suite.
+ */
+function compareFeature(featureKey: string, specCases: SpecCase[], suites: AdoSuiteCases[]): AdoVerifyFinding[] {
+  const findings: AdoVerifyFinding[] = [];
+  const referenced = new Set<string>();
+
+  for (const specCase of specCases) {
+    const scoped = suites.filter((suite) => specCase.suiteIds.includes(String(suite.suiteId)));
+    const candidates = scoped.length > 0 ? scoped : suites;
+    const suite = candidates.find((candidate) => candidate.names.has(specCase.caseId));
+    const label = `[${specCase.caseId}] "${specCase.title}" (${specCase.file})`;
+
+    if (!suite) {
+      findings.push({
+        type: "error",
+        kind: "missing",
+        feature: featureKey,
+        suiteId: candidates[0]?.suiteId ?? 0,
+        caseId: specCase.caseId,
+        message: `${label} not found in suite ${candidates.map((candidate) => candidate.suiteId).join(", ") || "(none configured)"}`,
+      });
+      continue;
+    }
+    referenced.add(`${suite.suiteId}:${specCase.caseId}`);
+
+    const adoTitle = suite.names.get(specCase.caseId)!;
+    if (adoTitle.trim().toLowerCase() !== specCase.title.trim().toLowerCase()) {
+      findings.push({
+        type: "warning",
+        kind: "renamed",
+        feature: featureKey,
+        suiteId: suite.suiteId,
+        caseId: specCase.caseId,
+        message: `${label} is titled "${adoTitle}" in ADO`,
+      });
+    }
+
+    const adoSteps = suite.steps.get(specCase.caseId);
+    if (adoSteps !== undefined && adoSteps !== specCase.steps) {
+      findings.push({
+        type: "warning",
+        kind: "steps",
+        feature: featureKey,
+        suiteId: suite.suiteId,
+        caseId: specCase.caseId,
+        message: `${label} has ${specCase.steps} step(s); ADO has ${adoSteps}`,
+      });
+    }
+  }
+
+  for (const suite of suites) {
+    for (const [caseId, name] of suite.names) {
+      if (referenced.has(`${suite.suiteId}:${caseId}`)) continue;
+      findings.push({
+        type: "warning",
+        kind: "extra",
+        feature: featureKey,
+        suiteId: suite.suiteId,
+        caseId,
+        message: `[${caseId}] "${name}" in suite ${suite.suiteId} has no test in tests/${featureKey}`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Prints findings grouped by severity.
+ */
+function printFindings(findings: AdoVerifyFinding[]): void {
+  console.log("DRIFT");
+  console.log("─".repeat(5));
+  if (findings.length === 0) {
+    console.log("No drift found");
+    return;
+  }
+
+  const ordered = [
+    ...findings.filter((finding) => finding.type === "error"),
+    ...findings.filter((finding) => finding.type === "warning"),
+  ];
+  for (const finding of ordered) {
+    const label = finding.type === "error" ? "ERROR" : "WARN ";
+    console.log(`${label} ${finding.kind.padEnd(8)} ${finding.feature}: ${finding.message}`);
+  }
+}
@@ -1,15 +1,23 @@
 #!/usr/bin/env node
 // CLI entrypoint for the pilot tool.
 import { Command } from "commander";
-import { addPage, deletePage } from "./commands/page";
-import { addFeature, deleteFeature } from "./commands/feature";
-import { addSpec, deleteSpec } from "./commands/spec";
-import { addFactory, deleteFactory } from "./commands/factory";
-import { addSystemEntry, deleteSystemEntry } from "./commands/system";
+import { addPage, deletePage, renamePage } from "./commands/page";
+import { addFeature, deleteFeature, renameFeature, importFeature, parseSuiteOptions } from "./commands/feature";
+import { addSpec, deleteSpec, renameSpec } from "./commands/spec";
+import { addFactory, deleteFactory, renameFactory } from "./commands/factory";
+import { addSystemEntry, deleteSystemEntry, parseEnvValueOptions } from "./commands/system";
 import { runPreflight } from "./commands/preflight";
+import { runDoctor } from "./commands/doctor";
+import { runAdoVerify } from "./commands/verify";
 import { runTakeoff } from "./commands/takeoff";
 import { openReport } from "./commands/trace";
+import { undoLastOperation } from "./commands/undo";
+import { listInventory } from "./commands/list";
+import { addStateKey, deleteStateKey, inspectRunState } from "./commands/state";
 import { printBanner } from "./theme/banner";
+import { setNonInteractive, loadDefaultsFile, applyCommandDefaults } from "./utils/interactive";
+import { startDryRun, isDryRun, endDryRun } from "./utils/fileOps";
+import { printPendingChanges } from "./utils/diff";
 
 // ANSI color codes
 const RESET = "\x1b[0m";
@@ -19,6 +27,11 @@ function error(message: string): string {
   return `${RED}${message}${RESET}`;
 }
 
+// Collects repeatable option values (e.g. --suite "1001=Login" --suite "1002=Logout")
+function collect(value: string, previous: string[] = []): string[] {
+  return previous.concat([value]);
+}
+
 const program = new Command();
 
 program
@@ -26,14 +39,37 @@ program
   .description("")
   .version("1.0.0")
   .option("--no-banner", "Suppress ASCII banner on startup")
+  .option("-y, --yes", "Non-interactive mode: answer every prompt from flags, the defaults file, or the prompt default")
+  .option("--non-interactive", "Alias for --yes")
+  .option("--defaults <file>", "JSON file with option values used when a flag is not passed")
   .addHelpText("before", "Opinionated Playwright CLI for structured test suites, rich test data, and Azure DevOps alignment\n\n\n");
 
+// Non-interactive mode and defaults file apply to whichever command runs
+program.hook("preAction", (_program, actionCommand) => {
+  const globalOptions = program.opts<{ yes?: boolean; nonInteractive?: boolean; defaults?: string }>();
+  setNonInteractive(Boolean(globalOptions.yes || globalOptions.nonInteractive));
+  if (globalOptions.defaults) {
+    applyCommandDefaults(actionCommand, loadDefaultsFile(globalOptions.defaults));
+  }
+  if (actionCommand.opts<{ dryRun?: boolean }>().dryRun) {
+    startDryRun();
+  }
+});
+
+// Dry runs print the collected changes as a diff instead of writing them
+program.hook("postAction", async () => {
+  if (isDryRun()) {
+    printPendingChanges(await endDryRun());
+  }
+});
+
 // Add commands
 program
   .command("page:add")
   .description("Create a new page object and wire it into fixtures")
   .argument("[PageName]", "Name of the page (optional - will prompt if not provided)")
   .option("-f, --feature <featureKey>", "Feature key for the page directory")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
   .action(async (pageName: string | undefined, options: { feature?: string }) => {
     try {
       await addPage(pageName, options.feature);
@@ -47,6 +83,7 @@ program
   .command("page:delete")
   .description("Delete a page object and unwire it from fixtures")
   .argument("[PageName]", "Name of the page to delete (optional - will prompt if not provided)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
   .action(async (pageName: string | undefined) => {
     try {
       await deletePage(pageName);
@@ -56,15 +93,50 @@ program
     }
   });
 
+program
+  .command("page:rename")
+  .description("Rename a page object (class, file, fixture and imports)")
+  .argument("[PageName]", "Name of the page to rename (optional - will prompt if not provided)")
+  .argument("[NewName]", "New page name (optional - will prompt if not provided)")
+  .option("--feature <featureKey>", "Move the page to another feature folder")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (pageName: string | undefined, newName: string | undefined, options: { feature?: string }) => {
+    try {
+      await renamePage(pageName, newName, { feature: options.feature });
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
 program
   .command("feature:add")
   .description("Create a new feature with test folder, config entry, and initial spec")
   .argument("[FeatureName]", "Name of the feature (optional - will prompt if not provided)")
   .option("-p, --plan-id <planId>", "Azure DevOps Plan ID (number)")
+  .option("--suite <suiteId=name>", "Suite as <suiteId>=<suite name> (repeatable; skips suite prompts)", collect)
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (featureName: string | undefined, options: { planId?: string; suite?: string[] }) => {
+    try {
+      const planId = options.planId ? parseInt(options.planId, 10) : undefined;
+      const suites = options.suite ? parseSuiteOptions([options.suite].flat()) : undefined;
+      await addFeature(featureName, planId, suites);
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("feature:import")
+  .description("Create a feature from an Azure DevOps test plan's suites")
+  .argument("[FeatureName]", "Name of the feature (optional - defaults to the plan name)")
+  .option("-p, --plan-id <planId>", "Azure DevOps Plan ID to import")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
   .action(async (featureName: string | undefined, options: { planId?: string }) => {
     try {
       const planId = options.planId ? parseInt(options.planId, 10) : undefined;
-      await addFeature(featureName, planId);
+      await importFeature(featureName, planId);
     } catch (err) {
       console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
       process.exit(1);
@@ -75,6 +147,7 @@ program
   .command("feature:delete")
   .description("Delete a feature (test folder and config entry)")
   .argument("[FeatureName]", "Name of the feature to delete (optional - will prompt if not provided)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
   .action(async (featureName: string | undefined) => {
     try {
       await deleteFeature(featureName);
@@ -84,13 +157,38 @@ program
     }
   });
 
+program
+  .command("feature:rename")
+  .description("Rename a feature (config key, tag, test and page folders)")
+  .argument("[FeatureName]", "Name of the feature to rename (optional - will prompt if not provided)")
+  .argument("[NewName]", "New feature name (optional - will prompt if not provided)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (featureName: string | undefined, newName: string | undefined) => {
+    try {
+      await renameFeature(featureName, newName);
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
 program
   .command("suite:add")
   .description("Create a new suite under an existing feature")
   .option("-f, --feature <featureKey>", "Feature key (must already exist)")
-  .action(async (options: { feature?: string }) => {
+  .option("-s, --suite <suiteName>", "Suite name")
+  .option("--suite-id <suiteId>", "Azure DevOps Suite ID (number)")
+  .option("-p, --plan-id <planId>", "Azure DevOps Plan ID, used if the feature has to be created")
+  .option("--from-ado", "Generate one test per Azure DevOps test case in the suite, with a step per ADO step")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (options: { feature?: string; suite?: string; suiteId?: string; planId?: string; fromAdo?: boolean }) => {
     try {
-      await addSpec(options.feature);
+      await addSpec(options.feature, {
+        suiteName: options.suite,
+        suiteId: options.suiteId ? parseInt(options.suiteId, 10) : undefined,
+        planId: options.planId ? parseInt(options.planId, 10) : undefined,
+        fromAdo: options.fromAdo,
+      });
     } catch (err) {
       console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
       process.exit(1);
@@ -102,9 +200,27 @@ program
   .description("Delete a suite and remove it from feature config")
   .option("-f, --feature <featureKey>", "Feature key")
   .option("-s, --suite <suiteName>", "Suite name")
-  .action(async (options: { feature?: string; suite?: string }) => {
+  .option("--spec <fileName>", "Spec file to delete when several match the suite")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (options: { feature?: string; suite?: string; spec?: string }) => {
+    try {
+      await deleteSpec(options.feature, options.suite, options.spec);
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("suite:rename")
+  .description("Rename a suite in feature config and its spec file")
+  .option("-f, --feature <featureKey>", "Feature key")
+  .option("-s, --suite <suiteName>", "Current suite name")
+  .option("--to <newName>", "New suite name")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (options: { feature?: string; suite?: string; to?: string }) => {
     try {
-      await deleteSpec(options.feature, options.suite);
+      await renameSpec(options.feature, options.suite, options.to);
     } catch (err) {
       console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
       process.exit(1);
@@ -115,6 +231,7 @@ program
   .command("factory:add")
   .description("Create a new data factory and add it to barrel exports")
   .argument("[ModelName]", "Name of the model (optional - will prompt if not provided)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
   .action(async (modelName: string | undefined) => {
     try {
       await addFactory(modelName);
@@ -128,6 +245,7 @@ program
   .command("factory:delete")
   .description("Delete a factory and remove it from barrel exports")
   .argument("[FactoryName]", "Name of the factory to delete (optional - will prompt if not provided)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
   .action(async (factoryName: string | undefined) => {
     try {
       await deleteFactory(factoryName);
@@ -137,13 +255,31 @@ program
     }
   });
 
+program
+  .command("factory:rename")
+  .description("Rename a factory with its builder and model")
+  .argument("[FactoryName]", "Name of the factory to rename (optional - will prompt if not provided)")
+  .argument("[NewName]", "New factory name (optional - will prompt if not provided)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (factoryName: string | undefined, newName: string | undefined) => {
+    try {
+      await renameFactory(factoryName, newName);
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
 program
   .command("system:add")
-  .description("Add a canonical system entry to registry and dataStore")
+  .description("Add a canonical system entry to registry, dataStore and environment overlays")
   .argument("[SystemKey]", "System key path (optional - will prompt if not provided)")
-  .action(async (systemKey: string | undefined) => {
+  .option("--value <value>", "Entry value (JSON object or string)")
+  .option("--env <env=value>", "Value for one environment's dataStore.<env>.json (repeatable; skips that prompt)", collect)
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (systemKey: string | undefined, options: { value?: string; env?: string[] }) => {
     try {
-      await addSystemEntry(systemKey);
+      await addSystemEntry(systemKey, options.value, parseEnvValueOptions(options.env ?? []));
     } catch (err) {
       console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
       process.exit(1);
@@ -152,8 +288,9 @@ program
 
 program
   .command("system:delete")
-  .description("Delete a canonical system entry from registry and dataStore")
+  .description("Delete a canonical system entry from registry, dataStore and environment overlays")
   .argument("[SystemKey]", "System key path (optional - will prompt if not provided)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
   .action(async (systemKey: string | undefined) => {
     try {
       await deleteSystemEntry(systemKey);
@@ -163,6 +300,76 @@ program
     }
   });
 
+program
+  .command("list")
+  .description("List features, suites, pages, factories, models and system keys")
+  .argument("[type]", "One of: features, suites, pages, factories, models, system (default: all)")
+  .option("--json", "Print JSON instead of tables")
+  .action(async (type: string | undefined, options: { json?: boolean }) => {
+    try {
+      await listInventory(type, { json: options.json });
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("state:inspect")
+  .description("Show run state from the configured backend as a tree of test, per-test, per-worker and shared keys")
+  .argument("[prefix]", "Only show keys under this prefix (e.g. test.tests, shared)")
+  .option("--json", "Print nested JSON instead of a tree")
+  .action(async (prefix: string | undefined, options: { json?: boolean }) => {
+    try {
+      await inspectRunState(prefix, { json: options.json });
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("state:add")
+  .description("Declare a typed test.* run-state key in the run-state schema")
+  .argument("[StateKey]", "Run-state key, e.g. test.user (optional - will prompt if not provided)")
+  .option("--model <Model>", "Model stored under the key")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (stateKey: string | undefined, options: { model?: string }) => {
+    try {
+      await addStateKey(stateKey, options.model);
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("state:delete")
+  .description("Remove a test.* run-state key from the run-state schema")
+  .argument("[StateKey]", "Run-state key (optional - will prompt if not provided)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (stateKey: string | undefined) => {
+    try {
+      await deleteStateKey(stateKey);
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("undo")
+  .description("Revert the most recent add/delete command using the operation journal")
+  .option("--force", "Revert even if the files were edited after the command ran")
+  .action(async (options: { force?: boolean }) => {
+    try {
+      await undoLastOperation({ force: options.force });
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
 program
   .command("preflight")
   .description("Run preflight check to verify framework readiness")
@@ -179,6 +386,41 @@ program
     }
   });
 
+program
+  .command("doctor")
+  .description("Cross-check featureConfig, tests, pages, fixtures and barrels for inconsistencies")
+  .option("--fix", "Apply safe repairs (fixture wiring and barrel exports)")
+  .option("--dry-run", "Preview file changes as a diff without writing anything")
+  .action(async (options: { fix?: boolean }) => {
+    try {
+      const consistent = await runDoctor({ fix: options.fix });
+      if (!consistent) {
+        // Exit code set instead of exiting so a --dry-run diff still prints
+        process.exitCode = 1;
+      }
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command("ado:verify")
+  .description("Compare spec case IDs with the Azure DevOps test suites and report drift before a run")
+  .option("-f, --feature <featureKey>", "Only verify one feature")
+  .option("--strict", "Fail on extra, renamed and step-count-mismatched cases, not only missing ones")
+  .action(async (options: { feature?: string; strict?: boolean }) => {
+    try {
+      const inSync = await runAdoVerify({ feature: options.feature, strict: options.strict });
+      if (!inSync) {
+        process.exitCode = 1;
+      }
+    } catch (err) {
+      console.error(error(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
 program
   .command("takeoff")
   .description("Execute the resolved test plan")
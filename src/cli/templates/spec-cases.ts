@@ -0,0 +1,13 @@
+import { test } from "../fixtures/test-fixtures";
+
+// ---
+// Tests for {{description}}
+// Feature: {{featureKey}}
+// Tag: {{tag}}
+// ADO Plan ID: {{planId}}
+// ADO Suite IDs: {{suites}}
+// ---
+
+test.describe.serial("{{specId}} - {{description}} {{tag}}", () => {
+{{testCases}}
+});
@@ -0,0 +1,159 @@
+// Unified diff rendering for dry-run previews.
+import path from "path";
+import { REPO_ROOT } from "./paths";
+import type { PendingChange } from "./fileOps";
+
+// ANSI color codes
+const RESET = "\x1b[0m";
+const RED = "\x1b[31m"; // Removed line
+const GREEN = "\x1b[32m"; // Added line
+const CYAN = "\x1b[36m"; // Hunk header
+const BOLD = "\x1b[1m"; // File header
+
+const CONTEXT_LINES = 3;
+
+type DiffOp = { type: "equal" | "delete" | "insert"; line: string };
+
+function splitLines(content: string | null): string[] {
+  if (content === null || content === "") return [];
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Computes a line-level edit script using a longest-common-subsequence table.
+ */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lcs = new Uint32Array(rows * cols);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        before[i] === after[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: "equal", line: before[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      ops.push({ type: "delete", line: before[i++] });
+    } else {
+      ops.push({ type: "insert", line: after[j++] });
+    }
+  }
+  while (i < before.length) ops.push({ type: "delete", line: before[i++] });
+  while (j < after.length) ops.push({ type: "insert", line: after[j++] });
+  return ops;
+}
+
+/**
+ * Builds a unified diff (git style, 3 lines of context) between two versions of a file.
+ * A null version means the file does not exist on that side.
+ */
+export function createUnifiedDiff(filePath: string, before: string | null, after: string | null): string {
+  const displayPath = path.relative(REPO_ROOT, filePath).split(path.sep).join("/");
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const output: string[] = [
+    `--- ${before === null ? "/dev/null" : `a/${displayPath}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${displayPath}`}`,
+  ];
+
+  // Line numbers (1-based) of each op in the old and new file
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== "insert") oldLine++;
+    if (op.type !== "delete") newLine++;
+  }
+
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === "equal") {
+      index++;
+      continue;
+    }
+
+    // Grow the hunk until a run of unchanged lines is long enough to split on
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+    while (end < ops.length) {
+      if (ops[end].type !== "equal") {
+        end++;
+        continue;
+      }
+      let run = end;
+      while (run < ops.length && ops[run].type === "equal") run++;
+      if (run === ops.length || run - end > CONTEXT_LINES * 2) {
+        end = Math.min(run, end + CONTEXT_LINES);
+        break;
+      }
+      end = run;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "insert").length;
+    const newCount = hunk.filter((op) => op.type !== "delete").length;
+    const oldStart = oldCount === 0 ? oldLineAt[start] - 1 : oldLineAt[start];
+    const newStart = newCount === 0 ? newLineAt[start] - 1 : newLineAt[start];
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === "equal" ? " " : op.type === "delete" ? "-" : "+";
+      output.push(`${prefix}${op.line}`);
+    }
+    index = end;
+  }
+
+  return output.join("\n");
+}
+
+/**
+ * Adds terminal colors to a unified diff.
+ */
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("---") || line.startsWith("+++")) return `${BOLD}${line}${RESET}`;
+      if (line.startsWith("@@")) return `${CYAN}${line}${RESET}`;
+      if (line.startsWith("-")) return `${RED}${line}${RESET}`;
+      if (line.startsWith("+")) return `${GREEN}${line}${RESET}`;
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Prints a colored diff for every pending change collected during a dry run.
+ */
+export function printPendingChanges(changes: PendingChange[]): void {
+  console.log("");
+  if (changes.length === 0) {
+    console.log("Dry run: no files would change.");
+    return;
+  }
+
+  for (const change of changes) {
+    console.log(colorizeDiff(createUnifiedDiff(change.filePath, change.before, change.after)));
+    console.log("");
+  }
+
+  const created = changes.filter((change) => change.before === null).length;
+  const deleted = changes.filter((change) => change.after === null).length;
+  const modified = changes.length - created - deleted;
+  console.log(`Dry run: ${created} file(s) would be created, ${modified} modified, ${deleted} deleted. No files were changed.`);
+}
@@ -2,11 +2,87 @@
 import { promises as fs } from "fs";
 import path from "path";
 import { existsSync } from "fs";
+import { snapshotFile, snapshotDir } from "./journal";
+
+/** A write or delete recorded while dry-run mode is active (null content = deleted). */
+export interface PendingChange {
+  filePath: string;
+  before: string | null;
+  after: string | null;
+}
+
+// Dry-run state: pending file contents keyed by absolute path, and directories removed
+let pendingFiles: Map<string, string | null> | null = null;
+let removedDirs = new Set<string>();
+
+/**
+ * Starts dry-run mode. Writes and deletes are kept in memory instead of touching disk.
+ */
+export function startDryRun(): void {
+  pendingFiles = new Map();
+  removedDirs = new Set();
+}
+
+/**
+ * Returns true when writes and deletes are being collected in memory.
+ */
+export function isDryRun(): boolean {
+  return pendingFiles !== null;
+}
+
+/**
+ * Ends dry-run mode and returns every file change collected, sorted by path.
+ */
+export async function endDryRun(): Promise<PendingChange[]> {
+  const pending = pendingFiles ?? new Map<string, string | null>();
+  pendingFiles = null;
+  removedDirs = new Set();
+
+  const changes: PendingChange[] = [];
+  for (const [filePath, after] of pending) {
+    const before = existsSync(filePath) ? await fs.readFile(filePath, "utf-8") : null;
+    if (before !== after) {
+      changes.push({ filePath, before, after });
+    }
+  }
+  return changes.sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
+function isInside(filePath: string, dirPath: string): boolean {
+  const relative = path.relative(dirPath, filePath);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function isRemovedOnDisk(filePath: string): boolean {
+  for (const dir of removedDirs) {
+    if (filePath === dir || isInside(filePath, dir)) return true;
+  }
+  return false;
+}
+
+async function listFilesOnDisk(dirPath: string): Promise<string[]> {
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFilesOnDisk(entryPath)));
+    } else {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
 
 /**
  * Reads a file, returning null if it doesn't exist.
  */
 export async function readFileSafe(filePath: string): Promise<string | null> {
+  if (pendingFiles) {
+    const resolved = path.resolve(filePath);
+    if (pendingFiles.has(resolved)) return pendingFiles.get(resolved) ?? null;
+    if (isRemovedOnDisk(resolved)) return null;
+  }
   try {
     return await fs.readFile(filePath, "utf-8");
   } catch {
@@ -22,10 +98,16 @@ export async function writeFileSafe(
   content: string,
   overwrite: boolean = false
 ): Promise<void> {
-  if (existsSync(filePath) && !overwrite) {
+  if (fileExists(filePath) && !overwrite) {
     throw new Error(`File already exists: ${filePath}`);
   }
 
+  if (pendingFiles) {
+    pendingFiles.set(path.resolve(filePath), content);
+    return;
+  }
+
+  await snapshotFile(filePath);
   const dir = path.dirname(filePath);
   await fs.mkdir(dir, { recursive: true });
   await fs.writeFile(filePath, content, "utf-8");
@@ -35,20 +117,87 @@ export async function writeFileSafe(
  * Deletes a file safely.
  */
 export async function deleteFileSafe(filePath: string): Promise<void> {
+  if (pendingFiles) {
+    if (fileExists(filePath)) pendingFiles.set(path.resolve(filePath), null);
+    return;
+  }
   if (existsSync(filePath)) {
+    await snapshotFile(filePath);
     await fs.unlink(filePath);
   }
 }
 
+/**
+ * Moves a file byte-for-byte, so binary files (e.g. screenshot baselines) survive.
+ * Throws if the source is missing or the target exists. Both paths are journaled; in dry-run
+ * the move is recorded as a write + delete.
+ */
+export async function moveFileSafe(fromPath: string, toPath: string): Promise<void> {
+  if (!fileExists(fromPath)) {
+    throw new Error(`File not found: ${fromPath}`);
+  }
+  if (fileExists(toPath)) {
+    throw new Error(`File already exists: ${toPath}`);
+  }
+
+  if (pendingFiles) {
+    await writeFileSafe(toPath, (await readFileSafe(fromPath)) ?? "");
+    await deleteFileSafe(fromPath);
+    return;
+  }
+
+  await snapshotFile(fromPath);
+  await snapshotFile(toPath);
+  await fs.mkdir(path.dirname(toPath), { recursive: true });
+  await fs.rename(fromPath, toPath);
+}
+
 /**
  * Deletes a directory recursively.
  */
 export async function deleteDirSafe(dirPath: string): Promise<void> {
+  if (pendingFiles) {
+    const resolved = path.resolve(dirPath);
+    if (existsSync(resolved) && !isRemovedOnDisk(resolved)) {
+      for (const filePath of await listFilesOnDisk(resolved)) {
+        if (!pendingFiles.has(filePath)) pendingFiles.set(filePath, null);
+      }
+      removedDirs.add(resolved);
+    }
+    for (const filePath of pendingFiles.keys()) {
+      if (isInside(filePath, resolved)) pendingFiles.set(filePath, null);
+    }
+    return;
+  }
   if (existsSync(dirPath)) {
+    await snapshotDir(dirPath);
     await fs.rm(dirPath, { recursive: true, force: true });
   }
 }
 
+/**
+ * Deletes a directory if it has no entries. Returns true if it was removed.
+ */
+export async function deleteEmptyDirSafe(dirPath: string): Promise<boolean> {
+  if (!dirExists(dirPath)) return false;
+
+  if (pendingFiles) {
+    const resolved = path.resolve(dirPath);
+    const onDisk = isRemovedOnDisk(resolved) ? [] : await listFilesOnDisk(resolved);
+    const remaining = [...onDisk, ...pendingFiles.keys()].filter(
+      (filePath) => isInside(filePath, resolved) && pendingFiles!.get(filePath) !== null
+    );
+    if (remaining.length > 0) return false;
+    removedDirs.add(resolved);
+    return true;
+  }
+
+  const entries = await fs.readdir(dirPath);
+  if (entries.length > 0) return false;
+  await fs.rmdir(dirPath);
+  return true;
+}
+
 /**
  * Reads JSON file safely.
  */
@@ -70,10 +219,16 @@ export async function writeJsonSafe(
   data: unknown,
   overwrite: boolean = false
 ): Promise<void> {
-  if (existsSync(filePath) && !overwrite) {
+  if (fileExists(filePath) && !overwrite) {
     throw new Error(`File already exists: ${filePath}`);
   }
 
+  if (pendingFiles) {
+    pendingFiles.set(path.resolve(filePath), JSON.stringify(data, null, 2) + "\n");
+    return;
+  }
+
+  await snapshotFile(filePath);
   const dir = path.dirname(filePath);
   await fs.mkdir(dir, { recursive: true });
 
@@ -86,6 +241,11 @@ export async function writeJsonSafe(
  * Checks if a file exists.
  */
 export function fileExists(filePath: string): boolean {
+  if (pendingFiles) {
+    const resolved = path.resolve(filePath);
+    if (pendingFiles.has(resolved)) return pendingFiles.get(resolved) !== null;
+    if (isRemovedOnDisk(resolved)) return false;
+  }
   return existsSync(filePath);
 }
 
@@ -93,5 +253,12 @@ export function fileExists(filePath: string): boolean {
  * Checks if a directory exists.
  */
 export function dirExists(dirPath: string): boolean {
+  if (pendingFiles) {
+    const resolved = path.resolve(dirPath);
+    for (const [filePath, content] of pendingFiles) {
+      if (content !== null && isInside(filePath, resolved)) return true;
+    }
+    if (isRemovedOnDisk(resolved)) return false;
+  }
   return existsSync(dirPath);
 }
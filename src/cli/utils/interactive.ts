@@ -0,0 +1,147 @@
+// Prompt wrappers that support a non-interactive mode for CI jobs and scripts.
+import { input as promptInput, confirm as promptConfirm, select as promptSelect } from "@inquirer/prompts";
+import { readFileSync } from "fs";
+import path from "path";
+import type { Command } from "commander";
+import { isDryRun } from "./fileOps";
+
+let nonInteractive = false;
+
+/**
+ * Values from a defaults file. Top-level keys apply to every command;
+ * a "<resource>:<verb>" key holds values for that command only.
+ */
+export type CliDefaults = Record<string, unknown>;
+
+/**
+ * Enables or disables non-interactive mode.
+ */
+export function setNonInteractive(enabled: boolean): void {
+  nonInteractive = enabled;
+}
+
+/**
+ * Returns true when prompts must be answered by flags or a defaults file.
+ */
+export function isNonInteractive(): boolean {
+  return nonInteractive;
+}
+
+/**
+ * Builds the error raised when a prompt cannot be answered in non-interactive mode.
+ * A null flag marks a prompt that no flag or defaults key can answer.
+ */
+function missingValueError(message: string, flag: string | null): Error {
+  const hint = flag ? `Pass ${flag}.` : "This prompt is interactive only; run the command without --yes.";
+  return new Error(`No value for "${message.replace(/:$/, "")}" in non-interactive mode. ${hint}`);
+}
+
+/**
+ * Prompts for text input. In non-interactive mode, fails with the flag that supplies the value,
+ * or with an interactive-only error when the flag is null.
+ */
+export async function input(config: { message: string; flag: string | null; default?: string }): Promise<string> {
+  const { flag, ...promptConfig } = config;
+  if (nonInteractive) {
+    if (promptConfig.default !== undefined) {
+      return promptConfig.default;
+    }
+    throw missingValueError(promptConfig.message, flag);
+  }
+  return promptInput(promptConfig);
+}
+
+/**
+ * Prompts for a yes/no answer. In non-interactive mode, resolves to the prompt default.
+ */
+export async function confirm(config: { message: string; flag?: string; default?: boolean }): Promise<boolean> {
+  const { flag, ...promptConfig } = config;
+  if (nonInteractive) {
+    if (promptConfig.default !== undefined) {
+      return promptConfig.default;
+    }
+    throw missingValueError(promptConfig.message, flag || "--yes");
+  }
+  return promptConfirm(promptConfig);
+}
+
+/**
+ * Prompts for a choice from a list. In non-interactive mode, fails with the flag that supplies the value.
+ */
+export async function select<T>(config: {
+  message: string;
+  flag: string;
+  choices: Array<{ value: T; name: string }>;
+}): Promise<T> {
+  const { flag, ...promptConfig } = config;
+  if (nonInteractive) {
+    throw missingValueError(promptConfig.message, flag);
+  }
+  return promptSelect(promptConfig);
+}
+
+/**
+ * Asks the user to type a confirmation phrase before a destructive operation.
+ * Non-interactive mode (--yes) counts as confirmation.
+ */
+export async function confirmDeletion(phrase: string): Promise<void> {
+  if (nonInteractive || isDryRun()) {
+    return;
+  }
+
+  const confirmation = await promptInput({
+    message: `Type "${phrase}" to confirm deletion:`,
+  });
+
+  if (confirmation !== phrase) {
+    throw new Error("Deletion cancelled: confirmation text did not match");
+  }
+}
+
+/**
+ * Loads a JSON defaults file.
+ */
+export function loadDefaultsFile(filePath: string): CliDefaults {
+  const resolvedPath = path.resolve(filePath);
+  let content: string;
+  try {
+    content = readFileSync(resolvedPath, "utf-8");
+  } catch {
+    throw new Error(`Defaults file not found: ${resolvedPath}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Defaults file is not valid JSON: ${resolvedPath} (${err instanceof Error ? err.message : String(err)})`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Defaults file must contain a JSON object: ${resolvedPath}`);
+  }
+  return parsed as CliDefaults;
+}
+
+/**
+ * Fills options the user did not pass on the command line from the defaults file.
+ * Keys match option names in camelCase (e.g. "planId" for --plan-id).
+ */
+export function applyCommandDefaults(command: Command, defaults: CliDefaults): void {
+  const scoped = defaults[command.name()];
+  const commandDefaults: Record<string, unknown> = {
+    ...Object.fromEntries(Object.entries(defaults).filter(([key]) => !key.includes(":"))),
+    ...(scoped && typeof scoped === "object" && !Array.isArray(scoped) ? (scoped as Record<string, unknown>) : {}),
+  };
+
+  for (const option of command.options) {
+    const key = option.attributeName();
+    if (!(key in commandDefaults)) continue;
+    const source = command.getOptionValueSource(key);
+    if (source === "cli" || source === "env") continue;
+
+    const value = commandDefaults[key];
+    const normalized = Array.isArray(value) ? value.map(String) : typeof value === "boolean" ? value : String(value);
+    command.setOptionValueWithSource(key, normalized, "config");
+  }
+}
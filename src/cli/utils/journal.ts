@@ -0,0 +1,259 @@
+// Journaled transactions for multi-file CLI operations, with undo support.
+import { promises as fs, existsSync } from "fs";
+import { isUtf8 } from "buffer";
+import path from "path";
+import { REPO_ROOT } from "./paths";
+import { getLogTimestamp } from "./preflightLogger";
+
+const DEFAULT_JOURNAL_DIR = path.join(REPO_ROOT, ".pilot", "journal");
+const JOURNAL_RETENTION = 20;
+
+let journalDir = DEFAULT_JOURNAL_DIR;
+
+/**
+ * One file touched by an operation. Paths are relative to the repo root; null content = file absent.
+ * Binary files (e.g. screenshot baselines) are stored base64-encoded behind BINARY_PREFIX.
+ */
+export interface JournalFile {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * A committed CLI operation, as stored in .pilot/journal.
+ */
+export interface JournalEntry {
+  operation: string;
+  committedAt: string;
+  files: JournalFile[];
+  createdDirs: string[];
+}
+
+interface ActiveTransaction {
+  operation: string;
+  snapshots: Map<string, string | null>;
+  createdDirs: string[];
+}
+
+let active: ActiveTransaction | null = null;
+// Keeps journal file names ordered when two commits land in the same millisecond
+let commitSequence = 0;
+
+/**
+ * Overrides the journal directory (for testing).
+ */
+export function setJournalDir(dir: string): void {
+  journalDir = dir;
+}
+
+/**
+ * Resets the journal directory to .pilot/journal.
+ */
+export function resetJournalDir(): void {
+  journalDir = DEFAULT_JOURNAL_DIR;
+}
+
+function toJournalPath(filePath: string): string {
+  return path.relative(REPO_ROOT, path.resolve(filePath)).split(path.sep).join("/");
+}
+
+function fromJournalPath(journalPath: string): string {
+  return path.resolve(REPO_ROOT, journalPath);
+}
+
+// Text never contains a NUL byte, so this prefix cannot collide with a text file's content
+const BINARY_PREFIX = "\u0000base64:";
+
+async function readContent(filePath: string): Promise<string | null> {
+  if (!existsSync(filePath)) return null;
+  const bytes = await fs.readFile(filePath);
+  return isUtf8(bytes) && !bytes.includes(0) ? bytes.toString("utf-8") : BINARY_PREFIX + bytes.toString("base64");
+}
+
+async function writeContent(filePath: string, content: string): Promise<void> {
+  if (content.startsWith(BINARY_PREFIX)) {
+    await fs.writeFile(filePath, Buffer.from(content.slice(BINARY_PREFIX.length), "base64"));
+  } else {
+    await fs.writeFile(filePath, content, "utf-8");
+  }
+}
+
+async function listFiles(dirPath: string): Promise<string[]> {
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    files.push(...(entry.isDirectory() ? await listFiles(entryPath) : [entryPath]));
+  }
+  return files;
+}
+
+/**
+ * Records a file's current content before it is written or deleted.
+ * Only the first snapshot per file counts; no-op outside a transaction.
+ */
+export async function snapshotFile(filePath: string): Promise<void> {
+  if (!active) return;
+  const resolved = path.resolve(filePath);
+  if (active.snapshots.has(resolved)) return;
+
+  active.snapshots.set(resolved, await readContent(resolved));
+
+  // Remember directories this write is about to create so rollback can remove them
+  let dir = path.dirname(resolved);
+  const missing: string[] = [];
+  while (!existsSync(dir) && path.dirname(dir) !== dir) {
+    missing.push(dir);
+    dir = path.dirname(dir);
+  }
+  for (const missingDir of missing) {
+    if (!active.createdDirs.includes(missingDir)) active.createdDirs.push(missingDir);
+  }
+}
+
+/**
+ * Records every file under a directory before the directory is deleted.
+ */
+export async function snapshotDir(dirPath: string): Promise<void> {
+  if (!active || !existsSync(dirPath)) return;
+  for (const filePath of await listFiles(path.resolve(dirPath))) {
+    await snapshotFile(filePath);
+  }
+}
+
+/**
+ * Writes files back to the given contents and removes directories the operation created.
+ */
+async function restoreFiles(files: Array<{ filePath: string; content: string | null }>, createdDirs: string[]): Promise<void> {
+  for (const { filePath, content } of files) {
+    if (content === null) {
+      await fs.rm(filePath, { force: true });
+    } else {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeContent(filePath, content);
+    }
+  }
+
+  // Deepest directories first; leave any that still have content
+  const dirs = [...createdDirs].sort((a, b) => b.length - a.length);
+  for (const dir of dirs) {
+    try {
+      if (existsSync(dir) && (await fs.readdir(dir)).length === 0) {
+        await fs.rmdir(dir);
+      }
+    } catch {
+      // Directory in use or already gone, ignore
+    }
+  }
+}
+
+async function commit(transaction: ActiveTransaction): Promise<void> {
+  const files: JournalFile[] = [];
+  for (const [filePath, before] of transaction.snapshots) {
+    const after = await readContent(filePath);
+    if (before !== after) {
+      files.push({ path: toJournalPath(filePath), before, after });
+    }
+  }
+  if (files.length === 0) return;
+
+  const entry: JournalEntry = {
+    operation: transaction.operation,
+    committedAt: new Date().toISOString(),
+    files,
+    createdDirs: transaction.createdDirs.map(toJournalPath),
+  };
+
+  await fs.mkdir(journalDir, { recursive: true });
+  const sequence = String(commitSequence++ % 10000).padStart(4, "0");
+  const fileName = `${getLogTimestamp()}-${sequence}-${transaction.operation.replace(/[^a-zA-Z0-9-]+/g, "-")}.json`;
+  const tempPath = path.join(journalDir, `${fileName}.tmp`);
+  await fs.writeFile(tempPath, JSON.stringify(entry, null, 2) + "\n", "utf-8");
+  await fs.rename(tempPath, path.join(journalDir, fileName));
+
+  await pruneJournal();
+}
+
+async function listJournalFiles(): Promise<string[]> {
+  if (!existsSync(journalDir)) return [];
+  const names = await fs.readdir(journalDir);
+  return names.filter((name) => name.endsWith(".json")).sort();
+}
+
+async function pruneJournal(): Promise<void> {
+  const names = await listJournalFiles();
+  for (const name of names.slice(0, Math.max(0, names.length - JOURNAL_RETENTION))) {
+    await fs.rm(path.join(journalDir, name), { force: true });
+  }
+}
+
+/**
+ * Runs a multi-file operation as a transaction. Every file written or deleted through
+ * fileOps is snapshotted first; if the operation throws, all of them are restored.
+ * On success the operation is committed to the journal so `pilot undo` can revert it.
+ * Nested calls join the outer transaction.
+ */
+export async function withTransaction<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+  if (active) {
+    return fn();
+  }
+
+  const transaction: ActiveTransaction = { operation, snapshots: new Map(), createdDirs: [] };
+  active = transaction;
+  try {
+    const result = await fn();
+    active = null;
+    await commit(transaction);
+    return result;
+  } catch (err) {
+    active = null;
+    await restoreFiles(
+      [...transaction.snapshots].map(([filePath, content]) => ({ filePath, content })),
+      transaction.createdDirs
+    );
+    throw err;
+  } finally {
+    active = null;
+  }
+}
+
+/**
+ * Reads the most recent committed operation, or null if the journal is empty.
+ */
+export async function readLatestJournalEntry(): Promise<{ entry: JournalEntry; journalFile: string } | null> {
+  const names = await listJournalFiles();
+  if (names.length === 0) return null;
+
+  const journalFile = path.join(journalDir, names[names.length - 1]);
+  try {
+    const entry = JSON.parse(await fs.readFile(journalFile, "utf-8")) as JournalEntry;
+    return { entry, journalFile };
+  } catch {
+    throw new Error(`Journal entry is not valid JSON: ${journalFile}`);
+  }
+}
+
+/**
+ * Lists files whose current content no longer matches what the operation left behind.
+ */
+export async function findChangedSinceCommit(entry: JournalEntry): Promise<string[]> {
+  const changed: string[] = [];
+  for (const file of entry.files) {
+    if ((await readContent(fromJournalPath(file.path))) !== file.after) {
+      changed.push(file.path);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Restores every file in a journal entry to its content before the operation, then drops the entry.
+ */
+export async function revertJournalEntry(entry: JournalEntry, journalFile: string): Promise<void> {
+  await restoreFiles(
+    entry.files.map((file) => ({ filePath: fromJournalPath(file.path), content: file.before })),
+    entry.createdDirs.map(fromJournalPath)
+  );
+  await fs.rm(journalFile, { force: true });
+}
@@ -44,6 +44,9 @@ export const paths = {
   builder: (modelKey: string) =>
     path.join(REPO_ROOT, "src", "testdata", "builders", `${modelKey}.builder.ts`),
   systemRegistry: () => path.join(REPO_ROOT, "src", "testdata", "system.ts"),
+  runStateSchema: () => path.join(REPO_ROOT, "src", "testdata", "runStateKeys.ts"),
+  dataStore: () => path.join(REPO_ROOT, "src", "testdata", "dataStore.json"),
+  dataStoreOverlay: (env: string) => path.join(REPO_ROOT, "src", "testdata", `dataStore.${env}.json`),
   templates: (templateName: string) =>
     path.join(REPO_ROOT, "src", "cli", "templates", templateName),
 };
@@ -0,0 +1,66 @@
+// Project-wide reference updates used by the rename commands.
+import { glob } from "fast-glob";
+import path from "path";
+import { readFileSafe, writeFileSafe } from "./fileOps";
+import { REPO_ROOT } from "./paths";
+
+/**
+ * A text replacement applied to every project source file.
+ */
+export interface Replacement {
+  pattern: RegExp;
+  replacement: string;
+}
+
+/**
+ * Escapes a string for literal use inside a RegExp.
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds a replacement for a whole identifier (word boundaries on both sides).
+ */
+export function identifierReplacement(from: string, to: string): Replacement {
+  return { pattern: new RegExp(`\\b${escapeRegExp(from)}\\b`, "g"), replacement: to };
+}
+
+/**
+ * Builds a replacement for a literal string.
+ */
+export function literalReplacement(from: string, to: string): Replacement {
+  return { pattern: new RegExp(escapeRegExp(from), "g"), replacement: to };
+}
+
+/**
+ * Applies replacements to one string.
+ */
+export function applyReplacements(content: string, replacements: Replacement[]): string {
+  return replacements.reduce((current, { pattern, replacement }) => current.replace(pattern, () => replacement), content);
+}
+
+/**
+ * Applies replacements to every TypeScript file under tests/ and src/ (CLI sources excluded).
+ * Returns the repo-relative paths of the files that changed.
+ */
+export async function updateProjectReferences(replacements: Replacement[]): Promise<string[]> {
+  const files = await glob(["tests/**/*.ts", "src/**/*.ts"], {
+    cwd: REPO_ROOT,
+    ignore: ["src/cli/**", "**/node_modules/**"],
+  });
+
+  const changed: string[] = [];
+  for (const file of files.sort()) {
+    const filePath = path.join(REPO_ROOT, file);
+    const content = await readFileSafe(filePath);
+    if (content === null) continue;
+
+    const updated = applyReplacements(content, replacements);
+    if (updated !== content) {
+      await writeFileSafe(filePath, updated, true);
+      changed.push(file);
+    }
+  }
+  return changed;
+}
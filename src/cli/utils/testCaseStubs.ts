@@ -0,0 +1,47 @@
+// Renders Azure DevOps test cases as Playwright test stubs for generated specs.
+import { renderTemplate } from "./templates";
+import type { TestPlanCase } from "../../integrations/azureDevops/testPlans";
+
+/**
+ * Renders a comment block, prefixing the first line with a label.
+ */
+function renderComment(text: string, label: string, indent: string): string {
+  return text
+    .split("\n")
+    .map((line, index) => `${indent}// ${index === 0 ? `${label}${line}` : line}`)
+    .join("\n");
+}
+
+/**
+ * Renders one `test("[caseId] title")` per test case with one `test.step()` per ADO step,
+ * in ADO order, so step results line up with the case's actionPaths when results are synced.
+ */
+export function renderTestCaseStubs(cases: TestPlanCase[], pageFixture: string): string {
+  return cases
+    .map((testCase) => {
+      const steps = testCase.steps.map((step, index) => {
+        const body = step.expectedResult
+          ? renderComment(step.expectedResult, "Expected: ", "      ")
+          : "      // Your code here...";
+        const title = step.action || `Step ${index + 1}`;
+        return `    await test.step(${JSON.stringify(title)}, async () => {\n${body}\n    });`;
+      });
+      const body = steps.length > 0 ? steps.join("\n\n") : "    // Test case has no steps in Azure DevOps. Your code here...";
+      const title = JSON.stringify(`[${testCase.id}] ${testCase.title}`);
+      return `  test(${title}, async ({ ${pageFixture} }) => {\n${body}\n  });`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Renders the spec-cases template with one stub per test case.
+ */
+export function renderTestCaseSpec(
+  template: string,
+  replacements: Record<string, string>,
+  cases: TestPlanCase[],
+  pageFixture: string
+): string {
+  // Function replacer: case titles may contain "$" sequences that string replacement would expand
+  return renderTemplate(template, replacements).replace("{{testCases}}", () => renderTestCaseStubs(cases, pageFixture));
+}
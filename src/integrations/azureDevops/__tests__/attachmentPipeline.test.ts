@@ -0,0 +1,216 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { deflateRawSync, gunzipSync } from "zlib";
+import {
+  DEFAULT_REDACTION_RULES,
+  createAttachmentBudget,
+  containsSecret,
+  loadAttachmentPolicy,
+  prepareAttachment,
+  pruneTraceZip,
+  redactJson,
+  redactText,
+  type AttachmentPolicy,
+} from "../attachmentPipeline";
+
+const originalEnv = { ...process.env };
+
+/**
+ * Builds a zip of stored (uncompressed) entries, the way the trace tests need it, or of deflated ones.
+ */
+function buildZip(entries: Record<string, string>, deflate = false): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflate ? deflateRawSync(content) : Buffer.from(content);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    directory.push(central, nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+  const directoryBuffer = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directoryBuffer.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directoryBuffer, end]);
+}
+
+/**
+ * Lists the entry names in a zip's central directory.
+ */
+function listZip(zip: Buffer): string[] {
+  const eocd = zip.length - 22;
+  const names: string[] = [];
+  let cursor = zip.readUInt32LE(eocd + 16);
+  for (let i = 0; i < zip.readUInt16LE(eocd + 10); i++) {
+    const nameLength = zip.readUInt16LE(cursor + 28);
+    const localOffset = zip.readUInt32LE(cursor + 42);
+    expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50);
+    names.push(zip.toString("utf-8", cursor + 46, cursor + 46 + nameLength));
+    cursor += 46 + nameLength + zip.readUInt16LE(cursor + 30) + zip.readUInt16LE(cursor + 32);
+  }
+  return names;
+}
+
+function policy(overrides: Partial<AttachmentPolicy> = {}): AttachmentPolicy {
+  return {
+    maxFileBytes: 1024 * 1024,
+    resultBudgetBytes: 1024 * 1024,
+    runBudgetBytes: 1024 * 1024,
+    redaction: DEFAULT_REDACTION_RULES,
+    secrets: [],
+    ...overrides,
+  };
+}
+
+describe("ADO attachment pipeline", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), "pilot-ado-attachments-"));
+    delete process.env.ADO_SYNC_CONFIG;
+    delete process.env.ADO_ATTACH_REDACT;
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  test("redacts emails, tokens and secrets from text", () => {
+    const text = [
+      "Logged in as jane.doe@example.com",
+      "Authorization: Bearer abc.def-123",
+      "jwt eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig",
+      "apiKey=sk_live_42&next=1",
+    ].join("\n");
+
+    expect(redactText(text, DEFAULT_REDACTION_RULES)).toBe(
+      [
+        "Logged in as [REDACTED]",
+        "Authorization: Bearer [REDACTED]",
+        "jwt [REDACTED]",
+        "apiKey=[REDACTED]&next=1",
+      ].join("\n")
+    );
+    expect(redactText("ACCT-123456", { ...DEFAULT_REDACTION_RULES, patterns: [/ACCT-\d+/g] })).toBe("[REDACTED]");
+  });
+
+  test("redacts JSON values by JSONPath", () => {
+    const runState = {
+      test: { user: { name: "Jane", ssn: "123-45-6789", email: "jane@example.com" } },
+      items: [{ card: "4111" }, { card: "5500" }],
+      nested: { deep: { password: "hunter2" } },
+    };
+    const rules = { ...DEFAULT_REDACTION_RULES, jsonPaths: ["$.test.user.ssn", "$.items[*].card", "$..password"] };
+
+    expect(redactJson(runState, rules)).toEqual({
+      test: { user: { name: "Jane", ssn: "[REDACTED]", email: "[REDACTED]" } },
+      items: [{ card: "[REDACTED]" }, { card: "[REDACTED]" }],
+      nested: { deep: { password: "[REDACTED]" } },
+    });
+    expect(runState.test.user.ssn).toBe("123-45-6789");
+  });
+
+  test("reads redaction rules from the sync config and rejects bad JSONPaths", async () => {
+    const configPath = join(workDir, "adoSync.json");
+    await writeFile(configPath, JSON.stringify({ redaction: { emails: false, patterns: ["ACCT-\\d+"], jsonPaths: ["$.test.ssn"] } }));
+    const loaded = await loadAttachmentPolicy(configPath);
+    expect(loaded.redaction).toMatchObject({ enabled: true, emails: false, tokens: true, jsonPaths: ["$.test.ssn"] });
+    expect(loaded.redaction.patterns.map(String)).toEqual(["/ACCT-\\d+/g"]);
+    expect(loaded.maxFileBytes).toBe(25 * 1024 * 1024);
+
+    await writeFile(configPath, JSON.stringify({ redaction: { jsonPaths: ["test.ssn"] } }));
+    await expect(loadAttachmentPolicy(configPath)).rejects.toThrow('Invalid redaction JSONPath "test.ssn": it must start with $');
+  });
+
+  test("prunes screencast frames from an oversized trace", async () => {
+    const frame = "x".repeat(600);
+    const tracePath = join(workDir, "trace.zip");
+    await writeFile(tracePath, buildZip({ "trace.trace": "{}", "resources/page@1.jpeg": frame, "resources/page@2.png": frame, "resources/app.css": "body{}" }));
+
+    const prepared = await prepareAttachment(
+      { filePath: tracePath, fileName: "trace.zip", contentType: "application/zip" },
+      policy({ maxFileBytes: 1000 })
+    );
+
+    expect(prepared).toMatchObject({ fileName: "trace.zip", shrunk: "pruned", sanitized: false });
+    expect(listZip(prepared!.content)).toEqual(["trace.trace", "resources/app.css"]);
+    expect(pruneTraceZip(Buffer.from("not a zip"))).toBeNull();
+  });
+
+  test("gzips oversized text files and skips files that stay too large", async () => {
+    const contextPath = join(workDir, "error-context.md");
+    await writeFile(contextPath, `# Page snapshot\n${"- button \"Save\"\n".repeat(200)}contact: jane@example.com\n`);
+    const warnings: string[] = [];
+
+    const prepared = await prepareAttachment(
+      { filePath: contextPath, fileName: "error-context.md", contentType: "text/markdown" },
+      policy({ maxFileBytes: 1000 })
+    );
+    expect(prepared).toMatchObject({ fileName: "error-context.md.gz", contentType: "application/gzip", shrunk: "gzip", sanitized: true });
+    expect(gunzipSync(prepared!.content).toString()).toContain("contact: [REDACTED]");
+
+    const skipped = await prepareAttachment(
+      { filePath: contextPath, fileName: "error-context.md", contentType: "text/markdown" },
+      policy({ maxFileBytes: 10 }),
+      (message: string) => warnings.push(message)
+    );
+    expect(skipped).toBeNull();
+    expect(warnings[0]).toMatch(/^Skipping error-context\.md: \d+ B is over the 10 B limit after compression \(was 4 KB\)$/);
+  });
+
+  test("keeps dataStore secrets out of uploads even with redaction turned off", async () => {
+    const secrets = ["Sup3r\"Secret"];
+    const noRedaction = { ...DEFAULT_REDACTION_RULES, enabled: false };
+    const warnings: string[] = [];
+
+    const json = await prepareAttachment(
+      { body: Buffer.from(JSON.stringify({ password: secrets[0], user: "jane" })), fileName: "login.json", contentType: "application/json" },
+      policy({ redaction: noRedaction, secrets })
+    );
+    expect(JSON.parse(json!.content.toString())).toEqual({ password: "[REDACTED]", user: "jane" });
+    expect(json!.sanitized).toBe(true);
+
+    const tracePath = join(workDir, "trace.zip");
+    await writeFile(tracePath, buildZip({ "trace.trace": `{"type":"fill","value":${JSON.stringify(secrets[0])}}` }, true));
+    const trace = await prepareAttachment(
+      { filePath: tracePath, fileName: "trace.zip", contentType: "application/zip" },
+      policy({ secrets }),
+      (message: string) => warnings.push(message)
+    );
+    expect(trace).toBeNull();
+    expect(warnings).toEqual(["Skipping trace.zip: it contains a secret from the dataStore"]);
+
+    expect(containsSecret(buildZip({ "trace.trace": '{"type":"click"}' }, true), secrets)).toBe(false);
+    expect(containsSecret(Buffer.from(`PNG...Sup3r"Secret...`), secrets)).toBe(true);
+  });
+
+  test("keeps each result and the run within their budgets", () => {
+    const budget = createAttachmentBudget(policy({ resultBudgetBytes: 100, runBudgetBytes: 150 }));
+
+    expect(budget.reserve(1, 60)).toBeUndefined();
+    expect(budget.reserve(1, 60)).toBe("result 1 would exceed its 100 B budget");
+    expect(budget.reserve(2, 100)).toBe("the run would exceed its 150 B budget");
+    expect(budget.reserve(2, 40)).toBeUndefined();
+  });
+});
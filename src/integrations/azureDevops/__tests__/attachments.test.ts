@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { uploadTestArtifacts } from "../attachments";
+import type { AdoClient } from "../client";
+import type { PlaywrightAttachment } from "../playwrightResults";
+
+const originalEnv = { ...process.env };
+
+describe("uploadTestArtifacts", () => {
+  let workDir: string;
+  let resultDir: string;
+  let uploads: Array<{ fileName: string; stream: string; comment: string }>;
+  let client: AdoClient;
+
+  const uploadedNames = () => uploads.map((upload) => upload.fileName);
+  const upload = (attachments: PlaywrightAttachment[], dir: string | null = resultDir) =>
+    uploadTestArtifacts(client, 900, 1, dir, join(workDir, "test-results"), true, undefined, attachments);
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), "pilot-ado-uploads-"));
+    jest.spyOn(process, "cwd").mockReturnValue(workDir);
+    resultDir = join(workDir, "test-results", "billing-export-chromium");
+    await mkdir(resultDir, { recursive: true });
+    await writeFile(join(resultDir, "trace.zip"), "PK");
+    await writeFile(join(resultDir, "test-failed-1.png"), "png");
+    await writeFile(join(resultDir, "video.webm"), "webm");
+
+    for (const name of ["ADO_ATTACH_TRACE", "ADO_ATTACH_SCREENSHOTS", "ADO_ATTACH_VIDEOS", "ADO_ATTACH_CUSTOM", "ADO_ATTACH_INCLUDE", "ADO_ATTACH_EXCLUDE"]) {
+      delete process.env[name];
+    }
+    process.env.ADO_ATTACH_LAST_RUN = "false";
+
+    uploads = [];
+    client = {
+      baseUrl: "https://dev.azure.com/example",
+      request: async (_apiPath: string, options?: { body?: unknown }) => {
+        uploads.push(options?.body as { fileName: string; stream: string; comment: string });
+        return new Response("{}", { status: 200 });
+      },
+      getAllPages: async () => [],
+    } as AdoClient;
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  const REPORTED: PlaywrightAttachment[] = [
+    { name: "trace", contentType: "application/zip", path: "test-results/billing-export-chromium/trace.zip" },
+    { name: "screenshot", contentType: "image/png", path: "test-results/billing-export-chromium/test-failed-1.png" },
+    { name: "video", contentType: "video/webm", path: "test-results/billing-export-chromium/video.webm" },
+    { name: "invoice total", contentType: "image/png", body: Buffer.from("inline").toString("base64") },
+    { name: "invoice total", contentType: "image/png", body: Buffer.from("again").toString("base64") },
+    { name: "api response", contentType: "application/json", body: Buffer.from('{"email":"jane@example.com"}').toString("base64") },
+    { name: "missing", contentType: "image/png", path: "test-results/gone.png" },
+  ];
+
+  test("uploads screenshots, videos and embedded attachments from the report once each", async () => {
+    await upload(REPORTED);
+
+    expect(uploadedNames()).toEqual([
+      "trace.zip",
+      "test-failed-1.png",
+      "video.webm",
+      "invoice-total.png",
+      "invoice-total-2.png",
+      "api-response.json",
+    ]);
+    expect(Buffer.from(uploads[3].stream, "base64").toString()).toBe("inline");
+    expect(JSON.parse(Buffer.from(uploads[5].stream, "base64").toString())).toEqual({ email: "[REDACTED]" });
+    expect(uploads[5].comment).toBe("Playwright test artifact (redacted)");
+  });
+
+  test("applies per-type toggles and include/exclude filters", async () => {
+    process.env.ADO_ATTACH_VIDEOS = "false";
+    process.env.ADO_ATTACH_CUSTOM = "false";
+    await upload(REPORTED);
+    expect(uploadedNames()).toEqual(["trace.zip", "test-failed-1.png", "invoice-total.png", "invoice-total-2.png"]);
+
+    uploads = [];
+    delete process.env.ADO_ATTACH_VIDEOS;
+    delete process.env.ADO_ATTACH_CUSTOM;
+    process.env.ADO_ATTACH_INCLUDE = "image/*, video/webm";
+    process.env.ADO_ATTACH_EXCLUDE = "invoice total";
+    await upload(REPORTED);
+    expect(uploadedNames()).toEqual(["test-failed-1.png", "video.webm"]);
+  });
+
+  test("uploads reported attachments when no result directory was found", async () => {
+    await upload(REPORTED.slice(1, 3), null);
+
+    expect(uploadedNames()).toEqual(["test-failed-1.png", "video.webm"]);
+  });
+});
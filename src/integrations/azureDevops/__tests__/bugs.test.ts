@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createAdoClient } from "../client";
+import { buildReproSteps, errorSignature, fileBugForFailure, normalizeErrorMessage, type FailedTestBug } from "../bugs";
+import { ADO_CONFIG, stubFetch, teardownSync, type FetchStub } from "./testUtils";
+
+const FAILURE: FailedTestBug = {
+  caseId: "9002",
+  title: "Void an invoice",
+  file: "tests/billing/BILL-101-invoices.spec.ts",
+  errorMessage: "Timeout 5000ms exceeded waiting for <button id=\"void-3f9a2b7c41\">",
+  steps: [
+    { title: "Open the invoice list" },
+    { title: "Void", error: "Timeout 5000ms exceeded" },
+    { title: "Confirm" },
+  ],
+};
+
+describe("ADO bug filing", () => {
+  let workDir: string;
+  let ado: FetchStub;
+  let openBugs: Array<{ id: number }>;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), "pilot-ado-bugs-"));
+    openBugs = [];
+    ado = stubFetch(({ url }) => {
+      if (url.includes("/_apis/wit/wiql")) {
+        return { workItems: openBugs };
+      } else if (url.includes("/_apis/wit/attachments")) {
+        return { id: "a1", url: "https://dev.azure.com/example/_apis/wit/attachments/a1" };
+      } else if (url.includes("/_apis/wit/workitems/$Bug")) {
+        return { id: 5001 };
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await teardownSync(workDir);
+  });
+
+  test("gives repeats of the same failure the same signature", () => {
+    expect(normalizeErrorMessage("Timeout 5000ms exceeded\n    at spec.ts:10:5")).toBe("timeout <n>ms exceeded");
+    expect(errorSignature("9002", "Expected 3 rows at 2026-01-01T10:00:00Z (id 3f9a2b7c41)")).toBe(
+      errorSignature("9002", "Expected 4 rows at 2026-02-03T11:12:13Z (id 88aa01ffee)")
+    );
+    expect(errorSignature("9002", "Expected voided")).not.toBe(errorSignature("9002", "Expected refunded"));
+    expect(errorSignature("9002", "Expected voided")).not.toBe(errorSignature("9003", "Expected voided"));
+  });
+
+  test("builds repro steps from the step chain up to the failed step", () => {
+    expect(buildReproSteps(FAILURE, 900)).toBe(
+      "<div><b>Automated test:</b> [9002] Void an invoice (tests/billing/BILL-101-invoices.spec.ts)</div>" +
+        "<ol><li>Open the invoice list</li><li><b>Void (failed)</b></li></ol>" +
+        "<div><b>Error:</b></div><pre>Timeout 5000ms exceeded waiting for &lt;button id=&quot;void-3f9a2b7c41&quot;&gt;</pre>" +
+        "<div>Filed by the Azure DevOps sync from test run 900.</div>"
+    );
+  });
+
+  test("creates a bug with the trace and a link to the test case", async () => {
+    const tracePath = join(workDir, "trace.zip");
+    await writeFile(tracePath, "zip");
+
+    const bug = await fileBugForFailure(createAdoClient(ADO_CONFIG), { ...FAILURE, tracePath }, { runId: 900, areaPath: "Pilot\\Billing" });
+
+    expect(bug).toEqual({ bugId: 5001, created: true, signature: errorSignature("9002", FAILURE.errorMessage) });
+    expect(ado.requests.map((request) => `${request.method} ${request.url.replace(ADO_CONFIG.orgUrl, "")}`)).toEqual([
+      "POST /Pilot/_apis/wit/wiql?api-version=7.0",
+      "POST /Pilot/_apis/wit/attachments?fileName=trace.zip&api-version=7.0",
+      "POST /Pilot/_apis/wit/workitems/$Bug?api-version=7.0",
+    ]);
+    expect(ado.requests[0].body.query).toContain(`[System.Tags] CONTAINS 'pilot-error-${bug.signature}'`);
+    const create = ado.requests[2];
+    expect(create.contentType).toBe("application/json-patch+json");
+    expect(create.body).toEqual(
+      expect.arrayContaining([
+        { op: "add", path: "/fields/System.Title", value: `[9002] Void an invoice: ${FAILURE.errorMessage}` },
+        { op: "add", path: "/fields/System.Tags", value: `pilot-auto-filed; pilot-error-${bug.signature}` },
+        { op: "add", path: "/fields/System.AreaPath", value: "Pilot\\Billing" },
+        {
+          op: "add",
+          path: "/relations/-",
+          value: { rel: "Microsoft.VSTS.Common.TestedBy-Forward", url: "https://dev.azure.com/example/_apis/wit/workItems/9002" },
+        },
+        {
+          op: "add",
+          path: "/relations/-",
+          value: { rel: "AttachedFile", url: "https://dev.azure.com/example/_apis/wit/attachments/a1", attributes: { comment: "Playwright trace" } },
+        },
+      ])
+    );
+  });
+
+  test("comments on the open bug for a repeated failure instead of filing another", async () => {
+    openBugs = [{ id: 4100 }];
+
+    const bug = await fileBugForFailure(createAdoClient(ADO_CONFIG), FAILURE, { runId: 901 });
+
+    expect(bug).toMatchObject({ bugId: 4100, created: false });
+    expect(ado.requests).toHaveLength(2);
+    expect(ado.requests[1]).toMatchObject({
+      method: "POST",
+      url: `${ADO_CONFIG.orgUrl}/Pilot/_apis/wit/workItems/4100/comments?api-version=7.0-preview.3`,
+      body: { text: 'Failed again in test run 901: Timeout 5000ms exceeded waiting for &lt;button id=&quot;void-3f9a2b7c41&quot;&gt;' },
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach, afterAll } from "@jest/globals";
+import http from "http";
+import type { AddressInfo } from "net";
+import { createAdoClient, parseRetryAfter } from "../client";
+
+type Reply = { status: number; body?: unknown; headers?: Record<string, string> };
+
+const CONFIG = { orgUrl: "https://dev.azure.com/example", project: "Pilot", token: "stub-token" };
+const originalEnv = { ...process.env };
+
+describe("Azure DevOps client", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let replies: Reply[];
+  let requests: Array<{ method: string; url: string; authorization?: string; body: string }>;
+  let sleeps: number[];
+  const sleep = async (ms: number) => {
+    sleeps.push(ms);
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push({ method: req.method ?? "", url: req.url ?? "", authorization: req.headers.authorization, body });
+        const reply = replies.shift() ?? { status: 200, body: {} };
+        res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+        res.end(JSON.stringify(reply.body ?? {}));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/org`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = [];
+    sleeps = [];
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("sends authenticated requests to the configured base URL", async () => {
+    const client = createAdoClient(CONFIG, { baseUrl: `${baseUrl}/`, sleep });
+    replies.push({ status: 200, body: { id: 7 } });
+
+    const response = await client.request("_apis/test/runs?api-version=7.0", { method: "POST", body: { name: "run" } });
+
+    expect(await response.json()).toEqual({ id: 7 });
+    expect(requests).toEqual([
+      {
+        method: "POST",
+        url: "/org/Pilot/_apis/test/runs?api-version=7.0",
+        authorization: `Basic ${Buffer.from(":stub-token").toString("base64")}`,
+        body: JSON.stringify({ name: "run" }),
+      },
+    ]);
+  });
+
+  test("reads the base URL and retry settings from the environment", async () => {
+    process.env.ADO_API_BASE_URL = baseUrl;
+    process.env.ADO_MAX_RETRIES = "1";
+    const client = createAdoClient(CONFIG, { sleep });
+    replies.push({ status: 503 }, { status: 503 });
+
+    const response = await client.request("_apis/test/runs/1");
+
+    expect(client.baseUrl).toBe(baseUrl);
+    expect(response.status).toBe(503);
+    expect(requests).toHaveLength(2);
+  });
+
+  test("honors Retry-After when throttled", async () => {
+    const client = createAdoClient(CONFIG, { baseUrl, sleep });
+    replies.push({ status: 429, headers: { "Retry-After": "3" } }, { status: 200, body: { value: [] } });
+
+    const response = await client.request("_apis/test/runs/1", { method: "PATCH", body: {} });
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(2);
+    expect(sleeps).toEqual([3000]);
+  });
+
+  test("retries reads on server errors with growing, jittered delays", async () => {
+    const client = createAdoClient(CONFIG, { baseUrl, sleep, retryDelayMs: 100 });
+    replies.push({ status: 500 }, { status: 502 }, { status: 200, body: { ok: true } });
+
+    const response = await client.request("_apis/test/runs/1");
+
+    expect(response.status).toBe(200);
+    expect(sleeps).toHaveLength(2);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(50);
+    expect(sleeps[0]).toBeLessThanOrEqual(100);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(100);
+    expect(sleeps[1]).toBeLessThanOrEqual(200);
+  });
+
+  test("does not retry writes on server errors", async () => {
+    const client = createAdoClient(CONFIG, { baseUrl, sleep });
+    replies.push({ status: 500, body: { message: "boom" } });
+
+    const response = await client.request("_apis/test/runs?api-version=7.0", { method: "POST", body: {} });
+
+    expect(response.status).toBe(500);
+    expect(requests).toHaveLength(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  test("reports an unreachable server after retrying", async () => {
+    const client = createAdoClient(CONFIG, { baseUrl: "http://127.0.0.1:1/org", sleep, maxRetries: 2 });
+
+    await expect(client.request("_apis/test/runs/1")).rejects.toThrow(
+      "Azure DevOps request failed: network error connecting to http://127.0.0.1:1/org/Pilot/_apis/test/runs/1"
+    );
+    expect(sleeps).toHaveLength(2);
+  });
+
+  test("follows continuation tokens across pages", async () => {
+    const client = createAdoClient(CONFIG, { baseUrl, sleep });
+    replies.push(
+      { status: 200, body: { value: [1, 2] }, headers: { "x-ms-continuationtoken": "page 2" } },
+      { status: 200, body: { value: [3] } }
+    );
+
+    const items = await client.getAllPages<number>("_apis/testplan/Plans/42/suites?api-version=7.0");
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(requests.map((request) => request.url)).toEqual([
+      "/org/Pilot/_apis/testplan/Plans/42/suites?api-version=7.0",
+      "/org/Pilot/_apis/testplan/Plans/42/suites?api-version=7.0&continuationToken=page%202",
+    ]);
+  });
+
+  test("passes a failed page to the error handler", async () => {
+    const client = createAdoClient(CONFIG, { baseUrl, sleep });
+    replies.push({ status: 404, body: { message: "Not found" } });
+
+    await expect(client.getAllPages("_apis/test/Plans/42/Suites/9/points")).rejects.toThrow(
+      'Azure DevOps request failed: 404 {"message":"Not found"}'
+    );
+  });
+
+  test("parses Retry-After seconds and dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+jest.mock("../../../utils/featureConfig", () => ({
+  FEATURE_CONFIG: { billing: { tag: "@billing", planId: 42, suites: { "501": "Invoices" } } },
+}));
+
+import { buildJUnitXml, buildTrx, exportTestResults } from "../exporters";
+import { flattenPlaywrightJson } from "../playwrightResults";
+
+const REPORT = {
+  suites: [
+    {
+      title: "BILL-101-invoices.spec.ts",
+      file: "billing/BILL-101-invoices.spec.ts",
+      suites: [
+        {
+          title: "BILL-101 - Invoices @billing",
+          specs: [
+            {
+              title: "[9001] Export invoices",
+              file: "billing/BILL-101-invoices.spec.ts",
+              tags: ["@smoke"],
+              tests: [
+                {
+                  results: [
+                    {
+                      status: "passed",
+                      duration: 1200,
+                      startTime: "2026-01-01T10:00:00.000Z",
+                      steps: [
+                        { title: "Open the invoice list", duration: 500 },
+                        { title: "Export", duration: 700 },
+                      ],
+                      attachments: [{ name: "trace", contentType: "application/zip", path: "test-results/export/trace.zip" }],
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              title: "[9002] Void an invoice",
+              file: "billing/BILL-101-invoices.spec.ts",
+              tests: [
+                {
+                  results: [
+                    {
+                      status: "failed",
+                      duration: 800,
+                      startTime: "2026-01-01T10:00:02.000Z",
+                      errors: [{ message: "Expected <Void> & got \"Open\"", stack: "Error: Expected <Void>\n    at void.spec.ts:12" }],
+                      stdout: [{ text: "voiding 1 invoice\n" }],
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              title: "[9003] Refund an invoice",
+              file: "billing/BILL-101-invoices.spec.ts",
+              tests: [{ results: [{ status: "skipped", duration: 0 }] }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe("result exporters", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), "pilot-ado-exporters-"));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  test("writes JUnit suites with feature, suite, case ID, steps and attachments", () => {
+    const xml = buildJUnitXml(flattenPlaywrightJson(REPORT));
+
+    expect(xml).toContain('<testsuites name="Playwright" tests="3" failures="1" skipped="1" errors="0" time="2.000">');
+    expect(xml).toContain(
+      '<testsuite name="BILL-101 - Invoices" tests="3" failures="1" skipped="1" errors="0" time="2.000" timestamp="2026-01-01T10:00:00.000Z" file="tests/billing/BILL-101-invoices.spec.ts">'
+    );
+    expect(xml).toContain('<testcase name="Export invoices" classname="BILL-101 - Invoices" time="1.200" file="tests/billing/BILL-101-invoices.spec.ts">');
+    expect(xml).toContain('<property name="feature" value="billing"/>');
+    expect(xml).toContain('<property name="caseId" value="9001"/>');
+    expect(xml).toContain('<property name="tag" value="smoke"/>');
+    expect(xml).toContain("<system-out>- Open the invoice list (500ms)\n- Export (700ms)\n[[ATTACHMENT|test-results/export/trace.zip]]</system-out>");
+    expect(xml).toContain('<failure message="Expected &lt;Void&gt; &amp; got &quot;Open&quot;" type="Error">Error: Expected &lt;Void&gt;\n    at void.spec.ts:12</failure>');
+    expect(xml).toContain("<system-out>voiding 1 invoice</system-out>");
+    expect(xml).toContain("<skipped/>");
+  });
+
+  test("writes TRX results with stable test IDs and pilot metadata", () => {
+    const tests = flattenPlaywrightJson(REPORT);
+    const first = buildTrx(tests, { runId: "00000000-0000-0000-0000-000000000001", runName: "Nightly" });
+    const second = buildTrx(tests, { runId: "00000000-0000-0000-0000-000000000002" });
+    const testIds = (xml: string) => Array.from(xml.matchAll(/<UnitTest name="[^"]*" storage="[^"]*" id="([^"]+)"/g), (m) => m[1]);
+
+    expect(first).toContain('<TestRun id="00000000-0000-0000-0000-000000000001" name="Nightly"');
+    expect(first).toContain('<Times creation="2026-01-01T10:00:00.000Z" queuing="2026-01-01T10:00:00.000Z" start="2026-01-01T10:00:00.000Z" finish="2026-01-01T10:00:02.800Z"/>');
+    expect(first).toMatch(/testName="Export invoices" computerName="[^"]*" duration="00:00:01.2000000" startTime="2026-01-01T10:00:00.000Z" endTime="2026-01-01T10:00:01.200Z" testType="13cdc9d9-ddb5-4fa4-a97d-d965ccfc6d4b" outcome="Passed"/);
+    expect(first).toContain('outcome="Failed"');
+    expect(first).toContain('outcome="NotExecuted"');
+    expect(first).toContain("<Message>Expected &lt;Void&gt; &amp; got &quot;Open&quot;</Message>");
+    expect(first).toContain('<ResultFile path="test-results/export/trace.zip"/>');
+    expect(first).toContain("<Key>caseId</Key>\n          <Value>9001</Value>");
+    expect(first).toContain('<TestCategoryItem TestCategory="billing"/>\n        <TestCategoryItem TestCategory="smoke"/>');
+    expect(first).toContain(
+      '<TestMethod codeBase="tests/billing/BILL-101-invoices.spec.ts" adapterTypeName="executor://playwright" className="BILL-101 - Invoices" name="Export invoices"/>'
+    );
+    expect(first).toContain('<ResultSummary outcome="Failed">');
+    expect(first).toContain('<Counters total="3" executed="2" passed="1" failed="1"');
+    expect(testIds(first)).toHaveLength(3);
+    expect(testIds(second)).toEqual(testIds(first));
+  });
+
+  test("reports timed-out and interrupted tests as failures", () => {
+    const report = JSON.parse(JSON.stringify(REPORT));
+    const [exported, voided] = report.suites[0].suites[0].specs;
+    exported.tests[0].results[0] = { status: "timedOut", duration: 30000, errors: [{ message: "Test timeout of 30000ms exceeded." }] };
+    voided.tests[0].results[0] = { status: "interrupted", duration: 400 };
+    const tests = flattenPlaywrightJson(report);
+
+    const junit = buildJUnitXml(tests);
+    expect(junit).toContain('<testsuites name="Playwright" tests="3" failures="2" skipped="1"');
+    expect(junit).toContain('<failure message="Test timeout of 30000ms exceeded." type="Error">');
+    expect(junit).toContain('<failure message="Test failed" type="Error">');
+
+    const trx = buildTrx(tests);
+    expect(trx).toContain('outcome="Timeout"');
+    expect(trx).toContain('outcome="Aborted"');
+    expect(trx).toContain("<Message>Test timeout of 30000ms exceeded.</Message>");
+    expect(trx).toContain("<Message>Test failed</Message>");
+    expect(trx).toContain('<ResultSummary outcome="Failed">');
+    expect(trx).toContain('passed="0" failed="0" error="0" timeout="1" aborted="1"');
+  });
+
+  test("writes only the formats that have an output path", async () => {
+    const written = await exportTestResults(flattenPlaywrightJson(REPORT), { trxOutput: join(workDir, "out/results.trx") });
+
+    expect(written).toEqual([join(workDir, "out/results.trx")]);
+    expect(await readFile(join(workDir, "out/results.trx"), "utf-8")).toContain("<TestRun ");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadSyncLedger } from "../ledger";
+
+describe("ADO sync ledger", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), "pilot-ado-ledger-"));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  test("writes the ledger without leaving temp files behind", async () => {
+    const ledger = await loadSyncLedger(join(workDir, "ledger.json"), "hash-1");
+
+    await Promise.all([ledger.recordRun("42:501", 900), ledger.recordRun("42:502", 901)]);
+
+    const written = JSON.parse(await readFile(join(workDir, "ledger.json"), "utf-8"));
+    expect(Object.keys(written.runs)).toEqual(["42:501", "42:502"]);
+    expect(await readdir(workDir)).toEqual(["ledger.json"]);
+  });
+
+  test("keeps writing after a failed write", async () => {
+    // A file where the ledger's directory should be makes the first write fail
+    const blocker = join(workDir, "results");
+    await writeFile(blocker, "");
+    const ledger = await loadSyncLedger(join(blocker, "ledger.json"), "hash-1");
+
+    await expect(ledger.recordRun("42:501", 900)).rejects.toThrow();
+    await rm(blocker);
+    await ledger.recordRun("42:502", 901);
+
+    const written = JSON.parse(await readFile(join(blocker, "ledger.json"), "utf-8"));
+    expect(written.runs).toMatchObject({ "42:501": { runId: 900 }, "42:502": { runId: 901 } });
+  });
+});
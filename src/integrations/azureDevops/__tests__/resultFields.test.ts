@@ -0,0 +1,53 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DEFAULT_RESULT_FIELD_MAPPING, loadResultFieldMapping, parseBugId, resolveResultFields } from "../resultFields";
+
+describe("ADO result field mapping", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), "pilot-ado-fields-"));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  test("reads bug IDs from IDs, #IDs and work item URLs", () => {
+    expect(parseBugId("4411")).toBe(4411);
+    expect(parseBugId(" #4411 ")).toBe(4411);
+    expect(parseBugId("https://dev.azure.com/example/Pilot/_workitems/edit/4411/")).toBe(4411);
+    expect(parseBugId("BILL-9")).toBeUndefined();
+  });
+
+  test("lets annotations override tag values and warns about unusable values", () => {
+    const warnings: string[] = [];
+    const fields = resolveResultFields(
+      ["p2"],
+      [
+        { type: "priority", description: "1" },
+        { type: "known-bug", description: "see tracker" },
+        { type: "owner" },
+      ],
+      { ...DEFAULT_RESULT_FIELD_MAPPING, tags: { p2: { priority: "2", owner: "QA" } } },
+      (message: string) => warnings.push(message)
+    );
+
+    expect(fields).toEqual({ owner: "QA", priority: 1, comments: [], bugIds: [], customFields: [] });
+    expect(warnings).toEqual(['Ignoring annotation "known-bug": "see tracker" is not a work item ID or URL']);
+  });
+
+  test("reports a missing config file and rejects unknown targets", async () => {
+    expect(await loadResultFieldMapping(join(workDir, "missing.json")).catch((err: Error) => err.message)).toBe(
+      `ADO sync config not found: ${join(workDir, "missing.json")}`
+    );
+
+    const configPath = join(workDir, "adoSync.json");
+    await writeFile(configPath, JSON.stringify({ annotations: { owner: "assignee" } }));
+    await expect(loadResultFieldMapping(configPath)).rejects.toThrow(
+      `Unknown ADO result field "assignee" for annotation "owner" in ${configPath}`
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { syncAzureDevOpsFromPlaywright } from "../index";
+import { setAdoEnv, setupSyncWorkDir, stubFetch, teardownSync, type FetchStub } from "./testUtils";
+
+const REPORT = {
+  suites: [
+    {
+      title: "home.spec.ts",
+      file: "smoke/home.spec.ts",
+      specs: [
+        {
+          title: "shows the hero",
+          file: "smoke/home.spec.ts",
+          tests: [{ results: [{ status: "passed", duration: 400, startTime: "2026-01-01T10:00:00.000Z" }] }],
+        },
+      ],
+      suites: [
+        {
+          title: "Navigation",
+          specs: [
+            {
+              title: "opens the menu",
+              file: "smoke/home.spec.ts",
+              tests: [{ results: [{ status: "failed", duration: 250, errors: [{ message: "Menu hidden" }] }] }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe("syncAzureDevOpsFromPlaywright automated runs", () => {
+  let workDir: string;
+  let ado: FetchStub;
+
+  beforeEach(async () => {
+    workDir = await setupSyncWorkDir(REPORT, "pilot-ado-automated-");
+    setAdoEnv({ ADO_ATTACH_ARTIFACTS: "false", BUILD_NUMBER: "20260101.4", ADO_RUN_NAME: undefined });
+
+    ado = stubFetch(({ method, url, body }) => {
+      if (method === "POST" && url.includes("/_apis/test/runs?")) {
+        return { id: 950 };
+      } else if (method === "POST" && url.includes("/_apis/test/Runs/950/results")) {
+        return { value: body.map((_: unknown, index: number) => ({ id: 100 + index })) };
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await teardownSync(workDir);
+  });
+
+  test("publishes tests without case IDs as one run with no test plan", async () => {
+    await syncAzureDevOpsFromPlaywright(true, { automated: true });
+
+    expect(ado.requests.map((request) => `${request.method} ${request.url.replace("https://dev.azure.com/example/Pilot/", "")}`)).toEqual([
+      "POST _apis/test/runs?api-version=7.0",
+      "POST _apis/test/Runs/950/results?api-version=7.0",
+      "PATCH _apis/test/runs/950?api-version=7.0",
+    ]);
+    expect(ado.requests[0].body).toEqual({ name: "Playwright - 20260101.4", automated: true, state: "InProgress" });
+
+    const [hero, menu] = ado.requests[1].body;
+    expect(hero).toMatchObject({
+      testCaseTitle: "shows the hero",
+      automatedTestName: "smoke.home.spec.shows the hero",
+      automatedTestStorage: "tests/smoke/home.spec.ts",
+      automatedTestType: "Playwright",
+      outcome: "Passed",
+      startedDate: "2026-01-01T10:00:00.000Z",
+    });
+    expect(hero.testPlan).toBeUndefined();
+    expect(hero.testPointId).toBeUndefined();
+    expect(menu).toMatchObject({
+      automatedTestName: "smoke.home.spec.Navigation > opens the menu",
+      outcome: "Failed",
+      errorMessage: "Menu hidden",
+    });
+    expect(ado.requests[2].body).toMatchObject({ state: "Completed" });
+  });
+
+  test("reads the mode from the environment and writes the dry-run payload", async () => {
+    process.env.ADO_SYNC_MODE = "automated";
+    process.env.ADO_RUN_NAME = "Nightly smoke";
+
+    await syncAzureDevOpsFromPlaywright(true, { dryRun: true });
+
+    expect(ado.requests).toEqual([]);
+    const output = JSON.parse(await readFile(join(workDir, "test-results/ado-sync-dry-run.json"), "utf-8"));
+    expect(output.runs).toHaveLength(1);
+    expect(output.runs[0]).toMatchObject({ automated: true, run: { name: "Nightly smoke" }, attachmentCaseIds: [] });
+    expect(output.runs[0].results).toHaveLength(2);
+  });
+});
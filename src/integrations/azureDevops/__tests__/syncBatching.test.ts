@@ -0,0 +1,133 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { writeFile } from "fs/promises";
+import { join } from "path";
+
+jest.mock("../../../utils/featureConfig", () =>
+  jest.requireActual<typeof import("./testUtils")>("./testUtils").mockFeatureConfig({
+    billing: { tag: "@billing", planId: 42, suites: { "501": "Invoices", "502": "Refunds" } },
+  })
+);
+
+import { syncAzureDevOpsFromPlaywright } from "../index";
+import { jsonResponse, report, setAdoEnv, setupSyncWorkDir, spec, stubFetch, teardownSync, type FetchStub } from "./testUtils";
+
+const REPORT = report(
+  spec("9001", "Export invoices", "passed"),
+  spec("9002", "Void an invoice", "failed"),
+  spec("9003", "Print an invoice", "passed")
+);
+
+describe("syncAzureDevOpsFromPlaywright batching", () => {
+  let workDir: string;
+  let ado: FetchStub;
+  let suite502Points: { status: number; body: unknown };
+
+  beforeEach(async () => {
+    workDir = await setupSyncWorkDir(REPORT, "pilot-ado-sync-");
+    setAdoEnv({ ADO_ATTACH_ARTIFACTS: "false", ADO_MAX_RETRIES: "0" });
+
+    suite502Points = { status: 200, body: { value: [] } };
+    ado = stubFetch(({ method, url }) => {
+      if (url.includes("/_apis/test/Plans/42/Suites/501/points")) {
+        return {
+          value: [
+            { id: 71, testCase: { id: "9001", name: "Export invoices" } },
+            { id: 72, testCase: { id: "9002", name: "Void an invoice" } },
+            { id: 73, testCase: { id: "9003", name: "Print an invoice" } },
+          ],
+        };
+      } else if (url.includes("/_apis/test/Plans/42/Suites/502/points")) {
+        return jsonResponse(suite502Points.body, suite502Points.status);
+      } else if (url.includes("/_apis/wit/wiql")) {
+        return { workItems: [] };
+      } else if (url.includes("/_apis/wit/workitems/$Bug")) {
+        return { id: 5001 };
+      } else if (url.includes("/_apis/wit/workitemsbatch")) {
+        return { value: [{ id: 9001, fields: {} }, null, { id: 9003, fields: {} }] };
+      } else if (method === "POST" && url.includes("/_apis/test/runs?")) {
+        return { id: 900, testSuite: { id: 501 } };
+      } else if (method === "GET" && url.includes("/_apis/test/Runs/900/results")) {
+        return {
+          value: [
+            { id: 1, testPoint: { id: 71 } },
+            { id: 2, testPoint: { id: 72 } },
+            { id: 3, testPoint: { id: 73 } },
+          ],
+        };
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await teardownSync(workDir);
+  });
+
+  test("fetches steps in one batch and posts results in chunks", async () => {
+    await syncAzureDevOpsFromPlaywright(false, { chunkSize: 2 });
+
+    const batches = ado.requests.filter((request) => request.url.includes("/_apis/wit/workitemsbatch"));
+    expect(batches).toHaveLength(1);
+    expect(batches[0].body).toEqual({ ids: [9001, 9002, 9003], fields: ["Microsoft.VSTS.TCM.Steps"], errorPolicy: "Omit" });
+    expect(ado.requests.some((request) => request.url.includes("/_apis/wit/workitems/"))).toBe(false);
+
+    const patches = ado.requests.filter((request) => request.method === "PATCH" && request.url.includes("/results"));
+    expect(patches.map((request) => request.body.map((result: { id: number }) => result.id))).toEqual([[1, 2], [3]]);
+    expect(ado.requests[ado.requests.length - 1]).toMatchObject({ method: "PATCH", body: { state: "Completed" } });
+
+    const logged = (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+    expect(logged).toContain("Fetched steps for 2 of 3 test cases");
+    expect(logged.some((line) => /^\[\d\/2\] Synced 3 tests to @billing - Suite 501 \(Run ID: 900\)$/.test(line))).toBe(true);
+    expect(logged.some((line) => /^\nSync complete: 3 tests across 1 test runs in \d+\.\ds$/.test(line))).toBe(true);
+  });
+
+  test("files a bug for each failed case and links it to the result", async () => {
+    await syncAzureDevOpsFromPlaywright(true, { fileBugs: true });
+
+    const bugs = ado.requests.filter((request) => request.url.includes("/_apis/wit/workitems/$Bug"));
+    expect(bugs).toHaveLength(1);
+    expect(bugs[0].body).toContainEqual({ op: "add", path: "/fields/System.Title", value: "[9002] Void an invoice" });
+
+    const patch = ado.requests.find((request) => request.method === "PATCH" && request.url.includes("/results"))!;
+    expect(patch.body.find((result: { testCaseId: string }) => result.testCaseId === "9002").associatedBugs).toEqual([{ id: 5001 }]);
+    expect(patch.body.find((result: { testCaseId: string }) => result.testCaseId === "9001").associatedBugs).toBeUndefined();
+  });
+
+  test("files a bug for a timed-out case", async () => {
+    await writeFile(
+      join(workDir, "playwright-report.json"),
+      JSON.stringify(
+        report(
+          spec("9001", "Export invoices", "passed"),
+          spec("9002", "Void an invoice", "timedOut", { errors: [{ message: "Test timeout of 30000ms exceeded." }] }),
+          spec("9003", "Print an invoice", "passed")
+        )
+      )
+    );
+
+    await syncAzureDevOpsFromPlaywright(true, { fileBugs: true });
+
+    const bugs = ado.requests.filter((request) => request.url.includes("/_apis/wit/workitems/$Bug"));
+    expect(bugs).toHaveLength(1);
+    expect(bugs[0].body).toContainEqual({
+      op: "add",
+      path: "/fields/System.Title",
+      value: "[9002] Void an invoice: Test timeout of 30000ms exceeded.",
+    });
+    const patch = ado.requests.find((request) => request.method === "PATCH" && request.url.includes("/results"))!;
+    expect(patch.body.find((result: { testCaseId: string }) => result.testCaseId === "9002")).toMatchObject({
+      outcome: "Timeout",
+      associatedBugs: [{ id: 5001 }],
+    });
+  });
+
+  test("reports a failed plan after the other plans finish", async () => {
+    suite502Points = { status: 500, body: { message: "boom" } };
+
+    await expect(syncAzureDevOpsFromPlaywright(true, { concurrency: 1 })).rejects.toThrow(
+      'Failed to sync 1 of 2 run plan(s):\n@billing - Suite 502: Failed to get test points: 500 {"message":"boom"}'
+    );
+    expect(ado.requests).toContainEqual(
+      expect.objectContaining({ method: "PATCH", url: expect.stringContaining("/_apis/test/runs/900?") })
+    );
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+jest.mock("../../../utils/featureConfig", () =>
+  jest.requireActual<typeof import("./testUtils")>("./testUtils").mockFeatureConfig({
+    billing: { tag: "@billing", planId: 42, suites: { "501": "Invoices" } },
+  })
+);
+
+import { syncAzureDevOpsFromPlaywright } from "../index";
+import { report, setAdoEnv, setupSyncWorkDir, spec, stubFetch, teardownSync, type FetchStub } from "./testUtils";
+
+// workitemsbatch is a POST that only reads work items
+const isRead = (request: { method: string; url: string }) =>
+  request.method === "GET" || request.url.includes("/_apis/wit/workitemsbatch");
+
+const REPORT = report(
+  spec("9001", "Export invoices", "passed", {
+    duration: 1200,
+    startTime: "2026-01-01T10:00:00.000Z",
+    steps: [
+      { title: "Open the invoice list", duration: 500 },
+      { title: "Export", duration: 700 },
+    ],
+  }),
+  spec("9002", "Void an invoice", "failed", {
+    duration: 300,
+    errors: [{ message: "Expected voided", stack: "Error: Expected voided\n    at spec.ts:10" }],
+  })
+);
+
+const STEPS_XML =
+  '<steps><step id="2" type="ActionStep"><parameterizedString>Open</parameterizedString></step>' +
+  '<step id="5" type="ActionStep"><parameterizedString>Export</parameterizedString></step></steps>';
+
+describe("syncAzureDevOpsFromPlaywright dry run", () => {
+  let workDir: string;
+  let ado: FetchStub;
+
+  beforeEach(async () => {
+    workDir = await setupSyncWorkDir(REPORT);
+    setAdoEnv();
+
+    ado = stubFetch(({ url }) => {
+      if (url.includes("/_apis/test/Plans/42/Suites/501/points")) {
+        return {
+          value: [
+            { id: 71, testCase: { id: "9001", name: "Export invoices", revision: 3 } },
+            { id: 72, testCase: { id: "9002", name: "Void an invoice", revision: 1 } },
+          ],
+        };
+      } else if (url.includes("/_apis/wit/workitemsbatch")) {
+        return {
+          value: [
+            { id: 9001, fields: { "Microsoft.VSTS.TCM.Steps": STEPS_XML } },
+            { id: 9002, fields: {} },
+          ],
+        };
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await teardownSync(workDir);
+  });
+
+  test("writes run and result payloads without creating runs", async () => {
+    await syncAzureDevOpsFromPlaywright(false, { dryRun: true });
+
+    expect(ado.requests.filter((request) => !isRead(request))).toEqual([]);
+
+    const output = JSON.parse(await readFile(join(workDir, "test-results/ado-sync-dry-run.json"), "utf-8"));
+    expect(output.runs).toHaveLength(1);
+    const [entry] = output.runs;
+    expect(entry).toMatchObject({
+      featureKey: "billing",
+      planId: 42,
+      suiteId: 501,
+      run: { name: "@billing - BILL-101 - Invoices", plan: { id: 42 }, pointIds: [71, 72], automated: true },
+      attachmentCaseIds: ["9002"],
+    });
+    expect(entry.results[0]).toMatchObject({
+      testPointId: 71,
+      testCaseId: "9001",
+      testCaseRevision: 3,
+      outcome: "Passed",
+      automatedTestName: "Export invoices",
+      automatedTestStorage: "tests/billing/BILL-101-invoices.spec.ts",
+      testPlan: { id: 42 },
+      testSuite: { id: 501 },
+      iterationDetails: [
+        {
+          id: 1,
+          outcome: "Passed",
+          actionResults: [
+            { actionPath: "00000002", iterationId: 1, outcome: "Passed", durationInMs: 500, comment: "Open the invoice list" },
+            { actionPath: "00000005", iterationId: 1, outcome: "Passed", durationInMs: 700, comment: "Export" },
+          ],
+        },
+      ],
+    });
+    expect(entry.results[0].id).toBeUndefined();
+    expect(entry.results[1]).toMatchObject({ testCaseId: "9002", outcome: "Failed", errorMessage: "Expected voided" });
+  });
+
+  test("reads dry-run mode and output path from the environment", async () => {
+    process.env.ADO_SYNC_DRY_RUN = "true";
+    process.env.ADO_SYNC_DRY_RUN_OUTPUT = "out/payload.json";
+
+    await syncAzureDevOpsFromPlaywright(true);
+
+    const output = JSON.parse(await readFile(join(workDir, "out/payload.json"), "utf-8"));
+    expect(output.runs[0].results).toHaveLength(2);
+    expect(ado.requests.filter((request) => !isRead(request))).toEqual([]);
+  });
+
+  test("prints the payloads when the output is -", async () => {
+    await syncAzureDevOpsFromPlaywright(true, { dryRun: true, dryRunOutput: "-" });
+
+    const printed = (console.log as jest.Mock).mock.calls.map((call) => call[0]).join("\n");
+    expect(JSON.parse(printed).runs[0].suiteId).toBe(501);
+  });
+
+  test("reports each retry as an iteration and marks tests that passed on retry as flaky", async () => {
+    const report = JSON.parse(JSON.stringify(REPORT));
+    const [passed] = report.suites[0].suites[0].specs[0].tests[0].results;
+    report.suites[0].suites[0].specs[0].tests[0].results = [
+      { status: "failed", retry: 0, duration: 900, errors: [{ message: "Timed out" }], steps: [{ title: "Open the invoice list", duration: 900 }] },
+      { ...passed, retry: 1 },
+    ];
+    report.suites[0].suites[0].specs[1].tests[0].results.unshift({ status: "failed", retry: 0, duration: 200, steps: [] });
+    report.suites[0].suites[0].specs[1].tests[0].results[1].retry = 1;
+    await writeFile(join(workDir, "playwright-report.json"), JSON.stringify(report));
+    process.env.ADO_FLAKY_OUTCOME = "warning";
+
+    await syncAzureDevOpsFromPlaywright(true, { dryRun: true });
+
+    const output = JSON.parse(await readFile(join(workDir, "test-results/ado-sync-dry-run.json"), "utf-8"));
+    const [flaky, failed] = output.runs[0].results;
+    expect(flaky.outcome).toBe("Warning");
+    expect(flaky.comment).toBe("Flaky: passed on attempt 2 of 2 after failing attempt 1");
+    expect(flaky.iterationDetails).toEqual([
+      {
+        id: 1,
+        outcome: "Failed",
+        durationInMs: 900,
+        errorMessage: "Timed out",
+        comment: "Attempt 1 of 2",
+        actionResults: [{ actionPath: "00000002", iterationId: 1, outcome: "Failed", durationInMs: 900, comment: "Open the invoice list" }],
+      },
+      expect.objectContaining({
+        id: 2,
+        outcome: "Passed",
+        startedDate: "2026-01-01T10:00:00.000Z",
+        comment: "Attempt 2 of 2 (retry 1)",
+        actionResults: [
+          expect.objectContaining({ actionPath: "00000002", iterationId: 2, outcome: "Passed" }),
+          expect.objectContaining({ actionPath: "00000005", iterationId: 2, outcome: "Passed" }),
+        ],
+      }),
+    ]);
+    expect(failed.outcome).toBe("Failed");
+    expect(failed.comment).toBe("Retried: failed on all 2 attempts");
+    expect(failed.iterationDetails.map((iteration: { outcome: string }) => iteration.outcome)).toEqual(["Failed", "Failed"]);
+  });
+
+  test("counts timed-out attempts as failures and maps timedOut and interrupted to ADO outcomes", async () => {
+    const report = JSON.parse(JSON.stringify(REPORT));
+    const [passed] = report.suites[0].suites[0].specs[0].tests[0].results;
+    report.suites[0].suites[0].specs[0].tests[0].results = [
+      { status: "timedOut", retry: 0, duration: 30000, errors: [{ message: "Test timeout of 30000ms exceeded." }], steps: [] },
+      { ...passed, retry: 1 },
+    ];
+    report.suites[0].suites[0].specs[1].tests[0].results = [
+      { status: "timedOut", retry: 0, duration: 30000, steps: [] },
+      { status: "interrupted", retry: 1, duration: 400, steps: [] },
+    ];
+    await writeFile(join(workDir, "playwright-report.json"), JSON.stringify(report));
+
+    await syncAzureDevOpsFromPlaywright(true, { dryRun: true });
+
+    const output = JSON.parse(await readFile(join(workDir, "test-results/ado-sync-dry-run.json"), "utf-8"));
+    const [flaky, interrupted] = output.runs[0].results;
+    expect(flaky.outcome).toBe("Passed");
+    expect(flaky.comment).toBe("Flaky: passed on attempt 2 of 2 after failing attempt 1");
+    expect(flaky.iterationDetails.map((iteration: { outcome: string }) => iteration.outcome)).toEqual(["Timeout", "Passed"]);
+    expect(interrupted.outcome).toBe("Aborted");
+    expect(interrupted.iterationDetails.map((iteration: { outcome: string }) => iteration.outcome)).toEqual(["Timeout", "Aborted"]);
+  });
+
+  test("uploads the artifacts of timed-out tests when only failures are attached", async () => {
+    const report = JSON.parse(JSON.stringify(REPORT));
+    report.suites[0].suites[0].specs[1].tests[0].results[0].status = "timedOut";
+    await writeFile(join(workDir, "playwright-report.json"), JSON.stringify(report));
+
+    await syncAzureDevOpsFromPlaywright(true, { dryRun: true });
+
+    const output = JSON.parse(await readFile(join(workDir, "test-results/ado-sync-dry-run.json"), "utf-8"));
+    expect(output.runs[0].attachmentCaseIds).toEqual(["9002"]);
+  });
+
+  test("rejects an unknown flaky outcome", async () => {
+    process.env.ADO_FLAKY_OUTCOME = "Shaky";
+
+    await expect(syncAzureDevOpsFromPlaywright(true, { dryRun: true })).rejects.toThrow(
+      'ADO_FLAKY_OUTCOME must be one of Passed, Failed'
+    );
+  });
+
+  test("maps tags and annotations to result fields and links known bugs on failure", async () => {
+    const report = JSON.parse(JSON.stringify(REPORT));
+    const [passed, failed] = report.suites[0].suites[0].specs;
+    passed.tags = ["billing", "smoke"];
+    passed.tests[0].annotations = [{ type: "known-bug", description: "4411" }, { type: "owner", description: "Ana Lima" }];
+    failed.tags = ["billing"];
+    failed.tests[0].annotations = [{ type: "issue", description: "https://tracker.example/BILL-9" }];
+    failed.tests[0].results[0].annotations = [
+      { type: "known-bug", description: "https://dev.azure.com/example/Pilot/_workitems/edit/4412" },
+      { type: "team", description: "Payments" },
+    ];
+    await writeFile(join(workDir, "playwright-report.json"), JSON.stringify(report));
+    await writeFile(
+      join(workDir, "adoSync.json"),
+      JSON.stringify({
+        annotations: { "known-bug": "bug", owner: "owner", issue: "comment", team: "field:Team" },
+        tags: { "@smoke": { priority: "1", "field:Category": "Smoke" } },
+      })
+    );
+    process.env.ADO_SYNC_CONFIG = "adoSync.json";
+
+    await syncAzureDevOpsFromPlaywright(true, { dryRun: true });
+
+    const output = JSON.parse(await readFile(join(workDir, "test-results/ado-sync-dry-run.json"), "utf-8"));
+    const [passedResult, failedResult] = output.runs[0].results;
+    expect(passedResult).toMatchObject({
+      owner: { displayName: "Ana Lima" },
+      priority: 1,
+      customFields: [{ fieldName: "Category", value: "Smoke" }],
+    });
+    expect(passedResult.associatedBugs).toBeUndefined();
+    expect(failedResult).toMatchObject({
+      associatedBugs: [{ id: 4412 }],
+      customFields: [{ fieldName: "Team", value: "Payments" }],
+      comment: "issue: https://tracker.example/BILL-9",
+    });
+    expect(failedResult.owner).toBeUndefined();
+  });
+
+  test("rejects a test case missing from the suite before anything is posted", async () => {
+    const report = JSON.parse(JSON.stringify(REPORT));
+    report.suites[0].suites[0].specs[0].title = "[9999] Unknown case";
+    await writeFile(join(workDir, "playwright-report.json"), JSON.stringify(report));
+
+    await expect(syncAzureDevOpsFromPlaywright(true, { dryRun: true })).rejects.toThrow(
+      "Test case 9999 not found in test plan suite"
+    );
+    expect(ado.requests.filter((request) => !isRead(request))).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+jest.mock("../../../utils/featureConfig", () =>
+  jest.requireActual<typeof import("./testUtils")>("./testUtils").mockFeatureConfig({
+    billing: { tag: "@billing", planId: 42, suites: { "501": "Invoices" } },
+  })
+);
+
+import { syncAzureDevOpsFromPlaywright } from "../index";
+import { jsonResponse, report, setAdoEnv, setupSyncWorkDir, spec, stubFetch, teardownSync, type FetchStub } from "./testUtils";
+
+const REPORT = report(spec("9001", "Export invoices", "passed"), spec("9002", "Void an invoice", "failed"));
+
+describe("syncAzureDevOpsFromPlaywright resume", () => {
+  let workDir: string;
+  let ado: FetchStub;
+  let failing: (request: { method: string; url: string }) => boolean;
+  let nextRunId: number;
+
+  const ledgerPath = () => join(workDir, "test-results", "ado-sync-ledger.json");
+  const readLedger = async () => JSON.parse(await readFile(ledgerPath(), "utf-8"));
+  const writes = () => ado.requests.filter((request) => request.method !== "GET" && !request.url.includes("/_apis/wit/workitemsbatch"));
+
+  beforeEach(async () => {
+    workDir = await setupSyncWorkDir(REPORT, "pilot-ado-resume-");
+    setAdoEnv({ ADO_ATTACH_ARTIFACTS: "false", ADO_MAX_RETRIES: "0", ADO_SYNC_LEDGER: undefined });
+
+    failing = () => false;
+    nextRunId = 900;
+    ado = stubFetch((request) => {
+      const { method, url, body } = request;
+      if (failing(request)) {
+        return jsonResponse({ message: "connection reset" }, 500);
+      }
+      if (url.includes("/_apis/test/Plans/42/Suites/501/points")) {
+        return {
+          value: [
+            { id: 71, testCase: { id: "9001", name: "Export invoices" } },
+            { id: 72, testCase: { id: "9002", name: "Void an invoice" } },
+          ],
+        };
+      } else if (url.includes("/_apis/wit/workitemsbatch")) {
+        return { value: [] };
+      } else if (method === "POST" && url.includes("/_apis/test/runs?")) {
+        return { id: nextRunId++, testSuite: { id: 501 } };
+      } else if (method === "GET" && /\/_apis\/test\/Runs\/\d+\/results/.test(url)) {
+        return { value: [{ id: 1, testPoint: { id: 71 } }, { id: 2, testPoint: { id: 72 } }] };
+      } else if (method === "POST" && /\/_apis\/test\/Runs\/\d+\/results/.test(url)) {
+        return { value: body.map((_: unknown, index: number) => ({ id: 100 + index })) };
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await teardownSync(workDir);
+  });
+
+  test("resumes an interrupted run instead of creating another", async () => {
+    failing = ({ method, url }) => method === "PATCH" && url.includes("/_apis/test/runs/900?");
+    await expect(syncAzureDevOpsFromPlaywright(true)).rejects.toThrow(
+      `Re-run the sync to resume; progress is recorded in ${ledgerPath()}`
+    );
+    expect(await readLedger()).toMatchObject({
+      runs: { "42:501": { runId: 900, resultIds: { "9001": 1, "9002": 2 }, resultsPosted: true, completed: false } },
+    });
+
+    failing = () => false;
+    ado.requests = [];
+    await syncAzureDevOpsFromPlaywright(false);
+
+    expect(writes().map((request) => `${request.method} ${request.url.split("?")[0]}`)).toEqual([
+      "PATCH https://dev.azure.com/example/Pilot/_apis/test/runs/900",
+    ]);
+    const logged = (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+    expect(logged).toContain("Resuming test run 900 for plan 42, suite 501");
+    expect(logged.some((line) => /Synced 2 tests to @billing - Suite 501 \(Run ID: 900, resumed\)$/.test(line))).toBe(true);
+    expect((await readLedger()).runs["42:501"].completed).toBe(true);
+  });
+
+  test("does not sync a report again once every run is complete", async () => {
+    await syncAzureDevOpsFromPlaywright(true);
+    ado.requests = [];
+    await syncAzureDevOpsFromPlaywright(true);
+
+    expect(writes()).toEqual([]);
+  });
+
+  test("posts only the missing results when an automated run is resumed", async () => {
+    let posts = 0;
+    failing = ({ method, url }) => method === "POST" && url.includes("/_apis/test/Runs/900/results") && ++posts === 2;
+    await expect(syncAzureDevOpsFromPlaywright(true, { automated: true, chunkSize: 1 })).rejects.toThrow(
+      "Failed to post test results: 500"
+    );
+    expect((await readLedger()).runs.automated).toMatchObject({ runId: 900, resultIds: { "9001": 100 }, resultsPosted: false });
+
+    failing = () => false;
+    ado.requests = [];
+    await syncAzureDevOpsFromPlaywright(true, { automated: true, chunkSize: 1 });
+
+    const resultPosts = writes().filter((request) => request.url.includes("/results"));
+    expect(resultPosts).toHaveLength(1);
+    expect(resultPosts[0].body.map((result: { testCaseTitle: string }) => result.testCaseTitle)).toEqual(["Void an invoice"]);
+    expect(writes().some((request) => request.url.includes("/_apis/test/runs?"))).toBe(false);
+  });
+
+  test("keeps the unfinished runs of an earlier report and aborts them with abortIncomplete", async () => {
+    failing = ({ method, url }) => method === "PATCH" && url.includes("/_apis/test/runs/900?");
+    await expect(syncAzureDevOpsFromPlaywright(true)).rejects.toThrow();
+
+    failing = () => false;
+    await writeFile(join(workDir, "playwright-report.json"), JSON.stringify(report(spec("9001", "Export invoices", "passed"))));
+    await syncAzureDevOpsFromPlaywright(false);
+
+    expect(console.warn).toHaveBeenCalledWith(
+      "Runs 900 from an earlier sync are still in progress. Run the sync with --abort-incomplete to close them."
+    );
+    expect(await readLedger()).toMatchObject({ orphanedRunIds: [900], runs: { "42:501": { runId: 901, completed: true } } });
+
+    ado.requests = [];
+    await syncAzureDevOpsFromPlaywright(true, { abortIncomplete: true });
+
+    expect(writes()).toEqual([
+      expect.objectContaining({ method: "PATCH", url: expect.stringContaining("/_apis/test/runs/900?"), body: expect.objectContaining({ state: "Aborted" }) }),
+    ]);
+    expect(await readLedger()).toMatchObject({ orphanedRunIds: [], runs: { "42:501": { runId: 901 } } });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Shared test utilities for the ADO sync tests: a recording fetch stub, the ADO environment
+ * and builders for Playwright JSON reports.
+ */
+
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { jest } from "@jest/globals";
+
+export const ADO_CONFIG = { orgUrl: "https://dev.azure.com/example", project: "Pilot", token: "stub-token" };
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  contentType?: string;
+  body?: any;
+}
+
+export interface FetchStub {
+  /** Every request made since the stub was installed; tests may reset it. */
+  requests: RecordedRequest[];
+}
+
+const originalFetch = globalThis.fetch;
+const originalEnv = { ...process.env };
+
+/**
+ * A JSON response; `respond` returns one to answer with a status other than 200.
+ */
+export function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+/**
+ * Replaces fetch with a stub that records every request and answers with what `respond` returns:
+ * a Response as it is, anything else as a 200 JSON body ({} when undefined). JSON request bodies are
+ * parsed; binary uploads are recorded as "<binary>".
+ */
+export function stubFetch(respond: (request: RecordedRequest) => unknown = () => undefined): FetchStub {
+  const stub: FetchStub = { requests: [] };
+  globalThis.fetch = (async (url: string, init?: { method?: string; body?: any; headers?: Record<string, string> }) => {
+    const contentType = init?.headers?.["Content-Type"];
+    const body = contentType === "application/octet-stream" ? "<binary>" : init?.body ? JSON.parse(init.body) : undefined;
+    const request: RecordedRequest = { method: init?.method ?? "GET", url, contentType, body };
+    stub.requests.push(request);
+    const response = respond(request);
+    return response instanceof Response ? response : jsonResponse(response ?? {});
+  }) as unknown as typeof fetch;
+  return stub;
+}
+
+/**
+ * Points the sync at the stubbed organization. `overrides` set (or, when undefined, delete) more variables.
+ */
+export function setAdoEnv(overrides: Record<string, string | undefined> = {}): void {
+  process.env.ADO_ORG_URL = ADO_CONFIG.orgUrl;
+  process.env.ADO_PROJECT = ADO_CONFIG.project;
+  process.env.ADO_TOKEN = ADO_CONFIG.token;
+  delete process.env.FEATURES;
+  delete process.env.BUILD_ID;
+  for (const [name, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+}
+
+/**
+ * Creates a temp working directory holding `report` as playwright-report.json, makes it the cwd
+ * and silences console output.
+ */
+export async function setupSyncWorkDir(report: unknown, prefix: string = "pilot-ado-"): Promise<string> {
+  const workDir = await mkdtemp(join(tmpdir(), prefix));
+  await writeFile(join(workDir, "playwright-report.json"), JSON.stringify(report));
+  jest.spyOn(process, "cwd").mockReturnValue(workDir);
+  jest.spyOn(console, "log").mockImplementation(() => { });
+  jest.spyOn(console, "warn").mockImplementation(() => { });
+  return workDir;
+}
+
+/**
+ * Restores fetch, the environment and mocks, and removes the working directory.
+ */
+export async function teardownSync(workDir?: string): Promise<void> {
+  globalThis.fetch = originalFetch;
+  process.env = { ...originalEnv };
+  jest.restoreAllMocks();
+  if (workDir) {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * The featureConfig module for a jest.mock factory:
+ * jest.mock("../../../utils/featureConfig", () => jest.requireActual<typeof import("./testUtils")>("./testUtils").mockFeatureConfig({...})).
+ */
+export function mockFeatureConfig(config: Record<string, { tag: string; planId: number; suites: Record<string, string> }>) {
+  return {
+    FEATURE_CONFIG: config,
+    getAvailableFeatureKeys: () => Object.keys(config),
+    getSuiteIds: (suites: Record<string, string>) => Object.keys(suites).map((id) => parseInt(id, 10)),
+    hasSuiteId: (suites: Record<string, string>, suiteId: number) => suiteId.toString() in suites,
+  };
+}
+
+/**
+ * A spec with one test and one result; `result` adds to or overrides the result's fields.
+ */
+export function spec(caseId: string, title: string, status: string, result: Record<string, unknown> = {}) {
+  return {
+    title: `[${caseId}] ${title}`,
+    file: "billing/BILL-101-invoices.spec.ts",
+    tests: [{ results: [{ status, duration: 100, steps: [], ...result }] }],
+  };
+}
+
+/**
+ * A Playwright JSON report with `specs` in the "BILL-101 - Invoices @billing" suite.
+ */
+export function report(...specs: unknown[]) {
+  return {
+    suites: [
+      {
+        title: "BILL-101-invoices.spec.ts",
+        file: "billing/BILL-101-invoices.spec.ts",
+        suites: [{ title: "BILL-101 - Invoices @billing", specs }],
+      },
+    ],
+  };
+}
@@ -25,3 +25,11 @@ export function findLastRunJson(testResultsDir: string = "./test-results"): stri
   const lastRunPath = resolve(testResultsDir, ".last-run.json");
   return existsSync(lastRunPath) ? lastRunPath : null;
 }
+
+/**
+ * Finds the runState.json data store (test.* keys written during the run).
+ */
+export function findRunState(testDataDir: string = "./src/testdata"): string | null {
+  const runStatePath = resolve(testDataDir, "runState.json");
+  return existsSync(runStatePath) ? runStatePath : null;
+}
@@ -0,0 +1,472 @@
+// Prepares artifacts for upload to ADO: redacts JSON and text, keeps dataStore secrets out, shrinks oversized files,
+// and enforces size budgets.
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { gzipSync, inflateRawSync } from "zlib";
+import { readNumberEnv } from "./client";
+import { resolveSyncConfigPath } from "./resultFields";
+import { readSecretValues } from "../../utils/dataStore";
+
+/**
+ * What is redacted from JSON and text artifacts. `jsonPaths` only apply to JSON.
+ */
+export interface RedactionRules {
+  enabled: boolean;
+  emails: boolean;
+  tokens: boolean;
+  patterns: RegExp[];
+  jsonPaths: string[];
+}
+
+/**
+ * Size limits and redaction rules for uploads. Sizes are in bytes.
+ */
+export interface AttachmentPolicy {
+  /** Files over this size are compressed or pruned, and skipped if they are still over it. */
+  maxFileBytes: number;
+  /** Total uploaded per test result. */
+  resultBudgetBytes: number;
+  /** Total uploaded per test run. */
+  runBudgetBytes: number;
+  redaction: RedactionRules;
+  /** Resolved dataStore secrets. Always removed from JSON and text; other files containing one are skipped. */
+  secrets: string[];
+}
+
+/**
+ * A file to upload, or content embedded in the report (testInfo.attach() with a body).
+ */
+export interface AttachmentSource {
+  filePath?: string;
+  body?: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * An attachment ready to upload: redacted, and compressed or pruned if it was oversized.
+ */
+export interface PreparedAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  sanitized: boolean;
+  shrunk?: "gzip" | "pruned";
+}
+
+/**
+ * Tracks what has been uploaded to a run, per result and in total.
+ */
+export interface AttachmentBudget {
+  /** Reserves space for an attachment. Returns why it does not fit, or undefined when it does. */
+  reserve(resultId: number, bytes: number): string | undefined;
+}
+
+/**
+ * One policy and one budget for all the uploads to a run.
+ */
+export interface AttachmentPipeline {
+  policy: AttachmentPolicy;
+  budget: AttachmentBudget;
+}
+
+const MB = 1024 * 1024;
+const DEFAULT_MAX_FILE_MB = 25;
+const DEFAULT_RESULT_BUDGET_MB = 50;
+const DEFAULT_RUN_BUDGET_MB = 500;
+const REDACTED = "[REDACTED]";
+
+// Used when the sync config has no "redaction" section
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+  enabled: true,
+  emails: true,
+  tokens: true,
+  patterns: [],
+  jsonPaths: ["$..password", "$..token", "$..apiKey", "$..secret"],
+};
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const AUTH_HEADER_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const SECRET_ASSIGNMENT_PATTERN = /\b(api[_-]?key|access[_-]?token|client[_-]?secret|password|token|secret)(["']?\s*[:=]\s*["']?)([^"'\s,&]+)/gi;
+
+/**
+ * Reads the attachment policy from ADO_ATTACH_MAX_FILE_MB, ADO_ATTACH_RESULT_BUDGET_MB, ADO_ATTACH_RUN_BUDGET_MB
+ * and ADO_ATTACH_REDACT, and the redaction rules from the "redaction" section of the sync config.
+ */
+export async function loadAttachmentPolicy(configPath?: string): Promise<AttachmentPolicy> {
+  const filePath = resolveSyncConfigPath(configPath);
+  let redaction = { ...DEFAULT_REDACTION_RULES };
+
+  if (existsSync(filePath)) {
+    let raw: { redaction?: { emails?: boolean; tokens?: boolean; patterns?: string[]; jsonPaths?: string[] } };
+    try {
+      raw = JSON.parse(await readFile(filePath, "utf-8"));
+    } catch (err) {
+      throw new Error(`Invalid JSON in ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (raw.redaction) {
+      const patterns = (raw.redaction.patterns ?? []).map((pattern) => {
+        try {
+          return new RegExp(pattern, "g");
+        } catch (err) {
+          throw new Error(`Invalid redaction pattern "${pattern}" in ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      });
+      for (const path of raw.redaction.jsonPaths ?? []) {
+        parseJsonPath(path);
+      }
+      redaction = {
+        enabled: true,
+        emails: raw.redaction.emails ?? DEFAULT_REDACTION_RULES.emails,
+        tokens: raw.redaction.tokens ?? DEFAULT_REDACTION_RULES.tokens,
+        patterns,
+        jsonPaths: raw.redaction.jsonPaths ?? DEFAULT_REDACTION_RULES.jsonPaths,
+      };
+    }
+  }
+
+  redaction.enabled = process.env.ADO_ATTACH_REDACT !== "false";
+
+  return {
+    maxFileBytes: (readNumberEnv("ADO_ATTACH_MAX_FILE_MB") ?? DEFAULT_MAX_FILE_MB) * MB,
+    resultBudgetBytes: (readNumberEnv("ADO_ATTACH_RESULT_BUDGET_MB") ?? DEFAULT_RESULT_BUDGET_MB) * MB,
+    runBudgetBytes: (readNumberEnv("ADO_ATTACH_RUN_BUDGET_MB") ?? DEFAULT_RUN_BUDGET_MB) * MB,
+    redaction,
+    secrets: await readSecretValues(),
+  };
+}
+
+/**
+ * Starts a budget for one run.
+ */
+export function createAttachmentBudget(policy: AttachmentPolicy): AttachmentBudget {
+  const usedByResult = new Map<number, number>();
+  let usedByRun = 0;
+
+  return {
+    reserve(resultId, bytes) {
+      const usedByThisResult = usedByResult.get(resultId) ?? 0;
+      if (usedByThisResult + bytes > policy.resultBudgetBytes) {
+        return `result ${resultId} would exceed its ${formatSize(policy.resultBudgetBytes)} budget`;
+      }
+      if (usedByRun + bytes > policy.runBudgetBytes) {
+        return `the run would exceed its ${formatSize(policy.runBudgetBytes)} budget`;
+      }
+      usedByResult.set(resultId, usedByThisResult + bytes);
+      usedByRun += bytes;
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Loads the policy and starts a budget for one run's uploads.
+ */
+export async function createAttachmentPipeline(configPath?: string): Promise<AttachmentPipeline> {
+  const policy = await loadAttachmentPolicy(configPath);
+  return { policy, budget: createAttachmentBudget(policy) };
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return bytes >= 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${bytes} B`;
+}
+
+/**
+ * Redacts emails, tokens and custom patterns from text.
+ */
+export function redactText(text: string, rules: RedactionRules): string {
+  let redacted = text;
+  if (rules.tokens) {
+    redacted = redacted
+      .replace(JWT_PATTERN, REDACTED)
+      .replace(AUTH_HEADER_PATTERN, (_, scheme: string) => `${scheme} ${REDACTED}`)
+      .replace(SECRET_ASSIGNMENT_PATTERN, (_, key: string, separator: string) => `${key}${separator}${REDACTED}`);
+  }
+  if (rules.emails) {
+    redacted = redacted.replace(EMAIL_PATTERN, REDACTED);
+  }
+  for (const pattern of rules.patterns) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  return redacted;
+}
+
+interface JsonPathSegment {
+  descendant: boolean;
+  key: string; // "*" matches every key and index
+}
+
+/**
+ * Parses the JSONPath subset redaction supports: $, .key, ..key, .*, [n], [*] and ['key'].
+ */
+function parseJsonPath(path: string): JsonPathSegment[] {
+  if (!path.startsWith("$")) {
+    throw new Error(`Invalid redaction JSONPath "${path}": it must start with $`);
+  }
+  const segments: JsonPathSegment[] = [];
+  const pattern = /(\.\.?)([A-Za-z0-9_$-]+|\*)|(\.\.)?\[(?:(\d+|\*)|'([^']*)'|"([^"]*)")\]/gy;
+  pattern.lastIndex = 1;
+  while (pattern.lastIndex < path.length) {
+    const match = pattern.exec(path);
+    if (!match) {
+      throw new Error(`Invalid redaction JSONPath "${path}"`);
+    }
+    if (match[1]) {
+      segments.push({ descendant: match[1] === "..", key: match[2] });
+    } else {
+      segments.push({ descendant: !!match[3], key: match[4] ?? match[5] ?? match[6] });
+    }
+  }
+  if (segments.length === 0) {
+    throw new Error(`Invalid redaction JSONPath "${path}": it selects the whole document`);
+  }
+  return segments;
+}
+
+function redactPath(node: unknown, segments: JsonPathSegment[], index: number): unknown {
+  if (index === segments.length) {
+    return REDACTED;
+  }
+  if (node === null || typeof node !== "object") {
+    return node;
+  }
+  const segment = segments[index];
+  const container = node as Record<string, unknown>;
+  for (const key of Object.keys(container)) {
+    if (segment.key === "*" || segment.key === key) {
+      container[key] = redactPath(container[key], segments, index + 1);
+    }
+    // A descendant segment can also match deeper down, unless this value was just redacted
+    if (segment.descendant && container[key] !== REDACTED) {
+      container[key] = redactPath(container[key], segments, index);
+    }
+  }
+  return node;
+}
+
+/**
+ * Redacts the values at the rules' JSONPaths, then the text patterns from every string.
+ */
+export function redactJson(value: unknown, rules: RedactionRules): unknown {
+  let redacted = JSON.parse(JSON.stringify(value));
+  for (const path of rules.jsonPaths) {
+    redacted = redactPath(redacted, parseJsonPath(path), 0);
+  }
+  return JSON.parse(redactText(JSON.stringify(redacted), rules));
+}
+
+// Entries of a trace that are only screencast frames and screenshots
+const PRUNABLE_TRACE_ENTRY = /^resources\/.+\.(jpe?g|png|webp)$/i;
+
+/**
+ * Rewrites a trace.zip without its screencast frames and screenshots, keeping actions, network and
+ * DOM snapshots. Returns null for archives it cannot read (including ZIP64).
+ */
+export function pruneTraceZip(zip: Buffer, shouldDrop: (entryName: string) => boolean = (name) => PRUNABLE_TRACE_ENTRY.test(name)): Buffer | null {
+  // The end of central directory record is within the last 64 KB (its comment is at most 65535 bytes)
+  let eocd = -1;
+  for (let offset = zip.length - 22; offset >= Math.max(0, zip.length - 22 - 0xffff); offset--) {
+    if (zip.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  const directoryOffset = zip.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) return null;
+
+  const localParts: Buffer[] = [];
+  const directoryParts: Buffer[] = [];
+  let written = 0;
+  let kept = 0;
+  let cursor = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(cursor) !== 0x02014b50) return null;
+    const compressedSize = zip.readUInt32LE(cursor + 20);
+    const nameLength = zip.readUInt16LE(cursor + 28);
+    const entryLength = 46 + nameLength + zip.readUInt16LE(cursor + 30) + zip.readUInt16LE(cursor + 32);
+    const localOffset = zip.readUInt32LE(cursor + 42);
+    const name = zip.toString("utf-8", cursor + 46, cursor + 46 + nameLength);
+    const directoryEntry = Buffer.from(zip.subarray(cursor, cursor + entryLength));
+    cursor += entryLength;
+
+    if (shouldDrop(name)) continue;
+
+    if (zip.readUInt32LE(localOffset) !== 0x04034b50) return null;
+    const flags = zip.readUInt16LE(localOffset + 6);
+    let localLength = 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28) + compressedSize;
+    // Bit 3: sizes follow the data in a descriptor, with or without its optional signature
+    if (flags & 0x08) {
+      localLength += zip.readUInt32LE(localOffset + localLength) === 0x08074b50 ? 16 : 12;
+    }
+
+    directoryEntry.writeUInt32LE(written, 42);
+    localParts.push(zip.subarray(localOffset, localOffset + localLength));
+    directoryParts.push(directoryEntry);
+    written += localLength;
+    kept++;
+  }
+
+  const directory = Buffer.concat(directoryParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(kept, 8);
+  end.writeUInt16LE(kept, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(written, 16);
+  return Buffer.concat([...localParts, directory, end]);
+}
+
+/**
+ * Replaces every secret in text with [REDACTED], including its JSON-escaped form.
+ */
+export function redactSecrets(text: string, secrets: string[]): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+    const escaped = JSON.stringify(secret).slice(1, -1);
+    if (escaped !== secret) {
+      redacted = redacted.split(escaped).join(REDACTED);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Whether a binary file contains a secret. Zip entries (e.g. trace.zip) are inflated and searched too;
+ * an archive that cannot be read counts as containing one.
+ */
+export function containsSecret(content: Buffer, secrets: string[]): boolean {
+  // Traces and other JSON inside binaries hold the JSON-escaped form
+  const needles = secrets.flatMap((secret) => [...new Set([secret, JSON.stringify(secret).slice(1, -1)])].map((form) => Buffer.from(form, "utf-8")));
+  if (needles.some((needle) => content.includes(needle))) return true;
+  if (content.length < 4 || content.readUInt32LE(0) !== 0x04034b50) return false;
+
+  let eocd = -1;
+  for (let offset = content.length - 22; offset >= Math.max(0, content.length - 22 - 0xffff); offset--) {
+    if (content.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) return true;
+
+  const entryCount = content.readUInt16LE(eocd + 10);
+  let cursor = content.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || cursor === 0xffffffff) return true;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (content.readUInt32LE(cursor) !== 0x02014b50) return true;
+    const method = content.readUInt16LE(cursor + 10);
+    const compressedSize = content.readUInt32LE(cursor + 20);
+    const nameLength = content.readUInt16LE(cursor + 28);
+    const localOffset = content.readUInt32LE(cursor + 42);
+    cursor += 46 + nameLength + content.readUInt16LE(cursor + 30) + content.readUInt16LE(cursor + 32);
+
+    if (content.readUInt32LE(localOffset) !== 0x04034b50) return true;
+    const dataStart = localOffset + 30 + content.readUInt16LE(localOffset + 26) + content.readUInt16LE(localOffset + 28);
+    // 0 = stored, 8 = deflate; traces use nothing else
+    if (method !== 0 && method !== 8) return true;
+    const data = content.subarray(dataStart, dataStart + compressedSize);
+    let entry: Buffer;
+    try {
+      entry = method === 8 ? inflateRawSync(data) : data;
+    } catch {
+      return true;
+    }
+    if (needles.some((needle) => entry.includes(needle))) return true;
+  }
+  return false;
+}
+
+function isRedactable(source: AttachmentSource): "json" | "text" | undefined {
+  if (source.contentType === "application/json" || /\.json$/i.test(source.fileName)) return "json";
+  if (/^text\//.test(source.contentType) || /\.(md|txt|log)$/i.test(source.fileName)) return "text";
+  return undefined;
+}
+
+// Formats that are already compressed gain nothing from gzip
+function isCompressed(contentType: string): boolean {
+  return /zip|gzip|^image\/(png|jpe?g|webp|gif)|^video\//.test(contentType);
+}
+
+/**
+ * Reads an attachment, redacts it if it is JSON or text, and shrinks it if it is over the size limit:
+ * traces are pruned, other uncompressed files are gzipped. Returns null (with a warning) when it is still too large.
+ */
+export async function prepareAttachment(
+  source: AttachmentSource,
+  policy: AttachmentPolicy,
+  warn: (message: string) => void = () => { }
+): Promise<PreparedAttachment | null> {
+  if (!source.body && !source.filePath) {
+    throw new Error(`Attachment ${source.fileName} has neither a path nor a body`);
+  }
+  let content: Buffer = source.body ?? (await readFile(source.filePath!));
+  let { fileName, contentType } = source;
+  let sanitized = false;
+  let shrunk: PreparedAttachment["shrunk"];
+
+  const kind = isRedactable(source);
+  if (kind && policy.redaction.enabled) {
+    const text = content.toString("utf-8");
+    let redacted: string;
+    if (kind === "json") {
+      try {
+        redacted = JSON.stringify(redactJson(JSON.parse(text), policy.redaction), null, 2);
+      } catch {
+        // Not valid JSON, so only the text patterns apply
+        redacted = redactText(text, policy.redaction);
+      }
+    } else {
+      redacted = redactText(text, policy.redaction);
+    }
+    content = Buffer.from(redacted, "utf-8");
+    sanitized = true;
+  }
+
+  // dataStore secrets are kept out even when ADO_ATTACH_REDACT=false
+  if (policy.secrets.length > 0) {
+    if (kind) {
+      const text = content.toString("utf-8");
+      const redacted = redactSecrets(text, policy.secrets);
+      if (redacted !== text) {
+        content = Buffer.from(redacted, "utf-8");
+        sanitized = true;
+      }
+    } else if (containsSecret(content, policy.secrets)) {
+      warn(`Skipping ${source.fileName}: it contains a secret from the dataStore`);
+      return null;
+    }
+  }
+
+  if (content.length > policy.maxFileBytes) {
+    const originalSize = content.length;
+    if (/\.zip$/i.test(fileName) && /trace/i.test(fileName)) {
+      const pruned = pruneTraceZip(content);
+      if (pruned) {
+        content = pruned;
+        shrunk = "pruned";
+      }
+    } else if (!isCompressed(contentType)) {
+      content = gzipSync(content);
+      fileName = `${fileName}.gz`;
+      contentType = "application/gzip";
+      shrunk = "gzip";
+    }
+    if (content.length > policy.maxFileBytes) {
+      warn(
+        `Skipping ${source.fileName}: ${formatSize(content.length)} is over the ${formatSize(policy.maxFileBytes)} limit` +
+        (shrunk ? ` after ${shrunk === "gzip" ? "compression" : "pruning"} (was ${formatSize(originalSize)})` : "")
+      );
+      return null;
+    }
+  }
+
+  return { fileName, contentType, content, sanitized, ...(shrunk && { shrunk }) };
+}
@@ -1,68 +1,162 @@
 // Azure DevOps test result attachment upload utilities.
-import { readFile, stat } from "fs/promises";
 import { existsSync } from "fs";
-import { resolve, basename } from "path";
+import { resolve, basename, extname } from "path";
 import {
   findTraceZip,
   findErrorContext,
   findLastRunJson,
+  findRunState,
 } from "./artifacts";
+import type { AdoClient } from "./client";
+import type { PlaywrightAttachment } from "./playwrightResults";
+import {
+  createAttachmentPipeline,
+  formatSize,
+  prepareAttachment,
+  type AttachmentPipeline,
+  type AttachmentSource,
+  type PreparedAttachment,
+} from "./attachmentPipeline";
+
+type AttachmentKind = "trace" | "errorContext" | "screenshot" | "video" | "custom";
+
+// Per-kind toggles; every kind is attached unless its variable is "false"
+const KIND_FLAGS: Record<AttachmentKind, string> = {
+  trace: "ADO_ATTACH_TRACE",
+  errorContext: "ADO_ATTACH_ERROR_CONTEXT",
+  screenshot: "ADO_ATTACH_SCREENSHOTS",
+  video: "ADO_ATTACH_VIDEOS",
+  custom: "ADO_ATTACH_CUSTOM",
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+  "image/svg+xml": ".svg",
+  "video/webm": ".webm",
+  "video/mp4": ".mp4",
+  "application/zip": ".zip",
+  "application/json": ".json",
+  "application/pdf": ".pdf",
+  "text/html": ".html",
+  "text/markdown": ".md",
+  "text/csv": ".csv",
+  "text/plain": ".txt",
+};
+
+/**
+ * A content type, or the content type implied by a file's extension when Playwright did not record one.
+ */
+function resolveContentType(contentType: string | undefined, fileName: string): string {
+  if (contentType && contentType !== "application/octet-stream") {
+    return contentType;
+  }
+  const extension = extname(fileName).toLowerCase();
+  const match = Object.entries(EXTENSIONS).find(([, ext]) => ext === extension || (ext === ".jpg" && extension === ".jpeg"));
+  return match ? match[0] : contentType ?? "application/octet-stream";
+}
+
+function classifyAttachment(name: string, contentType: string): AttachmentKind {
+  if (name === "trace") return "trace";
+  if (name === "error-context") return "errorContext";
+  if (contentType.startsWith("image/")) return "screenshot";
+  if (contentType.startsWith("video/")) return "video";
+  return "custom";
+}
+
+/**
+ * Reads ADO_ATTACH_INCLUDE or ADO_ATTACH_EXCLUDE: comma-separated attachment names or content types,
+ * where `*` matches anything (e.g. `image/*,har`).
+ */
+function readFilterEnv(name: string): RegExp[] {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .map((pattern) => new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`, "i"));
+}
+
+/**
+ * Whether an attachment passes its kind's toggle and the include and exclude filters. Exclude wins over include.
+ */
+function isAttachmentWanted(kind: AttachmentKind, name: string, contentType: string): boolean {
+  if (process.env[KIND_FLAGS[kind]] === "false") {
+    return false;
+  }
+  const matches = (pattern: RegExp) => pattern.test(name) || pattern.test(contentType);
+  const include = readFilterEnv("ADO_ATTACH_INCLUDE");
+  if (include.length > 0 && !include.some(matches)) {
+    return false;
+  }
+  return !readFilterEnv("ADO_ATTACH_EXCLUDE").some(matches);
+}
+
+/**
+ * Turns a test's Playwright attachments into upload sources. Files that are gone are skipped, and embedded
+ * bodies get a file name with the extension of their content type.
+ */
+function collectPlaywrightAttachments(attachments: PlaywrightAttachment[]): AttachmentSource[] {
+  const sources: AttachmentSource[] = [];
+  for (const attachment of attachments) {
+    if (attachment.path) {
+      const filePath = resolve(process.cwd(), attachment.path);
+      const fileName = basename(filePath);
+      const contentType = resolveContentType(attachment.contentType, fileName);
+      if (!existsSync(filePath) || !isAttachmentWanted(classifyAttachment(attachment.name, contentType), attachment.name, contentType)) {
+        continue;
+      }
+      sources.push({ filePath, fileName, contentType });
+    } else if (attachment.body !== undefined) {
+      const contentType = attachment.contentType || "application/octet-stream";
+      if (!isAttachmentWanted(classifyAttachment(attachment.name, contentType), attachment.name, contentType)) {
+        continue;
+      }
+      const baseName = attachment.name.replace(/[^a-zA-Z0-9._-]+/g, "-") || "attachment";
+      const extension = EXTENSIONS[contentType.split(";")[0]] ?? "";
+      const fileName = extname(baseName) || !extension ? baseName : `${baseName}${extension}`;
+      sources.push({ body: Buffer.from(attachment.body, "base64"), fileName, contentType });
+    }
+  }
+  return sources;
+}
 
-interface AttachmentInfo {
-  filePath: string;
-  fileName: string;
-  contentType: string;
-  sanitized?: boolean;
+/**
+ * Gives each source a distinct file name (screenshot.png, screenshot-2.png, ...), since ADO shows attachments by name.
+ */
+function dedupeFileNames(sources: AttachmentSource[]): AttachmentSource[] {
+  const seen = new Map<string, number>();
+  return sources.map((source) => {
+    const count = (seen.get(source.fileName) ?? 0) + 1;
+    seen.set(source.fileName, count);
+    if (count === 1) return source;
+    const extension = extname(source.fileName);
+    return { ...source, fileName: `${source.fileName.slice(0, source.fileName.length - extension.length)}-${count}${extension}` };
+  });
 }
 
 /**
  * Uploads an attachment to an Azure DevOps test result.
  */
 async function uploadAttachment(
-  orgUrl: string,
-  project: string,
-  token: string,
+  client: AdoClient,
   runId: number,
   testCaseResultId: number,
-  attachment: AttachmentInfo
+  attachment: PreparedAttachment
 ): Promise<void> {
-  const url = `${orgUrl}/${project}/_apis/test/Runs/${runId}/Results/${testCaseResultId}/attachments?api-version=7.0`;
-
-  let fileBuffer: Buffer;
-
-  // Read file as buffer
-  if (attachment.sanitized) {
-    // For sanitized files, read as buffer
-    fileBuffer = await readFile(attachment.filePath);
-  } else {
-    // For binary files (like trace.zip), read as buffer without any encoding
-    // This ensures binary files are read correctly
-    fileBuffer = await readFile(attachment.filePath);
-  }
-
   // Azure DevOps Test Result Attachment API requires JSON with base64-encoded content
-  // Ensure we have a proper Buffer before encoding
-  if (!Buffer.isBuffer(fileBuffer)) {
-    fileBuffer = Buffer.from(fileBuffer);
-  }
-  
-  const base64Content = fileBuffer.toString("base64");
-  
   const requestBody = {
     attachmentType: "GeneralAttachment",
-    comment: "Playwright test artifact",
+    comment: attachment.sanitized ? "Playwright test artifact (redacted)" : "Playwright test artifact",
     fileName: attachment.fileName,
-    stream: base64Content,
+    stream: attachment.content.toString("base64"),
   };
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-    },
-    body: JSON.stringify(requestBody),
-  });
+  const response = await client.request(
+    `_apis/test/Runs/${runId}/Results/${testCaseResultId}/attachments?api-version=7.0`,
+    { method: "POST", body: requestBody }
+  );
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -71,55 +165,55 @@ async function uploadAttachment(
 }
 
 /**
- * Collects all artifacts for a failed test and uploads them to Azure DevOps.
+ * Collects all artifacts for a test result and uploads them to Azure DevOps: the trace and error context from its
+ * result directory, every Playwright attachment (screenshots, videos, testInfo.attach() output) and the run metadata.
+ * Each artifact goes through the pipeline (redaction, shrinking, size budgets); pass one pipeline for all the results of a run.
  */
 export async function uploadTestArtifacts(
-  orgUrl: string,
-  project: string,
-  token: string,
+  client: AdoClient,
   runId: number,
   testCaseResultId: number,
-  testResultDir: string,
+  testResultDir: string | null,
   testResultsDir: string = "./test-results",
-  quiet: boolean = false
+  quiet: boolean = false,
+  pipeline?: AttachmentPipeline,
+  playwrightAttachments: PlaywrightAttachment[] = []
 ): Promise<void> {
   const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
   const warn = quiet ? () => { } : (...args: any[]) => console.warn(...args);
 
-  const attachments: AttachmentInfo[] = [];
+  const attachments: AttachmentSource[] = [];
 
-  // Check which artifacts to attach based on environment variables
-  const attachTrace = process.env.ADO_ATTACH_TRACE !== "false";
-  const attachErrorContext = process.env.ADO_ATTACH_ERROR_CONTEXT !== "false";
+  // Check which run-level artifacts to attach based on environment variables
   const attachLastRun = process.env.ADO_ATTACH_LAST_RUN !== "false";
   const attachRunState = process.env.ADO_ATTACH_RUN_STATE === "true";
 
   // Collect trace.zip
-  if (attachTrace) {
-    const tracePath = findTraceZip(testResultDir);
-    if (tracePath) {
-      attachments.push({
-        filePath: tracePath,
-        fileName: "trace.zip",
-        contentType: "application/zip",
-        sanitized: false,
-      });
-    }
+  const tracePath = testResultDir ? findTraceZip(testResultDir) : null;
+  if (tracePath && isAttachmentWanted("trace", "trace", "application/zip")) {
+    attachments.push({
+      filePath: tracePath,
+      fileName: "trace.zip",
+      contentType: "application/zip",
+    });
   }
 
   // Collect error-context.md
-  if (attachErrorContext) {
-    const errorContextPath = findErrorContext(testResultDir);
-    if (errorContextPath) {
-      attachments.push({
-        filePath: errorContextPath,
-        fileName: "error-context.md",
-        contentType: "text/markdown",
-        sanitized: false,
-      });
-    }
+  const errorContextPath = testResultDir ? findErrorContext(testResultDir) : null;
+  if (errorContextPath && isAttachmentWanted("errorContext", "error-context", "text/markdown")) {
+    attachments.push({
+      filePath: errorContextPath,
+      fileName: "error-context.md",
+      contentType: "text/markdown",
+    });
   }
 
+  // Collect screenshots, videos and custom attachments; the report also lists the trace and error context found above
+  const collected = new Set(attachments.map((source) => source.filePath));
+  attachments.push(
+    ...collectPlaywrightAttachments(playwrightAttachments).filter((source) => !source.filePath || !collected.has(source.filePath))
+  );
+
   // Collect .last-run.json
   if (attachLastRun) {
     const lastRunPath = findLastRunJson(testResultsDir);
@@ -128,19 +222,42 @@ export async function uploadTestArtifacts(
         filePath: lastRunPath,
         fileName: ".last-run.json",
         contentType: "application/json",
-        sanitized: false,
       });
     }
   }
 
+  // Collect runState.json (test.* data, which can hold factory-generated PII until redacted)
+  if (attachRunState) {
+    const runStatePath = findRunState();
+    if (runStatePath) {
+      attachments.push({
+        filePath: runStatePath,
+        fileName: "runState.json",
+        contentType: "application/json",
+      });
+    }
+  }
+
+  const { policy, budget } = pipeline ?? (await createAttachmentPipeline());
+
   // Upload all attachments
-  for (const attachment of attachments) {
+  for (const source of dedupeFileNames(attachments)) {
     try {
-      await uploadAttachment(orgUrl, project, token, runId, testCaseResultId, attachment);
-      log(`Uploaded ${attachment.fileName} for test result ${testCaseResultId}`);
+      const attachment = await prepareAttachment(source, policy, warn);
+      if (!attachment) continue;
+      const overBudget = budget.reserve(testCaseResultId, attachment.content.length);
+      if (overBudget) {
+        warn(`Skipping ${attachment.fileName} (${formatSize(attachment.content.length)}): ${overBudget}`);
+        continue;
+      }
+      await uploadAttachment(client, runId, testCaseResultId, attachment);
+      log(
+        `Uploaded ${attachment.fileName} for test result ${testCaseResultId}` +
+        (attachment.shrunk ? ` (${attachment.shrunk === "gzip" ? "compressed" : "pruned"} to ${formatSize(attachment.content.length)})` : "")
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      warn(`Failed to upload ${attachment.fileName}: ${errorMessage}`);
+      warn(`Failed to upload ${source.fileName}: ${errorMessage}`);
     }
   }
 }
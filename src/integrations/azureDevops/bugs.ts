@@ -0,0 +1,176 @@
+// Files Azure DevOps Bug work items for failed tests, deduplicated by a hash of the normalized error.
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { basename } from "path";
+import type { AdoClient } from "./client";
+
+/**
+ * A failed test to file a bug for.
+ */
+export interface FailedTestBug {
+  caseId: string;
+  title: string;
+  file?: string;
+  errorMessage?: string;
+  steps: Array<{ title: string; error?: string }>;
+  tracePath?: string;
+}
+
+/**
+ * Bug filing settings: the run the failures came from, and the area path for new bugs.
+ */
+export interface BugFilingOptions {
+  runId: number;
+  areaPath?: string;
+}
+
+/**
+ * The bug a failure was filed under. `created` is false when an open bug with the same signature got a comment.
+ */
+export interface FiledBug {
+  bugId: number;
+  created: boolean;
+  signature: string;
+}
+
+/** Tag on every bug the sync files. */
+export const AUTO_FILED_TAG = "pilot-auto-filed";
+const SIGNATURE_TAG_PREFIX = "pilot-error-";
+const MAX_TITLE_LENGTH = 255;
+
+/**
+ * Reduces an error message to what stays the same between runs: stack lines, IDs, timestamps
+ * and numbers are replaced, whitespace is collapsed and the result is lower-cased.
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .split("\n")
+    .filter((line) => !/^\s*at\s/.test(line))
+    .join("\n")
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>")
+    .replace(/\d{4}-\d{2}-\d{2}[T ][\d:.]+Z?/g, "<time>")
+    .replace(/\b[0-9a-f]*\d[0-9a-f]*\b/gi, (token) => (token.length >= 8 && /[a-f]/i.test(token) ? "<id>" : token))
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * A short, stable signature for a case's failure. Repeats of the same failure share it.
+ */
+export function errorSignature(caseId: string, errorMessage: string | undefined): string {
+  return createHash("sha256")
+    .update(`${caseId}\n${normalizeErrorMessage(errorMessage ?? "")}`)
+    .digest("hex")
+    .slice(0, 12);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Builds the repro steps: the test.step chain up to the step that failed, then the error.
+ */
+export function buildReproSteps(test: FailedTestBug, runId: number): string {
+  const failedIndex = test.steps.findIndex((step) => step.error);
+  const chain = failedIndex >= 0 ? test.steps.slice(0, failedIndex + 1) : test.steps;
+  const parts = [
+    `<div><b>Automated test:</b> [${test.caseId}] ${escapeHtml(test.title)}${test.file ? ` (${escapeHtml(test.file)})` : ""}</div>`,
+  ];
+  if (chain.length > 0) {
+    const items = chain.map((step, index) =>
+      index === failedIndex ? `<li><b>${escapeHtml(step.title)} (failed)</b></li>` : `<li>${escapeHtml(step.title)}</li>`
+    );
+    parts.push(`<ol>${items.join("")}</ol>`);
+  }
+  parts.push(`<div><b>Error:</b></div><pre>${escapeHtml(test.errorMessage ?? "No error message")}</pre>`);
+  parts.push(`<div>Filed by the Azure DevOps sync from test run ${runId}.</div>`);
+  return parts.join("");
+}
+
+async function readJsonResponse<T>(response: Response, action: string): Promise<T> {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to ${action}: ${response.status} ${errorText}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Finds an open bug the sync filed with this signature.
+ */
+async function findOpenBug(client: AdoClient, signature: string): Promise<number | undefined> {
+  const query =
+    "SELECT [System.Id] FROM WorkItems " +
+    "WHERE [System.TeamProject] = @project AND [System.WorkItemType] = 'Bug' " +
+    `AND [System.Tags] CONTAINS '${SIGNATURE_TAG_PREFIX}${signature}' ` +
+    "AND [System.State] NOT IN ('Closed', 'Done', 'Removed') ORDER BY [System.Id]";
+  const response = await client.request("_apis/wit/wiql?api-version=7.0", { method: "POST", body: { query } });
+  const data = await readJsonResponse<{ workItems: Array<{ id: number }> }>(response, "query bugs");
+  return data.workItems[0]?.id;
+}
+
+async function uploadTrace(client: AdoClient, tracePath: string): Promise<string> {
+  const fileName = basename(tracePath);
+  const response = await client.request(`_apis/wit/attachments?fileName=${encodeURIComponent(fileName)}&api-version=7.0`, {
+    method: "POST",
+    body: await readFile(tracePath),
+    contentType: "application/octet-stream",
+  });
+  const data = await readJsonResponse<{ url: string }>(response, `upload ${fileName}`);
+  return data.url;
+}
+
+/**
+ * Files a bug for a failed test, or comments on the open bug with the same error signature.
+ * New bugs carry the repro steps, the trace and a Tested By link to the test case.
+ */
+export async function fileBugForFailure(
+  client: AdoClient,
+  test: FailedTestBug,
+  options: BugFilingOptions
+): Promise<FiledBug> {
+  const signature = errorSignature(test.caseId, test.errorMessage);
+  const firstErrorLine = (test.errorMessage ?? "").split("\n")[0].trim();
+
+  const existingId = await findOpenBug(client, signature);
+  if (existingId !== undefined) {
+    const text = `Failed again in test run ${options.runId}: ${escapeHtml(firstErrorLine || "no error message")}`;
+    const response = await client.request(`_apis/wit/workItems/${existingId}/comments?api-version=7.0-preview.3`, {
+      method: "POST",
+      body: { text },
+    });
+    await readJsonResponse(response, `comment on bug ${existingId}`);
+    return { bugId: existingId, created: false, signature };
+  }
+
+  const title = `[${test.caseId}] ${test.title}${firstErrorLine ? `: ${firstErrorLine}` : ""}`;
+  const operations: Array<{ op: "add"; path: string; value: unknown }> = [
+    { op: "add", path: "/fields/System.Title", value: title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title },
+    { op: "add", path: "/fields/Microsoft.VSTS.TCM.ReproSteps", value: buildReproSteps(test, options.runId) },
+    { op: "add", path: "/fields/System.Tags", value: `${AUTO_FILED_TAG}; ${SIGNATURE_TAG_PREFIX}${signature}` },
+    {
+      op: "add",
+      path: "/relations/-",
+      value: { rel: "Microsoft.VSTS.Common.TestedBy-Forward", url: `${client.baseUrl}/_apis/wit/workItems/${test.caseId}` },
+    },
+  ];
+  if (options.areaPath) {
+    operations.push({ op: "add", path: "/fields/System.AreaPath", value: options.areaPath });
+  }
+  if (test.tracePath && existsSync(test.tracePath)) {
+    const url = await uploadTrace(client, test.tracePath);
+    operations.push({ op: "add", path: "/relations/-", value: { rel: "AttachedFile", url, attributes: { comment: "Playwright trace" } } });
+  }
+
+  const response = await client.request("_apis/wit/workitems/$Bug?api-version=7.0", {
+    method: "POST",
+    body: JSON.stringify(operations),
+    contentType: "application/json-patch+json",
+  });
+  const bug = await readJsonResponse<{ id: number }>(response, `create bug for case ${test.caseId}`);
+  return { bugId: bug.id, created: true, signature };
+}
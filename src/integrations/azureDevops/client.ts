@@ -0,0 +1,163 @@
+// Azure DevOps REST client: every ADO call goes through here for auth, retries, throttling and paging.
+import type { AdoConfig } from "./index";
+
+/**
+ * Client settings. Each one defaults from the environment (ADO_API_BASE_URL, ADO_MAX_RETRIES,
+ * ADO_RETRY_DELAY_MS), then from the built-in defaults.
+ */
+export interface AdoClientOptions {
+  baseUrl?: string;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * A single request. Object bodies are serialized as JSON; Buffer and string bodies are sent as-is.
+ * The content type defaults to application/json.
+ */
+export interface AdoRequestOptions {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  body?: unknown;
+  contentType?: string;
+}
+
+export interface AdoClient {
+  /** Base URL requests are sent to (the org URL unless overridden). */
+  baseUrl: string;
+  /** Sends a request to `<baseUrl>/<project>/<apiPath>`, retrying throttled and failed attempts. */
+  request(apiPath: string, options?: AdoRequestOptions): Promise<Response>;
+  /**
+   * Reads every page of a list endpoint by following x-ms-continuationtoken, returning all `value` items.
+   * A failed page is passed to `onError`, which throws; the default throws with the status and body.
+   */
+  getAllPages<T>(apiPath: string, onError?: (response: Response) => Promise<never>): Promise<T[]>;
+}
+
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_AFTER_MS = 120_000;
+
+// Statuses worth retrying. Writes are only retried on 429/503, where ADO did not process the request.
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const RETRYABLE_WRITE_STATUSES = [429, 503];
+
+const CONTINUATION_HEADER = "x-ms-continuationtoken";
+
+/**
+ * Reads a non-negative integer setting from the environment. Returns undefined when unset.
+ */
+export function readNumberEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value || value.trim() === "") return undefined;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads Retry-After as delay-seconds or an HTTP date. Returns milliseconds, or undefined if absent or invalid.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half is random, so parallel
+ * callers that were throttled together do not retry together.
+ */
+function backoffDelay(attempt: number, baseDelayMs: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+async function throwForResponse(response: Response): Promise<never> {
+  const errorText = await response.text();
+  throw new Error(`Azure DevOps request failed: ${response.status} ${errorText}`);
+}
+
+function withContinuationToken(apiPath: string, token: string): string {
+  const separator = apiPath.includes("?") ? "&" : "?";
+  return `${apiPath}${separator}continuationToken=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Creates a client for one org and project.
+ */
+export function createAdoClient(config: AdoConfig, options: AdoClientOptions = {}): AdoClient {
+  const baseUrl = (options.baseUrl ?? process.env.ADO_API_BASE_URL ?? config.orgUrl).replace(/\/+$/, "");
+  const maxRetries = options.maxRetries ?? readNumberEnv("ADO_MAX_RETRIES") ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? readNumberEnv("ADO_RETRY_DELAY_MS") ?? DEFAULT_RETRY_DELAY_MS;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const authorization = `Basic ${Buffer.from(`:${config.token}`).toString("base64")}`;
+
+  async function request(apiPath: string, requestOptions: AdoRequestOptions = {}): Promise<Response> {
+    const method = requestOptions.method ?? "GET";
+    const url = `${baseUrl}/${config.project}/${apiPath.replace(/^\/+/, "")}`;
+    const headers: Record<string, string> = { Authorization: authorization };
+    const { body } = requestOptions;
+    if (body !== undefined) {
+      headers["Content-Type"] = requestOptions.contentType ?? "application/json";
+    }
+    const payload = body === undefined ? undefined : typeof body === "string" || body instanceof Uint8Array ? body : JSON.stringify(body);
+    const retryable = method === "GET" ? RETRYABLE_STATUSES : RETRYABLE_WRITE_STATUSES;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body: payload as string | Uint8Array | undefined,
+        });
+      } catch (error) {
+        // A write may have reached ADO before the connection dropped, so only reads are retried
+        if (method === "GET" && attempt < maxRetries) {
+          await sleep(backoffDelay(attempt, retryDelayMs));
+          continue;
+        }
+        throw new Error(
+          `Azure DevOps request failed: network error connecting to ${url}. ` +
+            `Verify ADO_ORG_URL is correct and reachable. ` +
+            `${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      if (!retryable.includes(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      // Drain the body so the connection can be reused for the retry
+      await response.arrayBuffer().catch(() => undefined);
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      await sleep(retryAfter !== undefined ? Math.min(retryAfter, MAX_RETRY_AFTER_MS) : backoffDelay(attempt, retryDelayMs));
+    }
+  }
+
+  async function getAllPages<T>(apiPath: string, onError: (response: Response) => Promise<never> = throwForResponse): Promise<T[]> {
+    const items: T[] = [];
+    let nextPath: string | null = apiPath;
+    while (nextPath) {
+      const response = await request(nextPath);
+      if (!response.ok) {
+        await onError(response);
+      }
+      const data = (await response.json()) as { value?: T[] };
+      items.push(...(data.value ?? []));
+      const token = response.headers.get(CONTINUATION_HEADER);
+      nextPath = token ? withContinuationToken(apiPath, token) : null;
+    }
+    return items;
+  }
+
+  return { baseUrl, request, getAllPages };
+}
@@ -0,0 +1,411 @@
+// Writes the flattened Playwright results as JUnit XML and VSTest TRX, for CI systems and dashboards other than ADO.
+import { createHash, randomUUID } from "crypto";
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { hostname } from "os";
+import { resolve, dirname } from "path";
+import {
+  extractCaseId,
+  extractFeatureFromPath,
+  flattenPlaywrightJson,
+  isFailedStatus,
+  normalizeTestFilePath,
+  stripAnsiCodes,
+  stripCaseIdPrefix,
+  stripTagFromSuiteTitle,
+  type PlaywrightTestResult,
+} from "./playwrightResults";
+import { loadResultFieldMapping, resolveResultFields } from "./resultFields";
+
+/**
+ * Where to write each export. Each defaults from PILOT_JUNIT_OUTPUT and PILOT_TRX_OUTPUT; unset formats are skipped.
+ */
+export interface ResultExportOptions {
+  junitOutput?: string;
+  trxOutput?: string;
+}
+
+/**
+ * TRX run settings. The run ID is random unless given.
+ */
+export interface TrxOptions {
+  runId?: string;
+  runName?: string;
+}
+
+/**
+ * A test with the pilot metadata both formats carry: feature, suite, case ID, steps and attachment paths.
+ */
+interface ExportedTest {
+  test: PlaywrightTestResult;
+  file: string;
+  feature?: string;
+  suite: string;
+  caseId?: string;
+  title: string;
+  attachmentPaths: string[];
+}
+
+const DEFAULT_JUNIT_OUTPUT = "test-results/junit.xml";
+const DEFAULT_TRX_OUTPUT = "test-results/results.trx";
+
+// Fixed IDs VSTest uses for unit tests and for results that are not in a test list
+const TRX_UNIT_TEST_TYPE = "13cdc9d9-ddb5-4fa4-a97d-d965ccfc6d4b";
+const TRX_DEFAULT_LIST_ID = "8c84fa94-04c1-424b-9868-57a2d4851a1d";
+const TRX_ALL_RESULTS_LIST_ID = "19431567-8539-422a-85d7-44ee4e166bda";
+
+/**
+ * Reads the export paths from PILOT_JUNIT_OUTPUT and PILOT_TRX_OUTPUT.
+ */
+export function readResultExportOptions(): ResultExportOptions {
+  return {
+    junitOutput: process.env.PILOT_JUNIT_OUTPUT || undefined,
+    trxOutput: process.env.PILOT_TRX_OUTPUT || undefined,
+  };
+}
+
+/**
+ * Escapes text for an XML attribute or element, dropping the control characters XML 1.0 does not allow.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Joins captured stdout or stderr. The JSON report stores each chunk as a string or as { text }.
+ */
+function joinOutput(entries: unknown[] | undefined): string {
+  return stripAnsiCodes(
+    (entries ?? []).map((entry: any) => (typeof entry === "string" ? entry : entry?.text ?? "")).join("")
+  );
+}
+
+/**
+ * Lists the test's steps one per line, with the error of a step that failed.
+ */
+function formatSteps(test: PlaywrightTestResult): string[] {
+  return (test.steps ?? []).map((step) =>
+    `- ${step.title} (${step.duration}ms)${step.error ? ` failed: ${step.error.split("\n")[0]}` : ""}`
+  );
+}
+
+function describeTest(test: PlaywrightTestResult): ExportedTest {
+  const file = test.file ? normalizeTestFilePath(test.file) : "";
+  return {
+    test,
+    file,
+    feature: (file && extractFeatureFromPath(file)) || undefined,
+    suite: stripTagFromSuiteTitle(test.suiteTitle),
+    caseId: extractCaseId(test.testTitle) ?? undefined,
+    title: stripCaseIdPrefix(test.testTitle),
+    attachmentPaths: (test.attachments ?? []).filter((a) => typeof a.path === "string").map((a) => a.path as string),
+  };
+}
+
+/**
+ * The metadata recorded as JUnit properties and TRX properties, in a fixed order.
+ */
+function describeProperties(exported: ExportedTest): Array<[string, string]> {
+  const properties: Array<[string, string]> = [];
+  if (exported.feature) properties.push(["feature", exported.feature]);
+  properties.push(["suite", exported.suite]);
+  if (exported.caseId) properties.push(["caseId", exported.caseId]);
+  if (exported.test.flaky) properties.push(["flaky", "true"]);
+  if ((exported.test.attempts?.length ?? 1) > 1) properties.push(["attempts", String(exported.test.attempts!.length)]);
+  for (const tag of exported.test.tags ?? []) properties.push(["tag", tag.replace(/^@/, "")]);
+  return properties;
+}
+
+function toSeconds(durationMs: number): string {
+  return (durationMs / 1000).toFixed(3);
+}
+
+/**
+ * Builds a JUnit XML report with one <testsuite> per spec suite. Feature, suite, case ID and tags are
+ * <properties>, steps go to <system-out>, and attachments use the [[ATTACHMENT|path]] convention.
+ */
+export function buildJUnitXml(tests: PlaywrightTestResult[]): string {
+  const groups = new Map<string, ExportedTest[]>();
+  for (const exported of tests.map(describeTest)) {
+    const key = `${exported.file}\u0000${exported.test.suiteTitle}`;
+    groups.set(key, [...(groups.get(key) ?? []), exported]);
+  }
+
+  const count = (list: ExportedTest[], status: PlaywrightTestResult["status"]) =>
+    list.filter((e) => e.test.status === status).length;
+  const countFailed = (list: ExportedTest[]) => list.filter((e) => isFailedStatus(e.test.status)).length;
+  const totalTime = (list: ExportedTest[]) => toSeconds(list.reduce((sum, e) => sum + e.test.durationMs, 0));
+  const all = Array.from(groups.values()).flat();
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="Playwright" tests="${all.length}" failures="${countFailed(all)}" skipped="${count(all, "skipped")}" errors="0" time="${totalTime(all)}">`,
+  ];
+
+  for (const group of groups.values()) {
+    const first = group[0];
+    const timestamp = group.map((e) => e.test.startTime).find((time) => !!time);
+    lines.push(
+      `  <testsuite name="${escapeXml(first.suite)}" tests="${group.length}" failures="${countFailed(group)}" skipped="${count(group, "skipped")}" errors="0" time="${totalTime(group)}"${timestamp ? ` timestamp="${escapeXml(timestamp)}"` : ""}${first.file ? ` file="${escapeXml(first.file)}"` : ""}>`
+    );
+    if (first.feature) {
+      lines.push(`    <properties>`, `      <property name="feature" value="${escapeXml(first.feature)}"/>`, `    </properties>`);
+    }
+
+    for (const exported of group) {
+      const { test } = exported;
+      lines.push(
+        `    <testcase name="${escapeXml(exported.title)}" classname="${escapeXml(exported.suite)}" time="${toSeconds(test.durationMs)}"${exported.file ? ` file="${escapeXml(exported.file)}"` : ""}>`
+      );
+      lines.push(`      <properties>`);
+      for (const [name, value] of describeProperties(exported)) {
+        lines.push(`        <property name="${name}" value="${escapeXml(value)}"/>`);
+      }
+      lines.push(`      </properties>`);
+
+      if (isFailedStatus(test.status)) {
+        const message = test.errorMessage ?? "Test failed";
+        lines.push(
+          `      <failure message="${escapeXml(message.split("\n")[0])}" type="Error">${escapeXml(test.errorStack ?? message)}</failure>`
+        );
+      } else if (test.status === "skipped") {
+        lines.push(`      <skipped/>`);
+      }
+
+      const systemOut = [
+        ...formatSteps(test),
+        joinOutput(test.stdout).trimEnd(),
+        ...exported.attachmentPaths.map((path) => `[[ATTACHMENT|${path}]]`),
+      ].filter((line) => line.length > 0);
+      if (systemOut.length > 0) {
+        lines.push(`      <system-out>${escapeXml(systemOut.join("\n"))}</system-out>`);
+      }
+      const systemErr = joinOutput(test.stderr).trimEnd();
+      if (systemErr) {
+        lines.push(`      <system-err>${escapeXml(systemErr)}</system-err>`);
+      }
+      lines.push(`    </testcase>`);
+    }
+    lines.push(`  </testsuite>`);
+  }
+
+  lines.push(`</testsuites>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * A stable GUID for a string, so a test keeps its TRX test ID from run to run.
+ */
+function guidFor(value: string): string {
+  const hex = createHash("sha1").update(value).digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Formats a duration as the hh:mm:ss.fffffff TimeSpan TRX uses.
+ */
+function toTimeSpan(durationMs: number): string {
+  const totalSeconds = Math.floor(durationMs / 1000);
+  const hours = String(Math.floor(totalSeconds / 3600)).padStart(2, "0");
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, "0");
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  const fraction = String(Math.round((durationMs % 1000) * 10000)).padStart(7, "0");
+  return `${hours}:${minutes}:${seconds}.${fraction}`;
+}
+
+function toTrxOutcome(status: PlaywrightTestResult["status"]): string {
+  switch (status) {
+    case "passed":
+      return "Passed";
+    case "failed":
+      return "Failed";
+    case "timedOut":
+      return "Timeout";
+    case "interrupted":
+      return "Aborted";
+    default:
+      return "NotExecuted";
+  }
+}
+
+/**
+ * Builds a VSTest TRX report. Each test is a UnitTest whose test ID is derived from its spec path and title,
+ * with feature, suite and case ID as properties, the feature and tags as categories, steps in StdOut and
+ * attachments as result files.
+ */
+export function buildTrx(tests: PlaywrightTestResult[], options: TrxOptions = {}): string {
+  const runId = options.runId ?? randomUUID();
+  const computerName = hostname();
+  const now = new Date().toISOString();
+
+  const entries = tests.map(describeTest).map((exported, index) => {
+    const testId = guidFor(`${exported.file}::${exported.test.fullTitle}`);
+    const start = exported.test.startTime ?? now;
+    const end = new Date(new Date(start).getTime() + exported.test.durationMs).toISOString();
+    return { exported, testId, executionId: guidFor(`${runId}:${index}`), start, end };
+  });
+
+  // Tests that never started (skipped) have no start time and do not count towards the run times
+  const timed = entries.filter((e) => !!e.exported.test.startTime);
+  const starts = timed.map((e) => e.start).sort();
+  const ends = timed.map((e) => e.end).sort();
+  const runStart = starts[0] ?? now;
+  const runFinish = ends[ends.length - 1] ?? now;
+  const count = (status: PlaywrightTestResult["status"]) => entries.filter((e) => e.exported.test.status === status).length;
+  const failed = entries.filter((e) => isFailedStatus(e.exported.test.status)).length;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<TestRun id="${runId}" name="${escapeXml(options.runName ?? `Playwright ${runStart}`)}" xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">`,
+    `  <Times creation="${runStart}" queuing="${runStart}" start="${runStart}" finish="${runFinish}"/>`,
+    `  <Results>`,
+  ];
+
+  for (const { exported, testId, executionId, start, end } of entries) {
+    const { test } = exported;
+    lines.push(
+      `    <UnitTestResult executionId="${executionId}" testId="${testId}" testName="${escapeXml(exported.title)}" computerName="${escapeXml(computerName)}" duration="${toTimeSpan(test.durationMs)}" startTime="${start}" endTime="${end}" testType="${TRX_UNIT_TEST_TYPE}" outcome="${toTrxOutcome(test.status)}" testListId="${TRX_DEFAULT_LIST_ID}" relativeResultsDirectory="${executionId}">`
+    );
+    lines.push(`      <Output>`);
+    const stdout = [...formatSteps(test), joinOutput(test.stdout).trimEnd()].filter((line) => line.length > 0);
+    if (stdout.length > 0) {
+      lines.push(`        <StdOut>${escapeXml(stdout.join("\n"))}</StdOut>`);
+    }
+    const stderr = joinOutput(test.stderr).trimEnd();
+    if (stderr) {
+      lines.push(`        <StdErr>${escapeXml(stderr)}</StdErr>`);
+    }
+    if (isFailedStatus(test.status)) {
+      lines.push(
+        `        <ErrorInfo>`,
+        `          <Message>${escapeXml(test.errorMessage ?? "Test failed")}</Message>`,
+        ...(test.errorStack ? [`          <StackTrace>${escapeXml(test.errorStack)}</StackTrace>`] : []),
+        `        </ErrorInfo>`
+      );
+    }
+    lines.push(`      </Output>`);
+    if (exported.attachmentPaths.length > 0) {
+      lines.push(`      <ResultFiles>`);
+      for (const path of exported.attachmentPaths) {
+        lines.push(`        <ResultFile path="${escapeXml(path)}"/>`);
+      }
+      lines.push(`      </ResultFiles>`);
+    }
+    lines.push(`    </UnitTestResult>`);
+  }
+
+  lines.push(`  </Results>`, `  <TestDefinitions>`);
+
+  // A test run under several Playwright projects has several results but one definition
+  const defined = new Set<string>();
+  for (const { exported, testId, executionId } of entries) {
+    if (defined.has(testId)) continue;
+    defined.add(testId);
+    const { test } = exported;
+    const priority = test.resultFields?.priority;
+    lines.push(
+      `    <UnitTest name="${escapeXml(exported.title)}" storage="${escapeXml(exported.file)}" id="${testId}"${priority !== undefined ? ` priority="${priority}"` : ""}>`
+    );
+    if (test.resultFields?.owner) {
+      lines.push(`      <Owners>`, `        <Owner name="${escapeXml(test.resultFields.owner)}"/>`, `      </Owners>`);
+    }
+    lines.push(`      <Properties>`);
+    for (const [key, value] of describeProperties(exported).filter(([key]) => key !== "tag")) {
+      lines.push(`        <Property>`, `          <Key>${key}</Key>`, `          <Value>${escapeXml(value)}</Value>`, `        </Property>`);
+    }
+    lines.push(`      </Properties>`);
+    const categories = [...(exported.feature ? [exported.feature] : []), ...(test.tags ?? []).map((tag) => tag.replace(/^@/, ""))];
+    if (categories.length > 0) {
+      lines.push(`      <TestCategory>`);
+      for (const category of categories) {
+        lines.push(`        <TestCategoryItem TestCategory="${escapeXml(category)}"/>`);
+      }
+      lines.push(`      </TestCategory>`);
+    }
+    lines.push(
+      `      <Execution id="${executionId}"/>`,
+      `      <TestMethod codeBase="${escapeXml(exported.file)}" adapterTypeName="executor://playwright" className="${escapeXml(exported.suite)}" name="${escapeXml(exported.title)}"/>`,
+      `    </UnitTest>`
+    );
+  }
+
+  lines.push(`  </TestDefinitions>`, `  <TestEntries>`);
+  for (const { testId, executionId } of entries) {
+    lines.push(`    <TestEntry testId="${testId}" executionId="${executionId}" testListId="${TRX_DEFAULT_LIST_ID}"/>`);
+  }
+  lines.push(
+    `  </TestEntries>`,
+    `  <TestLists>`,
+    `    <TestList name="Results Not in a List" id="${TRX_DEFAULT_LIST_ID}"/>`,
+    `    <TestList name="All Loaded Results" id="${TRX_ALL_RESULTS_LIST_ID}"/>`,
+    `  </TestLists>`,
+    `  <ResultSummary outcome="${failed > 0 ? "Failed" : "Completed"}">`,
+    `    <Counters total="${entries.length}" executed="${entries.length - count("skipped")}" passed="${count("passed")}" failed="${count("failed")}" error="0" timeout="${count("timedOut")}" aborted="${count("interrupted")}" inconclusive="0" passedButRunAborted="0" notRunnable="0" notExecuted="${count("skipped")}" disconnected="0" warning="0" completed="0" inProgress="0" pending="0"/>`,
+    `  </ResultSummary>`,
+    `</TestRun>`
+  );
+  return lines.join("\n") + "\n";
+}
+
+async function writeExport(output: string, content: string): Promise<string> {
+  const outputPath = resolve(process.cwd(), output);
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, content, "utf-8");
+  return outputPath;
+}
+
+/**
+ * Writes the JUnit and TRX exports that have an output path. Returns the paths written.
+ */
+export async function exportTestResults(tests: PlaywrightTestResult[], options: ResultExportOptions): Promise<string[]> {
+  const written: string[] = [];
+  if (options.junitOutput) {
+    written.push(await writeExport(options.junitOutput, buildJUnitXml(tests)));
+  }
+  if (options.trxOutput) {
+    written.push(await writeExport(options.trxOutput, buildTrx(tests)));
+  }
+  return written;
+}
+
+/**
+ * Reads the value after a flag like `--junit`, e.g. `--junit out/junit.xml`.
+ */
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+if (require.main === module) {
+  (async () => {
+    const args = process.argv.slice(2);
+    let options: ResultExportOptions = {
+      junitOutput: readFlag(args, "--junit"),
+      trxOutput: readFlag(args, "--trx"),
+    };
+    if (!options.junitOutput && !options.trxOutput) {
+      const fromEnv = readResultExportOptions();
+      options = fromEnv.junitOutput || fromEnv.trxOutput
+        ? fromEnv
+        : { junitOutput: DEFAULT_JUNIT_OUTPUT, trxOutput: DEFAULT_TRX_OUTPUT };
+    }
+
+    const report = JSON.parse(await readFile(resolve(process.cwd(), "playwright-report.json"), "utf-8"));
+    const tests = flattenPlaywrightJson(report);
+    const fieldMapping = await loadResultFieldMapping();
+    for (const test of tests) {
+      test.resultFields = resolveResultFields(test.tags ?? [], test.annotations ?? [], fieldMapping, () => { });
+    }
+    for (const path of await exportTestResults(tests, options)) {
+      console.log(`Wrote ${tests.length} test results to ${path}`);
+    }
+  })().catch((err) => {
+    console.error("Result export failed:", err);
+    process.exit(1);
+  });
+}
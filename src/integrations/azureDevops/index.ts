@@ -1,10 +1,29 @@
 // Custom Azure DevOps sync utility that reads Playwright JSON results and syncs to ADO test runs.
-import { readFile } from "fs/promises";
+import { readFile, writeFile, mkdir } from "fs/promises";
 import { hostname } from "os";
-import { resolve } from "path";
+import { resolve, dirname, basename } from "path";
 import { existsSync } from "fs";
 import { FEATURE_CONFIG, FeatureConfig, getAvailableFeatureKeys, getSuiteIds, hasSuiteId } from "../../utils/featureConfig";
 import { uploadTestArtifacts } from "./attachments";
+import { createAttachmentPipeline } from "./attachmentPipeline";
+import { createAdoClient, readNumberEnv, type AdoClient } from "./client";
+import { chunk, mapWithConcurrency } from "./concurrency";
+import { fileBugForFailure } from "./bugs";
+import { exportTestResults, readResultExportOptions } from "./exporters";
+import { DEFAULT_LEDGER_PATH, hashReport, loadSyncLedger, type SyncLedger } from "./ledger";
+import { loadResultFieldMapping, resolveResultFields } from "./resultFields";
+import {
+  extractCaseId,
+  extractFeatureFromPath,
+  flattenPlaywrightJson,
+  isFailedStatus,
+  normalizeTestFilePath,
+  stripCaseIdPrefix,
+  stripTagFromSuiteTitle,
+  type PlaywrightTestAttempt,
+  type PlaywrightTestResult,
+} from "./playwrightResults";
+import { parseTestCaseSteps, type TestCaseStep } from "./testPlans";
 
 interface RunPlan {
   featureKey: string;
@@ -14,68 +33,6 @@ interface RunPlan {
   caseFilter?: string[];
 }
 
-interface PlaywrightTestStep {
-  title: string;
-  duration: number;
-}
-
-interface PlaywrightTestResult {
-  fullTitle: string;
-  suiteTitle: string;
-  testTitle: string;
-  status: "passed" | "failed" | "skipped";
-  durationMs: number;
-  errorMessage?: string;
-  errorStack?: string;
-  file?: string;
-  steps?: PlaywrightTestStep[];
-  startTime?: string;
-  retry?: number;
-  stdout?: string[];
-  stderr?: string[];
-  attachments?: any[];
-  playwrightTestId?: string; // Playwright test ID for mapping to test-results artifacts
-}
-
-interface PlaywrightJsonSuite {
-  title: string;
-  file?: string;
-  specs?: PlaywrightJsonSpec[];
-  suites?: PlaywrightJsonSuite[];
-}
-
-interface PlaywrightJsonSpec {
-  title: string;
-  file: string;
-  tests?: PlaywrightJsonTest[];
-}
-
-interface PlaywrightJsonTest {
-  title: string;
-  results?: Array<{
-    status: "passed" | "failed" | "skipped";
-    duration: number;
-    errors?: Array<{
-      message?: string;
-      stack?: string;
-      location?: {
-        file?: string;
-        line?: number;
-        column?: number;
-      };
-    }>;
-    steps?: Array<{
-      title: string;
-      duration: number;
-    }>;
-    startTime?: string;
-    retry?: number;
-    stdout?: string[];
-    stderr?: string[];
-    attachments?: any[];
-  }>;
-}
-
 interface AzureDevOpsActionResult {
   actionPath: string;
   iterationId: number;
@@ -88,10 +45,14 @@ interface AzureDevOpsActionResult {
 interface AzureDevOpsIterationDetail {
   id: number;
   outcome: string;
+  errorMessage?: string;
+  durationInMs?: number;
+  startedDate?: string;
+  comment?: string;
   actionResults: AzureDevOpsActionResult[];
 }
 
-interface TestPoint {
+export interface TestPoint {
   id: number;
   testCase: {
     id: string;
@@ -104,12 +65,6 @@ interface TestPoint {
   };
 }
 
-interface TestCaseStep {
-  id: string;
-  action: string;
-  expectedResult?: string;
-}
-
 interface AzureDevOpsTestResult {
   id?: number; // Existing test result ID (for updates)
   testPointId?: number;
@@ -131,6 +86,10 @@ interface AzureDevOpsTestResult {
   testPlan?: { id: number };
   testSuite?: { id: number };
   iterationDetails?: AzureDevOpsIterationDetail[];
+  owner?: { displayName: string };
+  priority?: number;
+  associatedBugs?: Array<{ id: number }>;
+  customFields?: Array<{ fieldName: string; value: string }>;
 }
 
 function parseEnvVar(name: string): string[] {
@@ -284,230 +243,6 @@ function buildRunPlans(features: string[], suites: number[], cases: string[]): R
   return plans;
 }
 
-function flattenPlaywrightJson(json: any): PlaywrightTestResult[] {
-  const results: PlaywrightTestResult[] = [];
-
-  function processSuite(suite: PlaywrightJsonSuite, filePath: string = ""): void {
-    if (suite.file) {
-      filePath = suite.file;
-    }
-
-    if (suite.specs) {
-      for (const spec of suite.specs) {
-        if (spec.tests) {
-          for (const test of spec.tests) {
-            if (test.results && test.results.length > 0) {
-              // Use the last result (most recent) in case of retries
-              const result = test.results[test.results.length - 1];
-              // In Playwright JSON, spec.title is the test case title (with case ID),
-              // and suite.title is the describe block/suite title.
-              // Extract error message from errors array (Playwright uses errors array, not single error)
-              // Strip ANSI escape codes for cleaner display in ADO
-              const errorMessage = result.errors && result.errors.length > 0
-                ? result.errors.map((err: any) => {
-                  const msg = err.message || "Unknown error";
-                  const cleaned = stripAnsiCodes(msg);
-                  // Extract just the error message part (before stack trace lines starting with "at")
-                  const messageOnly = cleaned.split(/\n\s+at\s/)[0].trim();
-                  return messageOnly;
-                }).join("\n")
-                : undefined;
-
-              let filePath: string | undefined = spec.file;
-              if (filePath) {
-                filePath = normalizeTestFilePath(filePath);
-              } else if (result.errors && result.errors.length > 0 && result.errors[0].location?.file) {
-                filePath = normalizeTestFilePath(result.errors[0].location.file);
-              } else {
-                const resultWithError = result as any;
-                if (resultWithError.errorLocation?.file) {
-                  filePath = normalizeTestFilePath(resultWithError.errorLocation.file);
-                } else if (resultWithError.error?.location?.file) {
-                  filePath = normalizeTestFilePath(resultWithError.error.location.file);
-                }
-              }
-
-              if (!filePath || filePath.trim() === "") {
-                filePath = undefined;
-              }
-
-              let errorStack: string | undefined = undefined;
-
-              if (result.errors && result.errors.length > 0) {
-                const stacks = result.errors
-                  .map((err: any) => {
-                    if (err.stack) {
-                      return stripAnsiCodes(err.stack);
-                    }
-                    return null;
-                  })
-                  .filter((stack: string | null) => stack !== null && stack.trim().length > 0);
-
-                if (stacks.length > 0) {
-                  errorStack = stacks.join("\n");
-                }
-              }
-
-              if (!errorStack) {
-                const resultWithError = result as any;
-                if (resultWithError.error?.stack) {
-                  errorStack = stripAnsiCodes(resultWithError.error.stack);
-                }
-              }
-
-              results.push({
-                fullTitle: `${suite.title} - ${spec.title}`,
-                suiteTitle: suite.title,
-                testTitle: spec.title,
-                status: result.status,
-                durationMs: result.duration,
-                errorMessage: errorMessage,
-                errorStack: errorStack,
-                file: filePath,
-                steps: result.steps?.map((step: any) => ({
-                  title: step.title,
-                  duration: step.duration,
-                })),
-                startTime: result.startTime,
-                retry: result.retry,
-                stdout: result.stdout,
-                stderr: result.stderr,
-                attachments: result.attachments,
-                playwrightTestId: (test as any).id, // Extract Playwright test ID for artifact mapping
-              });
-            }
-          }
-        }
-      }
-    }
-
-    if (suite.suites) {
-      for (const subSuite of suite.suites) {
-        processSuite(subSuite, filePath);
-      }
-    }
-  }
-
-  if (json.suites) {
-    for (const suite of json.suites) {
-      processSuite(suite);
-    }
-  }
-
-  return results;
-}
-
-function extractFeatureFromPath(filePath: string): string | null {
-  // Normalize path separators so regex works on Windows and POSIX paths
-  const normalizedPath = filePath.replace(/\\/g, "/");
-  // Support paths with or without a leading "tests/" segment, e.g.:
-  // - "tests/login-page/..." (full repo path)
-  // - "login-page/..." (Playwright JSON relative to tests root)
-  const match = normalizedPath.match(/(?:^|\/)(?:tests\/)?([^\/]+)\//);
-  if (!match) {
-    return null;
-  }
-  const featureKey = match[1];
-  if (!FEATURE_CONFIG[featureKey]) {
-    return null;
-  }
-  return featureKey;
-}
-
-function extractCaseId(title: string): string | null {
-  // Expect a case ID like [12345] at the start of the *test* title.
-  if (!title) {
-    return null;
-  }
-  const match = title.match(/^\[(\d+)\]/);
-  return match ? match[1] : null;
-}
-
-function stripCaseIdPrefix(title: string): string {
-  // Remove a leading case ID like "[12345] " from the test title for display purposes.
-  return title.replace(/^\[\d+\]\s*/, "");
-}
-
-function stripTagFromSuiteTitle(suiteTitle: string): string {
-  // Remove everything from the first @ onwards (handles multiple tags)
-  return suiteTitle.replace(/\s*@.*$/, "").trim();
-}
-
-function stripAnsiCodes(text: string): string {
-  // Remove ANSI escape codes (e.g., [31m, [32m, [39m, [7m, [27m, [1m, [22m, etc.)
-  // Pattern matches: ESC[ followed by numbers and optional semicolons, ending with a letter
-  return text.replace(/\u001b\[[0-9;]*m/g, "");
-}
-
-function normalizeTestFilePath(filePath: string): string {
-  if (!filePath) {
-    return "";
-  }
-
-  // Normalize slashes to forward slashes
-  let normalized = filePath.replace(/\\/g, "/");
-
-  // If path contains "/tests/", extract everything from "tests/" onwards
-  const testsIndex = normalized.indexOf("/tests/");
-  if (testsIndex !== -1) {
-    normalized = normalized.substring(testsIndex + 1); // +1 to skip the leading "/"
-  }
-
-  // Try to remove workspace root if present
-  const workspaceRoot = process.cwd().replace(/\\/g, "/");
-  if (normalized.startsWith(workspaceRoot)) {
-    normalized = normalized.substring(workspaceRoot.length);
-  }
-
-  // Handle Windows drive prefixes (e.g., "C:/", "D:/")
-  if (/^[A-Za-z]:\//.test(normalized)) {
-    // Try to find "/tests/" in the path
-    const testsIndexInDrive = normalized.indexOf("/tests/");
-    if (testsIndexInDrive !== -1) {
-      normalized = normalized.substring(testsIndexInDrive + 1);
-    } else {
-      // Strip everything up to the last "/" (keep only filename)
-      const lastSlash = normalized.lastIndexOf("/");
-      if (lastSlash !== -1) {
-        normalized = normalized.substring(lastSlash + 1);
-      } else {
-        // No slash, strip drive prefix
-        const colonIndex = normalized.indexOf(":");
-        if (colonIndex !== -1) {
-          normalized = normalized.substring(colonIndex + 1).replace(/^\/+/, "");
-        }
-      }
-    }
-  }
-
-  // Remove leading slashes
-  normalized = normalized.replace(/^\/+/, "");
-
-  // Ensure no drive prefix remains
-  if (/^[A-Za-z]:/.test(normalized)) {
-    const lastSlash = normalized.lastIndexOf("/");
-    if (lastSlash !== -1) {
-      normalized = normalized.substring(lastSlash + 1);
-    } else {
-      const colonIndex = normalized.indexOf(":");
-      if (colonIndex !== -1) {
-        normalized = normalized.substring(colonIndex + 1).replace(/^\/+/, "");
-      }
-    }
-  }
-
-  // If it's a test file and doesn't start with "tests/", prepend it
-  if ((normalized.includes(".spec.ts") || normalized.includes(".test.ts")) &&
-    !normalized.startsWith("tests/") && !normalized.startsWith("/tests/")) {
-    normalized = `tests/${normalized}`;
-  }
-
-  // Final cleanup: remove any remaining leading slashes
-  normalized = normalized.replace(/^\/+/, "");
-
-  return normalized || filePath;
-}
-
 function filterTestsForRunPlan(
   tests: PlaywrightTestResult[],
   plan: RunPlan
@@ -532,147 +267,127 @@ function filterTestsForRunPlan(
   });
 }
 
-async function getTestPoints(
-  orgUrl: string,
-  project: string,
-  token: string,
+export async function getTestPoints(
+  client: AdoClient,
   planId: number,
   suiteId: number
 ): Promise<TestPoint[]> {
-  const url = `${orgUrl}/${project}/_apis/test/Plans/${planId}/Suites/${suiteId}/points?api-version=7.0`;
+  return client.getAllPages<TestPoint>(
+    `_apis/test/Plans/${planId}/Suites/${suiteId}/points?api-version=7.0`,
+    async (response) => {
+      const errorText = await response.text();
+      throw new Error(`Failed to get test points: ${response.status} ${errorText}`);
+    }
+  );
+}
 
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-    },
-  });
+const STEPS_FIELD = "Microsoft.VSTS.TCM.Steps";
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get test points: ${response.status} ${errorText}`);
-  }
+// workitemsbatch accepts at most 200 IDs per request
+const WORK_ITEMS_BATCH_SIZE = 200;
 
-  const data = (await response.json()) as { value: TestPoint[] };
-  return data.value;
-}
+/**
+ * Fetches step definitions for many test cases through the workitemsbatch API, up to
+ * WORK_ITEMS_BATCH_SIZE IDs per request and `concurrency` requests at a time.
+ * Cases in a failed batch are left out with a warning, so their results carry no step mapping.
+ */
+async function getTestCaseStepsBatch(
+  client: AdoClient,
+  caseIds: string[],
+  concurrency: number,
+  warn: (message: string) => void
+): Promise<Map<string, TestCaseStep[]>> {
+  const stepsByCase = new Map<string, TestCaseStep[]>();
+  const batches = chunk(caseIds, WORK_ITEMS_BATCH_SIZE);
+
+  const settled = await mapWithConcurrency(batches, concurrency, async (ids) => {
+    // workitemsbatch is a read even though it is a POST; errorPolicy "Omit" returns null for deleted IDs
+    const response = await client.request("_apis/wit/workitemsbatch?api-version=7.0", {
+      method: "POST",
+      body: { ids: ids.map((id) => parseInt(id, 10)), fields: [STEPS_FIELD], errorPolicy: "Omit" },
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to get test cases: ${response.status} ${errorText}`);
+    }
+    return (await response.json()) as {
+      value: Array<{ id: number; fields?: Record<string, string | undefined> } | null>;
+    };
+  });
 
-async function getTestCaseSteps(
-  orgUrl: string,
-  project: string,
-  token: string,
-  testCaseId: string
-): Promise<TestCaseStep[]> {
-  // Fetch test case work item to extract step definitions from Microsoft.VSTS.TCM.Steps field
-  const url = `${orgUrl}/${project}/_apis/wit/workitems/${testCaseId}?$expand=all&api-version=7.0`;
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-    },
+  settled.forEach((result, index) => {
+    if (result.status === "rejected") {
+      warn(`Failed to get steps for test cases ${batches[index].join(", ")}: ${result.reason}`);
+      return;
+    }
+    for (const workItem of result.value.value) {
+      if (!workItem) continue;
+      const stepsXml = workItem.fields?.[STEPS_FIELD];
+      stepsByCase.set(String(workItem.id), stepsXml ? parseTestCaseSteps(stepsXml) : []);
+    }
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get test case: ${response.status} ${errorText}`);
-  }
+  return stepsByCase;
+}
 
-  const workItem = (await response.json()) as {
-    fields: {
-      "Microsoft.VSTS.TCM.Steps"?: string;
-      "System.Title"?: string;
-      "System.Rev"?: number;
-    };
-  };
+/**
+ * Reads the build a run belongs to from BUILD_ID, BUILD_NUMBER and BUILD_URI (or their ADO pipeline names).
+ */
+function readBuildConfig(warn: (message: string) => void): { id: number; number?: string; uri?: string } | undefined {
+  // Build configuration (optional)
+  // Note: ADO requires a valid BUILD_ID for build information to appear in the test run.
+  // BUILD_NUMBER alone will not display without a valid BUILD_ID.
+  // If you only have BUILD_NUMBER, you'll need to find the corresponding BUILD_ID in ADO.
+  const buildId = process.env.BUILD_ID || process.env.BUILD_BUILDID;
+  const buildNumber = process.env.BUILD_NUMBER || process.env.BUILD_BUILDNUMBER;
+  const buildUri = process.env.BUILD_URI || process.env.BUILD_BUILDURI;
 
-  const stepsXml = workItem.fields["Microsoft.VSTS.TCM.Steps"];
-  if (!stepsXml) {
-    return [];
+  // ADO requires a valid build ID for build information to display
+  // If no build ID is provided, skip build configuration entirely
+  if (!buildId) {
+    if (buildNumber) {
+      warn(`Warning: BUILD_NUMBER is set but BUILD_ID is missing. `);
+      warn(`ADO requires a valid BUILD_ID for build information to appear. `);
+      warn(`Skipping build configuration. To include build info, set BUILD_ID to a valid build ID from ADO.`);
+    }
+    return undefined;
   }
 
-  // Parse XML to extract step IDs and actions
-  // XML format: <steps><step id="1"><parameterizedString>Action</parameterizedString><parameterizedString>Expected</parameterizedString></step></steps>
-  // Match each step and extract the first parameterizedString (action)
-  const stepRegex = /<step id="(\d+)"[^>]*>([\s\S]*?)<\/step>/g;
-  const steps: TestCaseStep[] = [];
-  let match;
+  const parsedId = parseInt(buildId, 10);
+  if (isNaN(parsedId)) {
+    warn(`Warning: BUILD_ID "${buildId}" is not a valid number. Skipping build configuration.`);
+    return undefined;
+  }
 
-  while ((match = stepRegex.exec(stepsXml)) !== null) {
-    const stepId = match[1];
-    const stepContent = match[2];
+  // Build a config object with required id and optional number/uri
+  const config: { id: number; number?: string; uri?: string } = {
+    id: parsedId,
+  };
 
-    // Extract the first parameterizedString (action)
-    const actionMatch = stepContent.match(/<parameterizedString[^>]*>([\s\S]*?)<\/parameterizedString>/);
-    const action = actionMatch ? actionMatch[1].trim() : "";
+  if (buildNumber) {
+    config.number = buildNumber;
+  }
 
-    steps.push({
-      // ADO requires actionPath to be zero-padded to 8 digits (e.g., "00000001")
-      id: stepId.padStart(8, "0"),
-      action: action,
-    });
+  if (buildUri) {
+    config.uri = buildUri;
   }
 
-  return steps;
+  return config;
 }
 
-async function createTestRun(
-  orgUrl: string,
-  project: string,
-  token: string,
+/**
+ * Builds the create-run payload: a planned, automated run over the given test points.
+ */
+function buildTestRunBody(
   plan: RunPlan,
   suiteName: string,
   testPointIds: number[],
-  quiet: boolean = false
-): Promise<number> {
-  const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
-  const warn = quiet ? () => { } : (...args: any[]) => console.warn(...args);
-  const url = `${orgUrl}/${project}/_apis/test/runs?api-version=7.0`;
+  warn: (message: string) => void
+): Record<string, unknown> {
   // Remove Playwright tags (e.g., @authentication) from suite title for cleaner run names
   const cleanedSuiteName = stripTagFromSuiteTitle(suiteName);
   const name = `${plan.tag} - ${cleanedSuiteName}`;
-
-  // Build configuration (optional)
-  // Note: ADO requires a valid BUILD_ID for build information to appear in the test run.
-  // BUILD_NUMBER alone will not display without a valid BUILD_ID.
-  // If you only have BUILD_NUMBER, you'll need to find the corresponding BUILD_ID in ADO.
-  const buildConfig: { id: number; number?: string; uri?: string } | undefined = (() => {
-    const buildId = process.env.BUILD_ID || process.env.BUILD_BUILDID;
-    const buildNumber = process.env.BUILD_NUMBER || process.env.BUILD_BUILDNUMBER;
-    const buildUri = process.env.BUILD_URI || process.env.BUILD_BUILDURI;
-
-    // ADO requires a valid build ID for build information to display
-    // If no build ID is provided, skip build configuration entirely
-    if (!buildId) {
-      if (buildNumber) {
-        warn(`Warning: BUILD_NUMBER is set but BUILD_ID is missing. `);
-        warn(`ADO requires a valid BUILD_ID for build information to appear. `);
-        warn(`Skipping build configuration. To include build info, set BUILD_ID to a valid build ID from ADO.`);
-      }
-      return undefined;
-    }
-
-    const parsedId = parseInt(buildId, 10);
-    if (isNaN(parsedId)) {
-      warn(`Warning: BUILD_ID "${buildId}" is not a valid number. Skipping build configuration.`);
-      return undefined;
-    }
-
-    // Build a config object with required id and optional number/uri
-    const config: { id: number; number?: string; uri?: string } = {
-      id: parsedId,
-    };
-
-    if (buildNumber) {
-      config.number = buildNumber;
-    }
-
-    if (buildUri) {
-      config.uri = buildUri;
-    }
-
-    return config;
-  })();
+  const buildConfig = readBuildConfig(warn);
 
   // Create a planned test run linked to the test plan and specific test points
   // Note: testSuite should be set automatically by ADO based on pointIds
@@ -690,14 +405,41 @@ async function createTestRun(
     body.build = buildConfig;
   }
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-    },
-    body: JSON.stringify(body),
-  });
+  return body;
+}
+
+/**
+ * Builds the create-run payload for an automated run: no test plan or test points, named from
+ * ADO_RUN_NAME or the build number.
+ */
+function buildAutomatedRunBody(warn: (message: string) => void): Record<string, unknown> {
+  const buildNumber = process.env.BUILD_NUMBER || process.env.BUILD_BUILDNUMBER;
+  const name = process.env.ADO_RUN_NAME || (buildNumber ? `Playwright - ${buildNumber}` : "Playwright");
+  const buildConfig = readBuildConfig(warn);
+
+  const body: any = {
+    name,
+    automated: true,
+    state: "InProgress",
+  };
+
+  if (buildConfig) {
+    body.build = buildConfig;
+  }
+
+  return body;
+}
+
+/**
+ * Creates a test run from a create-run payload. Planned runs pass their suite ID so the run is
+ * associated with the suite when ADO does not set it from the test points.
+ */
+async function createTestRun(
+  client: AdoClient,
+  body: Record<string, unknown>,
+  suiteId?: number
+): Promise<number> {
+  const response = await client.request("_apis/test/runs?api-version=7.0", { method: "POST", body });
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -719,20 +461,15 @@ async function createTestRun(
   };
 
   // Check if suite was set on initial creation
-  if (!data.testSuite?.id) {
+  if (suiteId !== undefined && !data.testSuite?.id) {
     // Update suite association after creation if not set initially
-    const updateUrl = `${orgUrl}/${project}/_apis/test/runs/${data.id}?api-version=7.0`;
-    const updateResponse = await fetch(updateUrl, {
+    const updateResponse = await client.request(`_apis/test/runs/${data.id}?api-version=7.0`, {
       method: "PATCH",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-      },
-      body: JSON.stringify({
+      body: {
         testSuite: {
-          id: plan.suiteId,
+          id: suiteId,
         },
-      }),
+      },
     });
 
     if (!updateResponse.ok) {
@@ -745,37 +482,22 @@ async function createTestRun(
 }
 
 async function getExistingTestResults(
-  orgUrl: string,
-  project: string,
-  token: string,
+  client: AdoClient,
   runId: number
 ): Promise<Map<number, number>> {
   // Returns a map of testPointId -> testResultId for existing results in the run
   // Planned runs automatically create placeholder results that need to be updated
-  const url = `${orgUrl}/${project}/_apis/test/Runs/${runId}/results?api-version=7.0`;
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-    },
-  });
-
-  if (!response.ok) {
+  const results = await client.getAllPages<{
+    id: number;
+    testPoint?: { id: number };
+    [key: string]: any;
+  }>(`_apis/test/Runs/${runId}/results?api-version=7.0`, async (response) => {
     const errorText = await response.text();
     throw new Error(`Failed to get existing test results: ${response.status} ${errorText}`);
-  }
-
-  const data = (await response.json()) as {
-    value: Array<{
-      id: number;
-      testPoint?: { id: number };
-      [key: string]: any;
-    }>;
-  };
+  });
 
   const resultMap = new Map<number, number>();
-  for (const result of data.value) {
+  for (const result of results) {
     if (result.testPoint?.id) {
       // ADO returns testPoint.id as a string, however it must be a number to match testPoint.id values
       const testPointId = typeof result.testPoint.id === "string"
@@ -788,132 +510,269 @@ async function getExistingTestResults(
   return resultMap;
 }
 
-async function postTestResults(
-  orgUrl: string,
-  project: string,
-  token: string,
-  runId: number,
+// Outcomes ADO accepts for a test result
+const ADO_OUTCOMES = [
+  "Passed", "Failed", "Inconclusive", "Timeout", "Aborted", "Blocked", "NotExecuted",
+  "Warning", "Error", "NotApplicable", "Paused", "NotImpacted",
+];
+
+/**
+ * Maps a Playwright status to an ADO outcome.
+ */
+function toAdoOutcome(status: PlaywrightTestAttempt["status"]): string {
+  switch (status) {
+    case "passed":
+      return "Passed";
+    case "failed":
+      return "Failed";
+    case "timedOut":
+      return "Timeout";
+    case "interrupted":
+      return "Aborted";
+    default:
+      return "NotExecuted";
+  }
+}
+
+/**
+ * Reads ADO_FLAKY_OUTCOME, the outcome reported for tests that passed only on retry.
+ * Returns undefined when unset, so flaky tests are reported as Passed.
+ */
+function readFlakyOutcome(): string | undefined {
+  const value = process.env.ADO_FLAKY_OUTCOME?.trim();
+  if (!value) {
+    return undefined;
+  }
+  const outcome = ADO_OUTCOMES.find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+  if (!outcome) {
+    throw new Error(`ADO_FLAKY_OUTCOME must be one of ${ADO_OUTCOMES.join(", ")}, got "${value}"`);
+  }
+  return outcome;
+}
+
+/**
+ * Lists the failed attempts of a retried test, e.g. "attempt 1" or "attempts 1 and 2".
+ */
+function describeFailedAttempts(attempts: PlaywrightTestAttempt[]): string {
+  const failed = attempts.map((attempt, index) => ({ attempt, number: index + 1 }))
+    .filter(({ attempt }) => isFailedStatus(attempt.status))
+    .map(({ number }) => String(number));
+  if (failed.length === 1) {
+    return `attempt ${failed[0]}`;
+  }
+  return `attempts ${failed.slice(0, -1).join(", ")} and ${failed[failed.length - 1]}`;
+}
+
+/**
+ * Every attempt at a test; tests flattened without attempts count as a single attempt.
+ */
+function getAttempts(test: PlaywrightTestResult): PlaywrightTestAttempt[] {
+  return test.attempts ?? [
+    { retry: test.retry ?? 0, status: test.status, durationMs: test.durationMs, startTime: test.startTime, steps: test.steps },
+  ];
+}
+
+/**
+ * Builds the result fields shared by plan and automated runs: outcome, timing, error, comment
+ * and the fields mapped from annotations and tags.
+ */
+function buildResultCommon(test: PlaywrightTestResult, flakyOutcome: string | undefined): AzureDevOpsTestResult {
+  // A test that passed only on retry can be reported with a configured outcome (e.g. Warning)
+  const outcome = test.flaky && flakyOutcome ? flakyOutcome : toAdoOutcome(test.status);
+  const attempts = getAttempts(test);
+
+  // Calculate completedDate from startTime + duration
+  const completedDate = test.startTime
+    ? new Date(new Date(test.startTime).getTime() + test.durationMs).toISOString()
+    : undefined;
+
+  // Build comment with additional metadata if available
+  const commentParts: string[] = [];
+  if (test.flaky) {
+    commentParts.push(`Flaky: passed on attempt ${attempts.length} of ${attempts.length} after failing ${describeFailedAttempts(attempts)}`);
+  } else if (attempts.length > 1) {
+    commentParts.push(`Retried: ${test.status} on all ${attempts.length} attempts`);
+  } else if (test.retry !== undefined && test.retry > 0) {
+    commentParts.push(`Retry: ${test.retry}`);
+  }
+  if (test.resultFields) {
+    commentParts.push(...test.resultFields.comments);
+  }
+  if (test.stdout && test.stdout.length > 0) {
+    commentParts.push(`Stdout: ${test.stdout.join("\n")}`);
+  }
+  if (test.stderr && test.stderr.length > 0) {
+    commentParts.push(`Stderr: ${test.stderr.join("\n")}`);
+  }
+  const comment = commentParts.length > 0 ? commentParts.join("\n") : undefined;
+
+  const result: AzureDevOpsTestResult = {
+    outcome,
+    automatedTestType: "Playwright",
+    automatedTestStorage: test.file && test.file.trim().length > 0 ? normalizeTestFilePath(test.file) : undefined,
+    state: "Completed",
+    durationInMs: test.durationMs,
+    startedDate: test.startTime,
+    completedDate: completedDate,
+    errorMessage: test.errorMessage,
+    stackTrace: test.errorStack && test.errorStack.trim().length > 0 ? test.errorStack : undefined,
+    comment: comment,
+    computerName: hostname(),
+  };
+
+  // Annotation and tag fields; known bugs are only linked when the test did not pass
+  const fields = test.resultFields;
+  if (fields?.owner) {
+    result.owner = { displayName: fields.owner };
+  }
+  if (fields?.priority !== undefined) {
+    result.priority = fields.priority;
+  }
+  if (fields && fields.customFields.length > 0) {
+    result.customFields = fields.customFields;
+  }
+  if (fields && fields.bugIds.length > 0 && test.status !== "passed") {
+    result.associatedBugs = fields.bugIds.map((id) => ({ id }));
+  }
+
+  return result;
+}
+
+/**
+ * Builds the result payload for each Playwright test. Tests whose test point already has a
+ * placeholder result in the run (testPointId -> resultId) carry its ID so they are updated.
+ */
+function buildTestResults(
   tests: PlaywrightTestResult[],
   testPoints: Map<string, TestPoint>,
   testCaseSteps: Map<string, TestCaseStep[]>,
   planId: number,
   suiteId: number,
-  quiet: boolean = false
-): Promise<Map<string, number>> {
-  // Returns a map of caseId -> testCaseResultId for attachment uploads
-  const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
-  const warn = quiet ? () => { } : (...args: any[]) => console.warn(...args);
-  const existingResults = await getExistingTestResults(orgUrl, project, token, runId);
-
-  const url = `${orgUrl}/${project}/_apis/test/Runs/${runId}/results?api-version=7.0`;
+  existingResults: Map<number, number>
+): AzureDevOpsTestResult[] {
+  const flakyOutcome = readFlakyOutcome();
 
-  const results: AzureDevOpsTestResult[] = await Promise.all(
-    tests.map(async (test) => {
-      const caseId = extractCaseId(test.testTitle);
-      if (!caseId) {
-        throw new Error(`Test "${test.fullTitle}" does not have a case ID in format [12345]`);
-      }
+  return tests.map((test) => {
+    const caseId = extractCaseId(test.testTitle);
+    if (!caseId) {
+      throw new Error(`Test "${test.fullTitle}" does not have a case ID in format [12345]`);
+    }
 
-      const testPoint = testPoints.get(caseId);
-      if (!testPoint) {
-        throw new Error(`Test case ${caseId} not found in test plan suite`);
-      }
+    const testPoint = testPoints.get(caseId);
+    if (!testPoint) {
+      throw new Error(`Test case ${caseId} not found in test plan suite`);
+    }
 
-      // Map Playwright test status to ADO outcome values
-      let outcome: string;
-      switch (test.status) {
-        case "passed":
-          outcome = "Passed";
-          break;
-        case "failed":
-          outcome = "Failed";
-          break;
-        case "skipped":
-          outcome = "NotExecuted";
-          break;
-        default:
-          outcome = "NotExecuted";
-      }
+    const common = buildResultCommon(test, flakyOutcome);
 
-      // Get test case steps to map Playwright steps to actual step IDs
-      const steps = testCaseSteps.get(caseId) || [];
+    // Get test case steps to map Playwright steps to actual step IDs
+    const steps = testCaseSteps.get(caseId) || [];
 
+    // Each attempt (the first run plus every retry) becomes an ADO iteration, numbered from 1
+    const attempts = getAttempts(test);
+    const iterations: AzureDevOpsIterationDetail[] = attempts.map((attempt, attemptIndex) => {
+      const iterationId = attemptIndex + 1;
       // Map Playwright steps to ADO actionResults using actual test case step IDs
       // Each Playwright step is matched to an ADO test case step by index
-      const actionResults: AzureDevOpsActionResult[] | undefined = test.steps?.map(
-        (playwrightStep, stepIndex) => {
-          // Match Playwright step to ADO test case step by index, fallback to generated ID if no match
-          const testCaseStep = steps[stepIndex];
-          const actionPath = testCaseStep?.id || String(stepIndex + 1).padStart(8, "0");
-
-          return {
-            actionPath: actionPath,
-            iterationId: 1,
-            outcome: outcome === "Passed" ? "Passed" : "Failed",
-            durationInMs: playwrightStep.duration,
-            comment: playwrightStep.title,
-          };
-        }
-      );
+      const actionResults: AzureDevOpsActionResult[] = (attempt.steps ?? []).map((playwrightStep, stepIndex) => {
+        // Match Playwright step to ADO test case step by index, fallback to generated ID if no match
+        const testCaseStep = steps[stepIndex];
+        const actionPath = testCaseStep?.id || String(stepIndex + 1).padStart(8, "0");
+
+        return {
+          actionPath: actionPath,
+          iterationId,
+          outcome: attempt.status === "passed" ? "Passed" : "Failed",
+          durationInMs: playwrightStep.duration,
+          comment: playwrightStep.title,
+        };
+      });
+
+      return {
+        id: iterationId,
+        // A single attempt carries the result outcome, as before retries were reported
+        outcome: attempts.length === 1 ? common.outcome : toAdoOutcome(attempt.status),
+        ...(attempts.length > 1 && {
+          durationInMs: attempt.durationMs,
+          startedDate: attempt.startTime,
+          errorMessage: attempt.errorMessage,
+          comment: `Attempt ${iterationId} of ${attempts.length}${attempt.retry > 0 ? ` (retry ${attempt.retry})` : ""}`,
+        }),
+        actionResults,
+      };
+    });
 
-      // Calculate completedDate from startTime + duration
-      const completedDate = test.startTime
-        ? new Date(new Date(test.startTime).getTime() + test.durationMs).toISOString()
-        : undefined;
+    const existingResultId = existingResults.get(testPoint.id);
+
+    const result: AzureDevOpsTestResult = {
+      ...(existingResultId && { id: existingResultId }),
+      testPointId: testPoint.id,
+      testCaseId: caseId,
+      testCaseRevision: testPoint.testCase.revision,
+      testCaseTitle: testPoint.testCase.name,
+      ...common,
+      // Remove case ID prefix (e.g., "[8] ") from test title for cleaner display
+      automatedTestName: stripCaseIdPrefix(test.testTitle),
+      testPlan: { id: planId },
+      testSuite: { id: suiteId },
+    };
 
-      // Build comment with additional metadata if available
-      const commentParts: string[] = [];
-      if (test.retry !== undefined && test.retry > 0) {
-        commentParts.push(`Retry: ${test.retry}`);
-      }
-      if (test.stdout && test.stdout.length > 0) {
-        commentParts.push(`Stdout: ${test.stdout.join("\n")}`);
-      }
-      if (test.stderr && test.stderr.length > 0) {
-        commentParts.push(`Stderr: ${test.stderr.join("\n")}`);
-      }
-      const comment = commentParts.length > 0 ? commentParts.join("\n") : undefined;
-
-      const existingResultId = existingResults.get(testPoint.id);
-
-      const result: AzureDevOpsTestResult = {
-        ...(existingResultId && { id: existingResultId }),
-        testPointId: testPoint.id,
-        testCaseId: caseId,
-        testCaseRevision: testPoint.testCase.revision,
-        testCaseTitle: testPoint.testCase.name,
-        outcome,
-        // Remove case ID prefix (e.g., "[8] ") from test title for cleaner display
-        automatedTestName: stripCaseIdPrefix(test.testTitle),
-        automatedTestType: "Playwright",
-        automatedTestStorage: test.file && test.file.trim().length > 0 ? normalizeTestFilePath(test.file) : undefined,
-        state: "Completed",
-        durationInMs: test.durationMs,
-        startedDate: test.startTime,
-        completedDate: completedDate,
-        errorMessage: test.errorMessage,
-        stackTrace: test.errorStack && test.errorStack.trim().length > 0 ? test.errorStack : undefined,
-        comment: comment,
-        computerName: hostname(),
-        testPlan: { id: planId },
-        testSuite: { id: suiteId },
-      };
+    // Include iterationDetails when the test was retried, or when its single attempt has steps
+    if (iterations.length > 1 || iterations[0].actionResults.length > 0) {
+      result.iterationDetails = iterations;
+    }
 
-      // Include iterationDetails with actionResults if steps are available
-      // ADO uses iterationDetails to represent test execution iterations (typically just one)
-      if (actionResults && actionResults.length > 0) {
-        result.iterationDetails = [
-          {
-            id: 1,
-            outcome: outcome,
-            actionResults,
-          },
-        ];
-      }
+    return result;
+  });
+}
 
-      return result;
-    })
-  );
+/**
+ * Builds the fully qualified name ADO Test analytics groups automated results by: the spec path
+ * as a dotted namespace, then the describe and test titles, e.g. "smoke.home.spec.Home > shows the hero".
+ */
+function buildAutomatedTestName(test: PlaywrightTestResult): string {
+  const namespace = (test.file ? normalizeTestFilePath(test.file) : "unknown")
+    .replace(/^tests\//, "")
+    .replace(/\.[jt]s$/, "")
+    .replace(/[\\/]/g, ".");
+  const title = stripCaseIdPrefix(test.testTitle);
+  // Tests outside a describe block have the spec file name as their suite title
+  const describe = test.suiteTitle && test.suiteTitle !== basename(test.file ?? "") ? `${test.suiteTitle} > ` : "";
+  return `${namespace}.${describe}${title}`;
+}
+
+/**
+ * Builds the result payload for each test in an automated run. No test plan is involved, so
+ * results are identified by automatedTestName and automatedTestStorage only.
+ */
+function buildAutomatedTestResults(tests: PlaywrightTestResult[]): AzureDevOpsTestResult[] {
+  const flakyOutcome = readFlakyOutcome();
+  return tests.map((test) => ({
+    testCaseTitle: stripCaseIdPrefix(test.testTitle),
+    ...buildResultCommon(test, flakyOutcome),
+    automatedTestName: buildAutomatedTestName(test),
+  }));
+}
+
+async function postTestResults(
+  client: AdoClient,
+  runId: number,
+  tests: PlaywrightTestResult[],
+  testPoints: Map<string, TestPoint>,
+  testCaseSteps: Map<string, TestCaseStep[]>,
+  planId: number,
+  suiteId: number,
+  chunkSize: number,
+  quiet: boolean = false
+): Promise<Map<string, number>> {
+  // Returns a map of caseId -> testCaseResultId for attachment uploads
+  const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
+  const warn = quiet ? () => { } : (...args: any[]) => console.warn(...args);
+  const existingResults = await getExistingTestResults(client, runId);
+
+  const resultsPath = `_apis/test/Runs/${runId}/results?api-version=7.0`;
+
+  const results = buildTestResults(tests, testPoints, testCaseSteps, planId, suiteId, existingResults);
 
   // Separate results that have existing IDs (need updates) from new results (need creation)
   const resultsToUpdate = results.filter((r) => r.id !== undefined);
@@ -925,21 +784,16 @@ async function postTestResults(
     warn("This may indicate that ADO didn't create placeholder results, or testPointIds don't match.");
     // Fallback to POST for creating new results when no placeholders exist
     const resultsForPost = results.map(({ id, ...result }) => result);
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-      },
-      body: JSON.stringify(resultsForPost),
-    });
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to post test results: ${response.status} ${errorText}`);
+    for (const resultsChunk of chunk(resultsForPost, chunkSize)) {
+      const response = await client.request(resultsPath, { method: "POST", body: resultsChunk });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to post test results: ${response.status} ${errorText}`);
+      }
     }
 
     // Fetch the created results to get their IDs
-    const createdResults = await getExistingTestResults(orgUrl, project, token, runId);
+    const createdResults = await getExistingTestResults(client, runId);
     for (const test of tests) {
       const caseId = extractCaseId(test.testTitle);
       if (caseId) {
@@ -959,18 +813,14 @@ async function postTestResults(
   if (!quiet && resultsToUpdate.length > 0) {
     log("Sample result being sent:", JSON.stringify(resultsToUpdate[0], null, 2));
   }
-  const response = await fetch(url, {
-    method: "PATCH",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-    },
-    body: JSON.stringify(resultsToUpdate),
-  });
+  // Large runs are sent in chunks to keep each request under ADO's payload limits
+  for (const resultsChunk of chunk(resultsToUpdate, chunkSize)) {
+    const response = await client.request(resultsPath, { method: "PATCH", body: resultsChunk });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to update test results: ${response.status} ${errorText}`);
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to update test results: ${response.status} ${errorText}`);
+    }
   }
 
   // Build result ID map from existing results
@@ -992,16 +842,16 @@ async function postTestResults(
 
 /**
  * Maps Playwright test IDs to Azure DevOps test result IDs and uploads artifacts.
+ * `resultIdMap` is keyed by case ID, or by automated test name for tests without one.
  */
 async function uploadAttachmentsForTests(
-  orgUrl: string,
-  project: string,
-  token: string,
+  client: AdoClient,
   runId: number,
   tests: PlaywrightTestResult[],
   resultIdMap: Map<string, number>,
   testPointMap: Map<string, TestPoint>,
-  quiet: boolean = false
+  quiet: boolean = false,
+  onUploaded: (resultKey: string) => Promise<void> = async () => { }
 ): Promise<void> {
   const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
   // Always show warnings for attachment issues, even in quiet mode
@@ -1022,12 +872,13 @@ async function uploadAttachmentsForTests(
 
   const testResultsDir = resolve(process.cwd(), "test-results");
 
+  // Size budgets apply across every result in the run
+  const pipeline = await createAttachmentPipeline();
+
   // Upload artifacts for each failed test
   for (const test of tests) {
-    const caseId = extractCaseId(test.testTitle);
-    if (!caseId) {
-      continue;
-    }
+    // Automated runs have no case IDs, so their results are keyed by automated test name
+    const caseId = extractCaseId(test.testTitle) ?? buildAutomatedTestName(test);
 
     const testCaseResultId = resultIdMap.get(caseId);
     if (!testCaseResultId) {
@@ -1122,8 +973,8 @@ async function uploadAttachmentsForTests(
             const hasArtifacts = existsSync(resolve(possibleDir, "trace.zip")) ||
               existsSync(resolve(possibleDir, "error-context.md"));
 
-            // Match if: (file part + title match) OR (file part + has artifacts for failed tests)
-            if (hasFilePart && (hasTitleMatch || hasTitleSubstring || (test.status === "failed" && hasArtifacts))) {
+            // Match if: (file part + title match) OR (file part + has artifacts for failed, timed-out or interrupted tests)
+            if (hasFilePart && (hasTitleMatch || hasTitleSubstring || (isFailedStatus(test.status) && hasArtifacts))) {
               testResultDir = possibleDir;
               log(`Found test result directory: ${entry.name} for test "${test.testTitle}"`);
               break;
@@ -1152,7 +1003,7 @@ async function uploadAttachmentsForTests(
         }
 
         // Last resort: for failed tests, find any directory with artifacts that matches the file path
-        if (!testResultDir && test.status === "failed" && filePart) {
+        if (!testResultDir && isFailedStatus(test.status) && filePart) {
           try {
             const { readdir } = await import("fs/promises");
             const entries = await readdir(testResultsDir, { withFileTypes: true });
@@ -1177,19 +1028,21 @@ async function uploadAttachmentsForTests(
       }
     }
 
-    if (testResultDir) {
+    // Screenshots, videos and testInfo.attach() output are listed in the report, so they need no result directory
+    if (testResultDir || test.attachments?.length) {
       try {
         await uploadTestArtifacts(
-          orgUrl,
-          project,
-          token,
+          client,
           runId,
           testCaseResultId,
           testResultDir,
           testResultsDir,
-          quiet
+          quiet,
+          pipeline,
+          test.attachments
         );
         log(`Uploaded artifacts for test case ${caseId} (result ID: ${testCaseResultId})`);
+        await onUploaded(caseId);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : String(err);
         warn(`Failed to upload artifacts for test case ${caseId}: ${errorMessage}`);
@@ -1201,24 +1054,19 @@ async function uploadAttachmentsForTests(
 }
 
 async function completeTestRun(
-  orgUrl: string,
-  project: string,
-  token: string,
-  runId: number
+  client: AdoClient,
+  runId: number,
+  comment?: string
 ): Promise<void> {
-  const url = `${orgUrl}/${project}/_apis/test/runs/${runId}?api-version=7.0`;
   const completedDate = new Date().toISOString();
 
-  const response = await fetch(url, {
+  const response = await client.request(`_apis/test/runs/${runId}?api-version=7.0`, {
     method: "PATCH",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-    },
-    body: JSON.stringify({
+    body: {
       state: "Completed",
       completedDate: completedDate,
-    }),
+      ...(comment && { comment }),
+    },
   });
 
   if (!response.ok) {
@@ -1227,7 +1075,38 @@ async function completeTestRun(
   }
 }
 
-export async function syncAzureDevOpsFromPlaywright(quiet: boolean = false): Promise<void> {
+/**
+ * Closes a run an interrupted sync left in progress, marking it Aborted.
+ */
+async function abortTestRun(client: AdoClient, runId: number): Promise<void> {
+  const response = await client.request(`_apis/test/runs/${runId}?api-version=7.0`, {
+    method: "PATCH",
+    body: {
+      state: "Aborted",
+      completedDate: new Date().toISOString(),
+      comment: "Aborted by pilot: the sync that created this run did not finish",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to abort test run ${runId}: ${response.status} ${errorText}`);
+  }
+}
+
+/**
+ * Azure DevOps connection settings from ADO_ORG_URL, ADO_PROJECT and ADO_TOKEN.
+ */
+export interface AdoConfig {
+  orgUrl: string;
+  project: string;
+  token: string;
+}
+
+/**
+ * Reads the Azure DevOps connection settings from the environment.
+ */
+export function readAdoConfig(): AdoConfig {
   const orgUrl = process.env.ADO_ORG_URL;
   const project = process.env.ADO_PROJECT;
   const token = process.env.ADO_TOKEN;
@@ -1237,119 +1116,546 @@ export async function syncAzureDevOpsFromPlaywright(quiet: boolean = false): Pro
       "Azure DevOps environment variables (ADO_ORG_URL, ADO_PROJECT, ADO_TOKEN) are required."
     );
   }
+  return { orgUrl: orgUrl.replace(/\/+$/, ""), project, token };
+}
+
+/**
+ * Sync options. Each defaults from the environment (ADO_SYNC_DRY_RUN, ADO_SYNC_DRY_RUN_OUTPUT,
+ * ADO_SYNC_CONCURRENCY, ADO_SYNC_CHUNK_SIZE, ADO_FILE_BUGS, ADO_SYNC_MODE, PILOT_JUNIT_OUTPUT, PILOT_TRX_OUTPUT,
+ * ADO_SYNC_LEDGER).
+ */
+export interface SyncOptions {
+  dryRun?: boolean;
+  dryRunOutput?: string;
+  /** Run plans synced at once, and work item batches fetched at once. */
+  concurrency?: number;
+  /** Test results sent per request. */
+  chunkSize?: number;
+  /** File a Bug work item for each failed case (ADO_FILE_BUGS). */
+  fileBugs?: boolean;
+  /** Publish one automated run without a test plan (ADO_SYNC_MODE=automated). */
+  automated?: boolean;
+  /** Also write the results as JUnit XML to this path (PILOT_JUNIT_OUTPUT). */
+  junitOutput?: string;
+  /** Also write the results as VSTest TRX to this path (PILOT_TRX_OUTPUT). */
+  trxOutput?: string;
+  /** Sync ledger file, used to resume an interrupted sync (ADO_SYNC_LEDGER). */
+  ledgerPath?: string;
+  /** Abort the runs an interrupted sync left in progress, instead of syncing. */
+  abortIncomplete?: boolean;
+}
+
+/**
+ * A run the sync would create in dry-run mode, with every payload it would send.
+ */
+interface DryRunEntry {
+  featureKey?: string; // Plan, feature and suite are unset for an automated run
+  planId?: number;
+  suiteId?: number;
+  automated?: boolean;
+  run: Record<string, unknown>;
+  results: AzureDevOpsTestResult[];
+  attachmentCaseIds: string[];
+}
+
+/**
+ * What syncing one run plan did: skipped (no matching tests or points), or synced into a run.
+ */
+type RunPlanOutcome =
+  | { status: "skipped" }
+  | { status: "synced"; tests: number; flaky: number; runId?: number; resumed?: boolean; dryRun?: DryRunEntry };
+
+const DEFAULT_DRY_RUN_OUTPUT = "test-results/ado-sync-dry-run.json";
+const DEFAULT_SYNC_CONCURRENCY = 4;
+const DEFAULT_SYNC_CHUNK_SIZE = 100;
+const AUTOMATED_LEDGER_KEY = "automated";
+
+/**
+ * Picks the tests whose artifacts are uploaded (failed, timed-out and interrupted tests only unless ADO_ATTACH_ON_FAILURE_ONLY=false).
+ */
+function selectTestsForAttachments(tests: PlaywrightTestResult[]): PlaywrightTestResult[] {
+  const attachOnFailureOnly = process.env.ADO_ATTACH_ON_FAILURE_ONLY !== "false";
+  return attachOnFailureOnly ? tests.filter((t) => isFailedStatus(t.status)) : tests;
+}
+
+/**
+ * Writes the dry-run payloads to a JSON file, or prints them when the output is "-".
+ * Returns the file path, or null when printed.
+ */
+async function writeDryRun(entries: DryRunEntry[], output: string): Promise<string | null> {
+  const content = JSON.stringify({ generatedAt: new Date().toISOString(), runs: entries }, null, 2);
+  if (output === "-") {
+    console.log(content);
+    return null;
+  }
+  const outputPath = resolve(process.cwd(), output);
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, content + "\n", "utf-8");
+  return outputPath;
+}
+
+export async function syncAzureDevOpsFromPlaywright(quiet: boolean = false, options: SyncOptions = {}): Promise<void> {
+  const client = createAdoClient(readAdoConfig());
+  const dryRun = options.dryRun ?? process.env.ADO_SYNC_DRY_RUN === "true";
+  const dryRunOutput = options.dryRunOutput ?? process.env.ADO_SYNC_DRY_RUN_OUTPUT ?? DEFAULT_DRY_RUN_OUTPUT;
+  const concurrency = Math.max(1, options.concurrency ?? readNumberEnv("ADO_SYNC_CONCURRENCY") ?? DEFAULT_SYNC_CONCURRENCY);
+  const chunkSize = Math.max(1, options.chunkSize ?? readNumberEnv("ADO_SYNC_CHUNK_SIZE") ?? DEFAULT_SYNC_CHUNK_SIZE);
+  const fileBugs = options.fileBugs ?? process.env.ADO_FILE_BUGS === "true";
+  const automated = options.automated ?? process.env.ADO_SYNC_MODE === "automated";
+  const ledgerPath = options.ledgerPath ?? process.env.ADO_SYNC_LEDGER ?? DEFAULT_LEDGER_PATH;
+  const startedAt = Date.now();
 
   // Helper to conditionally log based on quiet flag
   const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
   const warn = quiet ? () => { } : (...args: any[]) => console.warn(...args);
 
+  if (options.abortIncomplete) {
+    await abortIncompleteRuns(client, ledgerPath, quiet);
+    return;
+  }
+
+  if (dryRun) {
+    log("Dry run: reading test points and steps only; no test runs will be created");
+  }
+
   const reportPath = resolve(process.cwd(), "playwright-report.json");
   const jsonContent = await readFile(reportPath, "utf-8");
   const playwrightJson = JSON.parse(jsonContent);
   const allTests = flattenPlaywrightJson(playwrightJson);
 
+  // Map tags and annotations to ADO result fields (owner, priority, known bugs, comments, custom fields)
+  const fieldMapping = await loadResultFieldMapping();
+  for (const test of allTests) {
+    test.resultFields = resolveResultFields(test.tags ?? [], test.annotations ?? [], fieldMapping, (message) =>
+      warn(`${test.testTitle}: ${message}`)
+    );
+  }
+
+  // Exports are written before anything is sent to ADO, so they exist even when the sync fails
+  const exportOptions = readResultExportOptions();
+  const exported = await exportTestResults(allTests, {
+    junitOutput: options.junitOutput ?? exportOptions.junitOutput,
+    trxOutput: options.trxOutput ?? exportOptions.trxOutput,
+  });
+  for (const path of exported) {
+    log(`Wrote ${allTests.length} test results to ${path}`);
+  }
+
+  // A dry run creates nothing, so it neither reads nor writes the ledger
+  const ledger = dryRun ? undefined : await loadSyncLedger(ledgerPath, hashReport(jsonContent), warn);
+
+  if (automated) {
+    await syncAutomatedRun(client, allTests, ledger, { dryRun, dryRunOutput, chunkSize, quiet });
+    return;
+  }
+
   const features = parseFeatures(playwrightJson);
   const suites = parseSuites();
   const cases = parseCases();
 
-  const runPlans = buildRunPlans(features, suites, cases);
+  const runPlans = buildRunPlans(features, suites, cases)
+    .map((plan) => ({ plan, tests: filterTestsForRunPlan(allTests, plan) }))
+    .filter(({ plan, tests }) => {
+      if (tests.length === 0) {
+        log(`Skipping ${plan.tag} - Suite ${plan.suiteId}: no matching tests found`);
+      }
+      return tests.length > 0;
+    });
+
+  // Fetch test case step definitions for every plan up front, in batches, to map Playwright steps to ADO step IDs
+  const caseIds = Array.from(
+    new Set(
+      runPlans.flatMap(({ tests }) => tests.map((t) => extractCaseId(t.testTitle))).filter((id): id is string => !!id)
+    )
+  );
+  const testCaseSteps = await getTestCaseStepsBatch(client, caseIds, concurrency, warn);
+  log(`Fetched steps for ${testCaseSteps.size} of ${caseIds.length} test cases`);
+
+  let completedPlans = 0;
+  const settled = await mapWithConcurrency(runPlans, concurrency, async ({ plan, tests }) => {
+    const outcome = await syncRunPlan(client, plan, tests, testCaseSteps, ledger, { dryRun, chunkSize, fileBugs, quiet });
+    completedPlans++;
+    if (outcome.status === "synced") {
+      const target = `${plan.tag} - Suite ${plan.suiteId}`;
+      const tests = `${outcome.tests} tests${outcome.flaky > 0 ? ` (${outcome.flaky} flaky)` : ""}`;
+      log(
+        outcome.dryRun
+          ? `[${completedPlans}/${runPlans.length}] [dry run] Would sync ${tests} to ${target}`
+          : `[${completedPlans}/${runPlans.length}] Synced ${tests} to ${target} (Run ID: ${outcome.runId}${outcome.resumed ? ", resumed" : ""})`
+      );
+    }
+    return outcome;
+  });
 
   let totalRuns = 0;
   let totalTests = 0;
+  const dryRunEntries: DryRunEntry[] = [];
+  const failures: string[] = [];
+  settled.forEach((result, index) => {
+    const { plan } = runPlans[index];
+    if (result.status === "rejected") {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      failures.push(`${plan.tag} - Suite ${plan.suiteId}: ${message}`);
+    } else if (result.value.status === "synced") {
+      totalRuns++;
+      totalTests += result.value.tests;
+      if (result.value.dryRun) {
+        dryRunEntries.push(result.value.dryRun);
+      }
+    }
+  });
 
-  for (const plan of runPlans) {
-    const filteredTests = filterTestsForRunPlan(allTests, plan);
+  // Plans are synced independently, so report every failure once the others have finished
+  if (failures.length > 0) {
+    const resumeHint = ledger ? `\nRe-run the sync to resume; progress is recorded in ${ledger.path}` : "";
+    throw new Error(`Failed to sync ${failures.length} of ${runPlans.length} run plan(s):\n${failures.join("\n")}${resumeHint}`);
+  }
 
-    if (filteredTests.length === 0) {
-      log(`Skipping ${plan.tag} - Suite ${plan.suiteId}: no matching tests found`);
-      continue;
+  const elapsed = ((Date.now() - startedAt) / 1000).toFixed(1);
+
+  if (dryRun) {
+    const outputPath = await writeDryRun(dryRunEntries, dryRunOutput);
+    if (outputPath) {
+      log(`\nDry run complete: ${totalTests} tests across ${totalRuns} test runs written to ${outputPath} in ${elapsed}s`);
     }
+    return;
+  }
 
-    // Fetch test points from the ADO test plan/suite to get testPointIds and test case metadata
-    const testPoints = await getTestPoints(orgUrl, project, token, plan.planId, plan.suiteId);
+  // Show final summary only in verbose mode (not in quiet mode)
+  if (!quiet) {
+    console.log(`\nSync complete: ${totalTests} tests across ${totalRuns} test runs in ${elapsed}s`);
+  }
+}
 
-    // Create a map of case ID to test point for O(1) lookup when matching Playwright tests to ADO test points
-    const testPointMap = new Map<string, TestPoint>();
-    for (const point of testPoints) {
-      testPointMap.set(point.testCase.id, point);
+/**
+ * Links a bug to a test's result by adding it to the test's bug IDs.
+ */
+function linkBug(test: PlaywrightTestResult, bugId: number): void {
+  test.resultFields ??= { comments: [], bugIds: [], customFields: [] };
+  if (!test.resultFields.bugIds.includes(bugId)) {
+    test.resultFields.bugIds.push(bugId);
+  }
+}
+
+/**
+ * Files or updates a bug for each failed test and adds the bug to the test's linked bugs.
+ * A bug that cannot be filed is reported and skipped, so it never fails the sync.
+ * Returns the bug filed for each case ID.
+ */
+async function fileBugsForFailures(
+  client: AdoClient,
+  runId: number,
+  tests: PlaywrightTestResult[],
+  quiet: boolean
+): Promise<Record<string, number>> {
+  const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
+  const areaPath = process.env.ADO_BUG_AREA_PATH || undefined;
+  const bugIds: Record<string, number> = {};
+
+  for (const test of tests) {
+    const caseId = extractCaseId(test.testTitle)!;
+    const trace = test.attachments?.find((attachment) => attachment.name === "trace" && attachment.path);
+    try {
+      const bug = await fileBugForFailure(
+        client,
+        {
+          caseId,
+          title: stripCaseIdPrefix(test.testTitle),
+          file: test.file,
+          errorMessage: test.errorMessage,
+          steps: test.steps ?? [],
+          tracePath: trace?.path ? resolve(process.cwd(), trace.path) : undefined,
+        },
+        { runId, areaPath }
+      );
+      linkBug(test, bug.bugId);
+      bugIds[caseId] = bug.bugId;
+      log(bug.created ? `Filed bug ${bug.bugId} for case ${caseId}` : `Commented on bug ${bug.bugId} for case ${caseId} (same failure)`);
+    } catch (err) {
+      // Always show bug filing failures, even in quiet mode
+      console.warn(`Failed to file bug for case ${caseId}: ${err instanceof Error ? err.message : String(err)}`);
     }
+  }
 
-    // Fetch test case step definitions from ADO work items to map Playwright steps to ADO step IDs
-    const testCaseSteps = new Map<string, TestCaseStep[]>();
-    for (const test of filteredTests) {
-      const caseId = extractCaseId(test.testTitle);
-      if (caseId && !testCaseSteps.has(caseId)) {
-        try {
-          const steps = await getTestCaseSteps(orgUrl, project, token, caseId);
-          testCaseSteps.set(caseId, steps);
-        } catch (err) {
-          warn(`Failed to get steps for test case ${caseId}: ${err}`);
-        }
-      }
+  return bugIds;
+}
+
+/**
+ * The run comment lists the tests that only passed on retry, so flakiness shows on the run itself.
+ */
+function buildFlakyRunComment(tests: PlaywrightTestResult[]): string | undefined {
+  const flakyTests = tests.filter((t) => t.flaky);
+  if (flakyTests.length === 0) {
+    return undefined;
+  }
+  return `Flaky tests (passed on retry):\n${flakyTests
+    .map((t) => `${t.testTitle} passed on attempt ${t.attempts?.length ?? 1}`)
+    .join("\n")}`;
+}
+
+/**
+ * Publishes every test in the report as one automated run with no test plan. Tests need no case
+ * IDs; ADO Test analytics tracks their results by automated test name and storage (the spec path).
+ * With a ledger, an interrupted sync of the same report resumes its run and posts only the missing results.
+ */
+async function syncAutomatedRun(
+  client: AdoClient,
+  tests: PlaywrightTestResult[],
+  ledger: SyncLedger | undefined,
+  options: { dryRun: boolean; dryRunOutput: string; chunkSize: number; quiet: boolean }
+): Promise<void> {
+  const { dryRun, dryRunOutput, chunkSize, quiet } = options;
+  const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
+  const warn = quiet ? () => { } : (...args: any[]) => console.warn(...args);
+  const startedAt = Date.now();
+
+  if (tests.length === 0) {
+    log("No tests found in the Playwright report");
+    return;
+  }
+
+  const body = buildAutomatedRunBody(warn);
+  const resultKey = (test: PlaywrightTestResult) => extractCaseId(test.testTitle) ?? buildAutomatedTestName(test);
+  const attachmentTests = process.env.ADO_ATTACH_ARTIFACTS !== "false" ? selectTestsForAttachments(tests) : [];
+
+  if (dryRun) {
+    const outputPath = await writeDryRun(
+      [{ automated: true, run: body, results: buildAutomatedTestResults(tests), attachmentCaseIds: attachmentTests.map(resultKey) }],
+      dryRunOutput
+    );
+    if (outputPath) {
+      log(`\nDry run complete: ${tests.length} tests in 1 automated run written to ${outputPath}`);
     }
+    return;
+  }
 
-    // Filter test points to only those that match filtered tests
-    const caseIds = new Set(filteredTests.map((t) => extractCaseId(t.testTitle)).filter((id): id is string => !!id));
-    const matchingTestPointIds = testPoints
-      .filter((p) => caseIds.has(p.testCase.id))
-      .map((p) => p.id);
+  const previous = ledger?.getRun(AUTOMATED_LEDGER_KEY);
+  if (previous?.completed) {
+    log(`Already synced ${tests.length} tests to automated run ${previous.runId}; nothing to resume`);
+    return;
+  }
 
-    if (matchingTestPointIds.length === 0) {
-      log(`Skipping ${plan.tag} - Suite ${plan.suiteId}: no matching test points found`);
-      continue;
+  let runId: number;
+  if (previous) {
+    runId = previous.runId;
+    log(`Resuming automated test run ${runId}`);
+  } else {
+    runId = await createTestRun(client, body);
+    await ledger?.recordRun(AUTOMATED_LEDGER_KEY, runId);
+    log(`Created automated test run ${runId}`);
+  }
+
+  // Results are created by POST, so each posted chunk is recorded and never posted again
+  const resultIdMap = new Map<string, number>(Object.entries(previous?.resultIds ?? {}));
+  if (!previous?.resultsPosted) {
+    const pending = tests.filter((test) => !resultIdMap.has(resultKey(test)));
+    const results = buildAutomatedTestResults(pending);
+    const testChunks = chunk(pending, chunkSize);
+    for (const [chunkIndex, resultsChunk] of chunk(results, chunkSize).entries()) {
+      const response = await client.request(`_apis/test/Runs/${runId}/results?api-version=7.0`, { method: "POST", body: resultsChunk });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to post test results: ${response.status} ${errorText}`);
+      }
+      // ADO returns the created results in the order they were posted
+      const created = (await response.json()) as { value: Array<{ id: number }> };
+      const posted: Record<string, number> = {};
+      created.value.forEach((result, index) => {
+        posted[resultKey(testChunks[chunkIndex][index])] = result.id;
+        resultIdMap.set(resultKey(testChunks[chunkIndex][index]), result.id);
+      });
+      await ledger?.recordResults(AUTOMATED_LEDGER_KEY, posted, false);
     }
+    await ledger?.recordResults(AUTOMATED_LEDGER_KEY, {}, true);
+    log(`Posted ${results.length} test results to run ${runId}`);
+  }
+
+  const uploaded = new Set(previous?.attachmentsUploaded ?? []);
+  const pendingAttachments = attachmentTests.filter((test) => !uploaded.has(resultKey(test)));
+  if (pendingAttachments.length > 0) {
+    log(`Attempting to upload artifacts for ${pendingAttachments.length} test(s)`);
+    await uploadAttachmentsForTests(client, runId, pendingAttachments, resultIdMap, new Map(), quiet, async (key) =>
+      ledger?.recordAttachments(AUTOMATED_LEDGER_KEY, key)
+    );
+  }
+
+  await completeTestRun(client, runId, buildFlakyRunComment(tests));
+  await ledger?.completeRun(AUTOMATED_LEDGER_KEY);
+
+  if (!quiet) {
+    const elapsed = ((Date.now() - startedAt) / 1000).toFixed(1);
+    console.log(`\nSync complete: ${tests.length} tests in automated run ${runId} in ${elapsed}s`);
+  }
+}
+
+/**
+ * Syncs one run plan: reads its test points, then creates a run, posts the results, uploads
+ * attachments and completes the run. In dry-run mode the run and result payloads are returned instead.
+ * With a ledger, a run plan an interrupted sync already started resumes its run and skips the steps
+ * it finished; a run plan it already completed is not synced again.
+ */
+async function syncRunPlan(
+  client: AdoClient,
+  plan: RunPlan,
+  filteredTests: PlaywrightTestResult[],
+  testCaseSteps: Map<string, TestCaseStep[]>,
+  ledger: SyncLedger | undefined,
+  options: { dryRun: boolean; chunkSize: number; fileBugs: boolean; quiet: boolean }
+): Promise<RunPlanOutcome> {
+  const { dryRun, chunkSize, fileBugs, quiet } = options;
+  const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
+  const warn = quiet ? () => { } : (...args: any[]) => console.warn(...args);
+  const ledgerKey = `${plan.planId}:${plan.suiteId}`;
+  const flaky = filteredTests.filter((t) => t.flaky).length;
+
+  const previous = ledger?.getRun(ledgerKey);
+  if (previous?.completed) {
+    return { status: "synced", tests: filteredTests.length, flaky, runId: previous.runId, resumed: true };
+  }
+
+  // Fetch test points from the ADO test plan/suite to get testPointIds and test case metadata
+  const testPoints = await getTestPoints(client, plan.planId, plan.suiteId);
+
+  // Create a map of case ID to test point for O(1) lookup when matching Playwright tests to ADO test points
+  const testPointMap = new Map<string, TestPoint>();
+  for (const point of testPoints) {
+    testPointMap.set(point.testCase.id, point);
+  }
+
+  // Filter test points to only those that match filtered tests
+  const caseIds = new Set(filteredTests.map((t) => extractCaseId(t.testTitle)).filter((id): id is string => !!id));
+  const matchingTestPointIds = testPoints
+    .filter((p) => caseIds.has(p.testCase.id))
+    .map((p) => p.id);
+
+  if (matchingTestPointIds.length === 0) {
+    log(`Skipping ${plan.tag} - Suite ${plan.suiteId}: no matching test points found`);
+    return { status: "skipped" };
+  }
+
+  // All tests in a filtered set share the same suiteTitle, use the first one for the run name
+  const suiteName = filteredTests[0].suiteTitle;
+
+  if (dryRun) {
+    // No run exists yet, so every result is built as a new result (no placeholder IDs)
+    const attachmentTests = process.env.ADO_ATTACH_ARTIFACTS !== "false" ? selectTestsForAttachments(filteredTests) : [];
+    return {
+      status: "synced",
+      tests: filteredTests.length,
+      flaky,
+      dryRun: {
+        featureKey: plan.featureKey,
+        planId: plan.planId,
+        suiteId: plan.suiteId,
+        run: buildTestRunBody(plan, suiteName, matchingTestPointIds, warn),
+        results: buildTestResults(filteredTests, testPointMap, testCaseSteps, plan.planId, plan.suiteId, new Map()),
+        attachmentCaseIds: attachmentTests.map((t) => extractCaseId(t.testTitle)).filter((id): id is string => !!id),
+      },
+    };
+  }
 
-    // All tests in a filtered set share the same suiteTitle, use the first one for the run name
-    const suiteName = filteredTests[0].suiteTitle;
-    const runId = await createTestRun(orgUrl, project, token, plan, suiteName, matchingTestPointIds, quiet);
+  let runId: number;
+  if (previous) {
+    runId = previous.runId;
+    log(`Resuming test run ${runId} for plan ${plan.planId}, suite ${plan.suiteId}`);
+  } else {
+    runId = await createTestRun(client, buildTestRunBody(plan, suiteName, matchingTestPointIds, warn), plan.suiteId);
+    await ledger?.recordRun(ledgerKey, runId);
     log(`Created test run ${runId} for plan ${plan.planId}, suite ${plan.suiteId}`);
+  }
+
+  // Bugs are filed before results are posted so each failed result links to its bug
+  if (previous?.bugIds) {
+    for (const test of filteredTests) {
+      const bugId = previous.bugIds[extractCaseId(test.testTitle) ?? ""];
+      if (bugId !== undefined) {
+        linkBug(test, bugId);
+      }
+    }
+  } else if (fileBugs) {
+    const failedTests = filteredTests.filter((t) => isFailedStatus(t.status) && caseIds.has(extractCaseId(t.testTitle) ?? ""));
+    await ledger?.recordBugs(ledgerKey, await fileBugsForFailures(client, runId, failedTests, quiet));
+  }
 
-    const resultIdMap = await postTestResults(orgUrl, project, token, runId, filteredTests, testPointMap, testCaseSteps, plan.planId, plan.suiteId, quiet);
+  // Planned results update the run's placeholder results, so posting them again after an interruption is safe
+  let resultIdMap: Map<string, number>;
+  if (previous?.resultsPosted) {
+    resultIdMap = new Map(Object.entries(previous.resultIds));
+  } else {
+    resultIdMap = await postTestResults(client, runId, filteredTests, testPointMap, testCaseSteps, plan.planId, plan.suiteId, chunkSize, quiet);
+    await ledger?.recordResults(ledgerKey, Object.fromEntries(resultIdMap), true);
     log(`Posted ${filteredTests.length} test results to run ${runId}`);
+  }
 
-    // Upload attachments for failed tests if enabled
-    if (process.env.ADO_ATTACH_ARTIFACTS !== "false") {
-      const attachOnFailureOnly = process.env.ADO_ATTACH_ON_FAILURE_ONLY !== "false";
-      const failedTests = attachOnFailureOnly
-        ? filteredTests.filter((t) => t.status === "failed")
-        : filteredTests;
-
-      if (failedTests.length > 0) {
-        log(`Attempting to upload artifacts for ${failedTests.length} test(s)`);
-        await uploadAttachmentsForTests(
-          orgUrl,
-          project,
-          token,
-          runId,
-          failedTests,
-          resultIdMap,
-          testPointMap,
-          quiet
-        );
-      } else {
-        log("No failed tests found for artifact upload");
-      }
+  // Upload attachments for failed tests if enabled
+  if (process.env.ADO_ATTACH_ARTIFACTS !== "false") {
+    const uploaded = new Set(previous?.attachmentsUploaded ?? []);
+    const failedTests = selectTestsForAttachments(filteredTests)
+      .filter((t) => !uploaded.has(extractCaseId(t.testTitle) ?? ""));
+
+    if (failedTests.length > 0) {
+      log(`Attempting to upload artifacts for ${failedTests.length} test(s)`);
+      await uploadAttachmentsForTests(
+        client,
+        runId,
+        failedTests,
+        resultIdMap,
+        testPointMap,
+        quiet,
+        async (caseId) => ledger?.recordAttachments(ledgerKey, caseId)
+      );
     } else {
-      log("Artifact attachment is disabled (ADO_ATTACH_ARTIFACTS=false)");
+      log("No failed tests found for artifact upload");
     }
+  } else {
+    log("Artifact attachment is disabled (ADO_ATTACH_ARTIFACTS=false)");
+  }
 
-    await completeTestRun(orgUrl, project, token, runId);
-    log(`Completed test run ${runId}`);
+  await completeTestRun(client, runId, buildFlakyRunComment(filteredTests));
+  await ledger?.completeRun(ledgerKey);
+  log(`Completed test run ${runId}`);
 
-    totalRuns++;
-    totalTests += filteredTests.length;
-    log(
-      `Synced ${filteredTests.length} tests to ${plan.tag} - Suite ${plan.suiteId} (Run ID: ${runId})`
-    );
+  return { status: "synced", tests: filteredTests.length, flaky, runId, resumed: !!previous };
+}
+
+/**
+ * Aborts every run the ledger records as created but not completed, then drops them from the ledger.
+ * A run that cannot be aborted is reported and stays in the ledger.
+ */
+async function abortIncompleteRuns(client: AdoClient, ledgerPath: string, quiet: boolean): Promise<void> {
+  const log = quiet ? () => { } : (...args: any[]) => console.log(...args);
+  // The report is not needed to abort runs, so the ledger is read whatever report it was written for
+  const ledger = await loadSyncLedger(ledgerPath, undefined);
+  const runIds = ledger.incompleteRunIds();
+  if (runIds.length === 0) {
+    log(`No incomplete runs recorded in ${ledger.path}`);
+    return;
   }
 
-  // Show final summary only in verbose mode (not in quiet mode)
-  if (!quiet) {
-    console.log(`\nSync complete: ${totalTests} tests across ${totalRuns} test runs`);
+  const aborted: number[] = [];
+  const failures: string[] = [];
+  for (const runId of runIds) {
+    try {
+      await abortTestRun(client, runId);
+      aborted.push(runId);
+      log(`Aborted test run ${runId}`);
+    } catch (err) {
+      failures.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  await ledger.forgetRuns(aborted);
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to abort ${failures.length} of ${runIds.length} run(s):\n${failures.join("\n")}`);
   }
 }
 
 if (require.main === module) {
-  syncAzureDevOpsFromPlaywright().catch((err) => {
+  syncAzureDevOpsFromPlaywright(false, {
+    dryRun: process.argv.includes("--dry-run") || undefined,
+    automated: process.argv.includes("--automated") || undefined,
+    abortIncomplete: process.argv.includes("--abort-incomplete") || undefined,
+  }).catch((err) => {
     console.error("Azure DevOps sync failed:", err);
     process.exit(1);
   });
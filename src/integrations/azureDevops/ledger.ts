@@ -0,0 +1,153 @@
+// Sync ledger: records the runs a sync created, the results it posted and the attachments it uploaded, so an interrupted sync can resume.
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { writeFileAtomic } from "../../utils/runStateBackends";
+
+/**
+ * What the sync has done for one run: a run plan ("<planId>:<suiteId>") or the automated run ("automated").
+ */
+export interface LedgerRun {
+  runId: number;
+  /** Bug filed per case ID; unset until bug filing has finished. */
+  bugIds?: Record<string, number>;
+  /** Result ID per case ID (or automated test name) for the results posted so far. */
+  resultIds: Record<string, number>;
+  resultsPosted: boolean;
+  /** Case IDs (or automated test names) whose attachments were uploaded. */
+  attachmentsUploaded: string[];
+  completed: boolean;
+}
+
+interface LedgerFile {
+  reportHash: string;
+  updatedAt: string;
+  runs: Record<string, LedgerRun>;
+  /** Incomplete runs left by a sync of an earlier report; only --abort-incomplete closes them. */
+  orphanedRunIds: number[];
+}
+
+export interface SyncLedger {
+  /** Absolute path of the ledger file. */
+  path: string;
+  /** The run recorded for a key, if a sync of this report already created one. */
+  getRun(key: string): LedgerRun | undefined;
+  recordRun(key: string, runId: number): Promise<void>;
+  recordBugs(key: string, bugIds: Record<string, number>): Promise<void>;
+  /** Adds posted result IDs; `done` marks every result of the run as posted. */
+  recordResults(key: string, resultIds: Record<string, number>, done: boolean): Promise<void>;
+  recordAttachments(key: string, resultKey: string): Promise<void>;
+  completeRun(key: string): Promise<void>;
+  /** IDs of every run that was created but never completed, including orphaned runs. */
+  incompleteRunIds(): number[];
+  /** Drops runs from the ledger once they have been closed. */
+  forgetRuns(runIds: number[]): Promise<void>;
+}
+
+export const DEFAULT_LEDGER_PATH = "test-results/ado-sync-ledger.json";
+
+/**
+ * Hashes the Playwright report, so a ledger is only resumed for the report it was written for.
+ */
+export function hashReport(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Reads the ledger at `path`, or starts an empty one. A ledger written for another report is not
+ * resumed: its incomplete runs are kept as orphaned runs, with a warning. Without a report hash the
+ * ledger is read as it is, whatever report it was written for.
+ */
+export async function loadSyncLedger(
+  path: string,
+  reportHash: string | undefined,
+  warn: (message: string) => void = () => { }
+): Promise<SyncLedger> {
+  const ledgerPath = resolve(process.cwd(), path);
+  let state: LedgerFile = { reportHash: reportHash ?? "", updatedAt: new Date().toISOString(), runs: {}, orphanedRunIds: [] };
+
+  if (existsSync(ledgerPath)) {
+    let previous: LedgerFile;
+    try {
+      previous = JSON.parse(await readFile(ledgerPath, "utf-8"));
+    } catch (err) {
+      throw new Error(`Failed to read sync ledger ${ledgerPath}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const orphanedRunIds = previous.orphanedRunIds ?? [];
+    if (reportHash === undefined || previous.reportHash === reportHash) {
+      state = { ...previous, orphanedRunIds };
+    } else {
+      const incomplete = Object.values(previous.runs ?? {}).filter((run) => !run.completed).map((run) => run.runId);
+      state.orphanedRunIds = [...orphanedRunIds, ...incomplete];
+      if (state.orphanedRunIds.length > 0) {
+        warn(
+          `Runs ${state.orphanedRunIds.join(", ")} from an earlier sync are still in progress. ` +
+          `Run the sync with --abort-incomplete to close them.`
+        );
+      }
+    }
+  }
+
+  // Parallel run plans record at the same time, so writes are queued and each writes the latest state.
+  // A failed write rejects its own caller only; the next write still runs.
+  let writing: Promise<void> = Promise.resolve();
+  const save = (): Promise<void> => {
+    writing = writing.catch(() => { }).then(async () => {
+      state.updatedAt = new Date().toISOString();
+      await writeFileAtomic(ledgerPath, JSON.stringify(state, null, 2) + "\n");
+    });
+    return writing;
+  };
+
+  const requireRun = (key: string): LedgerRun => {
+    const run = state.runs[key];
+    if (!run) {
+      throw new Error(`No run recorded in the sync ledger for ${key}`);
+    }
+    return run;
+  };
+
+  return {
+    path: ledgerPath,
+    getRun: (key) => state.runs[key],
+    recordRun(key, runId) {
+      state.runs[key] = { runId, resultIds: {}, resultsPosted: false, attachmentsUploaded: [], completed: false };
+      return save();
+    },
+    recordBugs(key, bugIds) {
+      requireRun(key).bugIds = { ...bugIds };
+      return save();
+    },
+    recordResults(key, resultIds, done) {
+      const run = requireRun(key);
+      run.resultIds = { ...run.resultIds, ...resultIds };
+      run.resultsPosted = done;
+      return save();
+    },
+    recordAttachments(key, resultKey) {
+      const run = requireRun(key);
+      if (!run.attachmentsUploaded.includes(resultKey)) {
+        run.attachmentsUploaded.push(resultKey);
+      }
+      return save();
+    },
+    completeRun(key) {
+      requireRun(key).completed = true;
+      return save();
+    },
+    incompleteRunIds: () => [
+      ...state.orphanedRunIds,
+      ...Object.values(state.runs).filter((run) => !run.completed).map((run) => run.runId),
+    ],
+    forgetRuns(runIds) {
+      state.orphanedRunIds = state.orphanedRunIds.filter((id) => !runIds.includes(id));
+      for (const [key, run] of Object.entries(state.runs)) {
+        if (runIds.includes(run.runId)) {
+          delete state.runs[key];
+        }
+      }
+      return save();
+    },
+  };
+}
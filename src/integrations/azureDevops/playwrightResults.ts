@@ -0,0 +1,365 @@
+// Flattens the Playwright JSON report into one normalized result per test, shared by the ADO sync and the result exporters.
+import { FEATURE_CONFIG } from "../../utils/featureConfig";
+import type { PlaywrightAnnotation, ResultFields } from "./resultFields";
+
+export interface PlaywrightTestStep {
+  title: string;
+  duration: number;
+  error?: string; // Message of the error the step failed with
+}
+
+/**
+ * A file or embedded body from testInfo.attach(), a screenshot, a video or a trace. Bodies are base64.
+ */
+export interface PlaywrightAttachment {
+  name: string;
+  contentType: string;
+  path?: string;
+  body?: string;
+}
+
+/**
+ * The statuses Playwright reports for a test attempt.
+ */
+export type PlaywrightTestStatus = "passed" | "failed" | "timedOut" | "skipped" | "interrupted";
+
+/**
+ * Whether an attempt failed: anything that neither passed nor was skipped (failed, timedOut, interrupted).
+ */
+export function isFailedStatus(status: PlaywrightTestStatus): boolean {
+  return status !== "passed" && status !== "skipped";
+}
+
+/**
+ * One attempt at a test. Playwright records an attempt per retry; the first has retry 0.
+ */
+export interface PlaywrightTestAttempt {
+  retry: number;
+  status: PlaywrightTestStatus;
+  durationMs: number;
+  errorMessage?: string;
+  startTime?: string;
+  steps?: PlaywrightTestStep[];
+}
+
+export interface PlaywrightTestResult {
+  fullTitle: string;
+  suiteTitle: string;
+  testTitle: string;
+  status: PlaywrightTestStatus;
+  durationMs: number;
+  errorMessage?: string;
+  errorStack?: string;
+  file?: string;
+  steps?: PlaywrightTestStep[];
+  startTime?: string;
+  retry?: number;
+  stdout?: string[];
+  stderr?: string[];
+  attachments?: PlaywrightAttachment[];
+  playwrightTestId?: string; // Playwright test ID for mapping to test-results artifacts
+  attempts?: PlaywrightTestAttempt[]; // Every attempt in order, including the final one
+  flaky?: boolean; // Passed on a retry after failing an earlier attempt
+  tags?: string[]; // Tags without "@"
+  annotations?: PlaywrightAnnotation[];
+  resultFields?: ResultFields; // ADO fields mapped from tags and annotations
+}
+
+interface PlaywrightJsonSuite {
+  title: string;
+  file?: string;
+  specs?: PlaywrightJsonSpec[];
+  suites?: PlaywrightJsonSuite[];
+}
+
+interface PlaywrightJsonSpec {
+  title: string;
+  file: string;
+  tags?: string[];
+  tests?: PlaywrightJsonTest[];
+}
+
+interface PlaywrightJsonTest {
+  title: string;
+  annotations?: PlaywrightAnnotation[];
+  results?: Array<{
+    status: PlaywrightTestStatus;
+    duration: number;
+    errors?: Array<{
+      message?: string;
+      stack?: string;
+      location?: {
+        file?: string;
+        line?: number;
+        column?: number;
+      };
+    }>;
+    steps?: Array<{
+      title: string;
+      duration: number;
+    }>;
+    startTime?: string;
+    retry?: number;
+    stdout?: string[];
+    stderr?: string[];
+    attachments?: PlaywrightAttachment[];
+    annotations?: PlaywrightAnnotation[];
+  }>;
+}
+
+/**
+ * Combines test-level annotations with those added at runtime (test.info().annotations), without duplicates.
+ */
+function mergeAnnotations(...lists: Array<PlaywrightAnnotation[] | undefined>): PlaywrightAnnotation[] {
+  const merged: PlaywrightAnnotation[] = [];
+  for (const annotation of lists.flatMap((list) => list ?? [])) {
+    if (!merged.some((existing) => existing.type === annotation.type && existing.description === annotation.description)) {
+      merged.push(annotation);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Joins the messages from a Playwright errors array, without ANSI codes or stack trace lines.
+ */
+function formatErrorMessage(errors: Array<{ message?: string }> | undefined): string | undefined {
+  if (!errors || errors.length === 0) {
+    return undefined;
+  }
+  return errors.map((err) => {
+    const cleaned = stripAnsiCodes(err.message || "Unknown error");
+    // Extract just the error message part (before stack trace lines starting with "at")
+    return cleaned.split(/\n\s+at\s/)[0].trim();
+  }).join("\n");
+}
+
+export function flattenPlaywrightJson(json: any): PlaywrightTestResult[] {
+  const results: PlaywrightTestResult[] = [];
+
+  function processSuite(suite: PlaywrightJsonSuite, filePath: string = ""): void {
+    if (suite.file) {
+      filePath = suite.file;
+    }
+
+    if (suite.specs) {
+      for (const spec of suite.specs) {
+        if (spec.tests) {
+          for (const test of spec.tests) {
+            if (test.results && test.results.length > 0) {
+              // Use the last result (most recent) in case of retries; earlier results become attempts
+              const result = test.results[test.results.length - 1];
+              // In Playwright JSON, spec.title is the test case title (with case ID),
+              // and suite.title is the describe block/suite title.
+              const errorMessage = formatErrorMessage(result.errors);
+              const attempts: PlaywrightTestAttempt[] = test.results.map((attempt, index) => ({
+                retry: attempt.retry ?? index,
+                status: attempt.status,
+                durationMs: attempt.duration,
+                errorMessage: formatErrorMessage(attempt.errors),
+                startTime: attempt.startTime,
+                steps: attempt.steps?.map((step: any) => ({
+                  title: step.title,
+                  duration: step.duration,
+                })),
+              }));
+
+              let filePath: string | undefined = spec.file;
+              if (filePath) {
+                filePath = normalizeTestFilePath(filePath);
+              } else if (result.errors && result.errors.length > 0 && result.errors[0].location?.file) {
+                filePath = normalizeTestFilePath(result.errors[0].location.file);
+              } else {
+                const resultWithError = result as any;
+                if (resultWithError.errorLocation?.file) {
+                  filePath = normalizeTestFilePath(resultWithError.errorLocation.file);
+                } else if (resultWithError.error?.location?.file) {
+                  filePath = normalizeTestFilePath(resultWithError.error.location.file);
+                }
+              }
+
+              if (!filePath || filePath.trim() === "") {
+                filePath = undefined;
+              }
+
+              let errorStack: string | undefined = undefined;
+
+              if (result.errors && result.errors.length > 0) {
+                const stacks = result.errors
+                  .map((err: any) => {
+                    if (err.stack) {
+                      return stripAnsiCodes(err.stack);
+                    }
+                    return null;
+                  })
+                  .filter((stack: string | null) => stack !== null && stack.trim().length > 0);
+
+                if (stacks.length > 0) {
+                  errorStack = stacks.join("\n");
+                }
+              }
+
+              if (!errorStack) {
+                const resultWithError = result as any;
+                if (resultWithError.error?.stack) {
+                  errorStack = stripAnsiCodes(resultWithError.error.stack);
+                }
+              }
+
+              results.push({
+                fullTitle: `${suite.title} - ${spec.title}`,
+                suiteTitle: suite.title,
+                testTitle: spec.title,
+                status: result.status,
+                durationMs: result.duration,
+                errorMessage: errorMessage,
+                errorStack: errorStack,
+                file: filePath,
+                steps: result.steps?.map((step: any) => ({
+                  title: step.title,
+                  duration: step.duration,
+                  ...(step.error && { error: formatErrorMessage([step.error]) }),
+                })),
+                startTime: result.startTime,
+                retry: result.retry,
+                stdout: result.stdout,
+                stderr: result.stderr,
+                attachments: result.attachments,
+                playwrightTestId: (test as any).id, // Extract Playwright test ID for artifact mapping
+                attempts,
+                tags: spec.tags ?? [],
+                annotations: mergeAnnotations(test.annotations, result.annotations),
+                flaky: result.status === "passed" && attempts.slice(0, -1).some((attempt) => isFailedStatus(attempt.status)),
+              });
+            }
+          }
+        }
+      }
+    }
+
+    if (suite.suites) {
+      for (const subSuite of suite.suites) {
+        processSuite(subSuite, filePath);
+      }
+    }
+  }
+
+  if (json.suites) {
+    for (const suite of json.suites) {
+      processSuite(suite);
+    }
+  }
+
+  return results;
+}
+
+export function extractFeatureFromPath(filePath: string): string | null {
+  // Normalize path separators so regex works on Windows and POSIX paths
+  const normalizedPath = filePath.replace(/\\/g, "/");
+  // Support paths with or without a leading "tests/" segment, e.g.:
+  // - "tests/login-page/..." (full repo path)
+  // - "login-page/..." (Playwright JSON relative to tests root)
+  const match = normalizedPath.match(/(?:^|\/)(?:tests\/)?([^\/]+)\//);
+  if (!match) {
+    return null;
+  }
+  const featureKey = match[1];
+  if (!FEATURE_CONFIG[featureKey]) {
+    return null;
+  }
+  return featureKey;
+}
+
+export function extractCaseId(title: string): string | null {
+  // Expect a case ID like [12345] at the start of the *test* title.
+  if (!title) {
+    return null;
+  }
+  const match = title.match(/^\[(\d+)\]/);
+  return match ? match[1] : null;
+}
+
+export function stripCaseIdPrefix(title: string): string {
+  // Remove a leading case ID like "[12345] " from the test title for display purposes.
+  return title.replace(/^\[\d+\]\s*/, "");
+}
+
+export function stripTagFromSuiteTitle(suiteTitle: string): string {
+  // Remove everything from the first @ onwards (handles multiple tags)
+  return suiteTitle.replace(/\s*@.*$/, "").trim();
+}
+
+export function stripAnsiCodes(text: string): string {
+  // Remove ANSI escape codes (e.g., [31m, [32m, [39m, [7m, [27m, [1m, [22m, etc.)
+  // Pattern matches: ESC[ followed by numbers and optional semicolons, ending with a letter
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+export function normalizeTestFilePath(filePath: string): string {
+  if (!filePath) {
+    return "";
+  }
+
+  // Normalize slashes to forward slashes
+  let normalized = filePath.replace(/\\/g, "/");
+
+  // If path contains "/tests/", extract everything from "tests/" onwards
+  const testsIndex = normalized.indexOf("/tests/");
+  if (testsIndex !== -1) {
+    normalized = normalized.substring(testsIndex + 1); // +1 to skip the leading "/"
+  }
+
+  // Try to remove workspace root if present
+  const workspaceRoot = process.cwd().replace(/\\/g, "/");
+  if (normalized.startsWith(workspaceRoot)) {
+    normalized = normalized.substring(workspaceRoot.length);
+  }
+
+  // Handle Windows drive prefixes (e.g., "C:/", "D:/")
+  if (/^[A-Za-z]:\//.test(normalized)) {
+    // Try to find "/tests/" in the path
+    const testsIndexInDrive = normalized.indexOf("/tests/");
+    if (testsIndexInDrive !== -1) {
+      normalized = normalized.substring(testsIndexInDrive + 1);
+    } else {
+      // Strip everything up to the last "/" (keep only filename)
+      const lastSlash = normalized.lastIndexOf("/");
+      if (lastSlash !== -1) {
+        normalized = normalized.substring(lastSlash + 1);
+      } else {
+        // No slash, strip drive prefix
+        const colonIndex = normalized.indexOf(":");
+        if (colonIndex !== -1) {
+          normalized = normalized.substring(colonIndex + 1).replace(/^\/+/, "");
+        }
+      }
+    }
+  }
+
+  // Remove leading slashes
+  normalized = normalized.replace(/^\/+/, "");
+
+  // Ensure no drive prefix remains
+  if (/^[A-Za-z]:/.test(normalized)) {
+    const lastSlash = normalized.lastIndexOf("/");
+    if (lastSlash !== -1) {
+      normalized = normalized.substring(lastSlash + 1);
+    } else {
+      const colonIndex = normalized.indexOf(":");
+      if (colonIndex !== -1) {
+        normalized = normalized.substring(colonIndex + 1).replace(/^\/+/, "");
+      }
+    }
+  }
+
+  // If it's a test file and doesn't start with "tests/", prepend it
+  if ((normalized.includes(".spec.ts") || normalized.includes(".test.ts")) &&
+    !normalized.startsWith("tests/") && !normalized.startsWith("/tests/")) {
+    normalized = `tests/${normalized}`;
+  }
+
+  // Final cleanup: remove any remaining leading slashes
+  normalized = normalized.replace(/^\/+/, "");
+
+  return normalized || filePath;
+}
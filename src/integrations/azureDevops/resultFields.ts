@@ -0,0 +1,168 @@
+// Maps Playwright annotations and tags to Azure DevOps test result fields (owner, priority, bugs, comments, custom fields).
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve } from "path";
+
+/**
+ * Where a mapped value goes on the ADO result. `field:<name>` sets a custom field.
+ * `bug` links the result to a bug work item when the test did not pass.
+ */
+export type ResultFieldTarget = "owner" | "priority" | "comment" | "bug" | `field:${string}`;
+
+/**
+ * Sync mapping config (src/testdata/adoSync.json, or the file in ADO_SYNC_CONFIG).
+ * Annotations map an annotation type to a target; the annotation description is the value.
+ * Tags (without "@") map to fixed target values.
+ */
+export interface ResultFieldMapping {
+  annotations: Record<string, ResultFieldTarget>;
+  tags: Record<string, Partial<Record<ResultFieldTarget, string>>>;
+}
+
+/**
+ * ADO result fields resolved for one test.
+ */
+export interface ResultFields {
+  owner?: string;
+  priority?: number;
+  comments: string[];
+  bugIds: number[];
+  customFields: Array<{ fieldName: string; value: string }>;
+}
+
+/** A Playwright annotation from the JSON report. */
+export interface PlaywrightAnnotation {
+  type: string;
+  description?: string;
+}
+
+const DEFAULT_CONFIG_PATH = resolve(__dirname, "../../testdata/adoSync.json");
+
+// Used when there is no config file: known bugs, owners and priorities map without setup
+export const DEFAULT_RESULT_FIELD_MAPPING: ResultFieldMapping = {
+  annotations: { "known-bug": "bug", owner: "owner", priority: "priority" },
+  tags: {},
+};
+
+function validateTarget(target: string, source: string, configPath: string): ResultFieldTarget {
+  if (["owner", "priority", "comment", "bug"].includes(target) || /^field:.+/.test(target)) {
+    return target as ResultFieldTarget;
+  }
+  throw new Error(
+    `Unknown ADO result field "${target}" for ${source} in ${configPath}. ` +
+      `Use owner, priority, comment, bug or field:<name>.`
+  );
+}
+
+/**
+ * Path of the sync config: `configPath`, else ADO_SYNC_CONFIG, else src/testdata/adoSync.json.
+ */
+export function resolveSyncConfigPath(configPath?: string): string {
+  return configPath ?? (process.env.ADO_SYNC_CONFIG ? resolve(process.cwd(), process.env.ADO_SYNC_CONFIG) : DEFAULT_CONFIG_PATH);
+}
+
+/**
+ * Reads the annotation and tag mapping. Returns the default mapping when the config file does not exist.
+ */
+export async function loadResultFieldMapping(configPath?: string): Promise<ResultFieldMapping> {
+  const filePath = resolveSyncConfigPath(configPath);
+  if (!existsSync(filePath)) {
+    if (configPath || process.env.ADO_SYNC_CONFIG) {
+      throw new Error(`ADO sync config not found: ${filePath}`);
+    }
+    return DEFAULT_RESULT_FIELD_MAPPING;
+  }
+
+  let raw: { annotations?: Record<string, string>; tags?: Record<string, Record<string, string>> };
+  try {
+    raw = JSON.parse(await readFile(filePath, "utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const annotations: ResultFieldMapping["annotations"] = {};
+  for (const [type, target] of Object.entries(raw.annotations ?? {})) {
+    annotations[type] = validateTarget(target, `annotation "${type}"`, filePath);
+  }
+
+  const tags: ResultFieldMapping["tags"] = {};
+  for (const [tag, values] of Object.entries(raw.tags ?? {})) {
+    const key = tag.replace(/^@/, "");
+    tags[key] = {};
+    for (const [target, value] of Object.entries(values)) {
+      tags[key][validateTarget(target, `tag "${tag}"`, filePath)] = String(value);
+    }
+  }
+
+  return { annotations, tags };
+}
+
+/**
+ * Reads a bug ID from an annotation description: a bare ID, "#123", or a work item URL.
+ */
+export function parseBugId(description: string): number | undefined {
+  const match = description.trim().match(/^#?(\d+)$/) ?? description.match(/_workitems\/edit\/(\d+)/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function applyValue(
+  fields: ResultFields,
+  target: ResultFieldTarget,
+  value: string,
+  label: string,
+  warn: (message: string) => void
+): void {
+  if (target === "owner") {
+    fields.owner = value;
+  } else if (target === "priority") {
+    const priority = parseInt(value, 10);
+    if (isNaN(priority) || priority < 0 || priority > 255) {
+      warn(`Ignoring ${label}: priority "${value}" is not a number from 0 to 255`);
+      return;
+    }
+    fields.priority = priority;
+  } else if (target === "comment") {
+    fields.comments.push(value);
+  } else if (target === "bug") {
+    const bugId = parseBugId(value);
+    if (bugId === undefined) {
+      warn(`Ignoring ${label}: "${value}" is not a work item ID or URL`);
+      return;
+    }
+    if (!fields.bugIds.includes(bugId)) {
+      fields.bugIds.push(bugId);
+    }
+  } else {
+    const fieldName = target.slice("field:".length);
+    fields.customFields = fields.customFields.filter((field) => field.fieldName !== fieldName);
+    fields.customFields.push({ fieldName, value });
+  }
+}
+
+/**
+ * Resolves a test's ADO result fields. Tags are applied first, so annotations on the test win.
+ */
+export function resolveResultFields(
+  tags: string[],
+  annotations: PlaywrightAnnotation[],
+  mapping: ResultFieldMapping,
+  warn: (message: string) => void = () => { }
+): ResultFields {
+  const fields: ResultFields = { comments: [], bugIds: [], customFields: [] };
+
+  for (const tag of tags) {
+    const values = mapping.tags[tag.replace(/^@/, "")];
+    for (const [target, value] of Object.entries(values ?? {})) {
+      applyValue(fields, target as ResultFieldTarget, value!, `tag @${tag.replace(/^@/, "")}`, warn);
+    }
+  }
+
+  for (const annotation of annotations) {
+    const target = mapping.annotations[annotation.type];
+    if (!target || !annotation.description) continue;
+    const value = target === "comment" ? `${annotation.type}: ${annotation.description}` : annotation.description;
+    applyValue(fields, target, value, `annotation "${annotation.type}"`, warn);
+  }
+
+  return fields;
+}
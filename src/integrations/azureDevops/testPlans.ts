@@ -0,0 +1,183 @@
+// Azure DevOps Test Plans REST API: reads a test plan, its suite tree and the test cases in a suite.
+import type { AdoConfig } from "./index";
+import { createAdoClient, type AdoClient } from "./client";
+
+/**
+ * A test suite in a plan. The root suite has no parent.
+ */
+export interface TestPlanSuite {
+  id: number;
+  name: string;
+  parentSuiteId: number | null;
+}
+
+/**
+ * A test plan with every suite in it (root suite included).
+ */
+export interface TestPlanSuiteTree {
+  planId: number;
+  planName: string;
+  rootSuiteId: number;
+  suites: TestPlanSuite[];
+}
+
+/**
+ * A manual test step from a test case's Microsoft.VSTS.TCM.Steps field.
+ * The ID is zero-padded to 8 digits, the form ADO expects as an actionPath.
+ */
+export interface TestCaseStep {
+  id: string;
+  action: string;
+  expectedResult?: string;
+}
+
+/**
+ * A test case in a suite, with its steps in order.
+ */
+export interface TestPlanCase {
+  id: number;
+  title: string;
+  steps: TestCaseStep[];
+}
+
+interface AdoTestPlan {
+  id: number;
+  name: string;
+  rootSuite?: { id: number; name?: string };
+}
+
+interface AdoTestSuite {
+  id: number;
+  name: string;
+  parentSuite?: { id: number; name?: string } | null;
+}
+
+interface AdoSuiteTestCase {
+  workItem: {
+    id: number;
+    name: string;
+    workItemFields?: Array<Record<string, unknown>>;
+  };
+}
+
+const STEPS_FIELD = "Microsoft.VSTS.TCM.Steps";
+
+async function throwForStatus(response: Response, notFoundMessage: string): Promise<never> {
+  if (response.status === 404) {
+    throw new Error(notFoundMessage);
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`Azure DevOps rejected the request (${response.status}). Verify ADO_TOKEN has Test Plans read access.`);
+  }
+  const errorText = await response.text();
+  throw new Error(`Azure DevOps request failed: ${response.status} ${errorText}`);
+}
+
+async function getJson<T>(client: AdoClient, apiPath: string, notFoundMessage: string): Promise<T> {
+  const response = await client.request(`_apis/testplan/${apiPath}`);
+  if (!response.ok) {
+    await throwForStatus(response, notFoundMessage);
+  }
+  return (await response.json()) as T;
+}
+
+async function getAll<T>(client: AdoClient, apiPath: string, notFoundMessage: string): Promise<T[]> {
+  return client.getAllPages<T>(`_apis/testplan/${apiPath}`, (response) => throwForStatus(response, notFoundMessage));
+}
+
+/**
+ * Reads a test plan and all of its suites.
+ */
+export async function getTestPlanSuiteTree(config: AdoConfig, planId: number): Promise<TestPlanSuiteTree> {
+  const client = createAdoClient(config);
+  const notFound = `Test plan ${planId} not found in project "${config.project}"`;
+  const plan = await getJson<AdoTestPlan>(client, `Plans/${planId}?api-version=7.0`, notFound);
+  const planSuites = await getAll<AdoTestSuite>(client, `Plans/${planId}/suites?api-version=7.0`, notFound);
+
+  const suites = planSuites.map((suite) => ({
+    id: suite.id,
+    name: suite.name,
+    parentSuiteId: suite.parentSuite ? suite.parentSuite.id : null,
+  }));
+  const rootSuiteId = plan.rootSuite?.id ?? suites.find((suite) => suite.parentSuiteId === null)?.id;
+  if (rootSuiteId === undefined) {
+    throw new Error(`Test plan ${planId} has no root suite`);
+  }
+
+  return { planId: plan.id, planName: plan.name, rootSuiteId, suites };
+}
+
+/**
+ * Reads the test cases in a suite, including their steps.
+ */
+export async function getSuiteTestCases(config: AdoConfig, planId: number, suiteId: number): Promise<TestPlanCase[]> {
+  const testCases = await getAll<AdoSuiteTestCase>(
+    createAdoClient(config),
+    `Plans/${planId}/Suites/${suiteId}/TestCase?witFields=${STEPS_FIELD}&api-version=7.0`,
+    `Suite ${suiteId} not found in test plan ${planId}`
+  );
+
+  return testCases.map(({ workItem }) => {
+    const stepsField = (workItem.workItemFields ?? []).find((field) => STEPS_FIELD in field);
+    const stepsXml = stepsField ? String(stepsField[STEPS_FIELD] ?? "") : "";
+    return { id: workItem.id, title: workItem.name, steps: parseTestCaseSteps(stepsXml) };
+  });
+}
+
+/**
+ * Decodes the XML entities used in the steps field (&lt;, &amp;, &#39;, ...).
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Converts a step's formatted (HTML) text to plain text, one line per paragraph.
+ */
+function toPlainText(formatted: string): string {
+  const html = decodeEntities(formatted);
+  const text = decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+/**
+ * Parses the Microsoft.VSTS.TCM.Steps XML into steps with plain-text action and expected result.
+ * XML format: <steps><step id="2"><parameterizedString>Action</parameterizedString><parameterizedString>Expected</parameterizedString></step></steps>
+ */
+export function parseTestCaseSteps(stepsXml: string): TestCaseStep[] {
+  const stepRegex = /<step id="(\d+)"[^>]*>([\s\S]*?)<\/step>/g;
+  const steps: TestCaseStep[] = [];
+  let match;
+
+  while ((match = stepRegex.exec(stepsXml)) !== null) {
+    const parts = Array.from(
+      match[2].matchAll(/<parameterizedString[^>]*>([\s\S]*?)<\/parameterizedString>|<parameterizedString[^>]*\/>/g),
+      (part) => toPlainText(part[1] ?? "")
+    );
+
+    steps.push({
+      id: match[1].padStart(8, "0"),
+      action: parts[0] ?? "",
+      ...(parts[1] ? { expectedResult: parts[1] } : {}),
+    });
+  }
+
+  return steps;
+}
@@ -38,9 +38,11 @@ export interface MfaConfig {
 }
 
 // System user with optional MFA configuration.
+// password is usually a {"$secret": ...} reference in dataStore.json, resolved by load().
 export interface SystemUser {
   username: string;
   email?: string;
+  password?: string;
   mfa?: MfaConfig;
 }
 
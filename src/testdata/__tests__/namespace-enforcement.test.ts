@@ -14,9 +14,10 @@ import { promises as fs } from "fs";
 import path from "path";
 
 // Import the actual dataStore functions to test namespace enforcement
-import { set, get, load, clearRunState } from "../../utils/dataStore";
+import { set, get, load, clearRunState, exportRunState } from "../../utils/dataStore";
 
 const runStatePath = path.resolve(process.cwd(), "src/testdata/runState.json");
+const runStateLogPath = path.resolve(process.cwd(), "src/testdata/runState.log");
 
 describe("dataStore namespace enforcement", () => {
   beforeEach(async () => {
@@ -48,7 +49,8 @@ describe("dataStore namespace enforcement", () => {
       // Act
       await set(testKey, testValue);
 
-      // Assert - verify data was written to runState
+      // Assert - verify data was written to runState (exported from the run-state log)
+      await exportRunState();
       const data = await fs.readFile(runStatePath, "utf-8");
       const store = JSON.parse(data);
       expect(store["test.user"]).toEqual(testValue);
@@ -74,11 +76,11 @@ describe("dataStore namespace enforcement", () => {
     });
 
     test("get() reads test.* keys from runState", async () => {
-      // Arrange - write directly to runState
-      await fs.mkdir(path.dirname(runStatePath), { recursive: true });
+      // Arrange - write directly to the run-state log
+      await fs.mkdir(path.dirname(runStateLogPath), { recursive: true });
       await fs.writeFile(
-        runStatePath,
-        JSON.stringify({ "test.user": { id: "456", name: "Runtime User" } }, null, 2)
+        runStateLogPath,
+        JSON.stringify({ key: "test.user", value: { id: "456", name: "Runtime User" } }) + "\n"
       );
 
       // Act
@@ -154,6 +156,7 @@ describe("dataStore namespace enforcement", () => {
       await set("test.separation.check", { value: "runtime-only" });
 
       // Assert - runState has the test key
+      await exportRunState();
       const runStateContent = await fs.readFile(runStatePath, "utf-8");
       const runState = JSON.parse(runStateContent);
       expect(runState["test.separation.check"]).toEqual({ value: "runtime-only" });
@@ -0,0 +1,18 @@
+// Run-state schema: declared test.* keys and the model type stored under each.
+// set/get (and the scoped stores) are type-checked against it; add keys with `pilot state:add`.
+import type * as models from "./models";
+
+export interface RunStateSchema {
+  // "test.user": models.User;
+}
+
+// Set to true to reject test.* keys that are not declared above
+export type StrictRunStateKeys = false;
+
+export type RunStateKey = keyof RunStateSchema & `test.${string}`;
+
+// Keys that may be used without a declaration: none in strict mode, any test.* key otherwise
+export type UndeclaredRunStateKey = StrictRunStateKeys extends true ? never : `test.${string}`;
+
+// The value type of a key: its model when declared, unknown otherwise
+export type RunStateValue<K extends string> = K extends RunStateKey ? RunStateSchema[K] : unknown;
@@ -0,0 +1,58 @@
+// Unit tests for canonical store layers (deep merge, provenance, environment gaps)
+import { describe, test, expect } from "@jest/globals";
+import { findEnvironmentGaps, mergeCanonicalLayers, overlayEnv } from "../canonicalLayers";
+
+describe("canonical store layers", () => {
+  test("overlays merge objects key by key and replace everything else", () => {
+    const { store, provenance } = mergeCanonicalLayers([
+      {
+        name: "dataStore.json",
+        store: {
+          "system.salesforce.users.admin": { username: "admin@example.com", roles: ["admin"], mfa: { provider: "mailosaur" } },
+          "system.salesforce.accountId": "001-base",
+        },
+      },
+      {
+        name: "dataStore.uat.json",
+        store: {
+          "system.salesforce.users.admin": { username: "admin@uat.example.com", roles: ["uat"], mfa: "none" },
+        },
+      },
+    ]);
+
+    expect(store).toEqual({
+      "system.salesforce.users.admin": { username: "admin@uat.example.com", roles: ["uat"], mfa: "none" },
+      "system.salesforce.accountId": "001-base",
+    });
+    expect(provenance).toEqual({
+      "system.salesforce.users.admin.username": "dataStore.uat.json",
+      "system.salesforce.users.admin.roles": "dataStore.uat.json",
+      "system.salesforce.users.admin.mfa": "dataStore.uat.json",
+      "system.salesforce.accountId": "dataStore.json",
+    });
+  });
+
+  test("reports keys an environment is missing or inherits while others override them", () => {
+    const gaps = findEnvironmentGaps(
+      { "system.salesforce.accountId": "001-base", "system.salesforce.baseUrl": "https://example.my.salesforce.com" },
+      {
+        qa: { "system.salesforce.users.admin": "admin@qa", "system.salesforce.accountId": "001-qa" },
+        staging: {},
+      },
+      ["system.salesforce.users.admin", "system.salesforce.users.sales"]
+    );
+
+    expect(gaps).toEqual([
+      { key: "system.salesforce.accountId", env: "staging", kind: "inherited", overriddenIn: ["qa"] },
+      { key: "system.salesforce.users.admin", env: "staging", kind: "missing", overriddenIn: ["qa"] },
+      { key: "system.salesforce.users.sales", env: "qa", kind: "missing", overriddenIn: [] },
+      { key: "system.salesforce.users.sales", env: "staging", kind: "missing", overriddenIn: [] },
+    ]);
+  });
+
+  test("reads the environment from overlay file names", () => {
+    expect(overlayEnv("dataStore.staging.json")).toBe("staging");
+    expect(overlayEnv("dataStore.json")).toBeNull();
+    expect(overlayEnv("runState.json")).toBeNull();
+  });
+});
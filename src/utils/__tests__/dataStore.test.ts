@@ -6,13 +6,30 @@ import {
   set,
   get,
   load,
+  loadProvenance,
   clearRunState,
+  exportRunState,
+  readRunState,
+  readCanonicalStore,
+  readSecretValues,
   updateSystemRegistry,
+  scoped,
+  scopedStore,
+  shared,
 } from "../dataStore";
 import { system } from "../../testdata/system";
+import { setTestContext, clearTestContext } from "../../testdata/tools/context";
+
+// Declares a typed key the way `pilot state:add` does, to check that set/get are type-checked against it
+declare module "../../testdata/runStateKeys" {
+  interface RunStateSchema {
+    "test.typedUser": { id: string; email: string };
+  }
+}
 
 const canonicalStorePath = path.resolve(process.cwd(), "src/testdata/dataStore.json");
 const runtimeStorePath = path.resolve(process.cwd(), "src/testdata/runState.json");
+const runtimeLogPath = path.resolve(process.cwd(), "src/testdata/runState.log");
 
 // Helper to clear canonical store for testing
 async function clearCanonicalStore(): Promise<void> {
@@ -35,7 +52,8 @@ describe("dataStore split storage", () => {
   test("set() writes ONLY to runtime file", async () => {
     await set("test.user", { id: "123", name: "Test User" });
 
-    // Runtime file should contain the data
+    // Runtime file (exported from the run-state log) should contain the data
+    await exportRunState();
     const runtimeData = await fs.readFile(runtimeStorePath, "utf-8").catch(() => "{}");
     const runtimeStore = JSON.parse(runtimeData);
     expect(runtimeStore["test.user"]).toEqual({ id: "123", name: "Test User" });
@@ -47,11 +65,11 @@ describe("dataStore split storage", () => {
   });
 
   test("get() reads ONLY from runtime file", async () => {
-    // Write directly to runtime file
-    await fs.mkdir(path.dirname(runtimeStorePath), { recursive: true });
+    // Write directly to the run-state log
+    await fs.mkdir(path.dirname(runtimeLogPath), { recursive: true });
     await fs.writeFile(
-      runtimeStorePath,
-      JSON.stringify({ "test.user": { id: "456", name: "Runtime User" } }, null, 2)
+      runtimeLogPath,
+      JSON.stringify({ key: "test.user", value: { id: "456", name: "Runtime User" } }) + "\n"
     );
 
     const user = await get<{ id: string; name: string }>("test.user");
@@ -110,6 +128,71 @@ describe("dataStore split storage", () => {
   });
 });
 
+describe("dataStore scoped and shared keys", () => {
+  beforeEach(async () => {
+    await clearRunState().catch(() => {});
+  });
+
+  afterEach(async () => {
+    clearTestContext();
+    await clearRunState().catch(() => {});
+  });
+
+  test("scoped keys are namespaced per test, so parallel tests don't collide", async () => {
+    setTestContext("a1b2-c3d4", 0);
+    await scoped.set("test.user", { id: "1" });
+    const workerA = scopedStore("worker");
+    setTestContext("TOOLS-003 > writes.user", 1);
+    await scoped.set("test.user", { id: "2" });
+    await scopedStore("worker").set("test.account", { id: "w1" });
+    await workerA.set("test.account", { id: "w0" });
+
+    expect(await readRunState()).toEqual({
+      "test.tests.a1b2-c3d4.user": { id: "1" },
+      "test.tests.TOOLS-003_writes_user.user": { id: "2" },
+      "test.workers.1.account": { id: "w1" },
+      "test.workers.0.account": { id: "w0" },
+    });
+    expect(await scoped.get("test.user")).toEqual({ id: "2" });
+    expect(await get("test.user")).toBeUndefined();
+  });
+
+  test("scoped keys need a test context and test.* keys", async () => {
+    await expect(scoped.set("test.user", {})).rejects.toThrow("Scoped run state needs a test context");
+    setTestContext("a1b2-c3d4", 0);
+    await expect(scoped.get("shared.user" as any)).rejects.toThrow("scoped get() can only be used with test.* keys");
+  });
+
+  test("shared keys hand data between tests", async () => {
+    setTestContext("writer", 0);
+    await shared.set("shared.invoiceId", "INV-1");
+    setTestContext("reader", 1);
+
+    expect(await shared.get("shared.invoiceId")).toBe("INV-1");
+    await expect(shared.set("test.invoiceId" as any, "INV-2")).rejects.toThrow("shared.set() can only be used with shared.* keys");
+  });
+});
+
+describe("dataStore typed run-state keys", () => {
+  afterEach(async () => {
+    await clearRunState().catch(() => {});
+  });
+
+  test("declared keys are type-checked and get returns the declared type", async () => {
+    // @ts-expect-error - missing email
+    await set("test.typedUser", { id: "2" });
+    // @ts-expect-error - only test.* keys can be declared or set
+    await expect(set("shared.typedUser", { id: "3" })).rejects.toThrow("set() can only be used with test.* keys");
+    await set("test.typedUser", { id: "1", email: "jane@example.com" });
+
+    const user = await get("test.typedUser");
+    expect(user?.email).toBe("jane@example.com");
+    // Undeclared test.* keys still work, typed by the caller
+    await set("test.untyped", 42);
+    expect(await get<number>("test.untyped")).toBe(42);
+  });
+});
+
 describe("dataStore <serverId> substitution", () => {
   const originalEnv = process.env.MAILOSAUR_SERVER_ID;
 
@@ -270,4 +353,125 @@ describe("dataStore <serverId> substitution", () => {
       meta: null,
     });
   });
-});
\ No newline at end of file
+});
+describe("dataStore environment overlays", () => {
+  const overlayPath = path.resolve(process.cwd(), "src/testdata/dataStore.jestenv.json");
+  const originalEnv = process.env.PILOT_ENV;
+
+  beforeEach(async () => {
+    await fs.writeFile(
+      canonicalStorePath,
+      JSON.stringify({
+        "system.test.admin": { username: "admin@example.com", profile: "System Administrator" },
+        "system.test.accountId": "001-base",
+      }, null, 2)
+    );
+    await fs.writeFile(overlayPath, JSON.stringify({ "system.test.admin": { username: "admin@qa.example.com" } }, null, 2));
+  });
+
+  afterEach(async () => {
+    if (originalEnv !== undefined) {
+      process.env.PILOT_ENV = originalEnv;
+    } else {
+      delete process.env.PILOT_ENV;
+    }
+    await fs.rm(overlayPath, { force: true });
+    await clearCanonicalStore().catch(() => {});
+  });
+
+  test("load() deep-merges the PILOT_ENV overlay over dataStore.json", async () => {
+    process.env.PILOT_ENV = "jestenv";
+
+    expect(await load("system.test.admin" as any)).toEqual({
+      username: "admin@qa.example.com",
+      profile: "System Administrator",
+    });
+    expect(await load("system.test.accountId" as any)).toBe("001-base");
+    expect(await loadProvenance("system.test.admin" as any)).toEqual({
+      "system.test.admin.username": "dataStore.jestenv.json",
+      "system.test.admin.profile": "dataStore.json",
+    });
+  });
+
+  test("load() uses dataStore.json alone without PILOT_ENV and fails for an unknown environment", async () => {
+    delete process.env.PILOT_ENV;
+    expect(await load("system.test.admin" as any)).toEqual({
+      username: "admin@example.com",
+      profile: "System Administrator",
+    });
+
+    process.env.PILOT_ENV = "nosuchenv";
+    await expect(load("system.test.admin" as any)).rejects.toThrow(
+      'PILOT_ENV is "nosuchenv" but src/testdata/dataStore.nosuchenv.json does not exist'
+    );
+  });
+
+  test("updateSystemRegistry() writes to an environment overlay", async () => {
+    await updateSystemRegistry("system.test.accountId" as any, "001-qa", "jestenv");
+
+    expect(JSON.parse(await fs.readFile(overlayPath, "utf-8"))).toEqual({
+      "system.test.admin": { username: "admin@qa.example.com" },
+      "system.test.accountId": "001-qa",
+    });
+    expect(await readCanonicalStore()).toMatchObject({ "system.test.accountId": "001-base" });
+  });
+});
+
+describe("dataStore secret references", () => {
+  const secretFilePath = path.resolve(process.cwd(), "src/testdata/jest-secret.txt");
+
+  beforeEach(async () => {
+    process.env.PILOT_TEST_ADMIN_PW = "env-Secret-123";
+    await fs.writeFile(secretFilePath, "file-Secret-456\n");
+    await fs.writeFile(
+      canonicalStorePath,
+      JSON.stringify({
+        "system.test.admin": { username: "admin@example.com", password: { $secret: "env:PILOT_TEST_ADMIN_PW" } },
+        "system.test.apiKey": { $secret: "file:./src/testdata/jest-secret.txt" },
+        "system.test.missing": { $secret: "env:PILOT_TEST_UNSET_PW" },
+      }, null, 2)
+    );
+  });
+
+  afterEach(async () => {
+    delete process.env.PILOT_TEST_ADMIN_PW;
+    await fs.rm(secretFilePath, { force: true });
+    await clearRunState().catch(() => {});
+    await clearCanonicalStore().catch(() => {});
+  });
+
+  test("load() resolves env and file references", async () => {
+    expect(await load("system.test.admin" as any)).toEqual({ username: "admin@example.com", password: "env-Secret-123" });
+    expect(await load("system.test.apiKey" as any)).toBe("file-Secret-456");
+    await expect(load("system.test.missing" as any)).rejects.toThrow(
+      'Secret "env:PILOT_TEST_UNSET_PW" cannot be resolved: environment variable PILOT_TEST_UNSET_PW is not set.'
+    );
+  });
+
+  test("resolved secrets are never written to run state", async () => {
+    const admin = (await load("system.test.admin" as any)) as { username: string; password: string };
+
+    await expect(set("test.admin", admin)).rejects.toThrow(
+      'Refusing to write "test.admin" to run state: $.password contains a secret resolved by load().'
+    );
+    await expect(shared.set("shared.header", `Basic ${admin.password}`)).rejects.toThrow("contains a secret resolved by load()");
+    await set("test.admin", { username: admin.username });
+    expect(await readRunState()).toEqual({ "test.admin": { username: "admin@example.com" } });
+  });
+
+  test("readSecretValues() lists the secrets it can resolve", async () => {
+    expect((await readSecretValues()).sort()).toEqual(["env-Secret-123", "file-Secret-456"]);
+  });
+
+  test("an empty secret file is rejected instead of resolving to an empty secret", async () => {
+    await fs.writeFile(secretFilePath, "\n");
+
+    await expect(load("system.test.apiKey" as any)).rejects.toThrow(
+      'Secret "file:./src/testdata/jest-secret.txt" cannot be resolved:'
+    );
+    await expect(load("system.test.apiKey" as any)).rejects.toThrow("jest-secret.txt is empty.");
+    expect(await readSecretValues()).toEqual(["env-Secret-123"]);
+    await set("test.note", "any string");
+    expect(await get("test.note")).toBe("any string");
+  });
+});
@@ -0,0 +1,80 @@
+// Unit tests for run-state backends (append-only log, JSON file with PID lock)
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { promises as fs } from "fs";
+import { spawnSync } from "child_process";
+import { tmpdir } from "os";
+import path from "path";
+import { createJsonBackend, createLogBackend, withFileLock } from "../runStateBackends";
+
+describe("run-state backends", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), "pilot-runstate-"));
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("log backend keeps every concurrent write and the latest value per key", async () => {
+    const options = { logPath: path.join(dir, "runState.log"), exportPath: path.join(dir, "runState.json") };
+    // Two backends on the same files, as two workers would have
+    const workers = [createLogBackend(options), createLogBackend(options)];
+
+    await Promise.all(
+      Array.from({ length: 40 }, (_, i) => workers[i % 2].write(`test.worker.${i % 2}.user.${i}`, { i }))
+    );
+    await workers[0].write("test.worker.0.user.0", { i: "updated" });
+
+    const state = await workers[1].read();
+    expect(Object.keys(state)).toHaveLength(40);
+    expect(state["test.worker.0.user.0"]).toEqual({ i: "updated" });
+    expect(state["test.worker.1.user.39"]).toEqual({ i: 39 });
+  });
+
+  test("log backend skips a partial line left by a crashed worker and exports JSON", async () => {
+    const logPath = path.join(dir, "runState.log");
+    const backend = createLogBackend({ logPath, exportPath: path.join(dir, "runState.json") });
+    await backend.write("test.user", { id: "1" });
+    await fs.appendFile(logPath, '\n{"key":"test.admin","val');
+    await backend.write("shared.invoiceId", "INV-1");
+
+    expect(await backend.read()).toEqual({ "test.user": { id: "1" }, "shared.invoiceId": "INV-1" });
+    const exported = await backend.exportJson();
+    expect(JSON.parse(await fs.readFile(exported, "utf-8"))).toEqual({ "test.user": { id: "1" }, "shared.invoiceId": "INV-1" });
+
+    await backend.clear();
+    expect(await backend.read()).toEqual({});
+    expect(JSON.parse(await fs.readFile(exported, "utf-8"))).toEqual({});
+  });
+
+  test("json backend serializes concurrent writes and leaves no lock or temp files", async () => {
+    const backend = createJsonBackend({ filePath: path.join(dir, "runState.json"), lockPath: path.join(dir, "runState.lock") });
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => backend.write(`test.user.${i}`, i)));
+
+    expect(Object.keys(await backend.read())).toHaveLength(20);
+    expect(await fs.readdir(dir)).toEqual(["runState.json"]);
+  });
+
+  test("a lock held by a process that has exited is removed instead of waited out", async () => {
+    const lockPath = path.join(dir, "runState.lock");
+    const exited = spawnSync(process.execPath, ["-e", ""]).pid;
+    await fs.writeFile(lockPath, String(exited));
+
+    await expect(withFileLock(lockPath, async () => "done", 200)).resolves.toBe("done");
+    expect(console.warn).toHaveBeenCalledWith(`[dataStore] Removing stale run-state lock held by PID ${exited}`);
+  });
+
+  test("a lock held by a running process times out", async () => {
+    const lockPath = path.join(dir, "runState.lock");
+    await fs.writeFile(lockPath, String(process.pid));
+
+    await expect(withFileLock(lockPath, async () => "done", 50)).rejects.toThrow(
+      "The process holding it is still running."
+    );
+  });
+});
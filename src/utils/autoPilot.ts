@@ -66,7 +66,7 @@ export class AutoPilot {
     if (isSystemUser) {
       const user = userOrUsername as SystemUser;
       loginUsername = user.username || user.email || "";
-      loginPassword = process.env.LOGIN_PASSWORD || "";
+      loginPassword = user.password || process.env.LOGIN_PASSWORD || "";
       loginOptions = typeof passwordOrOptions === "object" ? passwordOrOptions : undefined;
 
       if (!loginUsername) {
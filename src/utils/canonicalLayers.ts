@@ -0,0 +1,127 @@
+// Canonical store layers: dataStore.json plus one dataStore.<env>.json overlay per environment.
+// PILOT_ENV picks the overlay that load() merges over the base store.
+
+export const BASE_LAYER = "dataStore.json";
+
+/**
+ * One canonical store file: the base store or an environment overlay.
+ */
+export interface CanonicalLayer {
+  /** File name, e.g. dataStore.json or dataStore.qa.json. */
+  name: string;
+  store: Record<string, unknown>;
+}
+
+/**
+ * The merged canonical store and, for every value in it, the layer it came from.
+ * Provenance is keyed by the system key, extended with the nested path for values inside objects
+ * (e.g. "system.salesforce.users.admin.username").
+ */
+export interface MergedCanonicalStore {
+  store: Record<string, unknown>;
+  provenance: Record<string, string>;
+}
+
+/**
+ * A system key with no value of its own in one environment.
+ */
+export interface EnvironmentGap {
+  key: string;
+  env: string;
+  /** "missing": no value at all. "inherited": uses the base value although other environments override it. */
+  kind: "missing" | "inherited";
+  /** The environments whose overlays set the key. */
+  overriddenIn: string[];
+}
+
+export function overlayFileName(env: string): string {
+  return `dataStore.${env}.json`;
+}
+
+/**
+ * The environment of an overlay file name (dataStore.qa.json -> qa), or null for other files.
+ */
+export function overlayEnv(fileName: string): string | null {
+  return fileName.match(/^dataStore\.([A-Za-z0-9_-]+)\.json$/)?.[1] ?? null;
+}
+
+export function isValidEnvName(env: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(env);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function recordLeaves(value: unknown, keyPath: string, layer: string, provenance: Record<string, string>): void {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      recordLeaves(child, `${keyPath}.${key}`, layer, provenance);
+    }
+    return;
+  }
+  provenance[keyPath] = layer;
+}
+
+/**
+ * Merges `source` over `target`: objects merge key by key, anything else (strings, arrays, numbers) is replaced.
+ */
+function mergeValue(target: unknown, source: unknown, keyPath: string, layer: string, provenance: Record<string, string>): unknown {
+  if (isPlainObject(target) && isPlainObject(source)) {
+    const result: Record<string, unknown> = { ...target };
+    for (const [key, child] of Object.entries(source)) {
+      result[key] = mergeValue(target[key], child, `${keyPath}.${key}`, layer, provenance);
+    }
+    return result;
+  }
+
+  // Replaced wholesale, so nothing below this path comes from an earlier layer any more
+  for (const recorded of Object.keys(provenance)) {
+    if (recorded === keyPath || recorded.startsWith(`${keyPath}.`)) {
+      delete provenance[recorded];
+    }
+  }
+  recordLeaves(source, keyPath, layer, provenance);
+  return source;
+}
+
+/**
+ * Deep-merges layers in order (base first), recording which layer each value came from.
+ */
+export function mergeCanonicalLayers(layers: CanonicalLayer[]): MergedCanonicalStore {
+  const store: Record<string, unknown> = {};
+  const provenance: Record<string, string> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer.store)) {
+      store[key] = mergeValue(store[key], value, key, layer.name, provenance);
+    }
+  }
+  return { store, provenance };
+}
+
+/**
+ * Finds keys an environment has no value of its own for. `keys` are the keys every environment
+ * needs (e.g. the system registry); keys set in any layer are checked too.
+ */
+export function findEnvironmentGaps(
+  base: Record<string, unknown>,
+  overlays: Record<string, Record<string, unknown>>,
+  keys: string[] = []
+): EnvironmentGap[] {
+  const envs = Object.keys(overlays).sort();
+  const allKeys = new Set([...keys, ...Object.keys(base), ...envs.flatMap((env) => Object.keys(overlays[env]))]);
+  const gaps: EnvironmentGap[] = [];
+
+  for (const key of [...allKeys].sort()) {
+    const overriddenIn = envs.filter((env) => overlays[env][key] !== undefined);
+    for (const env of envs) {
+      if (overlays[env][key] !== undefined) continue;
+      if (base[key] === undefined) {
+        gaps.push({ key, env, kind: "missing", overriddenIn });
+      } else if (overriddenIn.length > 0) {
+        gaps.push({ key, env, kind: "inherited", overriddenIn });
+      }
+    }
+  }
+  return gaps;
+}
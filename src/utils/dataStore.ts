@@ -1,13 +1,22 @@
-// Split storage: canonical (system.*) and run-scoped (test.*) data.
+// Split storage: canonical (system.*) and run-scoped (test.*, shared.*) data.
 import { promises as fs } from "fs";
 import path from "path";
 import type { SystemKey } from "../testdata/system";
+import type { RunStateKey, RunStateSchema, RunStateValue, UndeclaredRunStateKey } from "../testdata/runStateKeys";
+import { getTestContext, getWorkerIndex } from "../testdata/tools/context";
+import { createJsonBackend, createLogBackend, RUN_STATE_BACKENDS, type RunStateBackend } from "./runStateBackends";
+import { BASE_LAYER, isValidEnvName, mergeCanonicalLayers, overlayEnv, overlayFileName, type MergedCanonicalStore } from "./canonicalLayers";
+import { collectSecretRefs, findSecretIn, isSecretRef, rememberSecret, resolveSecretRef } from "./secretRefs";
 
 // Canonical store: committed to repo, for system.* keys only
-const canonicalStorePath = path.resolve(process.cwd(), "src/testdata/dataStore.json");
+// dataStore.json holds values shared by every environment; dataStore.<env>.json overlays it for PILOT_ENV
+const canonicalStoreDir = path.resolve(process.cwd(), "src/testdata");
+const canonicalStorePath = path.join(canonicalStoreDir, BASE_LAYER);
 
-// Run state: gitignored, for test.* keys only
+// Run state: gitignored, for test.* and shared.* keys only
 // Located in src/testdata/ (not test-results/) to avoid Playwright output cleanup between runs
+// The log backend keeps runState.log and exports runState.json; the json backend uses runState.json and its lock
+const runStateLogPath = path.resolve(process.cwd(), "src/testdata/runState.log");
 const runStatePath = path.resolve(process.cwd(), "src/testdata/runState.json");
 const runStateLockPath = path.resolve(process.cwd(), "src/testdata/runState.lock");
 
@@ -25,73 +34,45 @@ async function loadCanonicalStore(): Promise<Record<string, unknown>> {
   }
 }
 
-async function ensureCanonicalStoreDir(): Promise<void> {
-  const dir = path.dirname(canonicalStorePath);
-  try {
-    await fs.mkdir(dir, { recursive: true });
-  } catch {
-    // Directory might already exist, ignore
+// Reads an overlay file, or null when the environment has none.
+async function readCanonicalOverlay(env: string): Promise<Record<string, unknown> | null> {
+  if (!isValidEnvName(env)) {
+    throw new Error(`Invalid environment "${env}". Use letters, digits, _ and - only.`);
   }
-}
-
-async function loadRunState(): Promise<Record<string, unknown>> {
   try {
-    const data = await fs.readFile(runStatePath, "utf-8");
-    if (!data.trim()) {
-      return {};
-    }
+    const data = await fs.readFile(path.join(canonicalStoreDir, overlayFileName(env)), "utf-8");
     return JSON.parse(data);
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      return {};
+      return null;
     }
     throw error;
   }
 }
 
-/**
- * Acquires an exclusive lock on runState.json by creating a lock file.
- * Retries with exponential backoff if lock is already held.
- */
-async function acquireLock(maxAttempts: number = 50): Promise<void> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    try {
-      // Try to create lock file exclusively (fails if it exists)
-      const handle = await fs.open(runStateLockPath, "wx");
-      await handle.close(); // Close the handle, file remains as lock marker
-      return; // Lock acquired
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
-        // Lock is held by another process, wait and retry
-        const delay = Math.min(10 + attempt * 2, 100); // Exponential backoff, max 100ms
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        continue;
-      }
-      throw error;
-    }
+// Reads the overlay for an environment. A missing overlay is an error: a mistyped PILOT_ENV must not fall back to base values.
+async function loadCanonicalOverlay(env: string): Promise<Record<string, unknown>> {
+  const overlay = await readCanonicalOverlay(env);
+  if (!overlay) {
+    throw new Error(
+      `PILOT_ENV is "${env}" but src/testdata/${overlayFileName(env)} does not exist. ` +
+      `Create it (e.g. with "pilot system:add --env ${env}=<value>") or unset PILOT_ENV.`
+    );
   }
-  throw new Error(
-    `Failed to acquire lock on runState.json after ${maxAttempts} attempts. ` +
-    `Another process may be holding the lock.`
-  );
+  return overlay;
 }
 
-/**
- * Releases the lock by removing the lock file.
- */
-async function releaseLock(): Promise<void> {
-  try {
-    await fs.unlink(runStateLockPath);
-  } catch (error) {
-    // Ignore ENOENT (lock file already removed) but log other errors
-    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
-      console.warn(`[dataStore] Warning: Failed to release lock: ${error instanceof Error ? error.message : String(error)}`);
-    }
+// Merges the overlay for `env` (default: PILOT_ENV) over the base store, with the layer of every value.
+async function loadMergedCanonicalStore(env: string | undefined = process.env.PILOT_ENV): Promise<MergedCanonicalStore> {
+  const layers = [{ name: BASE_LAYER, store: await loadCanonicalStore() }];
+  if (env) {
+    layers.push({ name: overlayFileName(env), store: await loadCanonicalOverlay(env) });
   }
+  return mergeCanonicalLayers(layers);
 }
 
-async function ensureRunStateDir(): Promise<void> {
-  const dir = path.dirname(runStatePath);
+async function ensureCanonicalStoreDir(): Promise<void> {
+  const dir = path.dirname(canonicalStorePath);
   try {
     await fs.mkdir(dir, { recursive: true });
   } catch {
@@ -99,35 +80,68 @@ async function ensureRunStateDir(): Promise<void> {
   }
 }
 
+// Backend for the current process, chosen on first use unless one was set
+let runStateBackend: RunStateBackend | null = null;
+
+// Opens the backend named by PILOT_RUNSTATE_BACKEND (default: log).
+function createRunStateBackend(): RunStateBackend {
+  const name = process.env.PILOT_RUNSTATE_BACKEND || "log";
+  switch (name) {
+    case "log":
+      return createLogBackend({ logPath: runStateLogPath, exportPath: runStatePath });
+    case "json":
+      return createJsonBackend({ filePath: runStatePath, lockPath: runStateLockPath });
+    default:
+      throw new Error(
+        `Unknown PILOT_RUNSTATE_BACKEND "${name}". Expected one of: ${RUN_STATE_BACKENDS.join(", ")}`
+      );
+  }
+}
+
+function getRunStateBackend(): RunStateBackend {
+  runStateBackend ??= createRunStateBackend();
+  return runStateBackend;
+}
+
+// Replaces the run-state backend (e.g. a custom store); null goes back to PILOT_RUNSTATE_BACKEND.
+export function setRunStateBackend(backend: RunStateBackend | null): void {
+  runStateBackend = backend;
+}
+
+async function loadRunState(): Promise<Record<string, unknown>> {
+  return getRunStateBackend().read();
+}
+
+async function writeRunStateKey(key: string, value: unknown): Promise<void> {
+  // Secrets resolved by load() stay in memory; run state is written to disk and exported
+  const secretPath = findSecretIn(value);
+  if (secretPath) {
+    throw new Error(
+      `Refusing to write "${key}" to run state: ${secretPath} contains a secret resolved by load(). ` +
+      `Load the secret where it is needed instead of storing it.`
+    );
+  }
+  await getRunStateBackend().write(key, value);
+}
+
 // Writes a value to run state (test.* keys only).
-// Uses cross-process locking to ensure safe concurrent writes from multiple workers.
-export async function set(key: `test.${string}`, value: unknown): Promise<void> {
+// Keys declared in src/testdata/runStateKeys.ts only accept their model type.
+// The backend keeps concurrent writes from multiple workers safe.
+export async function set<K extends RunStateKey | UndeclaredRunStateKey>(key: K, value: RunStateValue<K>): Promise<void> {
   if (!key.startsWith("test.")) {
     throw new Error(
       `set() can only be used with test.* keys. Received: "${key}". Use load() for system.* keys.`
     );
   }
 
-  await ensureRunStateDir();
-
-  // Acquire lock before reading/writing
-  await acquireLock();
-
-  try {
-    // Read current state (may have been updated by another worker)
-    const store = await loadRunState();
-    store[key] = value;
-
-    // Write back with await to ensure durability
-    await fs.writeFile(runStatePath, JSON.stringify(store, null, 2));
-  } finally {
-    // Always release lock, even if write fails
-    await releaseLock();
-  }
+  await writeRunStateKey(key, value);
 }
 
 // Reads a value from run state (test.* keys only).
-export async function get<T = unknown>(key: `test.${string}`): Promise<T | undefined> {
+// Declared keys are typed by the schema; undeclared keys take the caller's type argument.
+export async function get<K extends RunStateKey>(key: K): Promise<RunStateSchema[K] | undefined>;
+export async function get<T = unknown>(key: UndeclaredRunStateKey): Promise<T | undefined>;
+export async function get(key: string): Promise<unknown> {
   if (!key.startsWith("test.")) {
     throw new Error(
       `get() can only be used with test.* keys. Received: "${key}". Use load() for system.* keys.`
@@ -135,14 +149,96 @@ export async function get<T = unknown>(key: `test.${string}`): Promise<T | undef
   }
 
   const store = await loadRunState();
-  return store[key] as T | undefined;
+  return store[key];
+}
+
+// Scope of a scoped store: one namespace per test, or one per worker.
+export type StateScope = "test" | "worker";
+
+/**
+ * A view of run state that stores its test.* keys under a per-test or per-worker namespace,
+ * so parallel tests can use the same key names without overwriting each other.
+ */
+export interface ScopedStore {
+  /** Prefix the keys are stored under: test.tests.<testId> or test.workers.<workerIndex>. */
+  readonly namespace: string;
+  set<K extends RunStateKey | UndeclaredRunStateKey>(key: K, value: RunStateValue<K>): Promise<void>;
+  get<K extends RunStateKey>(key: K): Promise<RunStateSchema[K] | undefined>;
+  get<T = unknown>(key: UndeclaredRunStateKey): Promise<T | undefined>;
+}
+
+// Test IDs become one key segment, so dots and spaces (from a titlePath fallback) are replaced
+function toKeySegment(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_-]+/g, "_");
 }
 
-// Recursively substitutes <serverId> placeholder with MAILOSAUR_SERVER_ID env var.
-// Throws if placeholder is present but env var is missing.
+// Creates a store scoped to the current test (or its worker), from the context the fixtures set.
+export function scopedStore(scope: StateScope = "test"): ScopedStore {
+  const testIdentifier = getTestContext();
+  const workerIndex = getWorkerIndex();
+  if (testIdentifier === null || workerIndex === null) {
+    throw new Error(
+      `Scoped run state needs a test context. Use the scoped or workerScoped fixture inside a test, ` +
+      `or shared.* keys to hand data between tests.`
+    );
+  }
+
+  const namespace = scope === "test" ? `test.tests.${toKeySegment(testIdentifier)}` : `test.workers.${workerIndex}`;
+  const toStoredKey = (method: string, key: string): string => {
+    if (!key.startsWith("test.")) {
+      throw new Error(`scoped ${method}() can only be used with test.* keys. Received: "${key}".`);
+    }
+    return `${namespace}.${key.slice("test.".length)}`;
+  };
+
+  return {
+    namespace,
+    set: (key, value) => writeRunStateKey(toStoredKey("set", key), value),
+    get: (async (key: string): Promise<unknown> => {
+      const store = await loadRunState();
+      return store[toStoredKey("get", key)];
+    }) as ScopedStore["get"],
+  };
+}
+
+// Per-test scoped store, resolved from the current test context on each call.
+export const scoped: Omit<ScopedStore, "namespace"> = {
+  async set(key, value) {
+    await scopedStore("test").set(key, value);
+  },
+  get: (async (key: string): Promise<unknown> =>
+    scopedStore("test").get(key as UndeclaredRunStateKey)) as ScopedStore["get"],
+};
+
+// Run state shared between tests (shared.* keys only), for explicit cross-test handoff.
+export const shared = {
+  async set(key: `shared.${string}`, value: unknown): Promise<void> {
+    if (!key.startsWith("shared.")) {
+      throw new Error(`shared.set() can only be used with shared.* keys. Received: "${key}".`);
+    }
+    await writeRunStateKey(key, value);
+  },
+  async get<T = unknown>(key: `shared.${string}`): Promise<T | undefined> {
+    if (!key.startsWith("shared.")) {
+      throw new Error(`shared.get() can only be used with shared.* keys. Received: "${key}".`);
+    }
+    const store = await loadRunState();
+    return store[key] as T | undefined;
+  },
+};
+
+// Recursively resolves a canonical value: substitutes the <serverId> placeholder with MAILOSAUR_SERVER_ID
+// and replaces {"$secret": "env:NAME" | "file:./path"} references with the secret they point to.
+// Throws if a placeholder or reference cannot be resolved.
 const SERVER_ID_PLACEHOLDER = "<serverId>";
 
-function substituteServerIdPlaceholder(value: unknown): unknown {
+async function resolveCanonicalValue(value: unknown): Promise<unknown> {
+  if (isSecretRef(value)) {
+    const secret = await resolveSecretRef(value.$secret);
+    rememberSecret(secret);
+    return secret;
+  }
+
   if (typeof value === "string") {
     if (value.includes(SERVER_ID_PLACEHOLDER)) {
       const serverId = process.env.MAILOSAUR_SERVER_ID;
@@ -158,13 +254,13 @@ function substituteServerIdPlaceholder(value: unknown): unknown {
   }
 
   if (Array.isArray(value)) {
-    return value.map((item) => substituteServerIdPlaceholder(item));
+    return Promise.all(value.map((item) => resolveCanonicalValue(item)));
   }
 
   if (value !== null && typeof value === "object") {
     const result: Record<string, unknown> = {};
     for (const [k, v] of Object.entries(value)) {
-      result[k] = substituteServerIdPlaceholder(v);
+      result[k] = await resolveCanonicalValue(v);
     }
     return result;
   }
@@ -173,8 +269,8 @@ function substituteServerIdPlaceholder(value: unknown): unknown {
   return value;
 }
 
-// Loads a value from canonical store (system.* keys only).
-// Automatically substitutes <serverId> placeholders with MAILOSAUR_SERVER_ID env var.
+// Loads a value from canonical store (system.* keys only), with the PILOT_ENV overlay merged in.
+// Automatically substitutes <serverId> placeholders with MAILOSAUR_SERVER_ID env var and resolves secret references.
 export async function load(key: SystemKey): Promise<unknown> {
   if (!key.startsWith("system.")) {
     throw new Error(
@@ -182,33 +278,82 @@ export async function load(key: SystemKey): Promise<unknown> {
     );
   }
 
-  const store = await loadCanonicalStore();
+  const { store } = await loadMergedCanonicalStore();
   const rawValue = store[key];
-  return substituteServerIdPlaceholder(rawValue);
+  return resolveCanonicalValue(rawValue);
+}
+
+// Returns the file each part of a system value was loaded from, keyed by key or nested path
+// (e.g. { "system.salesforce.users.admin.username": "dataStore.qa.json" }).
+export async function loadProvenance(key: SystemKey): Promise<Record<string, string>> {
+  const { provenance } = await loadMergedCanonicalStore();
+  return Object.fromEntries(
+    Object.entries(provenance).filter(([valuePath]) => valuePath === key || valuePath.startsWith(`${key}.`))
+  );
 }
 
 // Clears run state (called at start of each run).
 export async function clearRunState(): Promise<void> {
-  await ensureRunStateDir();
-  await fs.writeFile(runStatePath, JSON.stringify({}, null, 2));
+  await getRunStateBackend().clear();
+}
+
+// Writes run state to runState.json for debugging and tools that read the file. Returns its path.
+export async function exportRunState(): Promise<string> {
+  return getRunStateBackend().exportJson();
 }
 
 // Internal function for CLI tooling only (not exposed to tests).
-export async function updateSystemRegistry(key: SystemKey, value: unknown | undefined): Promise<void> {
+// Writes to the base store, or to the overlay of `env` (created if missing).
+export async function updateSystemRegistry(key: SystemKey, value: unknown | undefined, env?: string): Promise<void> {
   if (!key.startsWith("system.")) {
     throw new Error(`updateSystemRegistry() requires a system.* key. Received: "${key}"`);
   }
 
-  const store = await loadCanonicalStore();
+  const filePath = env ? path.join(canonicalStoreDir, overlayFileName(env)) : canonicalStorePath;
+  const store = env ? (await readCanonicalOverlay(env)) ?? {} : await loadCanonicalStore();
   if (value === undefined) {
     delete store[key];
   } else {
     store[key] = value;
   }
-  await fs.writeFile(canonicalStorePath, JSON.stringify(store, null, 2));
+  await ensureCanonicalStoreDir();
+  await fs.writeFile(filePath, JSON.stringify(store, null, 2));
+}
+
+// Internal function to read run state (for CLI tooling).
+export async function readRunState(): Promise<Record<string, unknown>> {
+  return loadRunState();
 }
 
 // Internal function to read canonical store (for CLI tooling).
-export async function readCanonicalStore(): Promise<Record<string, unknown>> {
-  return loadCanonicalStore();
+// Reads dataStore.json only; pass an environment to get it merged with that overlay.
+export async function readCanonicalStore(env?: string): Promise<Record<string, unknown>> {
+  return env ? (await loadMergedCanonicalStore(env)).store : loadCanonicalStore();
+}
+
+// Internal function for the ADO sync: every secret referenced by dataStore.json or an overlay that can be
+// resolved in this process, so uploads can be checked for them. References that cannot be resolved are skipped.
+export async function readSecretValues(): Promise<string[]> {
+  const stores = [await loadCanonicalStore()];
+  for (const fileName of await fs.readdir(canonicalStoreDir)) {
+    const env = overlayEnv(fileName);
+    if (env) {
+      stores.push((await readCanonicalOverlay(env)) ?? {});
+    }
+  }
+
+  const secrets = new Set<string>();
+  for (const ref of new Set(stores.flatMap(collectSecretRefs))) {
+    try {
+      secrets.add(await resolveSecretRef(ref));
+    } catch {
+      // Not available in this process (e.g. the variable is only set for the test step); nothing to check for
+    }
+  }
+  return [...secrets];
+}
+
+// Internal function to read the merged canonical store with per-value provenance (for CLI tooling).
+export async function readCanonicalStoreWithProvenance(env: string | undefined = process.env.PILOT_ENV): Promise<MergedCanonicalStore> {
+  return loadMergedCanonicalStore(env);
 }
@@ -0,0 +1,203 @@
+// Run-state backends: where set/get/clearRunState keep test.* and shared.* data during a run.
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Storage behind set/get/clearRunState. Every worker process opens its own backend on the same files,
+ * so implementations must be safe across processes.
+ */
+export interface RunStateBackend {
+  readonly name: string;
+  /** Reads every key, with the latest value for each. */
+  read(): Promise<Record<string, unknown>>;
+  write(key: string, value: unknown): Promise<void>;
+  clear(): Promise<void>;
+  /** Writes the current state as pretty JSON for debugging and tools that read a file. Returns its path. */
+  exportJson(): Promise<string>;
+}
+
+export const RUN_STATE_BACKENDS = ["log", "json"] as const;
+
+export type RunStateBackendName = (typeof RUN_STATE_BACKENDS)[number];
+
+/**
+ * Writes a file atomically: a temp file in the same directory is renamed over the target, so readers
+ * never see a half-written file.
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => { });
+    throw error;
+  }
+}
+
+async function readJsonFile(filePath: string): Promise<Record<string, unknown>> {
+  try {
+    const data = await fs.readFile(filePath, "utf-8");
+    return data.trim() ? JSON.parse(data) : {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a process is still running. EPERM means it exists but belongs to another user.
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// A lock file with no readable PID is only treated as stale once it is this old (its writer may be mid-write)
+const UNREADABLE_LOCK_STALE_MS = 5000;
+
+/**
+ * Removes the lock file if the process that holds it has exited. Returns whether it was removed.
+ */
+async function removeStaleLock(lockPath: string): Promise<boolean> {
+  let holder: number;
+  try {
+    holder = parseInt(await fs.readFile(lockPath, "utf-8"), 10);
+    if (Number.isNaN(holder)) {
+      const { mtimeMs } = await fs.stat(lockPath);
+      if (Date.now() - mtimeMs < UNREADABLE_LOCK_STALE_MS) return false;
+    } else if (isProcessAlive(holder)) {
+      return false;
+    }
+  } catch (error) {
+    // Released between our attempt and the read, so the next attempt can take it
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return true;
+    throw error;
+  }
+  console.warn(`[dataStore] Removing stale run-state lock held by ${Number.isNaN(holder) ? "an unknown process" : `PID ${holder}`}`);
+  await fs.unlink(lockPath).catch(() => { });
+  return true;
+}
+
+/**
+ * Runs `action` holding an exclusive lock file that records our PID. A lock left by a crashed
+ * process is detected by its PID and removed instead of waited out.
+ */
+export async function withFileLock<T>(lockPath: string, action: () => Promise<T>, maxWaitMs: number = 10000): Promise<T> {
+  const startedAt = Date.now();
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const handle = await fs.open(lockPath, "wx");
+      try {
+        await handle.writeFile(String(process.pid));
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      if (await removeStaleLock(lockPath)) continue;
+      if (Date.now() - startedAt > maxWaitMs) {
+        throw new Error(
+          `Failed to acquire run-state lock ${lockPath} within ${maxWaitMs}ms. ` +
+          `The process holding it is still running.`
+        );
+      }
+      // Backoff with jitter so waiting workers don't retry in lockstep, max 100ms
+      await new Promise((resolve) => setTimeout(resolve, Math.min(10 + attempt * 5, 100) * (0.5 + Math.random())));
+    }
+  }
+
+  try {
+    return await action();
+  } finally {
+    await fs.unlink(lockPath).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== "ENOENT") {
+        console.warn(`[dataStore] Warning: Failed to release lock: ${error.message}`);
+      }
+    });
+  }
+}
+
+/**
+ * Append-only log: each write appends one JSON line ({"key","value"}) and reads replay the log, the
+ * last line for a key winning. Appends need no lock, so workers never wait on each other.
+ */
+export function createLogBackend(options: { logPath: string; exportPath: string }): RunStateBackend {
+  const { logPath, exportPath } = options;
+
+  const read = async (): Promise<Record<string, unknown>> => {
+    let data: string;
+    try {
+      data = await fs.readFile(logPath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+    const state: Record<string, unknown> = {};
+    for (const line of data.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as { key: string; value: unknown };
+        state[entry.key] = entry.value;
+      } catch {
+        // A worker that crashed mid-append can leave a partial line; it is skipped
+      }
+    }
+    return state;
+  };
+
+  return {
+    name: "log",
+    read,
+    async write(key, value) {
+      await fs.mkdir(path.dirname(logPath), { recursive: true });
+      // O_APPEND writes land whole at the end of the file, so concurrent workers don't interleave lines.
+      // Each line starts with a newline, so a partial line from a crashed worker can't swallow the next one.
+      await fs.appendFile(logPath, "\n" + JSON.stringify({ key, value }));
+    },
+    async clear() {
+      await writeFileAtomic(logPath, "");
+      await writeFileAtomic(exportPath, JSON.stringify({}, null, 2));
+    },
+    async exportJson() {
+      await writeFileAtomic(exportPath, JSON.stringify(await read(), null, 2));
+      return exportPath;
+    },
+  };
+}
+
+/**
+ * One JSON file, rewritten in full under a PID lock on every write. Simple to read by hand, but writers
+ * queue on the lock, so prefer the log backend for many workers.
+ */
+export function createJsonBackend(options: { filePath: string; lockPath: string }): RunStateBackend {
+  const { filePath, lockPath } = options;
+
+  return {
+    name: "json",
+    read: () => readJsonFile(filePath),
+    async write(key, value) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await withFileLock(lockPath, async () => {
+        // Read current state (may have been updated by another worker)
+        const store = await readJsonFile(filePath);
+        store[key] = value;
+        await writeFileAtomic(filePath, JSON.stringify(store, null, 2));
+      });
+    },
+    async clear() {
+      await writeFileAtomic(filePath, JSON.stringify({}, null, 2));
+    },
+    async exportJson() {
+      return filePath;
+    },
+  };
+}
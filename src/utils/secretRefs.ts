@@ -0,0 +1,110 @@
+// Secret references in canonical store values: {"$secret": "env:NAME"} or {"$secret": "file:./path"}.
+// load() resolves them; the values it resolved are remembered so run state and ADO uploads can keep them out.
+import { promises as fs } from "fs";
+import path from "path";
+
+export const SECRET_SCHEMES = ["env", "file"] as const;
+
+export type SecretScheme = (typeof SECRET_SCHEMES)[number];
+
+/**
+ * A value in dataStore.json that stands for a secret kept outside the repo.
+ */
+export interface SecretRef {
+  $secret: string;
+}
+
+export function isSecretRef(value: unknown): value is SecretRef {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] === "$secret" && typeof (value as SecretRef).$secret === "string";
+}
+
+/**
+ * Splits "env:SF_ADMIN_PW" into its scheme and target.
+ */
+export function parseSecretRef(ref: string): { scheme: SecretScheme; target: string } {
+  const separatorIndex = ref.indexOf(":");
+  const scheme = ref.slice(0, Math.max(separatorIndex, 0));
+  const target = ref.slice(separatorIndex + 1).trim();
+  if (!SECRET_SCHEMES.includes(scheme as SecretScheme) || !target) {
+    throw new Error(`Invalid secret reference "${ref}". Expected ${SECRET_SCHEMES.map((s) => `"${s}:..."`).join(" or ")}.`);
+  }
+  return { scheme: scheme as SecretScheme, target };
+}
+
+/**
+ * Reads the secret a reference points to. Files are relative to `baseDir` (the repo root) and lose one trailing newline.
+ */
+export async function resolveSecretRef(ref: string, baseDir: string = process.cwd()): Promise<string> {
+  const { scheme, target } = parseSecretRef(ref);
+  if (scheme === "env") {
+    const value = process.env[target];
+    if (!value) {
+      throw new Error(`Secret "${ref}" cannot be resolved: environment variable ${target} is not set.`);
+    }
+    return value;
+  }
+
+  const filePath = path.resolve(baseDir, target);
+  let value: string;
+  try {
+    value = (await fs.readFile(filePath, "utf-8")).replace(/\r?\n$/, "");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Secret "${ref}" cannot be resolved: ${filePath} does not exist.`);
+    }
+    throw error;
+  }
+  if (!value) {
+    throw new Error(`Secret "${ref}" cannot be resolved: ${filePath} is empty.`);
+  }
+  return value;
+}
+
+/**
+ * Lists the references in a value, at any depth.
+ */
+export function collectSecretRefs(value: unknown): string[] {
+  if (isSecretRef(value)) return [value.$secret];
+  if (Array.isArray(value)) return value.flatMap(collectSecretRefs);
+  if (value !== null && typeof value === "object") return Object.values(value).flatMap(collectSecretRefs);
+  return [];
+}
+
+// Every secret load() has resolved in this process
+const resolvedSecrets = new Set<string>();
+
+export function rememberSecret(secret: string): void {
+  resolvedSecrets.add(secret);
+}
+
+export function getResolvedSecrets(): string[] {
+  return [...resolvedSecrets];
+}
+
+/**
+ * Returns the JSONPath of the first string in `value` that contains one of `secrets`, or null.
+ */
+export function findSecretIn(value: unknown, secrets: Iterable<string> = resolvedSecrets, valuePath: string = "$"): string | null {
+  if (typeof value === "string") {
+    for (const secret of secrets) {
+      if (value.includes(secret)) return valuePath;
+    }
+    return null;
+  }
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      const found = findSecretIn(value[i], secrets, `${valuePath}[${i}]`);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (value !== null && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      const found = findSecretIn(child, secrets, `${valuePath}.${key}`);
+      if (found) return found;
+    }
+  }
+  return null;
+}
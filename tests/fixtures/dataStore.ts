@@ -1,30 +1,39 @@
-// DataStore fixtures: set/get for test.* keys (runState.json).
+// DataStore fixtures: set/get for test.* keys (runState.json), scoped and shared views of run state.
 import type { TestInfo } from "@playwright/test";
-import { set, get } from "../../src/utils/dataStore";
+import { set, get, shared, scopedStore, type ScopedStore } from "../../src/utils/dataStore";
 import { setTestContext, clearTestContext } from "../../src/testdata/tools/context";
 
+// Runs a fixture with the test context set, so factories get the test's seed and scoped stores its namespace
+async function withTestContext<T>(testInfo: TestInfo, create: () => T, use: (value: T) => Promise<void>): Promise<void> {
+  // Use testId if available, otherwise fallback to titlePath
+  const testIdentifier = testInfo.testId || testInfo.titlePath.join(" > ");
+  const workerIndex = testInfo.workerIndex;
+  setTestContext(testIdentifier, workerIndex);
+  try {
+    await use(create());
+  } finally {
+    clearTestContext();
+  }
+}
+
 export const dataStoreFixtures = {
   // Initialize seed context before set/get are used (ensures factories have correct seed)
   set: async ({}, use: (value: typeof set) => Promise<void>, testInfo: TestInfo) => {
-    // Use testId if available, otherwise fallback to titlePath
-    const testIdentifier = testInfo.testId || testInfo.titlePath.join(" > ");
-    const workerIndex = testInfo.workerIndex;
-    setTestContext(testIdentifier, workerIndex);
-    try {
-      await use(set);
-    } finally {
-      clearTestContext();
-    }
+    await withTestContext(testInfo, () => set, use);
   },
   get: async ({}, use: (value: typeof get) => Promise<void>, testInfo: TestInfo) => {
-    // Use testId if available, otherwise fallback to titlePath
-    const testIdentifier = testInfo.testId || testInfo.titlePath.join(" > ");
-    const workerIndex = testInfo.workerIndex;
-    setTestContext(testIdentifier, workerIndex);
-    try {
-      await use(get);
-    } finally {
-      clearTestContext();
-    }
+    await withTestContext(testInfo, () => get, use);
+  },
+  // test.* keys namespaced per test (test.tests.<testId>.*)
+  scoped: async ({}, use: (value: ScopedStore) => Promise<void>, testInfo: TestInfo) => {
+    await withTestContext(testInfo, () => scopedStore("test"), use);
+  },
+  // test.* keys namespaced per worker (test.workers.<workerIndex>.*)
+  workerScoped: async ({}, use: (value: ScopedStore) => Promise<void>, testInfo: TestInfo) => {
+    await withTestContext(testInfo, () => scopedStore("worker"), use);
+  },
+  // shared.* keys for handing data between tests
+  shared: async ({}, use: (value: typeof shared) => Promise<void>) => {
+    await use(shared);
   },
 };
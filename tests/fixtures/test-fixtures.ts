@@ -13,7 +13,7 @@ import {
   type MailAnalysisFixture,
 } from "./mailosaur-fixtures";
 import { setTestContext, clearTestContext } from "../../src/testdata/tools/context";
-import type { set as setFn, get as getFn } from "../../src/utils/dataStore";
+import type { set as setFn, get as getFn, shared as sharedStore, ScopedStore } from "../../src/utils/dataStore";
 import type { MfaHelper } from "../../src/integrations/mailosaur/types";
 import { MailosaurClient, createMfaHelper } from "../../src/integrations/mailosaur/MailosaurClient";
 import type { SalesforceAuthProvider } from "../../src/integrations/salesforce";
@@ -25,6 +25,9 @@ type Fixtures = {
   salesforceAuth: SalesforceAuthProvider | undefined;
   set: typeof setFn;
   get: typeof getFn;
+  scoped: ScopedStore;
+  workerScoped: ScopedStore;
+  shared: typeof sharedStore;
   systemValues: Record<string, unknown>;
   mail: MailFixture;
   otp: OtpFixture;